@@ -40,6 +40,13 @@ const nextConfig: NextConfig = {
     ];
   },
 
+  // Document uploads send one file per Server Action call (max. 20 MB, see src/lib/documents.ts)
+  experimental: {
+    serverActions: {
+      bodySizeLimit: '21mb',
+    },
+  },
+
   // Image domains (add Appwrite domain when configured)
   images: {
     remotePatterns: [
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/documents/[documentId]/file/route';
+import { COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { getFakeAppwrite, resetFakeAppwrite, setTenantContext } from '@/test/appwrite';
+import { createTestChecklist, createTestDocument, createTestTenant, type TestTenant } from '@/test/fixtures';
+import { type Document } from '@/types/document';
+
+let tenant: TestTenant;
+let document: Document;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  tenant = await createTestTenant();
+
+  const {
+    items: [item],
+  } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+    status: 'active',
+    items: ['yellow'],
+  });
+
+  document = await createTestDocument(tenant.contexts.clientAdmin, item);
+  setTenantContext(tenant.contexts.advisor);
+});
+
+async function getFile(documentId: string, query = '') {
+  const url = `https://mueller.belegboost.de/api/documents/${documentId}/file${query}`;
+  return GET(new NextRequest(url), { params: Promise.resolve({ documentId }) });
+}
+
+describe('GET /api/documents/:documentId/file', () => {
+  it('shows PDFs inline', async () => {
+    const response = await getFile(document.$id);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toMatch(/^inline;/);
+  });
+
+  it.each(['application/xml', 'text/xml', 'text/csv'])('sends %s as attachment', async (mimeType) => {
+    await getFakeAppwrite().databases.updateDocument(DATABASE_ID, COLLECTIONS.documents, document.$id, {
+      mime_type: mimeType,
+    });
+
+    const response = await getFile(document.$id);
+
+    expect(response.headers.get('Content-Type')).toBe(mimeType);
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment;/);
+  });
+
+  it('sends PDFs as attachment on request', async () => {
+    const response = await getFile(document.$id, '?download=1');
+
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment;/);
+  });
+
+  it('sandboxes every response', async () => {
+    for (const response of [await getFile(document.$id), await getFile('missing')]) {
+      expect(response.headers.get('Content-Security-Policy')).toBe('sandbox');
+      expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    }
+  });
+});
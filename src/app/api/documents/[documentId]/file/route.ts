@@ -0,0 +1,166 @@
+/**
+ * Document file for previewing in the browser
+ *
+ * GET /api/documents/:documentId/file -> the file, PDFs and images shown
+ *                                         inline, other types as attachment
+ *   ?download=1   always as attachment
+ *   ?format=jpeg  images converted to JPEG (for TIFF and HEIC, which
+ *                 browsers cannot show)
+ *
+ * Files are streamed through the application rather than linked from
+ * Appwrite: the URL carries no token, only works with a session of the
+ * tenant and is checked against the document policy (same as
+ * listItemDocuments). Range requests are answered, so PDF viewers can load
+ * single pages of large scans. Opening and downloading are recorded in the
+ * audit log.
+ *
+ * Uploads come from clients and are served on the portal's own origin, so
+ * XML or other markup must never be rendered as a page with scripts: only
+ * PDFs and raster images are shown inline, and every response is sandboxed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageFormat } from 'node-appwrite';
+import { BUCKETS, storage, streamFileRange } from '@/lib/server/appwrite';
+import { writeAuditLog } from '@/lib/server/audit';
+import { authorize } from '@/lib/server/auth';
+import { toDocumentResource } from '@/lib/server/documents';
+import { TenantContextError, type TenantContextErrorCode } from '@/lib/server/errors';
+import { getRepositories } from '@/lib/server/repositories';
+import { getTenantContext } from '@/lib/server/tenant';
+
+// Other tenants' and forbidden documents look like missing ones
+const ERROR_STATUS: Partial<Record<TenantContextErrorCode, number>> = {
+  unauthenticated: 401,
+  inactive: 403,
+};
+
+// Longest side of converted images, in pixels
+const CONVERTED_IMAGE_SIZE = 2000;
+
+// Types the browser shows without running anything from the file
+const INLINE_TYPES: readonly string[] = ['application/pdf', 'image/jpeg', 'image/png', 'image/tiff', 'image/heic'];
+
+const PRIVATE_HEADERS = {
+  'Cache-Control': 'private, no-store',
+  'Content-Security-Policy': 'sandbox',
+  'Cross-Origin-Resource-Policy': 'same-origin',
+  'Referrer-Policy': 'no-referrer',
+  'X-Content-Type-Options': 'nosniff',
+};
+
+/**
+ * Parse a single-range header ("bytes=0-1023", "bytes=1024-", "bytes=-500")
+ *
+ * @returns Bytes start to end - 1, null to send the whole file (no or
+ * unsupported header) or 'unsatisfiable'
+ */
+function parseRange(header: string | null, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+  const end = match[1] && match[2] ? Math.min(Number(match[2]) + 1, size) : size;
+
+  return start < end ? { start, end } : 'unsatisfiable';
+}
+
+function getContentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+  return `${type}; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ documentId: string }> }) {
+  const { documentId } = await params;
+  const download = request.nextUrl.searchParams.get('download') === '1';
+  const convert = request.nextUrl.searchParams.get('format') === 'jpeg';
+
+  try {
+    const context = await getTenantContext();
+    const repositories = getRepositories(context);
+    const document = await repositories.documents.get(documentId);
+    const checklist = await repositories.checklists.get(document.checklist_id);
+
+    authorize(context, 'read', toDocumentResource(document, checklist));
+
+    if (convert && !document.mime_type.startsWith('image/')) {
+      return NextResponse.json({ error: 'not_an_image' }, { status: 400, headers: PRIVATE_HEADERS });
+    }
+
+    const range = convert ? null : parseRange(request.headers.get('range'), document.file_size);
+
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...PRIVATE_HEADERS, 'Content-Range': `bytes */${document.file_size}` },
+      });
+    }
+
+    // Viewers fetch large files in many ranges - record only the first one
+    if (!range || range.start === 0) {
+      await writeAuditLog(context, {
+        action: download ? 'download' : 'view',
+        resource_type: 'document',
+        resource_id: document.$id,
+        organization_id: document.organization_id,
+        metadata: { checklist_item_id: document.checklist_item_id, file_name: document.file_name },
+      });
+    }
+
+    if (convert) {
+      const image = await storage.getFilePreview(
+        BUCKETS.documents,
+        document.file_id,
+        CONVERTED_IMAGE_SIZE,
+        CONVERTED_IMAGE_SIZE,
+        undefined,
+        90,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        ImageFormat.Jpg
+      );
+
+      return new NextResponse(image, {
+        headers: {
+          ...PRIVATE_HEADERS,
+          'Content-Type': 'image/jpeg',
+          'Content-Length': String(image.byteLength),
+          'Content-Disposition': getContentDisposition('inline', `${document.file_name}.jpg`),
+        },
+      });
+    }
+
+    const { start, end } = range ?? { start: 0, end: document.file_size };
+
+    return new NextResponse(streamFileRange(BUCKETS.documents, document.file_id, start, end), {
+      status: range ? 206 : 200,
+      headers: {
+        ...PRIVATE_HEADERS,
+        'Content-Type': document.mime_type,
+        'Content-Length': String(end - start),
+        'Content-Disposition': getContentDisposition(
+          download || !INLINE_TYPES.includes(document.mime_type) ? 'attachment' : 'inline',
+          document.file_name
+        ),
+        'Accept-Ranges': 'bytes',
+        ...(range ? { 'Content-Range': `bytes ${start}-${end - 1}/${document.file_size}` } : {}),
+      },
+    });
+  } catch (error) {
+    if (error instanceof TenantContextError) {
+      return NextResponse.json(
+        { error: error.code },
+        { status: ERROR_STATUS[error.code] ?? 404, headers: PRIVATE_HEADERS }
+      );
+    }
+
+    console.error('Serving document file failed', { documentId, error });
+    return NextResponse.json({ error: 'Internal error' }, { status: 500, headers: PRIVATE_HEADERS });
+  }
+}
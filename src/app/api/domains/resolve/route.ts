@@ -0,0 +1,29 @@
+/**
+ * Custom domain lookup for the edge middleware
+ *
+ * GET /api/domains/resolve?host=portal.kanzlei-mueller.de
+ * -> { subdomain: "mueller" } or { subdomain: null }
+ *
+ * Responses are cacheable so the CDN can serve repeated lookups. They are
+ * never served stale: a removed domain stops resolving once the CDN and the
+ * middleware caches expire.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeHostname } from '@/lib/hostname';
+import { getTenantByCustomDomain } from '@/lib/server/tenant-lookup';
+
+const CACHE_CONTROL = 'public, s-maxage=60';
+
+export async function GET(request: NextRequest) {
+  const hostname = normalizeHostname(request.nextUrl.searchParams.get('host') || '');
+
+  if (!hostname) {
+    return NextResponse.json({ subdomain: null }, { status: 400 });
+  }
+
+  const tenant = await getTenantByCustomDomain(hostname);
+  const subdomain = tenant && tenant.status !== 'suspended' ? tenant.subdomain : null;
+
+  return NextResponse.json({ subdomain }, { headers: { 'Cache-Control': CACHE_CONTROL } });
+}
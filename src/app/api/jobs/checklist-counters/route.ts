@@ -0,0 +1,27 @@
+/**
+ * Scheduled repair of checklist item counters
+ *
+ * GET /api/jobs/checklist-counters (Authorization: Bearer $CRON_SECRET)
+ * -> { checked, repaired }
+ *
+ * Recounts total_items / completed_items of every checklist and fixes the
+ * ones that drifted, e.g. after an interrupted delete.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { repairChecklistCounters } from '@/lib/server/checklist-counters';
+import { isCronRequest } from '@/lib/server/cron';
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = await repairChecklistCounters();
+
+  if (result.repaired.length > 0) {
+    console.warn(`Repaired counters of ${result.repaired.length} checklists`, result.repaired);
+  }
+
+  return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,28 @@
+/**
+ * Scheduled text extraction of uploaded documents
+ *
+ * GET /api/jobs/document-extraction (Authorization: Bearer $CRON_SECRET)
+ * -> { processed, failed }
+ *
+ * Extracts the text and receipt fields of the oldest documents waiting
+ * for extraction (see src/lib/server/text-extraction.ts). Meant to run
+ * every few minutes - runs may overlap, each document is claimed by one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/server/cron';
+import { processPendingExtractions } from '@/lib/server/text-extraction';
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = await processPendingExtractions();
+
+  if (result.failed.length > 0) {
+    console.warn(`Extracting the text of ${result.failed.length} documents failed`, result.failed);
+  }
+
+  return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,27 @@
+/**
+ * Scheduled generation of recurring checklists
+ *
+ * GET /api/jobs/recurring-checklists (Authorization: Bearer $CRON_SECRET)
+ * -> { checked, generated, failed }
+ *
+ * Creates the next instance of every recurring checklist whose next period
+ * is about to end. Meant to run daily.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/server/cron';
+import { generateRecurringChecklists } from '@/lib/server/recurring-checklists';
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = await generateRecurringChecklists();
+
+  if (result.failed.length > 0) {
+    console.warn(`Generating ${result.failed.length} recurring checklists failed`, result.failed);
+  }
+
+  return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+}
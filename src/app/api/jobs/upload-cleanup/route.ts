@@ -0,0 +1,27 @@
+/**
+ * Scheduled cleanup of abandoned chunked uploads
+ *
+ * GET /api/jobs/upload-cleanup (Authorization: Bearer $CRON_SECRET)
+ * -> { removed, failed }
+ *
+ * Deletes the partly uploaded files of upload sessions that expired before
+ * they were completed. Meant to run hourly.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/server/cron';
+import { cleanupExpiredUploads } from '@/lib/server/uploads';
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = await cleanupExpiredUploads();
+
+  if (result.failed.length > 0) {
+    console.warn(`Removing ${result.failed.length} expired uploads failed`, result.failed);
+  }
+
+  return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+}
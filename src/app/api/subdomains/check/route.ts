@@ -0,0 +1,40 @@
+/**
+ * Subdomain availability check for the registration form
+ *
+ * GET /api/subdomains/check?subdomain=mueller&name=Steuerkanzlei%20Müller
+ * -> { subdomain, available, reason?, suggestions }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTakenSubdomains } from '@/lib/server/tenant-lookup';
+import { suggestSubdomains, validateSubdomain } from '@/lib/subdomain';
+import { type SubdomainAvailability } from '@/types/tenant';
+
+const MAX_SUGGESTIONS = 3;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const subdomain = (params.get('subdomain') || '').trim().toLowerCase();
+  const firmName = (params.get('name') || '').slice(0, 200);
+
+  const candidates = suggestSubdomains(firmName || subdomain, 10).filter(
+    (candidate) => candidate !== subdomain
+  );
+
+  const validationError = validateSubdomain(subdomain);
+  const taken = await getTakenSubdomains(
+    validationError ? candidates : [subdomain, ...candidates]
+  );
+
+  const reason =
+    validationError ?? (taken.has(subdomain) ? 'Diese Subdomain ist bereits vergeben' : undefined);
+
+  const result: SubdomainAvailability = {
+    subdomain,
+    available: !reason,
+    reason,
+    suggestions: candidates.filter((candidate) => !taken.has(candidate)).slice(0, MAX_SUGGESTIONS),
+  };
+
+  return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+}
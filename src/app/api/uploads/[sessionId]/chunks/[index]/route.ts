@@ -0,0 +1,67 @@
+/**
+ * Chunk of a chunked document upload
+ *
+ * PUT /api/uploads/:sessionId/chunks/:index -> { chunksUploaded }
+ *   body: the chunk's bytes (application/octet-stream)
+ *
+ * Chunks pass through the application instead of going to Appwrite
+ * directly, so every stored file belongs to an open upload session of the
+ * signed-in user and stays within the announced size (see
+ * src/lib/server/uploads.ts). Server Actions cannot take 5 MB bodies,
+ * route handlers can.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { NotFoundError, TenantContextError, type TenantContextErrorCode } from '@/lib/server/errors';
+import { getRepositories } from '@/lib/server/repositories';
+import { getTenantContext } from '@/lib/server/tenant';
+import { storeUploadChunk } from '@/lib/server/uploads';
+import { CHUNK_SIZE } from '@/lib/uploads';
+
+// Other users' sessions look like missing ones
+const ERROR_STATUS: Partial<Record<TenantContextErrorCode, number>> = {
+  unauthenticated: 401,
+  inactive: 403,
+};
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; index: string }> }
+) {
+  const { sessionId, index } = await params;
+  const length = request.headers.get('content-length');
+
+  // Refuse oversized bodies before reading them
+  if (!length) {
+    return NextResponse.json({ error: 'length_required' }, { status: 411 });
+  }
+
+  if (Number(length) > CHUNK_SIZE) {
+    return NextResponse.json({ error: 'chunk_too_large' }, { status: 413 });
+  }
+
+  try {
+    const context = await getTenantContext();
+    const session = await getRepositories(context).uploadSessions.get(sessionId);
+
+    if (session.uploaded_by !== context.userId) {
+      throw new NotFoundError();
+    }
+
+    const chunk = new Uint8Array(await request.arrayBuffer());
+    const result = await storeUploadChunk(session, /^\d+$/.test(index) ? Number(index) : -1, chunk);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ chunksUploaded: result.chunksUploaded });
+  } catch (error) {
+    if (error instanceof TenantContextError) {
+      return NextResponse.json({ error: error.code }, { status: ERROR_STATUS[error.code] ?? 404 });
+    }
+
+    console.error('Storing upload chunk failed', { sessionId, index, error });
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Branded login page of a tenant portal
+ * Branding and header come from the tenant layout.
+ */
+
+import { notFound } from "next/navigation";
+import { LoginForm } from "@/components/auth/login-form";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getSafeRedirectPath } from "@/lib/routes";
+import { getTenantBySubdomain } from "@/lib/server/tenant-lookup";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  link: "Der Anmeldelink ist ungültig oder abgelaufen.",
+  access: "Mit diesem Konto haben Sie keinen Zugang zu diesem Portal.",
+};
+
+export default async function LoginPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ tenant: string }>;
+  searchParams: Promise<{ error?: string; next?: string }>;
+}) {
+  const { tenant: subdomain } = await params;
+  const { error, next } = await searchParams;
+  const tenant = await getTenantBySubdomain(subdomain);
+
+  if (!tenant) {
+    notFound();
+  }
+
+  return (
+    <div className="mx-auto max-w-md">
+      <Card>
+        <CardHeader>
+          <CardTitle>Anmelden</CardTitle>
+          <CardDescription>
+            Willkommen im Mandantenportal von {tenant.name}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoginForm
+            initialError={error ? ERROR_MESSAGES[error] : undefined}
+            next={next ? getSafeRedirectPath(next) ?? undefined : undefined}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Magic URL login callback
+ *
+ * GET /login/verify?userId=...&secret=...
+ * Creates the session, then redirects by role (or back to the login page).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LOGIN_PATH } from '@/lib/routes';
+import { account } from '@/lib/server/appwrite';
+import { establishSession, getRequestTenant, getTenantOrigin } from '@/lib/server/session';
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+  const secret = request.nextUrl.searchParams.get('secret');
+  const tenant = await getRequestTenant().catch(() => null);
+
+  if (!tenant) {
+    return NextResponse.redirect(new URL(`${LOGIN_PATH}?error=link`, request.nextUrl.origin));
+  }
+
+  const origin = await getTenantOrigin(tenant);
+
+  if (!userId || !secret) {
+    return NextResponse.redirect(new URL(`${LOGIN_PATH}?error=link`, origin));
+  }
+
+  try {
+    const session = await account.createSession(userId, secret);
+    const redirectTo = await establishSession(tenant, session);
+
+    return NextResponse.redirect(new URL(redirectTo, origin));
+  } catch {
+    return NextResponse.redirect(new URL(`${LOGIN_PATH}?error=link`, origin));
+  }
+}
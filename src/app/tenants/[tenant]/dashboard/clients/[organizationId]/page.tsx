@@ -0,0 +1,26 @@
+/**
+ * Master data of a client organization
+ */
+
+import { notFound } from "next/navigation";
+import { OrganizationForm } from "@/components/organizations/organization-form";
+import { getOrganization } from "@/lib/server/actions/organizations";
+
+export default async function ClientPage({ params }: { params: Promise<{ organizationId: string }> }) {
+  const { organizationId } = await params;
+  const result = await getOrganization(organizationId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">{result.data.name}</h2>
+        <p className="text-muted-foreground">Stammdaten des Mandanten.</p>
+      </div>
+      <OrganizationForm organization={result.data} />
+    </div>
+  );
+}
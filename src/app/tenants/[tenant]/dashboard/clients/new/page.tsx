@@ -0,0 +1,17 @@
+/**
+ * New client organization
+ */
+
+import { OrganizationForm } from "@/components/organizations/organization-form";
+
+export default function NewClientPage() {
+  return (
+    <div className="max-w-2xl space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">Mandant anlegen</h2>
+        <p className="text-muted-foreground">Stammdaten des neuen Mandanten.</p>
+      </div>
+      <OrganizationForm />
+    </div>
+  );
+}
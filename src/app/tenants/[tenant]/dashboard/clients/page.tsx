@@ -0,0 +1,74 @@
+/**
+ * Client organizations of the tax advisor
+ */
+
+import Link from "next/link";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GERMAN_STATES } from "@/lib/holidays";
+import { listClientOrganizations } from "@/lib/server/actions/organizations";
+
+export default async function ClientsPage() {
+  const result = await listClientOrganizations();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Mandanten</h2>
+          <p className="text-muted-foreground">Stammdaten Ihrer Mandanten.</p>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard/clients/new">Mandant anlegen</Link>
+        </Button>
+      </div>
+      {result.success ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>E-Mail-Adresse</TableHead>
+              <TableHead>Steuernummer</TableHead>
+              <TableHead>USt-IdNr.</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.data.map((organization) => (
+              <TableRow key={organization.$id}>
+                <TableCell className="font-medium">
+                  <Link href={`/dashboard/clients/${organization.$id}`} className="underline-offset-4 hover:underline">
+                    {organization.name}
+                  </Link>
+                </TableCell>
+                <TableCell>{organization.contact_email}</TableCell>
+                <TableCell>
+                  {organization.tax_id && (
+                    <>
+                      {organization.tax_id}
+                      {organization.state && (
+                        <span className="text-muted-foreground"> ({GERMAN_STATES[organization.state]})</span>
+                      )}
+                    </>
+                  )}
+                </TableCell>
+                <TableCell>{organization.vat_id}</TableCell>
+                <TableCell>
+                  <Badge variant={organization.status === "active" ? "outline" : "secondary"}>
+                    {organization.status === "active" ? "Aktiv" : "Inaktiv"}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <Alert variant="destructive">
+          <AlertDescription>{result.error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * Checklist item - its documents with version history, comparison and the
+ * authoritative version
+ */
+
+import { notFound } from "next/navigation";
+import { ChecklistItemDocuments } from "@/components/documents/checklist-item-documents";
+import { getChecklistItemDocuments } from "@/lib/server/actions/documents";
+
+export default async function ChecklistItemPage({ params }: { params: Promise<{ itemId: string }> }) {
+  const { itemId } = await params;
+  const result = await getChecklistItemDocuments(itemId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">{result.data.item.title}</h2>
+        <p className="text-muted-foreground">{result.data.checklist_title}</p>
+      </div>
+      <ChecklistItemDocuments {...result.data} />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Advisor dashboard - access is enforced by the route rules in src/lib/routes.ts
+ */
+
+import { requireRouteAccess } from "@/lib/server/auth";
+
+export default async function DashboardLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requireRouteAccess("/dashboard");
+
+  return children;
+}
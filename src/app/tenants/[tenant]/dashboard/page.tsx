@@ -0,0 +1,25 @@
+/**
+ * Advisor dashboard - landing page for owner and advisor roles
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+export default function DashboardPage() {
+  return (
+    <div className="space-y-6">
+      <h2 className="text-3xl font-bold">Dashboard</h2>
+      <p className="text-muted-foreground">
+        Übersicht über Ihre Mandanten und deren Checklisten.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button asChild variant="outline">
+          <Link href="/dashboard/clients">Mandanten</Link>
+        </Button>
+        <Button asChild variant="outline">
+          <Link href="/dashboard/review">Dokumente prüfen</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
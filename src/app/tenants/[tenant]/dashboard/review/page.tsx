@@ -0,0 +1,29 @@
+/**
+ * Review queue - documents waiting for the advisor, across all clients
+ */
+
+import { ReviewQueue } from "@/components/documents/review-queue";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { listReviewQueue } from "@/lib/server/actions/reviews";
+
+export default async function ReviewQueuePage() {
+  const result = await listReviewQueue();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">Prüfung</h2>
+        <p className="text-muted-foreground">
+          Hochgeladene Dokumente Ihrer Mandanten annehmen oder mit Begründung ablehnen.
+        </p>
+      </div>
+      {result.success ? (
+        <ReviewQueue entries={result.data.entries} total={result.data.total} />
+      ) : (
+        <Alert variant="destructive">
+          <AlertDescription>{result.error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 /**
  * Tenant-specific layout
- * This layout wraps all tenant subdomain pages
+ * This layout wraps all tenant subdomain pages and applies the tenant's branding
  */
 
 import { Geist, Geist_Mono } from "next/font/google";
+import { notFound } from "next/navigation";
+import { TenantHeader } from "@/components/branding/tenant-header";
+import { getBrandingStyle } from "@/lib/branding";
+import { getTenantBySubdomain } from "@/lib/server/tenant-lookup";
 import "@/app/globals.css";
 
 const geistSans = Geist({
@@ -16,26 +20,28 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export default function TenantLayout({
+export default async function TenantLayout({
   children,
   params,
 }: {
   children: React.ReactNode;
-  params: { tenant: string };
+  params: Promise<{ tenant: string }>;
 }) {
+  const { tenant: subdomain } = await params;
+  const tenant = await getTenantBySubdomain(subdomain);
+
+  if (!tenant || tenant.status === "suspended") {
+    notFound();
+  }
+
   return (
     <html lang="de">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+        style={getBrandingStyle(tenant.branding)}
       >
         <div className="min-h-screen">
-          <header className="border-b">
-            <div className="container mx-auto px-4 py-4">
-              <h1 className="text-xl font-bold">
-                {params.tenant} - BelegBoost
-              </h1>
-            </div>
-          </header>
+          <TenantHeader name={tenant.name} logoUrl={tenant.branding?.logoUrl} />
           <main className="container mx-auto px-4 py-8">{children}</main>
         </div>
       </body>
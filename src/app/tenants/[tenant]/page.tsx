@@ -1,43 +1,20 @@
 /**
- * Tenant homepage - will become the dashboard in Phase 2
+ * Tenant start page - sends users to their home page or to the login
  */
 
-export default function TenantHomePage({
-  params,
-}: {
-  params: { tenant: string };
-}) {
-  return (
-    <div className="space-y-6">
-      <h2 className="text-3xl font-bold">
-        Willkommen bei {params.tenant}
-      </h2>
-      <p className="text-muted-foreground">
-        Dies ist die Startseite für den Steuerberater-Bereich.
-        <br />
-        Phase 1: Foundation - Die Multi-Tenant-Architektur ist eingerichtet.
-      </p>
+import { redirect } from "next/navigation";
+import { getHomePath, LOGIN_PATH } from "@/lib/routes";
+import { getTenantContext } from "@/lib/server/tenant";
 
-      <div className="mt-8 grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        <div className="rounded-lg border p-6">
-          <h3 className="font-semibold">Phase 2</h3>
-          <p className="text-sm text-muted-foreground mt-2">
-            Authentication & Multi-Tenancy Core
-          </p>
-        </div>
-        <div className="rounded-lg border p-6">
-          <h3 className="font-semibold">Phase 3</h3>
-          <p className="text-sm text-muted-foreground mt-2">
-            Checklist Management
-          </p>
-        </div>
-        <div className="rounded-lg border p-6">
-          <h3 className="font-semibold">Phase 4</h3>
-          <p className="text-sm text-muted-foreground mt-2">
-            Document Upload & Storage
-          </p>
-        </div>
-      </div>
-    </div>
-  );
+export default async function TenantHomePage() {
+  let homePath = LOGIN_PATH;
+
+  try {
+    const { role } = await getTenantContext();
+    homePath = getHomePath(role);
+  } catch {
+    // Not signed in (or not a member of this tenant) - show the login
+  }
+
+  redirect(homePath);
 }
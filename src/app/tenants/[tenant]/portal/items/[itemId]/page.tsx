@@ -0,0 +1,29 @@
+/**
+ * Checklist item - upload documents and corrected versions
+ */
+
+import { notFound } from "next/navigation";
+import { ChecklistItemDocuments } from "@/components/documents/checklist-item-documents";
+import { getChecklistItemDocuments } from "@/lib/server/actions/documents";
+
+export default async function PortalChecklistItemPage({ params }: { params: Promise<{ itemId: string }> }) {
+  const { itemId } = await params;
+  const result = await getChecklistItemDocuments(itemId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">{result.data.item.title}</h2>
+        <p className="text-muted-foreground">
+          {result.data.checklist_title}
+          {result.data.item.description && ` – ${result.data.item.description}`}
+        </p>
+      </div>
+      <ChecklistItemDocuments {...result.data} />
+    </div>
+  );
+}
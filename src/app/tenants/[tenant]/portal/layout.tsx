@@ -0,0 +1,15 @@
+/**
+ * Client portal - access is enforced by the route rules in src/lib/routes.ts
+ */
+
+import { requireRouteAccess } from "@/lib/server/auth";
+
+export default async function PortalLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requireRouteAccess("/portal");
+
+  return children;
+}
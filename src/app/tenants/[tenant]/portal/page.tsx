@@ -0,0 +1,14 @@
+/**
+ * Client portal - landing page for client_admin and client_employee roles
+ */
+
+export default function PortalPage() {
+  return (
+    <div className="space-y-6">
+      <h2 className="text-3xl font-bold">Mandantenportal</h2>
+      <p className="text-muted-foreground">
+        Ihre offenen Checklisten und angeforderten Unterlagen.
+      </p>
+    </div>
+  );
+}
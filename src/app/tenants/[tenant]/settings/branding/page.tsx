@@ -0,0 +1,29 @@
+/**
+ * Branding settings - tenant owner only
+ */
+
+import { notFound } from "next/navigation";
+import { BrandingForm } from "@/components/branding/branding-form";
+import { requireRole } from "@/lib/server/auth";
+import { getTenantBySubdomain } from "@/lib/server/tenant-lookup";
+
+export default async function BrandingSettingsPage() {
+  const { subdomain } = await requireRole(["owner"]);
+  const tenant = await getTenantBySubdomain(subdomain);
+
+  if (!tenant) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">Branding</h2>
+        <p className="text-muted-foreground">
+          Logo und Farben Ihres Kanzlei-Portals.
+        </p>
+      </div>
+      <BrandingForm tenantName={tenant.name} branding={tenant.branding} />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Tenant settings - access is enforced by the route rules in src/lib/routes.ts
+ */
+
+import { requireRouteAccess } from "@/lib/server/auth";
+
+export default async function SettingsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requireRouteAccess("/settings");
+
+  return children;
+}
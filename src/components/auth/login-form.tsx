@@ -0,0 +1,209 @@
+"use client";
+
+/**
+ * Tenant portal login: email/password, magic link and email code
+ */
+
+import { useState, useTransition } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { FieldGroup } from "@/components/ui/field";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  loginWithPassword,
+  sendEmailOtp,
+  sendMagicLink,
+  verifyEmailOtp,
+} from "@/lib/server/actions/auth";
+
+const OTP_LENGTH = 6;
+
+type Message = { type: "success" | "error"; text: string };
+
+export function LoginForm({
+  initialError,
+  next,
+}: {
+  initialError?: string;
+  next?: string; // Page the user originally requested
+}) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [otpUserId, setOtpUserId] = useState<string | null>(null);
+  const [otpCode, setOtpCode] = useState("");
+  const [message, setMessage] = useState<Message | null>(
+    initialError ? { type: "error", text: initialError } : null
+  );
+  const [isPending, startTransition] = useTransition();
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    startTransition(action);
+  }
+
+  function onPasswordSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    run(async () => {
+      const result = await loginWithPassword({ email, password });
+      if (result.success) {
+        window.location.assign(next ?? result.data.redirectTo);
+      } else {
+        setMessage({ type: "error", text: result.error });
+      }
+    });
+  }
+
+  function onMagicLinkSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    run(async () => {
+      const result = await sendMagicLink({ email });
+      setMessage(
+        result.success
+          ? {
+              type: "success",
+              text: "Falls ein Zugang existiert, haben wir Ihnen einen Anmeldelink geschickt.",
+            }
+          : { type: "error", text: result.error }
+      );
+    });
+  }
+
+  function onOtpRequest(event: React.FormEvent) {
+    event.preventDefault();
+    run(async () => {
+      const result = await sendEmailOtp({ email });
+      if (result.success) {
+        setOtpUserId(result.data.userId);
+        setOtpCode("");
+      } else {
+        setMessage({ type: "error", text: result.error });
+      }
+    });
+  }
+
+  function onOtpVerify(event: React.FormEvent) {
+    event.preventDefault();
+    if (!otpUserId) return;
+
+    run(async () => {
+      const result = await verifyEmailOtp({ userId: otpUserId, code: otpCode });
+      if (result.success) {
+        window.location.assign(next ?? result.data.redirectTo);
+      } else {
+        setMessage({ type: "error", text: result.error });
+      }
+    });
+  }
+
+  const emailField = (id: string) => (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>E-Mail-Adresse</Label>
+      <Input
+        id={id}
+        type="email"
+        autoComplete="email"
+        required
+        value={email}
+        onChange={(event) => setEmail(event.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Tabs defaultValue="password" onValueChange={() => setMessage(null)}>
+        <TabsList className="w-full">
+          <TabsTrigger value="password">Passwort</TabsTrigger>
+          <TabsTrigger value="magic-link">Anmeldelink</TabsTrigger>
+          <TabsTrigger value="otp">Einmalcode</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="password">
+          <form onSubmit={onPasswordSubmit}>
+            <FieldGroup className="pt-4">
+              {emailField("password-email")}
+              <div className="grid gap-2">
+                <Label htmlFor="password">Passwort</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Spinner />}
+                Anmelden
+              </Button>
+            </FieldGroup>
+          </form>
+        </TabsContent>
+
+        <TabsContent value="magic-link">
+          <form onSubmit={onMagicLinkSubmit}>
+            <FieldGroup className="pt-4">
+              {emailField("magic-link-email")}
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Spinner />}
+                Anmeldelink senden
+              </Button>
+            </FieldGroup>
+          </form>
+        </TabsContent>
+
+        <TabsContent value="otp">
+          {otpUserId ? (
+            <form onSubmit={onOtpVerify}>
+              <FieldGroup className="pt-4">
+                <div className="grid gap-2">
+                  <Label>Code aus der E-Mail an {email}</Label>
+                  <InputOTP
+                    maxLength={OTP_LENGTH}
+                    value={otpCode}
+                    onChange={setOtpCode}
+                    autoFocus
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+                <Button type="submit" disabled={isPending || otpCode.length !== OTP_LENGTH}>
+                  {isPending && <Spinner />}
+                  Anmelden
+                </Button>
+                <Button type="button" variant="link" onClick={() => setOtpUserId(null)}>
+                  Andere E-Mail-Adresse verwenden
+                </Button>
+              </FieldGroup>
+            </form>
+          ) : (
+            <form onSubmit={onOtpRequest}>
+              <FieldGroup className="pt-4">
+                {emailField("otp-email")}
+                <Button type="submit" disabled={isPending}>
+                  {isPending && <Spinner />}
+                  Code senden
+                </Button>
+              </FieldGroup>
+            </form>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {message && (
+        <Alert variant={message.type === "error" ? "destructive" : "default"}>
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
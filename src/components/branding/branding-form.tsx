@@ -0,0 +1,221 @@
+"use client";
+
+/**
+ * Branding settings form with live preview
+ */
+
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { TenantHeader } from "@/components/branding/tenant-header";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { FieldGroup } from "@/components/ui/field";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  DEFAULT_BRANDING,
+  getBrandingStyle,
+  getBrandingWarnings,
+  isHexColor,
+} from "@/lib/branding";
+import { zodResolver } from "@/lib/form";
+import { updateTenantBrandingSchema } from "@/lib/schemas/tenant";
+import { updateTenantBranding, uploadTenantLogo } from "@/lib/server/actions/branding";
+import { type TenantBranding, type UpdateTenantBrandingInput } from "@/types/tenant";
+
+type ColorField = "primaryColor" | "secondaryColor";
+
+export function BrandingForm({
+  tenantName,
+  branding,
+}: {
+  tenantName: string;
+  branding?: TenantBranding;
+}) {
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [isSaving, startSaving] = useTransition();
+  const [isUploading, startUploading] = useTransition();
+
+  const form = useForm<UpdateTenantBrandingInput>({
+    resolver: zodResolver(updateTenantBrandingSchema),
+    defaultValues: {
+      logoUrl: branding?.logoUrl,
+      primaryColor: branding?.primaryColor ?? DEFAULT_BRANDING.primaryColor,
+      secondaryColor: branding?.secondaryColor ?? DEFAULT_BRANDING.secondaryColor,
+    },
+  });
+
+  const values = form.watch();
+
+  // Preview only valid colors; invalid input falls back to the defaults
+  const preview: TenantBranding = {
+    logoUrl: values.logoUrl,
+    primaryColor: values.primaryColor && isHexColor(values.primaryColor) ? values.primaryColor : undefined,
+    secondaryColor:
+      values.secondaryColor && isHexColor(values.secondaryColor) ? values.secondaryColor : undefined,
+  };
+  const warnings = getBrandingWarnings(preview);
+
+  function onLogoChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.set("logo", file);
+
+    startUploading(async () => {
+      const result = await uploadTenantLogo(formData);
+
+      if (result.success) {
+        form.setValue("logoUrl", result.data, { shouldDirty: true });
+        setMessage(null);
+      } else {
+        setMessage({ type: "error", text: result.error });
+      }
+    });
+  }
+
+  function onSubmit(input: UpdateTenantBrandingInput) {
+    startSaving(async () => {
+      const result = await updateTenantBranding(input);
+      setMessage(
+        result.success
+          ? { type: "success", text: "Branding gespeichert" }
+          : { type: "error", text: result.error }
+      );
+    });
+  }
+
+  function renderColorField(name: ColorField, label: string) {
+    return (
+      <FormField
+        control={form.control}
+        name={name}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{label}</FormLabel>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                aria-label={`${label} auswählen`}
+                className="h-9 w-12 cursor-pointer rounded-md border"
+                value={field.value && isHexColor(field.value) ? field.value : "#000000"}
+                onChange={(event) => field.onChange(event.target.value)}
+              />
+              <FormControl>
+                <Input className="font-mono" {...field} value={field.value ?? ""} />
+              </FormControl>
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    );
+  }
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} noValidate>
+          <FieldGroup>
+            <FormItem>
+              <FormLabel>Logo</FormLabel>
+              <div className="flex items-center gap-2">
+                <Input type="file" accept="image/png,image/jpeg,image/webp" onChange={onLogoChange} />
+                {isUploading && <Spinner />}
+                {values.logoUrl && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => form.setValue("logoUrl", undefined, { shouldDirty: true })}
+                  >
+                    Entfernen
+                  </Button>
+                )}
+              </div>
+              <FormDescription>PNG, JPEG oder WebP, höchstens 1 MB.</FormDescription>
+            </FormItem>
+
+            {renderColorField("primaryColor", "Primärfarbe")}
+            {renderColorField("secondaryColor", "Sekundärfarbe")}
+
+            {message && (
+              <Alert variant={message.type === "error" ? "destructive" : "default"}>
+                <AlertDescription>{message.text}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isSaving || isUploading}>
+                {isSaving && <Spinner />}
+                Speichern
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  form.reset({
+                    logoUrl: values.logoUrl,
+                    primaryColor: DEFAULT_BRANDING.primaryColor,
+                    secondaryColor: DEFAULT_BRANDING.secondaryColor,
+                  })
+                }
+              >
+                Standardfarben
+              </Button>
+            </div>
+          </FieldGroup>
+        </form>
+      </Form>
+
+      <div className="space-y-4">
+        <h3 className="font-semibold">Vorschau</h3>
+        <div className="overflow-hidden rounded-lg border" style={getBrandingStyle(preview)}>
+          <TenantHeader name={tenantName} logoUrl={preview.logoUrl} />
+          <div className="space-y-4 bg-background p-6">
+            <p className="text-sm text-muted-foreground">
+              So sehen Ihre Mandanten das Portal.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button type="button">Anmelden</Button>
+              <Button type="button" variant="secondary">
+                Abbrechen
+              </Button>
+              <Button type="button" variant="link">
+                Passwort vergessen?
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Badge>Aktiv</Badge>
+              <Badge variant="secondary">Entwurf</Badge>
+            </div>
+          </div>
+        </div>
+
+        {warnings.length > 0 && (
+          <Alert>
+            <AlertTitle>Kontrast prüfen</AlertTitle>
+            <AlertDescription>
+              <ul className="list-inside list-disc">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * Tenant portal header with logo and firm name
+ * Used by the tenant layout and the branding preview.
+ */
+
+import Image from "next/image";
+
+export function TenantHeader({
+  name,
+  logoUrl,
+}: {
+  name: string;
+  logoUrl?: string;
+}) {
+  return (
+    <header className="border-b bg-secondary text-secondary-foreground">
+      <div className="container mx-auto flex items-center gap-3 px-4 py-4">
+        {logoUrl && (
+          <Image
+            src={logoUrl}
+            alt={`${name} Logo`}
+            width={160}
+            height={40}
+            className="h-10 w-auto object-contain"
+            unoptimized
+          />
+        )}
+        <h1 className="text-xl font-bold">{name}</h1>
+      </div>
+    </header>
+  );
+}
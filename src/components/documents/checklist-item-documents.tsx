@@ -0,0 +1,69 @@
+"use client";
+
+/**
+ * Documents of a checklist item
+ *
+ * Each document shows its version history (see DocumentVersions), new
+ * documents are added below. After an upload the page is reloaded from the
+ * server, so every document shows its current versions.
+ */
+
+import { useRouter } from "next/navigation";
+import { DocumentUpload } from "@/components/documents/document-upload";
+import { DocumentVersions } from "@/components/documents/document-versions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Empty, EmptyDescription, EmptyHeader, EmptyTitle } from "@/components/ui/empty";
+import { MAX_DOCUMENTS_PER_ITEM } from "@/lib/documents";
+import { type ChecklistItemDocuments as ChecklistItemDocumentsData } from "@/types/document";
+
+export function ChecklistItemDocuments({
+  item,
+  documents,
+  can_upload: canUpload,
+  can_review: canReview,
+}: ChecklistItemDocumentsData) {
+  const router = useRouter();
+  const documentCount = documents.reduce((count, versions) => count + versions.length, 0);
+
+  return (
+    <div className="space-y-6">
+      {documents.length === 0 ? (
+        <Empty>
+          <EmptyHeader>
+            <EmptyTitle>Noch keine Dokumente</EmptyTitle>
+            <EmptyDescription>Zu diesem Punkt wurde noch nichts hochgeladen.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        documents.map((versions) => (
+          <Card key={versions[0].document.$id}>
+            <CardHeader>
+              <CardTitle>{versions[0].document.file_name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DocumentVersions
+                versions={versions}
+                canReview={canReview}
+                canUpload={canUpload && documentCount < MAX_DOCUMENTS_PER_ITEM}
+              />
+            </CardContent>
+          </Card>
+        ))
+      )}
+      {canUpload && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Neues Dokument</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DocumentUpload
+              checklistItemId={item.$id}
+              documentCount={documentCount}
+              onUploaded={() => router.refresh()}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
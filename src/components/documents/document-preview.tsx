@@ -0,0 +1,306 @@
+"use client";
+
+/**
+ * Preview pane for a document
+ *
+ * Opens as a sheet next to the list it was opened from. PDFs are shown page
+ * by page in the browser's PDF viewer, images can be zoomed and rotated;
+ * the file details and the receipt fields detected in the document sit in
+ * a resizable side panel. Files are loaded from the authenticated file
+ * route (see getDocumentFileUrl), never from storage directly.
+ */
+
+import { useEffect, useState, useTransition } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  CONVERTED_PREVIEW_TYPES,
+  DOCUMENT_STATUS_LABELS,
+  formatDateTime,
+  formatFileSize,
+  getDocumentFileUrl,
+  getDocumentVersion,
+} from "@/lib/documents";
+import { formatIban } from "@/lib/iban";
+import { INVOICE_REQUIREMENT_LABELS } from "@/lib/invoice-requirements";
+import { formatAmount } from "@/lib/receipt-fields";
+import { getDocumentPreview } from "@/lib/server/actions/documents";
+import { type Document, type DocumentPreview } from "@/types/document";
+
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4];
+
+function PdfViewer({ document, pageCount }: { document: Document; pageCount: number | null }) {
+  const [page, setPage] = useState(1);
+  const url = getDocumentFileUrl(document.$id);
+
+  // Without a page count the viewer gets its own navigation
+  if (pageCount === null) {
+    return <iframe src={url} title={document.file_name} className="h-full w-full" />;
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-center gap-2 border-b p-2 text-sm">
+        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+          Vorherige Seite
+        </Button>
+        <span>
+          Seite {page} von {pageCount}
+        </span>
+        <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+          Nächste Seite
+        </Button>
+      </div>
+      {/* A new frame per page - viewers ignore changes of the #page fragment */}
+      <iframe
+        key={page}
+        src={`${url}#page=${page}&toolbar=0&navpanes=0&view=FitH`}
+        title={`${document.file_name}, Seite ${page}`}
+        className="min-h-0 flex-1"
+      />
+    </div>
+  );
+}
+
+function ImageViewer({ document }: { document: Document }) {
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const zoomIndex = ZOOM_STEPS.indexOf(zoom);
+  const url = getDocumentFileUrl(document.$id, {
+    format: CONVERTED_PREVIEW_TYPES.includes(document.mime_type) ? "jpeg" : undefined,
+  });
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-center gap-2 border-b p-2 text-sm">
+        <Button
+          variant="outline"
+          size="sm"
+          aria-label="Verkleinern"
+          disabled={zoomIndex <= 0}
+          onClick={() => setZoom(ZOOM_STEPS[zoomIndex - 1])}
+        >
+          −
+        </Button>
+        <span className="w-12 text-center">{Math.round(zoom * 100)} %</span>
+        <Button
+          variant="outline"
+          size="sm"
+          aria-label="Vergrößern"
+          disabled={zoomIndex >= ZOOM_STEPS.length - 1}
+          onClick={() => setZoom(ZOOM_STEPS[zoomIndex + 1])}
+        >
+          +
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setRotation((rotation + 90) % 360)}>
+          Drehen
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setZoom(1);
+            setRotation(0);
+          }}
+        >
+          Zurücksetzen
+        </Button>
+      </div>
+      <div className="flex min-h-0 flex-1 items-center justify-center overflow-auto p-4">
+        {/* eslint-disable-next-line @next/next/no-img-element -- served by our own authenticated route */}
+        <img
+          src={url}
+          alt={document.file_name}
+          className="max-h-full max-w-full object-contain transition-transform"
+          style={{ transform: `rotate(${rotation}deg) scale(${zoom})` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Receipt fields detected in the extracted text (see text-extraction.ts)
+ */
+function getReceiptDetails(document: Document): [string, string][] {
+  const formatDate = (date?: string | null) =>
+    date ? new Date(date).toLocaleDateString("de-DE", { timeZone: "UTC" }) : null;
+  const formatCents = (cents?: number | null) => (typeof cents === "number" ? formatAmount(cents) : null);
+
+  const details: [string, string | null][] = [
+    ["Rechnungsnummer", document.receipt_invoice_number ?? null],
+    ["Belegdatum", formatDate(document.receipt_date)],
+    ["Leistungsdatum", formatDate(document.receipt_service_date)],
+    ["Nettobetrag", formatCents(document.receipt_net_amount)],
+    [
+      "Umsatzsteuersatz",
+      typeof document.receipt_vat_rate === "number" ? `${document.receipt_vat_rate.toLocaleString("de-DE")} %` : null,
+    ],
+    ["Umsatzsteuer", formatCents(document.receipt_vat_amount)],
+    ["Bruttobetrag", formatCents(document.receipt_gross_amount)],
+    ["USt-IdNr.", document.receipt_vat_id ?? null],
+    ["Steuernummer", document.receipt_tax_number ?? null],
+    ["IBAN", document.receipt_iban ? formatIban(document.receipt_iban) : null],
+  ];
+
+  return details.filter((detail): detail is [string, string] => detail[1] !== null);
+}
+
+function PreviewDetails({ preview }: { preview: DocumentPreview }) {
+  const { document } = preview;
+  const details: [string, string][] = [
+    ["Checkliste", preview.checklist_title],
+    ["Punkt", preview.item_title],
+    ["Dateityp", document.mime_type],
+    ["Größe", formatFileSize(document.file_size)],
+  ];
+
+  if (preview.page_count !== null) {
+    details.push(["Seiten", String(preview.page_count)]);
+  }
+
+  if (preview.image_size) {
+    details.push(["Abmessungen", `${preview.image_size.width} × ${preview.image_size.height} px`]);
+  }
+
+  details.push(
+    ["Version", String(getDocumentVersion(document))],
+    ["Status", DOCUMENT_STATUS_LABELS[document.status]],
+    ["Hochgeladen von", preview.uploader_name ?? "Kanzlei"],
+    ["Hochgeladen am", formatDateTime(document.$createdAt)],
+    ["Prüfsumme (MD5)", preview.checksum]
+  );
+
+  const receiptDetails = getReceiptDetails(document);
+
+  return (
+    <div className="h-full space-y-4 overflow-auto p-4">
+      {!!document.missing_invoice_requirements?.length && (
+        <Alert variant="destructive">
+          <AlertTitle>Pflichtangaben fehlen</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {document.missing_invoice_requirements.map((requirement) => (
+                <li key={requirement}>{INVOICE_REQUIREMENT_LABELS[requirement]}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      <dl className="space-y-3 text-sm">
+        {details.map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="break-all">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {receiptDetails.length > 0 && (
+        <div className="space-y-3 border-t pt-4">
+          <h3 className="text-sm font-medium">Erkannte Angaben</h3>
+          <dl className="space-y-3 text-sm">
+            {receiptDetails.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="text-muted-foreground text-xs">Automatisch aus dem Beleg gelesen, bitte prüfen.</p>
+        </div>
+      )}
+      <Button asChild variant="outline" className="w-full">
+        <a href={getDocumentFileUrl(document.$id, { download: true })}>Herunterladen</a>
+      </Button>
+    </div>
+  );
+}
+
+function PreviewViewer({ preview }: { preview: DocumentPreview }) {
+  const { document } = preview;
+
+  if (document.mime_type === "application/pdf") {
+    return <PdfViewer document={document} pageCount={preview.page_count} />;
+  }
+
+  if (document.mime_type.startsWith("image/")) {
+    return <ImageViewer document={document} />;
+  }
+
+  return (
+    <div className="text-muted-foreground flex h-full items-center justify-center p-4 text-sm">
+      Für diesen Dateityp gibt es keine Vorschau. Bitte die Datei herunterladen.
+    </div>
+  );
+}
+
+export function DocumentPreviewSheet({
+  documentId,
+  onOpenChange,
+}: {
+  /**
+   * Document to preview - null closes the sheet
+   */
+  documentId: string | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [preview, setPreview] = useState<DocumentPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, startLoading] = useTransition();
+
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+
+    if (!documentId) {
+      return;
+    }
+
+    startLoading(async () => {
+      const result = await getDocumentPreview(documentId);
+
+      if (result.success) {
+        setPreview(result.data);
+      } else {
+        setError(result.error);
+      }
+    });
+  }, [documentId]);
+
+  return (
+    <Sheet open={documentId !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full gap-0 sm:max-w-6xl">
+        <SheetHeader className="border-b">
+          <SheetTitle className="truncate pr-8">{preview?.document.file_name ?? "Vorschau"}</SheetTitle>
+          <SheetDescription>
+            {preview ? `${preview.checklist_title} · ${preview.item_title}` : "Dokument wird geladen"}
+          </SheetDescription>
+        </SheetHeader>
+        {isLoading && (
+          <div className="flex flex-1 items-center justify-center">
+            <Spinner />
+          </div>
+        )}
+        {error && (
+          <Alert variant="destructive" className="m-4 w-auto">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {preview && (
+          <ResizablePanelGroup direction="horizontal" className="min-h-0 flex-1">
+            <ResizablePanel defaultSize={72} minSize={40}>
+              <PreviewViewer preview={preview} />
+            </ResizablePanel>
+            <ResizableHandle withHandle />
+            <ResizablePanel defaultSize={28} minSize={20}>
+              <PreviewDetails preview={preview} />
+            </ResizablePanel>
+          </ResizablePanelGroup>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
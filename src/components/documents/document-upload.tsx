@@ -0,0 +1,219 @@
+"use client";
+
+/**
+ * Document upload for a checklist item
+ *
+ * Files are checked in the browser first and then uploaded one after the
+ * other in chunks, directly to storage (see src/lib/client/resumable-upload.ts).
+ * Each file shows its progress and can be paused, resumed or cancelled; an
+ * interrupted upload continues where it stopped, also after a reload when
+ * the same file is picked again.
+ *
+ * With replacesDocumentId, a single file is uploaded as a new version of
+ * that document.
+ */
+
+import { useRef, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  createResumableUpload,
+  type ResumableUpload,
+  type ResumableUploadProgress,
+} from "@/lib/client/resumable-upload";
+import {
+  CHUNKED_DOCUMENT_MAX_BYTES,
+  DOCUMENT_ACCEPT,
+  formatFileSize,
+  MAX_DOCUMENTS_PER_ITEM,
+  validateDocumentFile,
+} from "@/lib/documents";
+import { MAX_UPLOAD_RETRIES } from "@/lib/uploads";
+import { type Document } from "@/types/document";
+
+interface UploadEntry {
+  key: string;
+  file: File;
+  progress: ResumableUploadProgress;
+}
+
+function getStatusText({ state, uploadedBytes, totalBytes, attempt, error }: ResumableUploadProgress): string {
+  switch (state) {
+    case "idle":
+      return "Wartet";
+    case "retrying":
+      return `Verbindung unterbrochen, neuer Versuch (${attempt} von ${MAX_UPLOAD_RETRIES})`;
+    case "paused":
+      return `Pausiert bei ${formatFileSize(uploadedBytes)} von ${formatFileSize(totalBytes)}`;
+    case "failed":
+      return error ?? "Hochladen fehlgeschlagen";
+    case "cancelled":
+      return "Abgebrochen";
+    case "completed":
+      return "Hochgeladen";
+    default:
+      return `${formatFileSize(uploadedBytes)} von ${formatFileSize(totalBytes)}`;
+  }
+}
+
+export function DocumentUpload({
+  checklistItemId,
+  replacesDocumentId,
+  documentCount = 0,
+  onUploaded,
+}: {
+  checklistItemId: string;
+  replacesDocumentId?: string;
+  documentCount?: number;
+  onUploaded?: (documents: Document[]) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const uploads = useRef(new Map<string, ResumableUpload>());
+  const [entries, setEntries] = useState<UploadEntry[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function updateEntry(key: string, progress: ResumableUploadProgress) {
+    setEntries((current) => current.map((entry) => (entry.key === key ? { ...entry, progress } : entry)));
+  }
+
+  function removeEntry(key: string) {
+    uploads.current.delete(key);
+    setEntries((current) => current.filter((entry) => entry.key !== key));
+  }
+
+  async function runUpload(key: string) {
+    const document = await uploads.current.get(key)?.start();
+
+    if (document) {
+      removeEntry(key);
+      onUploaded?.([document]);
+    }
+  }
+
+  async function cancelUpload(key: string) {
+    await uploads.current.get(key)?.cancel();
+    removeEntry(key);
+  }
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const files = Array.from(inputRef.current?.files ?? []);
+
+    if (files.length === 0) {
+      setErrors(["Bitte eine Datei auswählen"]);
+      return;
+    }
+
+    if (replacesDocumentId && entries.length + files.length > 1) {
+      setErrors(["Bitte nur eine Datei als neue Version hochladen"]);
+      return;
+    }
+
+    if (documentCount + entries.length + files.length > MAX_DOCUMENTS_PER_ITEM) {
+      setErrors([`Höchstens ${MAX_DOCUMENTS_PER_ITEM} Dokumente pro Punkt`]);
+      return;
+    }
+
+    const invalid = files
+      .map((file) => validateDocumentFile(file, CHUNKED_DOCUMENT_MAX_BYTES))
+      .filter((error): error is string => error !== null);
+
+    if (invalid.length > 0) {
+      setErrors(invalid);
+      return;
+    }
+
+    setErrors([]);
+
+    const added = files.map((file, index): UploadEntry => {
+      const key = `${Date.now()}-${index}-${file.name}`;
+
+      uploads.current.set(
+        key,
+        createResumableUpload({
+          checklistItemId,
+          file,
+          replacesDocumentId,
+          onProgress: (progress) => updateEntry(key, progress),
+        })
+      );
+
+      return { key, file, progress: { state: "idle", uploadedBytes: 0, totalBytes: file.size } };
+    });
+
+    setEntries((current) => [...current, ...added]);
+
+    if (inputRef.current) {
+      inputRef.current.value = "";
+    }
+
+    for (const entry of added) {
+      await runUpload(entry.key);
+    }
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-3" noValidate>
+      <div className="flex items-center gap-2">
+        <Input ref={inputRef} type="file" name="files" accept={DOCUMENT_ACCEPT} multiple={!replacesDocumentId} />
+        <Button type="submit">{replacesDocumentId ? "Neue Version hochladen" : "Hochladen"}</Button>
+      </div>
+      <p className="text-muted-foreground text-sm">
+        PDF, Bilder, E-Rechnungen (XML), CSV, Excel oder Word, höchstens {formatFileSize(CHUNKED_DOCUMENT_MAX_BYTES)}{" "}
+        pro Datei.
+      </p>
+      {entries.length > 0 && (
+        <ul className="space-y-3">
+          {entries.map(({ key, file, progress }) => {
+            const isActive = progress.state === "uploading" || progress.state === "retrying";
+            const canResume = progress.state === "paused" || progress.state === "failed";
+
+            return (
+              <li key={key} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate font-medium">{file.name}</span>
+                  <div className="flex shrink-0 gap-1">
+                    {isActive && (
+                      <Button type="button" variant="outline" size="sm" onClick={() => uploads.current.get(key)?.pause()}>
+                        Pausieren
+                      </Button>
+                    )}
+                    {canResume && (
+                      <Button type="button" variant="outline" size="sm" onClick={() => runUpload(key)}>
+                        Fortsetzen
+                      </Button>
+                    )}
+                    <Button type="button" variant="ghost" size="sm" onClick={() => cancelUpload(key)}>
+                      Abbrechen
+                    </Button>
+                  </div>
+                </div>
+                <Progress value={(progress.uploadedBytes / progress.totalBytes) * 100} />
+                <p
+                  className={
+                    progress.state === "failed" ? "text-destructive text-sm" : "text-muted-foreground text-sm"
+                  }
+                >
+                  {getStatusText(progress)}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+/**
+ * Version history of a document
+ *
+ * Lists every version with uploader and upload time, shows two versions
+ * side by side and lets the advisor mark the authoritative one. Clients can
+ * upload a corrected file as the next version; earlier versions are kept.
+ */
+
+import { useState, useTransition } from "react";
+import { DocumentUpload } from "@/components/documents/document-upload";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  CONVERTED_PREVIEW_TYPES,
+  DOCUMENT_STATUS_LABELS,
+  formatDateTime,
+  formatFileSize,
+  getDocumentFileUrl,
+  getDocumentVersion,
+} from "@/lib/documents";
+import { listDocumentVersions } from "@/lib/server/actions/documents";
+import { setAuthoritativeVersion } from "@/lib/server/actions/reviews";
+import { type Document, type DocumentVersion } from "@/types/document";
+
+function canPreview(document: Document): boolean {
+  return document.mime_type === "application/pdf" || document.mime_type.startsWith("image/");
+}
+
+function VersionPreview({ version }: { version: DocumentVersion }) {
+  const { document } = version;
+  const url = getDocumentFileUrl(document.$id);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="border-b px-3 py-2 text-sm">
+        <span className="font-medium">Version {getDocumentVersion(document)}</span>
+        <span className="text-muted-foreground">
+          {" "}
+          · {version.uploader_name ?? "Kanzlei"} · {formatDateTime(document.$createdAt)}
+        </span>
+      </div>
+      {canPreview(document) ? (
+        document.mime_type === "application/pdf" ? (
+          <iframe src={url} title={document.file_name} className="min-h-0 flex-1" />
+        ) : (
+          // eslint-disable-next-line @next/next/no-img-element -- served by our own authenticated route
+          <img
+            src={getDocumentFileUrl(document.$id, {
+              format: CONVERTED_PREVIEW_TYPES.includes(document.mime_type) ? "jpeg" : undefined,
+            })}
+            alt={document.file_name}
+            className="min-h-0 flex-1 object-contain"
+          />
+        )
+      ) : (
+        <div className="text-muted-foreground flex flex-1 flex-col items-center justify-center gap-2 p-4 text-sm">
+          Für diesen Dateityp gibt es keine Vorschau.
+          <Button asChild variant="outline" size="sm">
+            <a href={url} target="_blank" rel="noreferrer">
+              {document.file_name} öffnen
+            </a>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VersionSelect({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: DocumentVersion[];
+  value: string;
+  onChange: (documentId: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-56">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(({ document }) => (
+          <SelectItem key={document.$id} value={document.$id}>
+            Version {getDocumentVersion(document)} – {document.file_name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function DocumentVersions({
+  versions: initialVersions,
+  canReview = false,
+  canUpload = false,
+}: {
+  /**
+   * Versions of the document, newest first (see listDocumentVersions)
+   */
+  versions: DocumentVersion[];
+  canReview?: boolean;
+  canUpload?: boolean;
+}) {
+  const [versions, setVersions] = useState(initialVersions);
+  const [compared, setCompared] = useState<[string, string] | null>(
+    initialVersions.length > 1 ? [initialVersions[1].document.$id, initialVersions[0].document.$id] : null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [, startTransition] = useTransition();
+  const latest = versions[0]?.document;
+
+  function findVersion(documentId: string) {
+    return versions.find((version) => version.document.$id === documentId);
+  }
+
+  function onMarkAuthoritative(document: Document) {
+    setPendingId(document.$id);
+
+    startTransition(async () => {
+      const result = await setAuthoritativeVersion(document.$id);
+
+      if (result.success) {
+        setError(null);
+        setVersions((current) =>
+          current.map((version) => ({
+            ...version,
+            document: { ...version.document, is_authoritative: version.document.$id === document.$id },
+          }))
+        );
+      } else {
+        setError(result.error);
+      }
+
+      setPendingId(null);
+    });
+  }
+
+  function onUploaded([uploaded]: Document[]) {
+    startTransition(async () => {
+      const result = await listDocumentVersions(uploaded.$id);
+
+      if (result.success) {
+        setVersions(result.data);
+        setCompared(result.data.length > 1 ? [result.data[1].document.$id, result.data[0].document.$id] : null);
+      } else {
+        setError(result.error);
+      }
+    });
+  }
+
+  if (!latest) {
+    return null;
+  }
+
+  const left = compared && findVersion(compared[0]);
+  const right = compared && findVersion(compared[1]);
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Version</TableHead>
+            <TableHead>Datei</TableHead>
+            <TableHead>Hochgeladen von</TableHead>
+            <TableHead>Hochgeladen am</TableHead>
+            <TableHead>Status</TableHead>
+            {canReview && <TableHead className="text-right">Maßgeblich</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {versions.map(({ document, uploader_name }) => (
+            <TableRow key={document.$id}>
+              <TableCell className="font-medium">{getDocumentVersion(document)}</TableCell>
+              <TableCell className="whitespace-normal">
+                <div className="flex items-center gap-2">
+                  <span>{document.file_name}</span>
+                  <Badge variant="outline">{formatFileSize(document.file_size)}</Badge>
+                  {document.is_authoritative && <Badge>Maßgeblich</Badge>}
+                </div>
+              </TableCell>
+              <TableCell>{uploader_name ?? "Kanzlei"}</TableCell>
+              <TableCell>{formatDateTime(document.$createdAt)}</TableCell>
+              <TableCell>{DOCUMENT_STATUS_LABELS[document.status]}</TableCell>
+              {canReview && (
+                <TableCell className="text-right">
+                  {!document.is_authoritative && document.status !== "rejected" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={pendingId === document.$id}
+                      onClick={() => onMarkAuthoritative(document)}
+                    >
+                      {pendingId === document.$id && <Spinner />}
+                      Als maßgeblich markieren
+                    </Button>
+                  )}
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {compared && left && right && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Vergleichen:</span>
+            <VersionSelect
+              versions={versions}
+              value={compared[0]}
+              onChange={(documentId) => setCompared([documentId, compared[1]])}
+            />
+            <span>mit</span>
+            <VersionSelect
+              versions={versions}
+              value={compared[1]}
+              onChange={(documentId) => setCompared([compared[0], documentId])}
+            />
+          </div>
+          <ResizablePanelGroup direction="horizontal" className="min-h-[600px] rounded-md border">
+            <ResizablePanel defaultSize={50} minSize={20}>
+              <VersionPreview version={left} />
+            </ResizablePanel>
+            <ResizableHandle withHandle />
+            <ResizablePanel defaultSize={50} minSize={20}>
+              <VersionPreview version={right} />
+            </ResizablePanel>
+          </ResizablePanelGroup>
+        </div>
+      )}
+      {canUpload && (
+        <DocumentUpload
+          checklistItemId={latest.checklist_item_id}
+          replacesDocumentId={latest.$id}
+          onUploaded={onUploaded}
+        />
+      )}
+    </div>
+  );
+}
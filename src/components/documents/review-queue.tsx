@@ -0,0 +1,299 @@
+"use client";
+
+/**
+ * Review queue - accept or reject uploaded documents across all clients
+ *
+ * Reviewed documents leave the queue right away. Earlier rejected
+ * documents of the same item are listed with their reasons, so the advisor
+ * sees what was wrong before. Invoices that lack mandatory elements
+ * (§ 14 Abs. 4 UStG) are flagged. Clicking a file name opens its preview.
+ */
+
+import Link from "next/link";
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { DocumentPreviewSheet } from "@/components/documents/document-preview";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Empty, EmptyDescription, EmptyHeader, EmptyTitle } from "@/components/ui/empty";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { DOCUMENT_REJECTION_REASONS, formatDateTime, formatFileSize, getDocumentVersion } from "@/lib/documents";
+import { zodResolver } from "@/lib/form";
+import { INVOICE_REQUIREMENT_LABELS } from "@/lib/invoice-requirements";
+import { rejectDocumentSchema } from "@/lib/schemas/document";
+import { acceptDocument, rejectDocument } from "@/lib/server/actions/reviews";
+import { type Document, type RejectDocumentInput, type ReviewQueueEntry } from "@/types/document";
+
+function RejectDialog({
+  document,
+  onOpenChange,
+  onRejected,
+}: {
+  document: Document | null;
+  onOpenChange: (open: boolean) => void;
+  onRejected: (document: Document) => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+  const [isRejecting, startRejecting] = useTransition();
+
+  const form = useForm<RejectDocumentInput>({
+    resolver: zodResolver(rejectDocumentSchema),
+    values: { $id: document?.$id ?? "", reason: "illegible", note: "" },
+  });
+
+  function onSubmit(values: RejectDocumentInput) {
+    startRejecting(async () => {
+      const result = await rejectDocument(values);
+
+      if (result.success) {
+        setError(null);
+        onRejected(result.data);
+      } else {
+        setError(result.error);
+      }
+    });
+  }
+
+  return (
+    <Dialog open={document !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Dokument ablehnen</DialogTitle>
+          <DialogDescription>
+            Der Mandant erhält den Grund per E-Mail und kann ein neues Dokument hochladen.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" noValidate>
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Grund</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(DOCUMENT_REJECTION_REASONS).map(([reason, label]) => (
+                        <SelectItem key={reason} value={reason}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Hinweis an den Mandanten</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} placeholder="z. B. Bitte die Seiten 2 und 3 nachreichen" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Abbrechen
+              </Button>
+              <Button type="submit" variant="destructive" disabled={isRejecting}>
+                {isRejecting && <Spinner />}
+                Ablehnen
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RejectionHistory({ history }: { history: Document[] }) {
+  const rejected = history.filter((document) => document.status === "rejected");
+
+  if (rejected.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="text-muted-foreground mt-1 space-y-0.5 text-xs">
+      {rejected.map((document) => (
+        <li key={document.$id}>
+          Abgelehnt{document.reviewed_at && ` am ${formatDateTime(document.reviewed_at)}`}: {document.file_name} –{" "}
+          {document.rejection_reason ? DOCUMENT_REJECTION_REASONS[document.rejection_reason] : "ohne Grund"}
+          {document.review_note && ` („${document.review_note}“)`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function MissingInvoiceRequirements({ document }: { document: Document }) {
+  if (!document.missing_invoice_requirements?.length) {
+    return null;
+  }
+
+  return (
+    <p className="text-destructive mt-1 text-xs">
+      Pflichtangaben fehlen:{" "}
+      {document.missing_invoice_requirements.map((requirement) => INVOICE_REQUIREMENT_LABELS[requirement]).join(", ")}
+    </p>
+  );
+}
+
+export function ReviewQueue({ entries: initialEntries, total }: { entries: ReviewQueueEntry[]; total: number }) {
+  const [entries, setEntries] = useState(initialEntries);
+  const [rejecting, setRejecting] = useState<Document | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [, startAccepting] = useTransition();
+  const reviewed = initialEntries.length - entries.length;
+
+  function removeEntry(documentId: string) {
+    setEntries((current) => current.filter((entry) => entry.document.$id !== documentId));
+  }
+
+  function onAccept(document: Document) {
+    setPendingId(document.$id);
+
+    startAccepting(async () => {
+      const result = await acceptDocument(document.$id);
+
+      if (result.success) {
+        setError(null);
+        removeEntry(document.$id);
+      } else {
+        setError(`${document.file_name}: ${result.error}`);
+      }
+
+      setPendingId(null);
+    });
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Empty>
+        <EmptyHeader>
+          <EmptyTitle>Alles geprüft</EmptyTitle>
+          <EmptyDescription>Es warten keine Dokumente auf Ihre Prüfung.</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        {total - reviewed > entries.length
+          ? `Die ${entries.length} ältesten von ${total - reviewed} Dokumenten`
+          : `${entries.length} Dokumente`}{" "}
+        warten auf Ihre Prüfung.
+      </p>
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Mandant</TableHead>
+            <TableHead>Checkliste / Punkt</TableHead>
+            <TableHead>Dokument</TableHead>
+            <TableHead>Hochgeladen</TableHead>
+            <TableHead className="text-right">Prüfung</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map(({ document, organization_name, checklist_title, item_title, history }) => (
+            <TableRow key={document.$id}>
+              <TableCell className="font-medium">{organization_name}</TableCell>
+              <TableCell>
+                <div>{checklist_title}</div>
+                <Link
+                  href={`/dashboard/items/${document.checklist_item_id}`}
+                  className="text-muted-foreground text-sm underline-offset-4 hover:underline"
+                >
+                  {item_title}
+                </Link>
+              </TableCell>
+              <TableCell className="whitespace-normal">
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    className="text-left underline-offset-4 hover:underline"
+                    onClick={() => setPreviewId(document.$id)}
+                  >
+                    {document.file_name}
+                  </button>
+                  <Badge variant="outline">{formatFileSize(document.file_size)}</Badge>
+                  {getDocumentVersion(document) > 1 && (
+                    <Badge variant="secondary">Version {getDocumentVersion(document)}</Badge>
+                  )}
+                  {history.some((earlier) => earlier.status === "rejected") && (
+                    <Badge variant="secondary">Erneut eingereicht</Badge>
+                  )}
+                  {!!document.missing_invoice_requirements?.length && (
+                    <Badge variant="destructive">Pflichtangaben fehlen</Badge>
+                  )}
+                </div>
+                <MissingInvoiceRequirements document={document} />
+                <RejectionHistory history={history} />
+              </TableCell>
+              <TableCell>{formatDateTime(document.$createdAt)}</TableCell>
+              <TableCell>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" disabled={pendingId === document.$id} onClick={() => onAccept(document)}>
+                    {pendingId === document.$id && <Spinner />}
+                    Annehmen
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setRejecting(document)}>
+                    Ablehnen
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <DocumentPreviewSheet documentId={previewId} onOpenChange={(open) => !open && setPreviewId(null)} />
+      <RejectDialog
+        document={rejecting}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        onRejected={(document) => {
+          removeEntry(document.$id);
+          setRejecting(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+/**
+ * Form for a client organization's master data
+ *
+ * Steuernummer, USt-IdNr. and IBAN are checked as soon as a field is left;
+ * a valid Steuernummer also shows its 13-digit ELSTER form.
+ */
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { FieldGroup } from "@/components/ui/field";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { zodResolver } from "@/lib/form";
+import { GERMAN_STATES } from "@/lib/holidays";
+import { formatIban } from "@/lib/iban";
+import { createOrganizationSchema } from "@/lib/schemas/organization";
+import { createOrganization, updateOrganization } from "@/lib/server/actions/organizations";
+import { parseTaxNumber, TAX_NUMBER_FORMATS } from "@/lib/tax-ids";
+import { type CreateOrganizationInput, type Organization } from "@/types/organization";
+
+export function OrganizationForm({
+  organization,
+}: {
+  /**
+   * Organization to edit - creates a new client organization if not given
+   */
+  organization?: Organization;
+}) {
+  const router = useRouter();
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [isSaving, startSaving] = useTransition();
+
+  const form = useForm<CreateOrganizationInput>({
+    resolver: zodResolver<CreateOrganizationInput>(createOrganizationSchema),
+    mode: "onTouched",
+    defaultValues: {
+      name: organization?.name ?? "",
+      contact_email: organization?.contact_email ?? "",
+      contact_phone: organization?.contact_phone ?? "",
+      state: organization?.state ?? undefined,
+      tax_id: organization?.tax_id ?? "",
+      vat_id: organization?.vat_id ?? "",
+      iban: organization?.iban ? formatIban(organization.iban) : "",
+    },
+  });
+
+  const [state, taxId] = form.watch(["state", "tax_id"]);
+  const taxNumber = taxId ? parseTaxNumber(taxId, state) : null;
+
+  function onSubmit(values: CreateOrganizationInput) {
+    setMessage(null);
+
+    startSaving(async () => {
+      const result = organization
+        ? await updateOrganization({ ...values, $id: organization.$id })
+        : await createOrganization(values);
+
+      if (!result.success) {
+        for (const [field, error] of Object.entries(result.fieldErrors ?? {})) {
+          form.setError(field as keyof CreateOrganizationInput, { message: error });
+        }
+        setMessage({ type: "error", text: result.error });
+        return;
+      }
+
+      if (organization) {
+        form.reset({ ...values, iban: result.data.iban ? formatIban(result.data.iban) : "" });
+        setMessage({ type: "success", text: "Gespeichert" });
+      } else {
+        router.push(`/dashboard/clients/${result.data.$id}`);
+      }
+    });
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} noValidate>
+        <FieldGroup>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input autoComplete="organization" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="contact_email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>E-Mail-Adresse</FormLabel>
+                  <FormControl>
+                    <Input type="email" autoComplete="email" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="contact_phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Telefon</FormLabel>
+                  <FormControl>
+                    <Input type="tel" autoComplete="tel" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="state"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bundesland des Finanzamts</FormLabel>
+                  <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Bitte auswählen" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(GERMAN_STATES).map(([code, name]) => (
+                        <SelectItem key={code} value={code}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tax_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Steuernummer</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="numeric"
+                      placeholder={state ? TAX_NUMBER_FORMATS[state].format : undefined}
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  {taxNumber && <FormDescription>ELSTER-Format: {taxNumber.elster}</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="vat_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>USt-IdNr.</FormLabel>
+                <FormControl>
+                  <Input placeholder="DE123456789" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="iban"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>IBAN</FormLabel>
+                <FormControl>
+                  <Input placeholder="DE00 0000 0000 0000 0000 00" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {message && (
+            <Alert variant={message.type === "error" ? "destructive" : "default"}>
+              <AlertDescription>{message.text}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" disabled={isSaving}>
+            {isSaving && <Spinner />}
+            {organization ? "Speichern" : "Mandant anlegen"}
+          </Button>
+        </FieldGroup>
+      </form>
+    </Form>
+  );
+}
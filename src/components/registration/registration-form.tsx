@@ -0,0 +1,178 @@
+"use client";
+
+/**
+ * Tenant registration form for new tax advisors (main domain only)
+ */
+
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { FieldGroup } from "@/components/ui/field";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { SubdomainField } from "@/components/registration/subdomain-field";
+import { zodResolver } from "@/lib/form";
+import { createTenantSchema } from "@/lib/schemas/tenant";
+import { registerTenant } from "@/lib/server/actions/registration";
+import { type CreateTenantInput } from "@/types/tenant";
+
+export function RegistrationForm() {
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const form = useForm<CreateTenantInput>({
+    resolver: zodResolver(createTenantSchema),
+    defaultValues: {
+      name: "",
+      subdomain: "",
+      ownerFirstName: "",
+      ownerLastName: "",
+      ownerEmail: "",
+      ownerPassword: "",
+    },
+  });
+
+  const firmName = form.watch("name");
+
+  function onSubmit(values: CreateTenantInput) {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await registerTenant(values);
+
+      if (result.success) {
+        window.location.assign(result.data.loginUrl);
+        return;
+      }
+
+      for (const [field, message] of Object.entries(result.fieldErrors ?? {})) {
+        form.setError(field as keyof CreateTenantInput, { message });
+      }
+      setError(result.error);
+    });
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} noValidate>
+        <FieldGroup>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name der Kanzlei</FormLabel>
+                <FormControl>
+                  <Input autoComplete="organization" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="subdomain"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Subdomain</FormLabel>
+                <FormControl>
+                  <SubdomainField
+                    placeholder="kanzlei-mueller"
+                    firmName={firmName}
+                    onSuggestionSelect={(subdomain) =>
+                      form.setValue("subdomain", subdomain, { shouldValidate: true })
+                    }
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Unter dieser Adresse erreichen Ihre Mandanten Ihr Portal.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="ownerFirstName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Vorname</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="given-name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="ownerLastName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nachname</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="family-name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="ownerEmail"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>E-Mail-Adresse</FormLabel>
+                <FormControl>
+                  <Input type="email" autoComplete="email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="ownerPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Passwort</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" disabled={isPending}>
+            {isPending && <Spinner />}
+            Kanzlei registrieren
+          </Button>
+        </FieldGroup>
+      </form>
+    </Form>
+  );
+}
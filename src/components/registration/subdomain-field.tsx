@@ -0,0 +1,135 @@
+"use client";
+
+/**
+ * Subdomain input with live availability check and suggestions
+ *
+ * Availability is checked against /api/subdomains/check after the user
+ * stops typing. Input props are forwarded to the underlying input, so the
+ * field works inside <FormControl>.
+ */
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+  InputGroupText,
+} from "@/components/ui/input-group";
+import { Spinner } from "@/components/ui/spinner";
+import { getRootDomains } from "@/lib/hostname";
+import { type SubdomainAvailability } from "@/types/tenant";
+
+const DEBOUNCE_MS = 400;
+
+type SubdomainFieldProps = Omit<React.ComponentProps<"input">, "value"> & {
+  value: string;
+  firmName: string;
+  onSuggestionSelect: (subdomain: string) => void;
+};
+
+export function SubdomainField({
+  value,
+  firmName,
+  onSuggestionSelect,
+  ...props
+}: SubdomainFieldProps) {
+  const [availability, setAvailability] = useState<SubdomainAvailability | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const subdomain = value.trim().toLowerCase();
+
+  useEffect(() => {
+    if (!subdomain && !firmName) {
+      setAvailability(null);
+      return;
+    }
+
+    // Set when the value changes again - the response is then outdated
+    let isStale = false;
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsChecking(true);
+
+      try {
+        const params = new URLSearchParams({ subdomain, name: firmName });
+        const response = await fetch(`/api/subdomains/check?${params}`, {
+          signal: controller.signal,
+        });
+        const result: SubdomainAvailability | null = response.ok ? await response.json() : null;
+
+        if (!isStale) {
+          setAvailability(result);
+        }
+      } catch {
+        if (!isStale) {
+          setAvailability(null);
+        }
+      } finally {
+        if (!isStale) {
+          setIsChecking(false);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      isStale = true;
+      clearTimeout(timeout);
+      controller.abort();
+      setIsChecking(false);
+    };
+  }, [subdomain, firmName]);
+
+  // Ignore results for a value the user has already changed
+  const current = availability?.subdomain === subdomain ? availability : null;
+
+  return (
+    <div className="space-y-2">
+      <InputGroup>
+        <InputGroupInput
+          value={value}
+          autoCapitalize="none"
+          autoCorrect="off"
+          spellCheck={false}
+          {...props}
+        />
+        <InputGroupAddon align="inline-end">
+          <InputGroupText>.{getRootDomains()[0]}</InputGroupText>
+          {isChecking ? (
+            <Spinner />
+          ) : (
+            subdomain &&
+            current &&
+            (current.available ? (
+              <Badge>verfügbar</Badge>
+            ) : (
+              <Badge variant="destructive">nicht verfügbar</Badge>
+            ))
+          )}
+        </InputGroupAddon>
+      </InputGroup>
+
+      {subdomain && current?.reason && (
+        <p className="text-sm text-muted-foreground">{current.reason}</p>
+      )}
+
+      {availability && availability.suggestions.length > 0 && !current?.available && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Vorschläge:</span>
+          {availability.suggestions.map((suggestion) => (
+            <Button
+              key={suggestion}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onSuggestionSelect(suggestion)}
+            >
+              {suggestion}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Tenant branding
+ *
+ * Turns TenantBranding into CSS variables for the shadcn theme tokens
+ * defined in globals.css. Foreground colors are computed so text on the
+ * brand colors always meets WCAG AA contrast (4.5:1).
+ */
+
+import { type TenantBranding } from '@/types/tenant';
+
+/**
+ * BelegBoost default branding, used for any color a tenant has not set
+ */
+export const DEFAULT_BRANDING = {
+  primaryColor: '#1d4ed8',
+  secondaryColor: '#f1f5f9',
+} as const;
+
+/**
+ * Minimum contrast ratio for normal text (WCAG 2.1 AA)
+ */
+export const MIN_CONTRAST_RATIO = 4.5;
+
+const LIGHT_FOREGROUND = '#ffffff';
+const DARK_FOREGROUND = '#0f172a';
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Check whether a value is a #rgb or #rrggbb hex color
+ */
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR.test(value);
+}
+
+/**
+ * Normalize a hex color to lowercase #rrggbb
+ */
+export function normalizeHexColor(value: string): string {
+  const hex = value.trim().toLowerCase();
+
+  if (!isHexColor(hex)) {
+    throw new Error(`Invalid hex color: ${value}`);
+  }
+
+  if (hex.length === 4) {
+    return `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}`;
+  }
+
+  return hex;
+}
+
+/**
+ * Relative luminance as defined by WCAG 2.1
+ */
+export function relativeLuminance(color: string): number {
+  const hex = normalizeHexColor(color);
+  const channels = [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16) / 255);
+
+  const [r, g, b] = channels.map((channel) =>
+    channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4)
+  );
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Contrast ratio between two colors (1 to 21)
+ */
+export function contrastRatio(a: string, b: string): number {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Pick the readable foreground color (light or dark) for a background
+ */
+export function getForegroundColor(background: string): string {
+  return contrastRatio(background, LIGHT_FOREGROUND) >= contrastRatio(background, DARK_FOREGROUND)
+    ? LIGHT_FOREGROUND
+    : DARK_FOREGROUND;
+}
+
+/**
+ * Resolve branding colors, falling back to defaults for missing or invalid values
+ */
+export function resolveBranding(branding?: TenantBranding) {
+  const pick = (value: string | undefined, fallback: string) =>
+    value && isHexColor(value) ? normalizeHexColor(value) : fallback;
+
+  const primary = pick(branding?.primaryColor, DEFAULT_BRANDING.primaryColor);
+  const secondary = pick(branding?.secondaryColor, DEFAULT_BRANDING.secondaryColor);
+
+  return {
+    logoUrl: branding?.logoUrl,
+    primary,
+    primaryForeground: getForegroundColor(primary),
+    secondary,
+    secondaryForeground: getForegroundColor(secondary),
+  };
+}
+
+/**
+ * CSS variables overriding the shadcn theme tokens for a tenant
+ *
+ * @example
+ * ```tsx
+ * <div style={getBrandingStyle(tenant.branding)}>...</div>
+ * ```
+ */
+export function getBrandingStyle(branding?: TenantBranding): Record<string, string> {
+  const colors = resolveBranding(branding);
+
+  return {
+    '--primary': colors.primary,
+    '--primary-foreground': colors.primaryForeground,
+    '--secondary': colors.secondary,
+    '--secondary-foreground': colors.secondaryForeground,
+    '--ring': colors.primary,
+    '--sidebar-primary': colors.primary,
+    '--sidebar-primary-foreground': colors.primaryForeground,
+  };
+}
+
+/**
+ * Contrast problems of a branding, for display in the settings page
+ * The primary color is also used for links and focus rings on the page background.
+ */
+export function getBrandingWarnings(branding?: TenantBranding, pageBackground = '#ffffff'): string[] {
+  const colors = resolveBranding(branding);
+  const warnings: string[] = [];
+
+  if (contrastRatio(colors.primary, colors.primaryForeground) < MIN_CONTRAST_RATIO) {
+    warnings.push('Die Primärfarbe bietet mit keiner Schriftfarbe ausreichend Kontrast.');
+  }
+
+  if (contrastRatio(colors.primary, pageBackground) < 3) {
+    warnings.push('Die Primärfarbe ist auf hellem Hintergrund schwer erkennbar.');
+  }
+
+  if (contrastRatio(colors.secondary, colors.secondaryForeground) < MIN_CONTRAST_RATIO) {
+    warnings.push('Die Sekundärfarbe bietet mit keiner Schriftfarbe ausreichend Kontrast.');
+  }
+
+  return warnings;
+}
@@ -0,0 +1,129 @@
+/**
+ * Checklist lifecycle
+ *
+ *   draft --activate--> active --complete--> completed
+ *                         ^                      |
+ *                         +-------reopen---------+
+ *   draft / active / completed --archive--> archived
+ *
+ * - draft: the advisor builds the checklist; the only state in which items
+ *   can be added, removed or reordered
+ * - active: the client works on it; item statuses change, details (title,
+ *   due date) can still be corrected
+ * - completed: all items are green; read-only until reopened (with a reason)
+ * - archived: frozen, read-only for everyone and never deleted
+ *
+ * Pure rules, shared by Server Actions (enforcement) and components
+ * (which buttons to show).
+ */
+
+import {
+  isChecklistComplete,
+  type Checklist,
+  type ChecklistStatus,
+  type ChecklistTransition,
+} from '@/types/checklist';
+
+type LifecycleChecklist = Pick<
+  Checklist,
+  'status' | 'total_items' | 'completed_items' | 'requires_confirmation'
+>;
+
+/**
+ * Why a transition is not possible
+ * - invalid_state: the transition does not start from the current status
+ * - no_items: a checklist without items cannot be activated
+ * - not_complete: not all items are green yet
+ * - reason_required: reopening needs a reason
+ */
+export type TransitionBlocker = 'invalid_state' | 'no_items' | 'not_complete' | 'reason_required';
+
+export const CHECKLIST_TRANSITIONS: Record<
+  ChecklistTransition,
+  { from: readonly ChecklistStatus[]; to: ChecklistStatus }
+> = {
+  activate: { from: ['draft'], to: 'active' },
+  complete: { from: ['active'], to: 'completed' },
+  reopen: { from: ['completed'], to: 'active' },
+  archive: { from: ['draft', 'active', 'completed'], to: 'archived' },
+};
+
+/**
+ * Check whether a transition is possible
+ *
+ * @returns null if the transition is allowed, otherwise the blocker
+ */
+export function getTransitionBlocker(
+  checklist: LifecycleChecklist,
+  transition: ChecklistTransition,
+  reason?: string
+): TransitionBlocker | null {
+  if (!CHECKLIST_TRANSITIONS[transition].from.includes(checklist.status)) {
+    return 'invalid_state';
+  }
+
+  if (transition === 'activate' && checklist.total_items === 0) {
+    return 'no_items';
+  }
+
+  if (transition === 'complete' && !isChecklistComplete(checklist)) {
+    return 'not_complete';
+  }
+
+  if (transition === 'reopen' && !reason?.trim()) {
+    return 'reason_required';
+  }
+
+  return null;
+}
+
+/**
+ * Transitions that can currently be offered to the advisor
+ * Reopening is listed even though it still needs a reason.
+ */
+export function getAvailableTransitions(checklist: LifecycleChecklist): ChecklistTransition[] {
+  return (Object.keys(CHECKLIST_TRANSITIONS) as ChecklistTransition[]).filter((transition) => {
+    const blocker = getTransitionBlocker(checklist, transition);
+    return blocker === null || blocker === 'reason_required';
+  });
+}
+
+/**
+ * Items can be added, removed and reordered only while drafting
+ */
+export function isStructurallyEditable(status: ChecklistStatus): boolean {
+  return status === 'draft';
+}
+
+/**
+ * Title, description and due date can be corrected until completion
+ */
+export function areDetailsEditable(status: ChecklistStatus): boolean {
+  return status === 'draft' || status === 'active';
+}
+
+/**
+ * Archived checklists are kept as the record of the finished work
+ */
+export function isDeletable(status: ChecklistStatus): boolean {
+  return status !== 'archived';
+}
+
+/**
+ * The traffic light of an item only moves while the client works on it
+ */
+export function canChangeItemStatus(status: ChecklistStatus): boolean {
+  return status === 'active';
+}
+
+/**
+ * Complete automatically once all items are green, unless the advisor
+ * wants to confirm completion
+ */
+export function shouldAutoComplete(checklist: LifecycleChecklist): boolean {
+  return (
+    checklist.status === 'active' &&
+    !checklist.requires_confirmation &&
+    isChecklistComplete(checklist)
+  );
+}
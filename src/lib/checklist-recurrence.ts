@@ -0,0 +1,118 @@
+/**
+ * Recurring checklist periods and deadlines
+ *
+ * Each instance of a recurring checklist covers one calendar period (month,
+ * quarter or year) and is due on a fixed day of the month after the period,
+ * e.g. the 10th for the Umsatzsteuer-Voranmeldung. Due dates falling on a
+ * weekend or public holiday move to the next working day.
+ *
+ * The next instance is generated shortly before its period ends.
+ */
+
+import {
+  addDays,
+  formatDate,
+  GERMAN_MONTH_NAMES,
+  getNextWorkingDay,
+  parseDate,
+} from '@/lib/holidays';
+import { type ChecklistRecurrence } from '@/types/checklist';
+import { type GermanState } from '@/types/organization';
+
+/**
+ * Length of a period in months
+ */
+export const RECURRENCE_MONTHS: Record<ChecklistRecurrence, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/**
+ * Days before the end of its period that an instance is generated
+ */
+export const GENERATION_LEAD_DAYS = 7;
+
+/**
+ * Date `months` months after the first of the given date's month
+ */
+function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+/**
+ * First day of the period containing a date
+ */
+export function getPeriodStart(date: string, recurrence: ChecklistRecurrence): string {
+  const day = parseDate(date);
+  const length = RECURRENCE_MONTHS[recurrence];
+  const month = day.getUTCMonth() - (day.getUTCMonth() % length);
+
+  return formatDate(new Date(Date.UTC(day.getUTCFullYear(), month, 1)));
+}
+
+/**
+ * First day of the following period
+ */
+export function getNextPeriodStart(periodStart: string, recurrence: ChecklistRecurrence): string {
+  return formatDate(addMonths(parseDate(periodStart), RECURRENCE_MONTHS[recurrence]));
+}
+
+/**
+ * Last day of a period
+ */
+export function getPeriodEnd(periodStart: string, recurrence: ChecklistRecurrence): string {
+  return formatDate(addDays(parseDate(getNextPeriodStart(periodStart, recurrence)), -1));
+}
+
+/**
+ * Due date of an instance: `dueDay` of the month after the period,
+ * on the next working day
+ *
+ * @param dueDay - 1-31, clamped to the length of the month
+ * @example
+ * ```typescript
+ * getRecurringDueDate('2026-09-01', 'monthly', 10); // "2026-10-12" (10th is a Saturday)
+ * ```
+ */
+export function getRecurringDueDate(
+  periodStart: string,
+  recurrence: ChecklistRecurrence,
+  dueDay: number,
+  state?: GermanState
+): string {
+  const month = parseDate(getNextPeriodStart(periodStart, recurrence));
+  const daysInMonth = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0)).getUTCDate();
+  const nominal = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), Math.min(dueDay, daysInMonth)));
+
+  return getNextWorkingDay(formatDate(nominal), state);
+}
+
+/**
+ * Whether the instance following `periodStart` should be generated by now
+ */
+export function isNextInstanceDue(
+  periodStart: string,
+  recurrence: ChecklistRecurrence,
+  today = formatDate(new Date())
+): boolean {
+  const nextEnd = getPeriodEnd(getNextPeriodStart(periodStart, recurrence), recurrence);
+  return formatDate(addDays(parseDate(nextEnd), -GENERATION_LEAD_DAYS)) <= today;
+}
+
+/**
+ * Human readable period, e.g. "September 2026", "3. Quartal 2026" or "2026"
+ */
+export function formatPeriodLabel(periodStart: string, recurrence: ChecklistRecurrence): string {
+  const day = parseDate(periodStart);
+  const year = day.getUTCFullYear();
+
+  switch (recurrence) {
+    case 'monthly':
+      return `${GERMAN_MONTH_NAMES[day.getUTCMonth()]} ${year}`;
+    case 'quarterly':
+      return `${Math.floor(day.getUTCMonth() / 3) + 1}. Quartal ${year}`;
+    case 'yearly':
+      return String(year);
+  }
+}
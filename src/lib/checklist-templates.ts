@@ -0,0 +1,166 @@
+/**
+ * Checklist template placeholders and built-in templates
+ *
+ * Placeholders are written as {{name}} in template titles and descriptions:
+ * - {{jahr}}: year of the period, e.g. 2025
+ * - {{vorjahr}} / {{folgejahr}}: the year before / after
+ * - {{monat}}: German month name of the period, e.g. März
+ * - {{mandant}}: name of the client organization
+ */
+
+import { GERMAN_MONTH_NAMES } from '@/lib/holidays';
+import {
+  type ChecklistTemplate,
+  type ChecklistTemplateItem,
+  type ChecklistTemplatePeriod,
+} from '@/types/template';
+
+export const TEMPLATE_PLACEHOLDERS = ['jahr', 'vorjahr', 'folgejahr', 'monat', 'mandant'] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+export type TemplateValues = Record<TemplatePlaceholder, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-ZäöüÄÖÜß_]+)\s*\}\}/g;
+
+/**
+ * Find placeholders in a text that are not supported
+ *
+ * @returns The unknown placeholder names (without braces)
+ */
+export function findUnknownPlaceholders(text: string): string[] {
+  const unknown = [...text.matchAll(PLACEHOLDER_PATTERN)]
+    .map((match) => match[1].toLowerCase())
+    .filter((name) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+
+  return [...new Set(unknown)];
+}
+
+/**
+ * Replace placeholders in a text; unknown placeholders are left as they are
+ *
+ * @example
+ * ```typescript
+ * renderTemplateText('Jahresabschluss {{jahr}}', values); // "Jahresabschluss 2025"
+ * ```
+ */
+export function renderTemplateText(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const key = name.toLowerCase() as TemplatePlaceholder;
+    return key in values ? values[key] : placeholder;
+  });
+}
+
+/**
+ * Default period of a template relative to a date
+ * Yearly templates cover the previous year, monthly ones the previous month.
+ */
+export function getDefaultPeriod(
+  period: ChecklistTemplatePeriod,
+  now = new Date()
+): { year: number; month: number } {
+  if (period === 'yearly') {
+    return { year: now.getFullYear() - 1, month: 12 };
+  }
+
+  const previousMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return { year: previousMonth.getFullYear(), month: previousMonth.getMonth() + 1 };
+}
+
+/**
+ * Placeholder values for a client organization and period
+ *
+ * @param month - 1-12
+ */
+export function getTemplateValues(organizationName: string, year: number, month: number): TemplateValues {
+  return {
+    jahr: String(year),
+    vorjahr: String(year - 1),
+    folgejahr: String(year + 1),
+    monat: GERMAN_MONTH_NAMES[month - 1] ?? '',
+    mandant: organizationName,
+  };
+}
+
+function builtIn(
+  id: string,
+  template: Omit<ChecklistTemplate, 'id' | 'rootId' | 'version' | 'builtIn'>
+): ChecklistTemplate {
+  return { ...template, id, rootId: id, version: 1, builtIn: true };
+}
+
+function item(title: string, requiresDocument: boolean, description?: string): ChecklistTemplateItem {
+  return { title, description, requires_document: requiresDocument };
+}
+
+/**
+ * Templates every tenant starts with
+ * Advisors can copy them into their own, editable templates.
+ */
+export const BUILT_IN_TEMPLATES: readonly ChecklistTemplate[] = [
+  builtIn('builtin-jahresabschluss', {
+    name: 'Jahresabschluss',
+    title: 'Jahresabschluss {{jahr}}',
+    description: 'Unterlagen für den Jahresabschluss {{jahr}} von {{mandant}}',
+    period: 'yearly',
+    items: [
+      item('Kontoauszüge aller Geschäftskonten zum 31.12.{{jahr}}', true),
+      item('Inventurliste zum 31.12.{{jahr}}', true, 'Bestände an Waren sowie Roh-, Hilfs- und Betriebsstoffen'),
+      item('Offene Posten Debitoren und Kreditoren zum 31.12.{{jahr}}', true),
+      item('Darlehenskonten {{jahr}}', true, 'Jahreskontoauszüge sowie Zins- und Tilgungspläne'),
+      item('Rechnungen über Anlagenzugänge {{jahr}}', true),
+      item('Kassenbuch bzw. Kassenberichte {{jahr}}', true),
+      item('Neue oder geänderte Verträge', true, 'Miet-, Leasing-, Darlehens- und Versicherungsverträge'),
+      item('Angaben zu Privatentnahmen und Privateinlagen', false),
+    ],
+  }),
+  builtIn('builtin-einkommensteuer', {
+    name: 'Einkommensteuererklärung',
+    title: 'Einkommensteuererklärung {{jahr}}',
+    description: 'Unterlagen für die Einkommensteuererklärung {{jahr}}',
+    period: 'yearly',
+    items: [
+      item('Lohnsteuerbescheinigungen {{jahr}}', true),
+      item('Bescheinigungen über Lohnersatzleistungen', true, 'z. B. Elterngeld, Krankengeld, Arbeitslosengeld'),
+      item('Nachweise Kranken- und Pflegeversicherung {{jahr}}', true),
+      item('Bescheinigungen zur Altersvorsorge', true, 'Riester- und Rürup-Verträge'),
+      item('Spendenbescheinigungen {{jahr}}', true),
+      item('Belege für Werbungskosten', true, 'Arbeitsmittel, Fortbildung, Fahrtkosten'),
+      item('Handwerkerleistungen und haushaltsnahe Dienstleistungen', true, 'Rechnungen mit Überweisungsnachweis'),
+      item('Jahressteuerbescheinigungen der Banken {{jahr}}', true),
+      item('Änderungen der persönlichen Verhältnisse', false, 'z. B. Heirat, Geburt eines Kindes, Umzug'),
+    ],
+  }),
+  builtIn('builtin-lohnbuchhaltung', {
+    name: 'Lohnbuchhaltung Monat',
+    title: 'Lohnbuchhaltung {{monat}} {{jahr}}',
+    description: 'Angaben für die Lohnabrechnung {{monat}} {{jahr}}',
+    period: 'monthly',
+    items: [
+      item('Arbeitszeitnachweise {{monat}}', true),
+      item('Neueinstellungen', true, 'Personalfragebogen und Arbeitsvertrag'),
+      item('Austritte und Kündigungen', true),
+      item('Krankmeldungen und Urlaub {{monat}}', false),
+      item('Änderungen bei Gehalt, Arbeitszeit oder Bankverbindung', false),
+      item('Sonderzahlungen, Prämien und Sachbezüge', false),
+    ],
+  }),
+  builtIn('builtin-umsatzsteuer-voranmeldung', {
+    name: 'Umsatzsteuer-Voranmeldung',
+    title: 'Umsatzsteuer-Voranmeldung {{monat}} {{jahr}}',
+    period: 'monthly',
+    items: [
+      item('Ausgangsrechnungen {{monat}} {{jahr}}', true),
+      item('Eingangsrechnungen {{monat}} {{jahr}}', true),
+      item('Kontoauszüge {{monat}} {{jahr}}', true),
+      item('Kassenbuch {{monat}} {{jahr}}', true),
+    ],
+  }),
+];
+
+/**
+ * Look up a built-in template by ID
+ */
+export function getBuiltInTemplate(id: string): ChecklistTemplate | null {
+  return BUILT_IN_TEMPLATES.find((template) => template.id === id) ?? null;
+}
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createResumableUpload, type ResumableUploadState } from '@/lib/client/resumable-upload';
+import { CHUNK_SIZE } from '@/lib/uploads';
+
+vi.mock('@/lib/server/actions/documents', () => ({
+  startDocumentUpload: async () => ({
+    success: true,
+    data: { sessionId: 'session', chunkCount: 2, chunksUploaded: 0, expiresAt: '2030-01-01T00:00:00.000Z' },
+  }),
+  completeDocumentUpload: async () => ({ success: true, data: { $id: 'document' } }),
+  cancelDocumentUpload: async () => ({ success: true }),
+}));
+
+let releaseChunk: () => void;
+let fetchChunk: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  // The first chunk stays in flight until released
+  fetchChunk = vi.fn(
+    () =>
+      new Promise<Response>((resolve) => {
+        releaseChunk = () => resolve(new Response('{}'));
+      })
+  );
+  vi.stubGlobal('fetch', fetchChunk);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createResumableUpload', () => {
+  it('continues when resumed while the paused chunk is in flight', async () => {
+    const states: ResumableUploadState[] = [];
+    const upload = createResumableUpload({
+      checklistItemId: 'item',
+      file: new File([new Uint8Array(CHUNK_SIZE + 1)], 'scan.pdf', { type: 'application/pdf' }),
+      onProgress: (progress) => states.push(progress.state),
+    });
+
+    const started = upload.start();
+    await vi.waitFor(() => expect(fetchChunk).toHaveBeenCalledTimes(1));
+
+    upload.pause();
+    const resumed = upload.resume();
+    releaseChunk();
+    await vi.waitFor(() => expect(fetchChunk).toHaveBeenCalledTimes(2));
+    releaseChunk();
+
+    expect(await started).toEqual({ $id: 'document' });
+    expect(await resumed).toEqual({ $id: 'document' });
+    expect(states.at(-1)).toBe('completed');
+  });
+
+  it('stops after the chunk in flight when paused', async () => {
+    const upload = createResumableUpload({
+      checklistItemId: 'item',
+      file: new File([new Uint8Array(CHUNK_SIZE + 1)], 'scan.pdf', { type: 'application/pdf' }),
+    });
+
+    const started = upload.start();
+    await vi.waitFor(() => expect(fetchChunk).toHaveBeenCalledTimes(1));
+
+    upload.pause();
+    releaseChunk();
+
+    expect(await started).toBeNull();
+    expect(fetchChunk).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Resumable chunked uploads from the browser
+ *
+ * Uploads a document in 5 MB chunks to the upload session opened by
+ * startDocumentUpload (PUT /api/uploads/:sessionId/chunks/:index), then
+ * lets the server check the file and create the document
+ * (completeDocumentUpload).
+ *
+ * - Failed chunks are retried with exponential backoff.
+ * - Pausing stops after the chunk in flight; resuming continues with the
+ *   first chunk Appwrite has not received yet.
+ * - The session ID is kept in localStorage, so picking the same file again
+ *   (e.g. after a reload) continues the earlier upload.
+ *
+ * @example
+ * ```typescript
+ * const upload = createResumableUpload({ checklistItemId, file, onProgress: setProgress });
+ * const document = await upload.start();
+ * ```
+ */
+
+import {
+  cancelDocumentUpload,
+  completeDocumentUpload,
+  startDocumentUpload,
+} from '@/lib/server/actions/documents';
+import { getChunkRange, getRetryDelay, MAX_UPLOAD_RETRIES } from '@/lib/uploads';
+import { type Document } from '@/types/document';
+import { type UploadTicket } from '@/types/upload';
+
+export type ResumableUploadState =
+  | 'idle'
+  | 'uploading'
+  | 'retrying'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface ResumableUploadProgress {
+  state: ResumableUploadState;
+  uploadedBytes: number;
+  totalBytes: number;
+  /**
+   * Current retry (1-based) while state is "retrying"
+   */
+  attempt?: number;
+  /**
+   * Error message if state is "failed"
+   */
+  error?: string;
+}
+
+export interface ResumableUploadOptions {
+  checklistItemId: string;
+  file: File;
+  /**
+   * Upload the file as a new version of this document
+   */
+  replacesDocumentId?: string;
+  onProgress?: (progress: ResumableUploadProgress) => void;
+}
+
+export interface ResumableUpload {
+  /**
+   * Upload the file (or the rest of it)
+   * @returns The created document, or null if paused, cancelled or failed
+   */
+  start(): Promise<Document | null>;
+  pause(): void;
+  resume(): Promise<Document | null>;
+  cancel(): Promise<void>;
+}
+
+/**
+ * Upload failed for a reason retrying cannot fix
+ */
+class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+function getStorageKey(checklistItemId: string, file: File): string {
+  return `belegboost:upload:${checklistItemId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readSessionId(key: string): string | undefined {
+  try {
+    return localStorage.getItem(key) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeSessionId(key: string, sessionId: string | null): void {
+  try {
+    if (sessionId) {
+      localStorage.setItem(key, sessionId);
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage disabled - the upload just cannot be resumed after a reload
+  }
+}
+
+/**
+ * Network errors, timeouts, rate limits and server errors are worth a retry
+ * (uploadChunk throws UploadError for everything else)
+ */
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof UploadError);
+}
+
+/**
+ * Create a controller for uploading one file
+ */
+export function createResumableUpload({
+  checklistItemId,
+  file,
+  replacesDocumentId,
+  onProgress,
+}: ResumableUploadOptions): ResumableUpload {
+  const storageKey = getStorageKey(checklistItemId, file);
+
+  let state: ResumableUploadState = 'idle';
+  let uploadedBytes = 0;
+  let sessionId = readSessionId(storageKey);
+  let running: Promise<Document | null> | null = null;
+  let wakeUp: (() => void) | null = null;
+
+  function report(next: ResumableUploadState, extra: Partial<ResumableUploadProgress> = {}) {
+    state = next;
+    onProgress?.({ state, uploadedBytes, totalBytes: file.size, ...extra });
+  }
+
+  function shouldStop() {
+    return state === 'paused' || state === 'cancelled';
+  }
+
+  // Resolves after the delay, or early when paused or cancelled
+  function wait(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    }).finally(() => {
+      wakeUp = null;
+    });
+  }
+
+  async function requestTicket(): Promise<UploadTicket> {
+    const result = await startDocumentUpload({
+      checklist_item_id: checklistItemId,
+      file_name: file.name,
+      file_size: file.size,
+      mime_type: file.type,
+      session_id: sessionId,
+      replaces_document_id: replacesDocumentId,
+    });
+
+    if (!result.success) {
+      throw new UploadError(result.error);
+    }
+
+    sessionId = result.data.sessionId;
+    writeSessionId(storageKey, sessionId);
+
+    return result.data;
+  }
+
+  async function uploadChunk(ticket: UploadTicket, index: number): Promise<void> {
+    const [start, end] = getChunkRange(index, file.size);
+    const response = await fetch(`/api/uploads/${ticket.sessionId}/chunks/${index}`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/octet-stream' },
+      body: file.slice(start, end),
+    });
+
+    if (response.ok) {
+      return;
+    }
+
+    if (response.status === 408 || response.status === 429 || response.status >= 500) {
+      throw new Error(`Chunk upload failed with status ${response.status}`);
+    }
+
+    if (response.status === 401) {
+      throw new UploadError('Die Sitzung ist abgelaufen, bitte erneut anmelden und fortsetzen');
+    }
+
+    const body: { error?: string } = await response.json().catch(() => ({}));
+    throw new UploadError(response.status === 409 && body.error ? body.error : 'Der Upload wurde abgelehnt');
+  }
+
+  async function run(): Promise<Document | null> {
+    try {
+      report('uploading');
+
+      const ticket = await requestTicket();
+
+      for (let index = ticket.chunksUploaded; index < ticket.chunkCount; index++) {
+        if (shouldStop()) {
+          return null;
+        }
+
+        uploadedBytes = getChunkRange(index, file.size)[0];
+        report('uploading');
+
+        for (let attempt = 1; ; attempt++) {
+          try {
+            await uploadChunk(ticket, index);
+            break;
+          } catch (error) {
+            if (shouldStop()) {
+              return null;
+            }
+
+            if (attempt > MAX_UPLOAD_RETRIES) {
+              throw error;
+            }
+
+            if (!isRetryable(error)) {
+              throw error;
+            }
+
+            report('retrying', { attempt });
+            await wait(getRetryDelay(attempt));
+
+            if (shouldStop()) {
+              return null;
+            }
+          }
+        }
+      }
+
+      if (shouldStop()) {
+        return null;
+      }
+
+      uploadedBytes = file.size;
+      report('uploading');
+
+      const result = await completeDocumentUpload(ticket.sessionId);
+
+      if (!result.success) {
+        throw new UploadError(result.error);
+      }
+
+      writeSessionId(storageKey, null);
+      report('completed');
+
+      return result.data;
+    } catch (error) {
+      if (state === 'cancelled') {
+        return null;
+      }
+
+      const message =
+        error instanceof UploadError ? error.message : 'Die Verbindung ist unterbrochen, bitte später fortsetzen';
+
+      report('failed', { error: message });
+
+      return null;
+    } finally {
+      running = null;
+
+      if (state === 'cancelled') {
+        await discard();
+      }
+    }
+  }
+
+  async function discard() {
+    writeSessionId(storageKey, null);
+
+    if (sessionId) {
+      await cancelDocumentUpload(sessionId).catch(() => undefined);
+      sessionId = undefined;
+    }
+  }
+
+  function start(): Promise<Document | null> {
+    if (running) {
+      return running;
+    }
+
+    if (state === 'completed' || state === 'cancelled') {
+      return Promise.resolve(null);
+    }
+
+    running = run();
+    return running;
+  }
+
+  return {
+    start,
+
+    pause() {
+      if (state === 'uploading' || state === 'retrying') {
+        report('paused');
+        wakeUp?.();
+      }
+    },
+
+    resume() {
+      // Paused while a chunk was in flight: the run has not stopped yet and
+      // just carries on
+      if (running && state === 'paused') {
+        report('uploading');
+      }
+
+      return start();
+    },
+
+    async cancel() {
+      if (state === 'completed' || state === 'cancelled') {
+        return;
+      }
+
+      report('cancelled');
+      wakeUp?.();
+
+      // A running upload discards the session once the chunk in flight is done
+      if (!running) {
+        await discard();
+      }
+    },
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Document upload limits and item status rules
+ *
+ * Shared by the upload form (early feedback) and the server (enforcement).
+ *
+ * Uploading and reviewing documents moves the item's traffic light:
+ * - a client uploads to a red item: yellow (waiting for the advisor)
+ * - the advisor accepts a document: green
+ * - the advisor rejects a document: red, unless another document of the
+ *   item is accepted (green) or still waiting (yellow)
+ * - the last waiting document of a yellow item is removed: red again
+ *
+ * New versions of a document count like any other upload.
+ */
+
+import { type ChecklistItemStatus } from '@/types/checklist';
+import { type Document, type DocumentRejectionReason, type DocumentStatus } from '@/types/document';
+import { isClientRole, type UserRole } from '@/types/user';
+
+/**
+ * Largest file accepted by a single upload request (20 MB)
+ */
+export const DOCUMENT_MAX_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Largest file accepted by a chunked upload (500 MB, e.g. scanned PDFs)
+ * See src/lib/uploads.ts.
+ */
+export const CHUNKED_DOCUMENT_MAX_BYTES = 500 * 1024 * 1024;
+
+/**
+ * Most documents per checklist item
+ */
+export const MAX_DOCUMENTS_PER_ITEM = 20;
+
+/**
+ * Labels of the document statuses
+ */
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  pending: 'Wartet auf Prüfung',
+  accepted: 'Angenommen',
+  rejected: 'Abgelehnt',
+};
+
+/**
+ * Labels of the rejection reasons, as shown to the client
+ */
+export const DOCUMENT_REJECTION_REASONS: Record<DocumentRejectionReason, string> = {
+  illegible: 'Unleserlich',
+  wrong_period: 'Falscher Zeitraum',
+  incomplete: 'Unvollständig',
+  wrong_document: 'Falsches Dokument',
+  other: 'Sonstiges',
+};
+
+/**
+ * Accepted MIME types with their file extensions
+ */
+export const DOCUMENT_TYPES: Record<string, readonly string[]> = {
+  'application/pdf': ['pdf'],
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/png': ['png'],
+  'image/tiff': ['tif', 'tiff'],
+  'image/heic': ['heic'],
+  // E-Rechnungen (XRechnung, ZUGFeRD XML)
+  'application/xml': ['xml'],
+  'text/xml': ['xml'],
+  'text/csv': ['csv'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['xlsx'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['docx'],
+};
+
+/**
+ * File extensions for the accept attribute of file inputs
+ */
+export const DOCUMENT_ACCEPT = [...new Set(Object.values(DOCUMENT_TYPES).flat())]
+  .map((extension) => `.${extension}`)
+  .join(',');
+
+/**
+ * Human readable file size, e.g. "1,5 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return `${size.toLocaleString('de-DE', { maximumFractionDigits: 1 })} ${units[unit]}`;
+}
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Date and time of an upload or review, e.g. "19.10.2026, 14:05"
+ */
+export function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Image types browsers cannot show - previewed as converted JPEGs
+ */
+export const CONVERTED_PREVIEW_TYPES: readonly string[] = ['image/tiff', 'image/heic'];
+
+/**
+ * Path of a document's file for viewing in the browser
+ * See src/app/api/documents/[documentId]/file/route.ts.
+ *
+ * @param options.download - Send as attachment instead of showing it
+ * @param options.format - Convert an image to JPEG
+ */
+export function getDocumentFileUrl(
+  documentId: string,
+  options: { download?: boolean; format?: 'jpeg' } = {}
+): string {
+  const params = new URLSearchParams();
+
+  if (options.download) {
+    params.set('download', '1');
+  }
+
+  if (options.format) {
+    params.set('format', options.format);
+  }
+
+  const query = params.toString();
+  return `/api/documents/${encodeURIComponent(documentId)}/file${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Check a file against the upload limits
+ *
+ * Type and extension must match, so "rechnung.pdf.exe" or a renamed file
+ * with a foreign MIME type is rejected.
+ *
+ * @param maxBytes - Size limit of the upload path (single request or chunked)
+ * @returns An error message, or null if the file is acceptable
+ */
+export function validateDocumentFile(
+  file: { name: string; size: number; type: string },
+  maxBytes = DOCUMENT_MAX_BYTES
+): string | null {
+  if (file.size === 0) {
+    return `„${file.name}“ ist leer`;
+  }
+
+  if (file.size > maxBytes) {
+    return `„${file.name}“ ist größer als ${formatFileSize(maxBytes)}`;
+  }
+
+  const extensions = DOCUMENT_TYPES[file.type];
+
+  if (!extensions || !extensions.includes(getExtension(file.name))) {
+    return `„${file.name}“ hat einen nicht unterstützten Dateityp`;
+  }
+
+  return null;
+}
+
+/**
+ * Item status after a document was uploaded
+ */
+export function getItemStatusAfterUpload(
+  status: ChecklistItemStatus,
+  uploaderRole: UserRole
+): ChecklistItemStatus {
+  return status === 'red' && isClientRole(uploaderRole) ? 'yellow' : status;
+}
+
+/**
+ * Item status after a document was removed
+ *
+ * @param remaining - Statuses of the item's remaining documents
+ */
+export function getItemStatusAfterDelete(
+  status: ChecklistItemStatus,
+  remaining: DocumentStatus[]
+): ChecklistItemStatus {
+  return status === 'yellow' && !remaining.includes('pending') ? 'red' : status;
+}
+
+/**
+ * Item status after a document was rejected
+ *
+ * @param statuses - Statuses of all documents of the item, including the rejected one
+ */
+export function getItemStatusAfterReject(statuses: DocumentStatus[]): ChecklistItemStatus {
+  if (statuses.includes('accepted')) {
+    return 'green';
+  }
+
+  return statuses.includes('pending') ? 'yellow' : 'red';
+}
+
+/**
+ * Slot of a document - documents uploaded before versioning are their own slot
+ */
+export function getDocumentSlotId(document: Pick<Document, '$id' | 'slot_id'>): string {
+  return document.slot_id ?? document.$id;
+}
+
+/**
+ * Version number of a document within its slot
+ */
+export function getDocumentVersion(document: Pick<Document, 'version'>): number {
+  return document.version ?? 1;
+}
@@ -0,0 +1,45 @@
+/**
+ * react-hook-form integration for zod schemas
+ */
+
+import { type FieldErrors, type FieldValues, type Resolver } from 'react-hook-form';
+import { type z } from 'zod';
+
+/**
+ * Create a react-hook-form resolver from a flat zod object schema
+ * The first issue per field is reported.
+ */
+export function zodResolver<TFieldValues extends FieldValues>(
+  schema: z.ZodType<TFieldValues>
+): Resolver<TFieldValues> {
+  return async (values) => {
+    const result = await schema.safeParseAsync(values);
+
+    if (result.success) {
+      return { values: result.data, errors: {} };
+    }
+
+    const errors: Record<string, { type: string; message: string }> = {};
+
+    for (const issue of result.error.issues) {
+      const field = issue.path.join('.') || 'root';
+      errors[field] ??= { type: issue.code, message: issue.message };
+    }
+
+    return { values: {}, errors: errors as FieldErrors<TFieldValues> };
+  };
+}
+
+/**
+ * Collect the first error message per field from a zod error
+ */
+export function toFieldErrors(error: z.ZodError): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+
+  for (const issue of error.issues) {
+    const field = issue.path.join('.') || 'root';
+    fieldErrors[field] ??= issue.message;
+  }
+
+  return fieldErrors;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getGermanHolidays, getNextWorkingDay, isWorkingDay } from '@/lib/holidays';
+import { type GermanState } from '@/types/organization';
+
+function hasHoliday(year: number, state: GermanState, name: string): boolean {
+  return getGermanHolidays(year, state).some((holiday) => holiday.name === name);
+}
+
+describe('getGermanHolidays', () => {
+  it.each<[number, GermanState, boolean]>([
+    [2018, 'BE', false],
+    [2019, 'BE', true],
+    [2022, 'MV', false],
+    [2023, 'MV', true],
+    [2023, 'BY', false],
+  ])('Internationaler Frauentag %i in %s: %s', (year, state, expected) => {
+    expect(hasHoliday(year, state, 'Internationaler Frauentag')).toBe(expected);
+  });
+
+  it('computes the Easter dates', () => {
+    const holidays = getGermanHolidays(2025);
+
+    expect(holidays).toContainEqual({ date: '2025-04-18', name: 'Karfreitag' });
+    expect(holidays).toContainEqual({ date: '2025-04-21', name: 'Ostermontag' });
+    expect(holidays).toContainEqual({ date: '2025-06-09', name: 'Pfingstmontag' });
+  });
+
+  it('only returns nationwide holidays without a state', () => {
+    expect(getGermanHolidays(2025)).toHaveLength(9);
+  });
+});
+
+describe('isWorkingDay', () => {
+  it.each<[string, GermanState | undefined, boolean]>([
+    ['2024-03-07', 'BE', true],
+    ['2024-03-08', 'BE', false],
+    ['2018-03-08', 'BE', true],
+    ['2025-11-19', 'SN', false],
+    ['2025-11-19', 'BE', true],
+  ])('%s in %s: %s', (date, state, expected) => {
+    expect(isWorkingDay(date, state)).toBe(expected);
+  });
+});
+
+describe('getNextWorkingDay', () => {
+  it('skips weekends and holidays', () => {
+    expect(getNextWorkingDay('2025-12-24', 'BE')).toBe('2025-12-24');
+    expect(getNextWorkingDay('2025-12-25', 'BE')).toBe('2025-12-29');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * German public holidays and working days
+ *
+ * Used for deadlines: a deadline that falls on a Saturday, Sunday or public
+ * holiday moves to the next working day (§ 108 Abs. 3 AO). Holidays differ
+ * between the federal states, so pass the state where it is known -
+ * otherwise only the nationwide holidays count.
+ *
+ * Dates are calendar dates without time zone, written as YYYY-MM-DD.
+ */
+
+import { type GermanState } from '@/types/organization';
+
+/**
+ * Names of the German federal states
+ */
+export const GERMAN_STATES: Record<GermanState, string> = {
+  BW: 'Baden-Württemberg',
+  BY: 'Bayern',
+  BE: 'Berlin',
+  BB: 'Brandenburg',
+  HB: 'Bremen',
+  HH: 'Hamburg',
+  HE: 'Hessen',
+  MV: 'Mecklenburg-Vorpommern',
+  NI: 'Niedersachsen',
+  NW: 'Nordrhein-Westfalen',
+  RP: 'Rheinland-Pfalz',
+  SL: 'Saarland',
+  SN: 'Sachsen',
+  ST: 'Sachsen-Anhalt',
+  SH: 'Schleswig-Holstein',
+  TH: 'Thüringen',
+};
+
+export const GERMAN_MONTH_NAMES = [
+  'Januar',
+  'Februar',
+  'März',
+  'April',
+  'Mai',
+  'Juni',
+  'Juli',
+  'August',
+  'September',
+  'Oktober',
+  'November',
+  'Dezember',
+];
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+/**
+ * Format a date as YYYY-MM-DD (UTC fields, see parseDate)
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse YYYY-MM-DD (or the date part of an ISO timestamp) as UTC midnight
+ */
+export function parseDate(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Wednesday before November 23 (Buß- und Bettag)
+ */
+function getRepentanceDay(year: number): Date {
+  const november22 = new Date(Date.UTC(year, 10, 22));
+  const daysSinceWednesday = (november22.getUTCDay() + 4) % 7;
+  return addDays(november22, -daysSinceWednesday);
+}
+
+/**
+ * Public holidays of a year, sorted by date
+ *
+ * @param state - Federal state; without it only nationwide holidays are returned
+ */
+export function getGermanHolidays(year: number, state?: GermanState): Holiday[] {
+  const easter = getEasterSunday(year);
+  const fixed = (month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+  const only = (...states: GermanState[]) => state !== undefined && states.includes(state);
+
+  const holidays: { date: Date; name: string; applies: boolean }[] = [
+    { date: fixed(1, 1), name: 'Neujahr', applies: true },
+    { date: fixed(1, 6), name: 'Heilige Drei Könige', applies: only('BW', 'BY', 'ST') },
+    {
+      date: fixed(3, 8),
+      name: 'Internationaler Frauentag',
+      applies: (year >= 2019 && only('BE')) || (year >= 2023 && only('MV')),
+    },
+    { date: addDays(easter, -2), name: 'Karfreitag', applies: true },
+    { date: addDays(easter, 1), name: 'Ostermontag', applies: true },
+    { date: fixed(5, 1), name: 'Tag der Arbeit', applies: true },
+    { date: addDays(easter, 39), name: 'Christi Himmelfahrt', applies: true },
+    { date: addDays(easter, 50), name: 'Pfingstmontag', applies: true },
+    { date: addDays(easter, 60), name: 'Fronleichnam', applies: only('BW', 'BY', 'HE', 'NW', 'RP', 'SL') },
+    { date: fixed(8, 15), name: 'Mariä Himmelfahrt', applies: only('SL') },
+    { date: fixed(9, 20), name: 'Weltkindertag', applies: year >= 2019 && only('TH') },
+    { date: fixed(10, 3), name: 'Tag der Deutschen Einheit', applies: true },
+    {
+      date: fixed(10, 31),
+      name: 'Reformationstag',
+      applies:
+        year === 2017 ||
+        only('BB', 'MV', 'SN', 'ST', 'TH') ||
+        (year >= 2018 && only('HB', 'HH', 'NI', 'SH')),
+    },
+    { date: fixed(11, 1), name: 'Allerheiligen', applies: only('BW', 'BY', 'NW', 'RP', 'SL') },
+    { date: getRepentanceDay(year), name: 'Buß- und Bettag', applies: only('SN') },
+    { date: fixed(12, 25), name: '1. Weihnachtstag', applies: true },
+    { date: fixed(12, 26), name: '2. Weihnachtstag', applies: true },
+  ];
+
+  return holidays
+    .filter((holiday) => holiday.applies)
+    .map((holiday) => ({ date: formatDate(holiday.date), name: holiday.name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Whether a date is neither a weekend nor a public holiday
+ */
+export function isWorkingDay(date: string, state?: GermanState): boolean {
+  const day = parseDate(date);
+  const weekday = day.getUTCDay();
+
+  if (weekday === 0 || weekday === 6) {
+    return false;
+  }
+
+  const isoDate = formatDate(day);
+  return !getGermanHolidays(day.getUTCFullYear(), state).some((holiday) => holiday.date === isoDate);
+}
+
+/**
+ * The date itself if it is a working day, otherwise the next working day
+ *
+ * @example
+ * ```typescript
+ * getNextWorkingDay('2026-10-03'); // "2026-10-05" (Saturday, Tag der Deutschen Einheit)
+ * ```
+ */
+export function getNextWorkingDay(date: string, state?: GermanState): string {
+  let day = parseDate(date);
+
+  while (!isWorkingDay(formatDate(day), state)) {
+    day = addDays(day, 1);
+  }
+
+  return formatDate(day);
+}
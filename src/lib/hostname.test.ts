@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getRootDomains,
+  getTenantSubdomain,
+  getTenantUrl,
+  type HostResolution,
+  normalizeHostname,
+  resolveHostname,
+} from '@/lib/hostname';
+
+const ROOT_DOMAINS = ['belegboost.de', 'staging.belegboost.de', 'localhost'];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveHostname', () => {
+  it.each<[string, HostResolution]>([
+    // Main site
+    ['belegboost.de', { type: 'main', hostname: 'belegboost.de', rootDomain: 'belegboost.de' }],
+    ['www.belegboost.de', { type: 'main', hostname: 'www.belegboost.de', rootDomain: 'belegboost.de' }],
+    ['BelegBoost.DE.', { type: 'main', hostname: 'belegboost.de', rootDomain: 'belegboost.de' }],
+    ['localhost:3000', { type: 'main', hostname: 'localhost', rootDomain: 'localhost' }],
+
+    // Tenants
+    [
+      'kanzlei.belegboost.de',
+      { type: 'tenant', hostname: 'kanzlei.belegboost.de', rootDomain: 'belegboost.de', subdomain: 'kanzlei' },
+    ],
+    [
+      'Kanzlei.BelegBoost.de:443',
+      { type: 'tenant', hostname: 'kanzlei.belegboost.de', rootDomain: 'belegboost.de', subdomain: 'kanzlei' },
+    ],
+    [
+      'kanzlei.belegboost.de.',
+      { type: 'tenant', hostname: 'kanzlei.belegboost.de', rootDomain: 'belegboost.de', subdomain: 'kanzlei' },
+    ],
+    [
+      '  kanzlei-mueller.belegboost.de  ',
+      {
+        type: 'tenant',
+        hostname: 'kanzlei-mueller.belegboost.de',
+        rootDomain: 'belegboost.de',
+        subdomain: 'kanzlei-mueller',
+      },
+    ],
+    [
+      'kanzlei.localhost:3000',
+      { type: 'tenant', hostname: 'kanzlei.localhost', rootDomain: 'localhost', subdomain: 'kanzlei' },
+    ],
+
+    // Staging is matched by the longest root domain
+    [
+      'staging.belegboost.de',
+      { type: 'main', hostname: 'staging.belegboost.de', rootDomain: 'staging.belegboost.de' },
+    ],
+    [
+      'kanzlei.staging.belegboost.de',
+      {
+        type: 'tenant',
+        hostname: 'kanzlei.staging.belegboost.de',
+        rootDomain: 'staging.belegboost.de',
+        subdomain: 'kanzlei',
+      },
+    ],
+    [
+      'www.staging.belegboost.de:8080',
+      { type: 'main', hostname: 'www.staging.belegboost.de', rootDomain: 'staging.belegboost.de' },
+    ],
+
+    // Punycode
+    [
+      'müller.belegboost.de',
+      {
+        type: 'tenant',
+        hostname: 'xn--mller-kva.belegboost.de',
+        rootDomain: 'belegboost.de',
+        subdomain: 'xn--mller-kva',
+      },
+    ],
+    [
+      'xn--mller-kva.belegboost.de',
+      {
+        type: 'tenant',
+        hostname: 'xn--mller-kva.belegboost.de',
+        rootDomain: 'belegboost.de',
+        subdomain: 'xn--mller-kva',
+      },
+    ],
+
+    // Reserved subdomains
+    [
+      'api.belegboost.de',
+      { type: 'reserved', hostname: 'api.belegboost.de', rootDomain: 'belegboost.de', subdomain: 'api' },
+    ],
+    [
+      'admin.belegboost.de',
+      { type: 'reserved', hostname: 'admin.belegboost.de', rootDomain: 'belegboost.de', subdomain: 'admin' },
+    ],
+    [
+      'app.staging.belegboost.de',
+      {
+        type: 'reserved',
+        hostname: 'app.staging.belegboost.de',
+        rootDomain: 'staging.belegboost.de',
+        subdomain: 'app',
+      },
+    ],
+
+    // Nested labels are no tenant hosts
+    ['a.kanzlei.belegboost.de', { type: 'unknown', hostname: 'a.kanzlei.belegboost.de' }],
+
+    // Custom domains are looked up separately
+    ['portal.kanzlei-mueller.de', { type: 'unknown', hostname: 'portal.kanzlei-mueller.de' }],
+    ['kanzlei-mueller.de:443', { type: 'unknown', hostname: 'kanzlei-mueller.de' }],
+    ['belegboost.de.evil.com', { type: 'unknown', hostname: 'belegboost.de.evil.com' }],
+    ['evilbelegboost.de', { type: 'unknown', hostname: 'evilbelegboost.de' }],
+
+    // Invalid hosts
+    ['', { type: 'unknown', hostname: '' }],
+    ['   ', { type: 'unknown', hostname: '   ' }],
+    ['kanzlei belegboost.de', { type: 'unknown', hostname: 'kanzlei belegboost.de' }],
+    ['[::1]:3000', { type: 'unknown', hostname: '[::1]' }],
+  ])('%s', (host, expected) => {
+    expect(resolveHostname(host, { rootDomains: ROOT_DOMAINS })).toEqual(expected);
+  });
+
+  it('uses custom reserved subdomains', () => {
+    const resolution = resolveHostname('kanzlei.belegboost.de', {
+      rootDomains: ROOT_DOMAINS,
+      reservedSubdomains: ['kanzlei'],
+    });
+
+    expect(resolution).toEqual({
+      type: 'reserved',
+      hostname: 'kanzlei.belegboost.de',
+      rootDomain: 'belegboost.de',
+      subdomain: 'kanzlei',
+    });
+  });
+
+  it('reads the root domains from the environment', () => {
+    vi.stubEnv('NEXT_PUBLIC_ROOT_DOMAINS', 'belegboost.test');
+
+    expect(getTenantSubdomain('kanzlei.belegboost.test')).toBe('kanzlei');
+    expect(getTenantSubdomain('kanzlei.belegboost.de')).toBeNull();
+  });
+});
+
+describe('getRootDomains', () => {
+  it('falls back to the production domain and localhost', () => {
+    vi.stubEnv('NEXT_PUBLIC_ROOT_DOMAINS', '');
+
+    expect(getRootDomains()).toEqual(['belegboost.de', 'localhost']);
+  });
+
+  it('normalizes the configured domains', () => {
+    vi.stubEnv('NEXT_PUBLIC_ROOT_DOMAINS', ' BelegBoost.de , staging.belegboost.de.,, localhost:3000');
+
+    expect(getRootDomains()).toEqual(['belegboost.de', 'staging.belegboost.de', 'localhost']);
+  });
+});
+
+describe('normalizeHostname', () => {
+  it.each([
+    ['Kanzlei.BelegBoost.de:443', 'kanzlei.belegboost.de'],
+    ['kanzlei.belegboost.de.', 'kanzlei.belegboost.de'],
+    ['bücher.de', 'xn--bcher-kva.de'],
+    ['', null],
+    ['kanzlei/../admin', null],
+    ['kanzlei.belegboost.de\\admin', null],
+    ['kanzlei.belegboost.de?x', null],
+    ['kanzlei.belegboost.de#x', null],
+    ['evil.com@kanzlei.belegboost.de', null],
+  ])('%s -> %s', (host, expected) => {
+    expect(normalizeHostname(host)).toBe(expected);
+  });
+});
+
+describe('getTenantSubdomain', () => {
+  it.each([
+    ['kanzlei.belegboost.de', 'kanzlei'],
+    ['belegboost.de', null],
+    ['www.belegboost.de', null],
+    ['api.belegboost.de', null],
+    ['portal.kanzlei-mueller.de', null],
+  ])('%s -> %s', (host, expected) => {
+    expect(getTenantSubdomain(host, { rootDomains: ROOT_DOMAINS })).toBe(expected);
+  });
+});
+
+describe('getTenantUrl', () => {
+  it.each([
+    ['https://belegboost.de', '/login', 'https://kanzlei.belegboost.de/login'],
+    ['https://www.belegboost.de', '/', 'https://kanzlei.belegboost.de/'],
+    ['http://localhost:3000', '/dashboard', 'http://kanzlei.localhost:3000/dashboard'],
+  ])('%s%s', (appUrl, pathname, expected) => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', appUrl);
+
+    expect(getTenantUrl('kanzlei', pathname)).toBe(expected);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Hostname to tenant resolution
+ *
+ * Single source of truth for mapping a request host to a tenant subdomain.
+ * Used by the edge middleware and by server-side helpers, so it must not
+ * import anything that is unavailable in the edge runtime.
+ */
+
+/**
+ * Root domains used when NEXT_PUBLIC_ROOT_DOMAINS is not set
+ */
+const DEFAULT_ROOT_DOMAINS = ['belegboost.de', 'localhost'];
+
+/**
+ * Subdomains that never resolve to a tenant
+ * - www: alias of the main site
+ * - app, api, admin: reserved for platform services
+ */
+export const RESERVED_SUBDOMAINS: readonly string[] = ['www', 'app', 'api', 'admin'];
+
+/**
+ * Result of resolving a hostname
+ * - main: the main site (root domain or www)
+ * - tenant: a tenant subdomain of one of the root domains
+ * - reserved: a reserved subdomain of one of the root domains
+ * - unknown: a host that is not served under any root domain
+ */
+export type HostResolution =
+  | { type: 'main'; hostname: string; rootDomain: string }
+  | { type: 'tenant'; hostname: string; rootDomain: string; subdomain: string }
+  | { type: 'reserved'; hostname: string; rootDomain: string; subdomain: string }
+  | { type: 'unknown'; hostname: string };
+
+export interface HostResolverOptions {
+  rootDomains?: readonly string[];
+  reservedSubdomains?: readonly string[];
+}
+
+/**
+ * Root domains configured via NEXT_PUBLIC_ROOT_DOMAINS (comma-separated)
+ * e.g. "belegboost.de,staging.belegboost.de,localhost"
+ */
+export function getRootDomains(): string[] {
+  const configured = process.env.NEXT_PUBLIC_ROOT_DOMAINS;
+
+  if (!configured) {
+    return DEFAULT_ROOT_DOMAINS;
+  }
+
+  return configured
+    .split(',')
+    .map((domain) => normalizeHostname(domain))
+    .filter((domain): domain is string => Boolean(domain));
+}
+
+/**
+ * Normalize a host header value to a bare ASCII hostname
+ *
+ * Strips the port and trailing dot, lowercases, and converts
+ * internationalized names to punycode (e.g. "müller" -> "xn--mller-kva").
+ *
+ * @returns The normalized hostname or null if the value is not a valid host
+ */
+export function normalizeHostname(host: string): string | null {
+  const trimmed = host.trim();
+
+  // URL parsing would read these as path, query or user info
+  if (!trimmed || /[/\\?#@]/.test(trimmed)) {
+    return null;
+  }
+
+  try {
+    // URL parsing handles ports, IPv6 brackets, casing and IDNA conversion
+    const { hostname } = new URL(`http://${trimmed}`);
+    return hostname.replace(/\.$/, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a host header value to the main site, a tenant or an unknown host
+ *
+ * Root domains are matched by longest suffix, so with both "belegboost.de"
+ * and "staging.belegboost.de" configured, "kanzlei.staging.belegboost.de"
+ * resolves to tenant "kanzlei". Only a single label in front of the root
+ * domain is treated as a tenant subdomain.
+ *
+ * @example
+ * ```typescript
+ * resolveHostname('kanzlei.belegboost.de:443');
+ * // { type: 'tenant', subdomain: 'kanzlei', rootDomain: 'belegboost.de', ... }
+ * ```
+ */
+export function resolveHostname(host: string, options: HostResolverOptions = {}): HostResolution {
+  const rootDomains = options.rootDomains ?? getRootDomains();
+  const reservedSubdomains = options.reservedSubdomains ?? RESERVED_SUBDOMAINS;
+
+  const hostname = normalizeHostname(host);
+
+  if (!hostname) {
+    return { type: 'unknown', hostname: host };
+  }
+
+  const rootDomain = [...rootDomains]
+    .sort((a, b) => b.length - a.length)
+    .find((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+
+  if (!rootDomain) {
+    return { type: 'unknown', hostname };
+  }
+
+  if (hostname === rootDomain) {
+    return { type: 'main', hostname, rootDomain };
+  }
+
+  const subdomain = hostname.slice(0, -(rootDomain.length + 1));
+
+  // Nested labels (a.b.belegboost.de) are not tenant hosts
+  if (subdomain.includes('.')) {
+    return { type: 'unknown', hostname };
+  }
+
+  if (subdomain === 'www') {
+    return { type: 'main', hostname, rootDomain };
+  }
+
+  if (reservedSubdomains.includes(subdomain)) {
+    return { type: 'reserved', hostname, rootDomain, subdomain };
+  }
+
+  return { type: 'tenant', hostname, rootDomain, subdomain };
+}
+
+/**
+ * Get the tenant subdomain for a host header value
+ *
+ * @returns The tenant subdomain or null for main, reserved and unknown hosts
+ */
+export function getTenantSubdomain(host: string, options?: HostResolverOptions): string | null {
+  const resolution = resolveHostname(host, options);
+  return resolution.type === 'tenant' ? resolution.subdomain : null;
+}
+
+/**
+ * Build the public URL of a tenant portal
+ *
+ * Derived from NEXT_PUBLIC_APP_URL so protocol and port match the
+ * environment (e.g. http://kanzlei.localhost:3000 in development).
+ */
+export function getTenantUrl(subdomain: string, pathname = '/'): string {
+  const url = new URL(pathname, process.env.NEXT_PUBLIC_APP_URL || 'https://belegboost.de');
+  url.hostname = `${subdomain}.${url.hostname.replace(/^www\./, '')}`;
+  return url.toString();
+}
@@ -0,0 +1,91 @@
+/**
+ * IBAN checks
+ *
+ * An IBAN is valid if its length fits the country and the check digits
+ * work out (ISO 13616: the rearranged number modulo 97 is 1). Lengths are
+ * only known for the SEPA countries - others are checked by checksum only.
+ */
+
+/**
+ * IBAN length per country (SEPA area)
+ */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AT: 20,
+  BE: 16,
+  BG: 22,
+  CH: 21,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DK: 18,
+  EE: 20,
+  ES: 24,
+  FI: 18,
+  FR: 27,
+  GB: 22,
+  GI: 23,
+  GR: 27,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IS: 26,
+  IT: 27,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  MC: 27,
+  MT: 31,
+  NL: 18,
+  NO: 15,
+  PL: 28,
+  PT: 25,
+  RO: 24,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  VA: 22,
+};
+
+/**
+ * Remove spaces and hyphens and upper-case an IBAN as typed
+ */
+export function normalizeIban(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Whether a normalized IBAN is valid (see normalizeIban)
+ */
+export function isValidIban(iban: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const length = IBAN_LENGTHS[iban.slice(0, 2)];
+
+  if (length && iban.length !== length) {
+    return false;
+  }
+
+  // Country code and check digits move to the end, letters become 10-35
+  const digits = [...(iban.slice(4) + iban.slice(0, 4))]
+    .map((character) => parseInt(character, 36).toString())
+    .join('');
+  let remainder = 0;
+
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * Format an IBAN in groups of four, e.g. "DE89 3704 0044 0532 0130 00"
+ */
+export function formatIban(iban: string): string {
+  return normalizeIban(iban).replace(/(.{4})(?=.)/g, '$1 ');
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { checkInvoiceRequirements } from '@/lib/invoice-requirements';
+import { detectReceiptFields } from '@/lib/receipt-fields';
+
+function check(lines: string[]) {
+  const text = lines.join('\n');
+  return checkInvoiceRequirements(text, detectReceiptFields(text));
+}
+
+describe('checkInvoiceRequirements', () => {
+  it.each([
+    ['an invoice heading', ['Musterfirma GmbH', 'RECHNUNG', 'Datum: 01.06.2025']],
+    ['a numbered heading', ['Schlussrechnung Nr. 2025-17']],
+    ['an invoice number label', ['Musterfirma GmbH', 'Rechnungsnr.: 4711']],
+    ['an English heading', ['Tax Invoice', 'Invoice date: 2025-06-01']],
+  ])('checks texts with %s', (_, lines) => {
+    expect(check(lines)).not.toBeNull();
+  });
+
+  it.each([
+    ['bank statements', ['Kontoauszug 6/2025', 'Rechnungsabschluss zum 30.06.2025', 'Saldo 1.234,56 EUR']],
+    ['mentions of invoices', ['Lieferschein', 'Rechnung folgt', 'Die Rechnung erhalten Sie separat.']],
+  ])('skips %s', (_, lines) => {
+    expect(check(lines)).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Mandatory elements of invoices (§ 14 Abs. 4 UStG)
+ *
+ * Input tax can only be deducted from invoices that state everything
+ * § 14 Abs. 4 UStG requires. After text extraction, invoices are checked
+ * for the elements that can be told from their text, so the advisor sees
+ * what is missing before reviewing the document. The kind and quantity of
+ * the goods or services (Nr. 5) cannot be checked this way.
+ *
+ * Invoices up to 250 euros (Kleinbetragsrechnungen, § 33 UStDV) only need
+ * the issuer's name and address, the date, the gross amount and the tax
+ * rate. VAT-exempt invoices need a note on the exemption instead of rate
+ * and tax amount.
+ */
+
+import { INVOICE_NUMBER_LABEL, SERVICE_DATE_LABEL } from '@/lib/receipt-fields';
+import { type InvoiceRequirement, type ReceiptFields } from '@/types/document';
+
+/**
+ * Labels of the mandatory elements, in the order of § 14 Abs. 4 UStG
+ */
+export const INVOICE_REQUIREMENT_LABELS: Record<InvoiceRequirement, string> = {
+  addresses: 'Name und Anschrift von Leistendem und Leistungsempfänger',
+  tax_number: 'Steuernummer oder USt-IdNr. des Leistenden',
+  invoice_date: 'Ausstellungsdatum',
+  invoice_number: 'Rechnungsnummer',
+  service_date: 'Zeitpunkt der Lieferung oder Leistung',
+  net_amount: 'Entgelt (Nettobetrag)',
+  vat: 'Steuersatz und Steuerbetrag oder Hinweis auf die Steuerbefreiung',
+};
+
+/**
+ * Largest gross amount of a Kleinbetragsrechnung in cents (§ 33 UStDV)
+ */
+export const SMALL_INVOICE_MAX_CENTS = 25_000;
+
+// A line titling the document, e.g. "Rechnung", "RECHNUNG Nr. 2024-17",
+// "Schlussrechnung" - not "Rechnungsabschluss" or "Rechnung folgt"
+const INVOICE_HEADING =
+  /^[ \t]*(?:(?:teil|schluss|abschlags|korrektur|steuer)?rechnung|rechnungskorrektur|(?:tax )?invoice)(?:[ \t]+(?:nr\.?|no\.?|nummer|number|#)?[ \t]*[:#]?[ \t]*(?=[A-Z0-9/_.-]*\d)[A-Z0-9][A-Z0-9/_.-]*)?[ \t]*$/im;
+
+// Postal code and town, e.g. "10115 Berlin"
+const ADDRESS = /(?<!\d)\d{5} +[A-ZÄÖÜ][a-zäöüß]+/g;
+
+const VAT_EXEMPTION =
+  /steuerfrei|steuerbefrei|§ ?4 ?nr|§ ?19 ?(?:abs\. ?1 ?)?ustg|kleinunternehmer|reverse[ -]charge|steuerschuldnerschaft des leistungsempfängers|§ ?13b/i;
+
+/**
+ * Check the text of a document for the mandatory invoice elements
+ *
+ * @param fields - Fields detected in the text (see detectReceiptFields)
+ * @returns Missing elements, in the order of the law - null if the text is
+ * no invoice
+ */
+export function checkInvoiceRequirements(text: string, fields: ReceiptFields): InvoiceRequirement[] | null {
+  // Invoices are titled as such or state an invoice number
+  if (!INVOICE_HEADING.test(text) && !INVOICE_NUMBER_LABEL.test(text)) {
+    return null;
+  }
+
+  const small = fields.receipt_gross_amount !== null && fields.receipt_gross_amount <= SMALL_INVOICE_MAX_CENTS;
+  const exempt = VAT_EXEMPTION.test(text);
+  const addresses = new Set(text.match(ADDRESS)).size;
+
+  // Exempt invoices may state a single amount, which is then the net amount
+  const netAmount = fields.receipt_net_amount ?? (exempt ? fields.receipt_gross_amount : null);
+  const vat = exempt || (fields.receipt_vat_rate !== null && (small || fields.receipt_vat_amount !== null));
+
+  const missing: Record<InvoiceRequirement, boolean> = {
+    addresses: addresses < (small ? 1 : 2),
+    tax_number: !small && !fields.receipt_vat_id && !fields.receipt_tax_number,
+    invoice_date: !fields.receipt_date,
+    invoice_number: !small && !fields.receipt_invoice_number,
+    service_date: !small && !fields.receipt_service_date && !SERVICE_DATE_LABEL.test(text),
+    net_amount: !small && netAmount === null,
+    vat: !vat,
+  };
+
+  return (Object.keys(INVOICE_REQUIREMENT_LABELS) as InvoiceRequirement[]).filter((requirement) => missing[requirement]);
+}
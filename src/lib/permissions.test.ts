@@ -0,0 +1,296 @@
+import { describe, expect, it } from 'vitest';
+import {
+  can,
+  POLICY_ACTIONS,
+  type PolicyAction,
+  type PolicyResource,
+  type PolicyResourceKind,
+} from '@/lib/permissions';
+import { type ChecklistStatus } from '@/types/checklist';
+import { type TenantContext, type UserRole } from '@/types/user';
+
+type ResourceOf<K extends PolicyResourceKind> = Extract<PolicyResource, { kind: K }>;
+
+const TENANT_ID = 'tenant-1';
+const ADVISOR_ORGANIZATION = 'advisor-org';
+const OWN_ORGANIZATION = 'client-a';
+const OTHER_ORGANIZATION = 'client-b';
+
+const ROLES: UserRole[] = ['owner', 'advisor', 'client_admin', 'client_employee'];
+
+const CONTEXTS: Record<UserRole, TenantContext> = {
+  owner: context('owner', 'owner', ADVISOR_ORGANIZATION),
+  advisor: context('advisor', 'advisor', ADVISOR_ORGANIZATION),
+  client_admin: context('client-admin', 'client_admin', OWN_ORGANIZATION),
+  client_employee: context('client-employee', 'client_employee', OWN_ORGANIZATION),
+};
+
+function context(userId: string, role: UserRole, organizationId: string): TenantContext {
+  return { tenantId: TENANT_ID, teamId: 'team-1', userId, organizationId, role, subdomain: 'kanzlei' };
+}
+
+const CHECKLIST_STATUSES: ChecklistStatus[] = ['draft', 'active', 'completed', 'archived'];
+
+/**
+ * One fixture per checklist status for the own and another client
+ * organization, named "own.active", "other.archived" etc.
+ */
+function perChecklistStatus<T>(create: (organizationId: string, status: ChecklistStatus) => T) {
+  const fixtures: Record<string, T> = {};
+
+  for (const status of CHECKLIST_STATUSES) {
+    fixtures[`own.${status}`] = create(OWN_ORGANIZATION, status);
+    fixtures[`other.${status}`] = create(OTHER_ORGANIZATION, status);
+  }
+
+  return fixtures;
+}
+
+const FIXTURES: { [K in PolicyResourceKind]: Record<string, ResourceOf<K>> } = {
+  checklist: perChecklistStatus((organization_id, status) => ({
+    kind: 'checklist',
+    tenant_id: TENANT_ID,
+    organization_id,
+    status,
+  })),
+  checklist_item: perChecklistStatus((organization_id, checklist_status) => ({
+    kind: 'checklist_item',
+    tenant_id: TENANT_ID,
+    organization_id,
+    checklist_status,
+  })),
+  organization: {
+    advisor: { kind: 'organization', $id: ADVISOR_ORGANIZATION, tenant_id: TENANT_ID, type: 'advisor' },
+    own: { kind: 'organization', $id: OWN_ORGANIZATION, tenant_id: TENANT_ID, type: 'client' },
+    other: { kind: 'organization', $id: OTHER_ORGANIZATION, tenant_id: TENANT_ID, type: 'client' },
+  },
+  user: {
+    owner: user('owner', 'owner', ADVISOR_ORGANIZATION),
+    'other-owner': user('other-owner', 'owner', ADVISOR_ORGANIZATION),
+    advisor: user('advisor', 'advisor', ADVISOR_ORGANIZATION),
+    'client-admin': user('client-admin', 'client_admin', OWN_ORGANIZATION),
+    'client-employee': user('client-employee', 'client_employee', OWN_ORGANIZATION),
+    'other-client': user('other-client', 'client_employee', OTHER_ORGANIZATION),
+  },
+  document: {
+    // Uploaded by the client admin and not reviewed yet
+    ...perChecklistStatus((organization_id, checklist_status) => ({
+      kind: 'document' as const,
+      tenant_id: TENANT_ID,
+      organization_id,
+      checklist_status,
+      uploaded_by: organization_id === OWN_ORGANIZATION ? 'client-admin' : 'other-client',
+      status: 'pending' as const,
+    })),
+    'own.active.accepted': {
+      kind: 'document',
+      tenant_id: TENANT_ID,
+      organization_id: OWN_ORGANIZATION,
+      checklist_status: 'active',
+      uploaded_by: 'client-admin',
+      status: 'accepted',
+    },
+    'own.active.authoritative': {
+      kind: 'document',
+      tenant_id: TENANT_ID,
+      organization_id: OWN_ORGANIZATION,
+      checklist_status: 'active',
+      uploaded_by: 'client-admin',
+      status: 'pending',
+      is_authoritative: true,
+    },
+  },
+  template: {
+    template: { kind: 'template', tenant_id: TENANT_ID },
+  },
+  bulk_assignment: {
+    assignment: { kind: 'bulk_assignment', tenant_id: TENANT_ID },
+  },
+};
+
+function user(id: string, role: UserRole, organizationId: string): ResourceOf<'user'> {
+  return { kind: 'user', $id: id, tenant_id: TENANT_ID, organization_id: organizationId, role };
+}
+
+const ALL_CHECKLISTS = Object.keys(FIXTURES.checklist);
+const WRITABLE_CHECKLISTS = ALL_CHECKLISTS.filter((name) => !name.endsWith('.archived'));
+const VISIBLE_TO_CLIENT = ['own.active', 'own.completed', 'own.archived'];
+
+const ALL_DOCUMENTS = Object.keys(FIXTURES.document);
+const WRITABLE_DOCUMENTS = ALL_DOCUMENTS.filter((name) => !name.endsWith('.archived'));
+const REVIEWABLE_DOCUMENTS = ALL_DOCUMENTS.filter((name) => name.split('.')[1] === 'active');
+const DELETABLE_DOCUMENTS = WRITABLE_DOCUMENTS.filter(
+  (name) => name !== 'own.active.accepted' && name !== 'own.active.authoritative'
+);
+
+const ADVISORS_ONLY = { owner: ['template'], advisor: ['template'], client_admin: [], client_employee: [] };
+
+/**
+ * Fixtures each role may use per action - everything not listed is denied
+ */
+const EXPECTED: {
+  [K in PolicyResourceKind]: Record<PolicyAction<K>, Record<UserRole, string[]>>;
+} = {
+  checklist: {
+    read: {
+      owner: ALL_CHECKLISTS,
+      advisor: ALL_CHECKLISTS,
+      client_admin: VISIBLE_TO_CLIENT,
+      client_employee: VISIBLE_TO_CLIENT,
+    },
+    create: { owner: ALL_CHECKLISTS, advisor: ALL_CHECKLISTS, client_admin: [], client_employee: [] },
+    update: { owner: WRITABLE_CHECKLISTS, advisor: WRITABLE_CHECKLISTS, client_admin: [], client_employee: [] },
+    delete: {
+      owner: WRITABLE_CHECKLISTS,
+      advisor: ['own.draft', 'other.draft'],
+      client_admin: [],
+      client_employee: [],
+    },
+  },
+
+  checklist_item: {
+    read: {
+      owner: ALL_CHECKLISTS,
+      advisor: ALL_CHECKLISTS,
+      client_admin: VISIBLE_TO_CLIENT,
+      client_employee: VISIBLE_TO_CLIENT,
+    },
+    create: { owner: WRITABLE_CHECKLISTS, advisor: WRITABLE_CHECKLISTS, client_admin: [], client_employee: [] },
+    update: { owner: WRITABLE_CHECKLISTS, advisor: WRITABLE_CHECKLISTS, client_admin: [], client_employee: [] },
+    delete: { owner: WRITABLE_CHECKLISTS, advisor: WRITABLE_CHECKLISTS, client_admin: [], client_employee: [] },
+    upload: {
+      owner: WRITABLE_CHECKLISTS,
+      advisor: WRITABLE_CHECKLISTS,
+      client_admin: ['own.active'],
+      client_employee: ['own.active'],
+    },
+    change_status: {
+      owner: WRITABLE_CHECKLISTS,
+      advisor: WRITABLE_CHECKLISTS,
+      client_admin: [],
+      client_employee: [],
+    },
+  },
+
+  organization: {
+    read: {
+      owner: ['advisor', 'own', 'other'],
+      advisor: ['advisor', 'own', 'other'],
+      client_admin: ['own'],
+      client_employee: ['own'],
+    },
+    create: { owner: ['own', 'other'], advisor: ['own', 'other'], client_admin: [], client_employee: [] },
+    update: {
+      owner: ['advisor', 'own', 'other'],
+      advisor: ['own', 'other'],
+      client_admin: ['own'],
+      client_employee: [],
+    },
+    delete: { owner: ['own', 'other'], advisor: [], client_admin: [], client_employee: [] },
+  },
+
+  user: {
+    read: {
+      owner: Object.keys(FIXTURES.user),
+      advisor: Object.keys(FIXTURES.user),
+      client_admin: ['client-admin', 'client-employee'],
+      client_employee: ['client-admin', 'client-employee'],
+    },
+    create: {
+      owner: ['owner', 'advisor', 'client-admin', 'client-employee', 'other-client'],
+      advisor: ['client-admin', 'client-employee', 'other-client'],
+      client_admin: ['client-admin', 'client-employee'],
+      client_employee: [],
+    },
+    update: {
+      owner: ['owner', 'advisor', 'client-admin', 'client-employee', 'other-client'],
+      advisor: ['advisor', 'client-admin', 'client-employee', 'other-client'],
+      client_admin: ['client-admin', 'client-employee'],
+      client_employee: ['client-employee'],
+    },
+    delete: {
+      owner: ['advisor', 'client-admin', 'client-employee', 'other-client'],
+      advisor: ['client-admin', 'client-employee', 'other-client'],
+      client_admin: ['client-employee'],
+      client_employee: [],
+    },
+  },
+
+  document: {
+    read: {
+      owner: ALL_DOCUMENTS,
+      advisor: ALL_DOCUMENTS,
+      client_admin: [...VISIBLE_TO_CLIENT, 'own.active.accepted', 'own.active.authoritative'],
+      client_employee: [...VISIBLE_TO_CLIENT, 'own.active.accepted', 'own.active.authoritative'],
+    },
+    upload: {
+      owner: WRITABLE_DOCUMENTS,
+      advisor: WRITABLE_DOCUMENTS,
+      client_admin: ['own.active', 'own.active.accepted', 'own.active.authoritative'],
+      client_employee: ['own.active', 'own.active.accepted', 'own.active.authoritative'],
+    },
+    delete: {
+      owner: DELETABLE_DOCUMENTS,
+      advisor: DELETABLE_DOCUMENTS,
+      client_admin: ['own.active'],
+      client_employee: [],
+    },
+    review: { owner: REVIEWABLE_DOCUMENTS, advisor: REVIEWABLE_DOCUMENTS, client_admin: [], client_employee: [] },
+  },
+
+  template: {
+    read: ADVISORS_ONLY,
+    create: ADVISORS_ONLY,
+    update: ADVISORS_ONLY,
+    delete: ADVISORS_ONLY,
+  },
+
+  bulk_assignment: {
+    read: { owner: ['assignment'], advisor: ['assignment'], client_admin: [], client_employee: [] },
+    create: { owner: ['assignment'], advisor: ['assignment'], client_admin: [], client_employee: [] },
+  },
+};
+
+const KINDS = Object.keys(POLICY_ACTIONS) as PolicyResourceKind[];
+
+const CASES = KINDS.flatMap((kind) =>
+  (POLICY_ACTIONS[kind] as readonly string[]).flatMap((action) =>
+    ROLES.flatMap((role) =>
+      Object.keys(FIXTURES[kind]).map((fixture) => ({
+        kind,
+        action,
+        role,
+        fixture,
+        allowed: (EXPECTED[kind] as Record<string, Record<UserRole, string[]>>)[action][role].includes(fixture),
+      }))
+    )
+  )
+);
+
+describe('can', () => {
+  it.each(CASES)('$role $action $kind $fixture: $allowed', ({ kind, action, role, fixture, allowed }) => {
+    const resource = FIXTURES[kind][fixture];
+
+    expect(can(CONTEXTS[role], action as PolicyAction, resource)).toBe(allowed);
+  });
+
+  it.each(CASES)('$role $action $kind $fixture in another tenant: false', ({ kind, action, role, fixture }) => {
+    const resource = { ...FIXTURES[kind][fixture], tenant_id: 'tenant-2' };
+
+    expect(can(CONTEXTS[role], action as PolicyAction, resource)).toBe(false);
+  });
+
+  it('rejects actions a resource kind does not have', () => {
+    expect(can<PolicyResource>(CONTEXTS.owner, 'upload', FIXTURES.template.template)).toBe(false);
+  });
+
+  it('only expects fixtures that exist', () => {
+    for (const kind of KINDS) {
+      const names = Object.values(EXPECTED[kind] as Record<string, Record<UserRole, string[]>>).flatMap((roles) =>
+        Object.values(roles).flat()
+      );
+
+      expect(names.filter((name) => !(name in FIXTURES[kind]))).toEqual([]);
+    }
+  });
+});
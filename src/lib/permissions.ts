@@ -0,0 +1,245 @@
+/**
+ * Permission policy
+ *
+ * Central answer to "may this user do X with Y?". Every rule is a pure
+ * function of the tenant context and the resource, so the same policy is
+ * used by Server Actions (enforcement) and components (hiding controls).
+ *
+ * Rules are evaluated after a common tenant check: nothing outside the
+ * user's tenant is ever allowed.
+ */
+
+import { type ChecklistStatus } from '@/types/checklist';
+import { type DocumentStatus } from '@/types/document';
+import { type OrganizationType } from '@/types/organization';
+import {
+  isAdvisorRole,
+  isClientRole,
+  type TenantContext,
+  type UserRole,
+} from '@/types/user';
+
+/**
+ * Resources the policy knows about
+ *
+ * Only the fields the rules need are required, so callers can pass full
+ * documents or just the relevant parts. Checklist items and documents
+ * carry the tenant, organization and status of their checklist.
+ */
+export type PolicyResource =
+  | {
+      kind: 'checklist';
+      tenant_id: string;
+      organization_id: string;
+      status: ChecklistStatus;
+    }
+  | {
+      kind: 'checklist_item';
+      tenant_id: string;
+      organization_id: string;
+      checklist_status: ChecklistStatus;
+    }
+  | {
+      kind: 'organization';
+      $id: string;
+      tenant_id: string;
+      type: OrganizationType;
+    }
+  | {
+      kind: 'user';
+      $id: string;
+      tenant_id: string;
+      organization_id: string;
+      role: UserRole;
+    }
+  | {
+      kind: 'document';
+      tenant_id: string;
+      organization_id: string;
+      checklist_status: ChecklistStatus;
+      uploaded_by: string;
+      status: DocumentStatus;
+      is_authoritative?: boolean;
+    }
+  | {
+      kind: 'template';
+      tenant_id: string;
+    }
+  | {
+      kind: 'bulk_assignment';
+      tenant_id: string;
+    };
+
+export type PolicyResourceKind = PolicyResource['kind'];
+
+/**
+ * Actions per resource kind
+ */
+export const POLICY_ACTIONS = {
+  checklist: ['read', 'create', 'update', 'delete'],
+  checklist_item: ['read', 'create', 'update', 'delete', 'upload', 'change_status'],
+  organization: ['read', 'create', 'update', 'delete'],
+  user: ['read', 'create', 'update', 'delete'],
+  document: ['read', 'upload', 'delete', 'review'],
+  template: ['read', 'create', 'update', 'delete'],
+  bulk_assignment: ['read', 'create'],
+} as const satisfies Record<PolicyResourceKind, readonly string[]>;
+
+export type PolicyAction<K extends PolicyResourceKind = PolicyResourceKind> =
+  (typeof POLICY_ACTIONS)[K][number];
+
+type ResourceOf<K extends PolicyResourceKind> = Extract<PolicyResource, { kind: K }>;
+
+type Rule<K extends PolicyResourceKind> = (context: TenantContext, resource: ResourceOf<K>) => boolean;
+
+type PolicyTable = { [K in PolicyResourceKind]: Record<PolicyAction<K>, Rule<K>> };
+
+/**
+ * Client users only ever see their own organization
+ */
+function isOwnOrganization(context: TenantContext, resource: { organization_id: string }): boolean {
+  return resource.organization_id === context.organizationId;
+}
+
+/**
+ * Archived checklists are read-only for everyone
+ */
+function isWritable(status: ChecklistStatus): boolean {
+  return status !== 'archived';
+}
+
+/**
+ * Clients can see checklists once they have been activated
+ */
+function isVisibleToClient(status: ChecklistStatus): boolean {
+  return status !== 'draft';
+}
+
+const POLICY: PolicyTable = {
+  checklist: {
+    read: (ctx, res) =>
+      isAdvisorRole(ctx.role) || (isOwnOrganization(ctx, res) && isVisibleToClient(res.status)),
+    create: (ctx) => isAdvisorRole(ctx.role),
+    update: (ctx, res) => isAdvisorRole(ctx.role) && isWritable(res.status),
+    // Advisors delete drafts, the owner anything that is not archived yet
+    delete: (ctx, res) =>
+      isAdvisorRole(ctx.role) && isWritable(res.status) && (res.status === 'draft' || ctx.role === 'owner'),
+  },
+
+  checklist_item: {
+    read: (ctx, res) =>
+      isAdvisorRole(ctx.role) ||
+      (isOwnOrganization(ctx, res) && isVisibleToClient(res.checklist_status)),
+    create: (ctx, res) => isAdvisorRole(ctx.role) && isWritable(res.checklist_status),
+    update: (ctx, res) => isAdvisorRole(ctx.role) && isWritable(res.checklist_status),
+    delete: (ctx, res) => isAdvisorRole(ctx.role) && isWritable(res.checklist_status),
+    // Clients upload to active checklists of their own organization
+    upload: (ctx, res) =>
+      isAdvisorRole(ctx.role)
+        ? isWritable(res.checklist_status)
+        : isOwnOrganization(ctx, res) && res.checklist_status === 'active',
+    // The traffic light is set by the advisor only
+    change_status: (ctx, res) => isAdvisorRole(ctx.role) && isWritable(res.checklist_status),
+  },
+
+  organization: {
+    read: (ctx, res) => isAdvisorRole(ctx.role) || res.$id === ctx.organizationId,
+    create: (ctx, res) => isAdvisorRole(ctx.role) && res.type === 'client',
+    update: (ctx, res) =>
+      res.type === 'advisor'
+        ? ctx.role === 'owner'
+        : isAdvisorRole(ctx.role) || (ctx.role === 'client_admin' && res.$id === ctx.organizationId),
+    delete: (ctx, res) => ctx.role === 'owner' && res.type === 'client',
+  },
+
+  user: {
+    read: (ctx, res) => isAdvisorRole(ctx.role) || isOwnOrganization(ctx, res),
+    create: (ctx, res) => canManageUser(ctx, res),
+    update: (ctx, res) => res.$id === ctx.userId || canManageUser(ctx, res),
+    // Nobody deletes themselves - this keeps every tenant with an owner
+    delete: (ctx, res) => res.$id !== ctx.userId && canManageUser(ctx, res),
+  },
+
+  document: {
+    read: (ctx, res) =>
+      isAdvisorRole(ctx.role) ||
+      (isOwnOrganization(ctx, res) && isVisibleToClient(res.checklist_status)),
+    upload: (ctx, res) =>
+      isAdvisorRole(ctx.role)
+        ? isWritable(res.checklist_status)
+        : isOwnOrganization(ctx, res) && res.checklist_status === 'active',
+    // Accepted and authoritative versions are never deleted. Clients may
+    // withdraw their own uploads while the checklist is active, reviewed
+    // documents stay as history
+    delete: (ctx, res) =>
+      res.status !== 'accepted' &&
+      !res.is_authoritative &&
+      (isAdvisorRole(ctx.role)
+        ? isWritable(res.checklist_status)
+        : isOwnOrganization(ctx, res) &&
+          res.uploaded_by === ctx.userId &&
+          res.status === 'pending' &&
+          res.checklist_status === 'active'),
+    // Only where the item's traffic light can follow (see canChangeItemStatus)
+    review: (ctx, res) => isAdvisorRole(ctx.role) && res.checklist_status === 'active',
+  },
+
+  // Templates are internal to the firm - clients only see the checklists
+  template: {
+    read: (ctx) => isAdvisorRole(ctx.role),
+    create: (ctx) => isAdvisorRole(ctx.role),
+    update: (ctx) => isAdvisorRole(ctx.role),
+    delete: (ctx) => isAdvisorRole(ctx.role),
+  },
+
+  // Each created checklist is still checked on its own (checklist create)
+  bulk_assignment: {
+    read: (ctx) => isAdvisorRole(ctx.role),
+    create: (ctx) => isAdvisorRole(ctx.role),
+  },
+};
+
+/**
+ * Who may create, change or remove a user with a given role
+ * - owner: everyone except other owners
+ * - advisor: client users
+ * - client_admin: client users of their own organization
+ */
+function canManageUser(context: TenantContext, target: ResourceOf<'user'>): boolean {
+  switch (context.role) {
+    case 'owner':
+      return target.role !== 'owner' || target.$id === context.userId;
+    case 'advisor':
+      return isClientRole(target.role);
+    case 'client_admin':
+      return isClientRole(target.role) && isOwnOrganization(context, target);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether the current user may perform an action on a resource
+ *
+ * @example
+ * ```typescript
+ * if (!can(context, 'upload', { kind: 'checklist_item', ...item, checklist_status })) {
+ *   throw new ForbiddenError();
+ * }
+ * ```
+ */
+export function can<R extends PolicyResource>(
+  context: TenantContext,
+  action: PolicyAction<R['kind']>,
+  resource: R
+): boolean {
+  if (resource.tenant_id !== context.tenantId) {
+    return false;
+  }
+
+  // The table is keyed by kind, so the rule always matches the resource type
+  const rules = POLICY[resource.kind] as Record<string, (ctx: TenantContext, res: R) => boolean>;
+  const rule = rules[action];
+
+  return rule ? rule(context, resource) : false;
+}
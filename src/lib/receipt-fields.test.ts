@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { detectReceiptFields } from '@/lib/receipt-fields';
+
+describe('detectReceiptFields', () => {
+  it.each([
+    [
+      'the labeled ID over an unlabeled one',
+      ['Bestellung DE 123 456 788', 'Musterfirma GmbH', 'USt-IdNr.: DE 987 654 321'],
+      'DE987654321',
+    ],
+    [
+      "the issuer's ID over the recipient's",
+      ['Ihre USt-IdNr.: DE111111111', 'Betrag: 119,00 EUR', 'IBAN DE02120300000000202051', 'USt-IdNr. DE222222222'],
+      'DE222222222',
+    ],
+    [
+      'the ID in the footer over one elsewhere',
+      ['Kundenkonto USt-ID DE333333333', 'Amtsgericht Berlin HRB 12345', 'Geschäftsführer: Max Muster', 'UID: DE444444444'],
+      'DE444444444',
+    ],
+    ['an unlabeled ID without others', ['Musterfirma GmbH', 'DE 555 555 555'], 'DE555555555'],
+  ])('detects %s as the VAT ID', (_, lines, vatId) => {
+    expect(detectReceiptFields(lines.join('\n')).receipt_vat_id).toBe(vatId);
+  });
+
+  it("leaves out the recipient's VAT ID", () => {
+    expect(detectReceiptFields('Kunden-USt-IdNr.: DE666666666').receipt_vat_id).toBeNull();
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Receipt field detection
+ *
+ * Finds the fields an advisor books a receipt by - date, amounts, VAT
+ * rate, IBAN, invoice number and the issuer's tax identifiers - in the text
+ * extracted from the document.
+ * Receipts have no fixed layout, so the fields are looked up next to the
+ * usual German (and English) labels, with fallbacks for unlabeled values.
+ * Whatever is not found with reasonable confidence stays null; the advisor
+ * sees the receipt anyway.
+ */
+
+import { GERMAN_MONTH_NAMES } from '@/lib/holidays';
+import { isValidIban, normalizeIban } from '@/lib/iban';
+import { type ReceiptFields } from '@/types/document';
+
+// "1.234,56", "1234,56", "1,234.56", "1234.56" - not part of a date or longer number
+const AMOUNT = /(?<![\d.,])-?(\d{1,3}(?:\.\d{3})+,\d{2}|\d+,\d{2}|\d{1,3}(?:,\d{3})+\.\d{2}|\d+\.\d{2})(?![.,]?\d)/g;
+
+// Amounts marked as euros
+const EURO_AMOUNT = new RegExp(`(?:€|EUR)\\s?${AMOUNT.source}|${AMOUNT.source}\\s?(?:€|EUR)`, 'g');
+
+// "März", "Mär", "Mär."
+const MONTH = GERMAN_MONTH_NAMES.map((name) => `${name.slice(0, 3)}(?:${name.slice(3)}|\\.)?`).join('|');
+
+// "12.03.2024", "12.3.24", "2024-03-12", "12. März 2024"
+const DATE = new RegExp(
+  [
+    /(?<!\d)(\d{1,2})\.\s?(\d{1,2})\.\s?(\d{4}|\d{2})(?!\d)/.source,
+    /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/.source,
+    `(?<!\\d)(\\d{1,2})\\.?\\s*(${MONTH})\\s+(\\d{4})(?!\\d)`,
+  ].join('|'),
+  'gi'
+);
+
+/**
+ * Labels of the receipt date, most specific first
+ */
+const DATE_LABELS = [
+  /rechnungsdatum|belegdatum|ausstellungsdatum|invoice date/i,
+  /(?<![a-zäöüß])datum|(?<![a-z])(?<!due )date(?![a-z])/i,
+];
+
+/**
+ * Labels of the gross amount, most specific first
+ */
+const GROSS_AMOUNT_LABELS = [
+  /gesamtbetrag|rechnungsbetrag|bruttobetrag|endbetrag|zahlbetrag|zu zahlen/i,
+  /gesamtsumme|summe brutto|brutto|(?<!sub)total|gesamt/i,
+  /(?<!zwischen)summe/i,
+];
+
+// Subtotals and net amounts are not the gross amount, whatever their label
+const GROSS_AMOUNT_EXCLUDED = /netto|zwischensumme|sub ?total/i;
+
+/**
+ * Labels of the net amount, most specific first
+ */
+const NET_AMOUNT_LABELS = [/nettobetrag|summe netto|nettosumme|gesamt ?netto|netto/i, /entgelt/i];
+
+/**
+ * Labels of the time of supply (§ 14 Abs. 4 Nr. 6 UStG) - also found in
+ * "Leistungsdatum entspricht Rechnungsdatum"
+ */
+export const SERVICE_DATE_LABEL =
+  /leistungsdatum|lieferdatum|leistungszeitraum|leistungszeitpunkt|lieferzeitraum|liefertermin|(?:tag|datum) der (?:lieferung|leistung)/i;
+
+const VAT_LABEL = /mwst|mehrwertsteuer|(?<![a-zäöüß])ust(?![-\s.]*id)|umsatzsteuer|\bvat\b/i;
+
+const VAT_RATE = /(?<![\d,.])(\d{1,2}(?:[.,]\d{1,2})?)\s?%/g;
+
+const VAT_ID =
+  /(?<![a-zäöüß])(?:ust-?id(?:nr)?\.?|ust\.?-?id\.?-?nr\.?|umsatzsteuer-?\s?identifikationsnummer|vat(?: reg\.?)? (?:id|no\.?|number)|uid)\s*[:.]?\s*([A-Z]{2}(?: ?[0-9A-Z+*]){8,12})(?![0-9A-Z])/gi;
+
+// German VAT IDs are recognizable without a label
+const GERMAN_VAT_ID = /\bDE ?\d{3} ?\d{3} ?\d{3}\b/g;
+
+// On the line before a VAT ID: it is the recipient's, e.g. "Ihre USt-IdNr."
+const RECIPIENT_MARKER = /ihre|kunden|(?<!zahlungs)empfänger|customer|recipient|bill to/i;
+
+// Near a VAT ID: it is in the issuer's letterhead or footer, next to their
+// bank details, register entry or management
+const ISSUER_MARKER =
+  /iban|bic|bank|geschäftsführ|inhaber|amtsgericht|registergericht|handelsregister|\bhr[ab]\b|steuer-?\s?nr|steuernummer|sitz der gesellschaft/i;
+
+// Lines before and after a VAT ID looked at for the issuer's details
+const ISSUER_CONTEXT_LINES = 2;
+
+// "12/345/67890", "123/4567/8901" or the 13-digit ELSTER format
+const TAX_NUMBER =
+  /(?:steuer-?\s?nummer|steuer-?nr\.?|st\.?-?\s?nr\.?)\s*[:.]?\s*(\d{2,3} ?\/ ?\d{3,4} ?\/ ?\d{4,5}|\d{10,13})(?!\d)/i;
+
+const IBAN_CANDIDATE = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,34}/g;
+
+/**
+ * Labels of an invoice number - without "Belegnummer", which other
+ * receipts have as well
+ */
+export const INVOICE_NUMBER_LABEL =
+  /rechnungs-?\s?(?:nummer|nr\.?)|rechnung\s+nr\.?|(?<![a-zäöüß])re\.?-?\s?nr\.?|invoice\s*(?:no\.?|number|#)/i;
+
+const INVOICE_NUMBER = new RegExp(
+  `(?:${INVOICE_NUMBER_LABEL.source}|beleg-?\\s?(?:nummer|nr\\.?))\\s*[:#]?\\s*([A-Z0-9](?:[A-Z0-9/_.-]*[A-Z0-9])?)`,
+  'i'
+);
+
+// Amounts above this are misread numbers rather than receipts (10 million euros)
+const MAX_AMOUNT_CENTS = 1_000_000_000;
+
+/**
+ * Parse an amount in German or English notation
+ *
+ * @returns Amount in cents, or null if the text is no amount
+ */
+export function parseAmount(text: string): number | null {
+  const match = new RegExp(`^${AMOUNT.source}$`).exec(text.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  const decimalSeparator = match[1].at(-3);
+  const digits = match[1].replace(decimalSeparator === ',' ? /\./g : /,/g, '').replace(',', '.');
+  const cents = Math.round(Number(digits) * 100);
+
+  return text.trim().startsWith('-') ? -cents : cents;
+}
+
+/**
+ * Format an amount in cents as euros, e.g. "1.234,56 €"
+ */
+export function formatAmount(cents: number): string {
+  return (cents / 100).toLocaleString('de-DE', { style: 'currency', currency: 'EUR' });
+}
+
+function findAmounts(text: string): number[] {
+  return [...text.matchAll(AMOUNT)]
+    .map((match) => parseAmount(match[0]))
+    .filter((amount): amount is number => amount !== null && amount > 0 && amount < MAX_AMOUNT_CENTS);
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDateMatch(match: RegExpMatchArray): string | null {
+  if (match[1]) {
+    const year = Number(match[3]);
+    return toIsoDate(match[3].length === 2 ? 2000 + year : year, Number(match[2]), Number(match[1]));
+  }
+
+  if (match[4]) {
+    return toIsoDate(Number(match[4]), Number(match[5]), Number(match[6]));
+  }
+
+  const month = GERMAN_MONTH_NAMES.findIndex(
+    (name) => name.slice(0, 3).toLowerCase() === match[8].slice(0, 3).toLowerCase()
+  );
+
+  return toIsoDate(Number(match[9]), month + 1, Number(match[7]));
+}
+
+/**
+ * Parse the first date in a text (German notation or ISO)
+ *
+ * @returns YYYY-MM-DD, or null if there is no valid date
+ */
+export function findDate(text: string): string | null {
+  for (const match of text.matchAll(DATE)) {
+    const date = parseDateMatch(match);
+
+    if (date) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Text after a label: the rest of its line and the next line, where
+ * tables put the value below the label
+ */
+function findLabeledText(lines: string[], labels: RegExp[], excluded?: RegExp): string[] {
+  for (const label of labels) {
+    const found = lines.flatMap((line, index) => {
+      const match = excluded?.test(line) ? null : label.exec(line);
+      return match ? [`${line.slice(match.index + match[0].length)}\n${lines[index + 1] ?? ''}`] : [];
+    });
+
+    if (found.length > 0) {
+      return found;
+    }
+  }
+
+  return [];
+}
+
+function detectDate(lines: string[], text: string): string | null {
+  for (const labeled of findLabeledText(lines, DATE_LABELS)) {
+    const date = findDate(labeled);
+
+    if (date) {
+      return date;
+    }
+  }
+
+  return findDate(text);
+}
+
+function detectGrossAmount(lines: string[], text: string): number | null {
+  for (const labeled of findLabeledText(lines, GROSS_AMOUNT_LABELS, GROSS_AMOUNT_EXCLUDED)) {
+    // The amount closes the line, after quantities or rates
+    const [sameLine, nextLine] = labeled.split('\n');
+    const amount = findAmounts(sameLine).at(-1) ?? findAmounts(nextLine).at(0);
+
+    if (amount) {
+      return amount;
+    }
+  }
+
+  // Otherwise the largest amount in euros is usually the total
+  const euroAmounts = [...text.matchAll(EURO_AMOUNT)].flatMap((match) => findAmounts(match[0]));
+
+  return euroAmounts.length > 0 ? Math.max(...euroAmounts) : null;
+}
+
+function detectNetAmount(lines: string[]): number | null {
+  for (const labeled of findLabeledText(lines, NET_AMOUNT_LABELS)) {
+    // Net amounts come first on lines that go on to tax and gross
+    const [sameLine, nextLine] = labeled.split('\n');
+    const amount = findAmounts(sameLine.replace(VAT_RATE, ' ')).at(0) ?? findAmounts(nextLine).at(0);
+
+    if (amount) {
+      return amount;
+    }
+  }
+
+  return null;
+}
+
+function detectVatRate(lines: string[]): number | null {
+  for (const line of lines.filter((line) => VAT_LABEL.test(line))) {
+    for (const match of line.matchAll(VAT_RATE)) {
+      const rate = Number(match[1].replace(',', '.'));
+
+      if (rate <= 30) {
+        return rate;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sum of the VAT amounts on the lines that state a rate
+ * (invoices with 19 % and 7 % items have two)
+ */
+function detectVatAmount(lines: string[]): number | null {
+  const amounts = lines
+    .filter((line) => VAT_LABEL.test(line) && line.match(VAT_RATE))
+    .flatMap((line) => findAmounts(line.replace(VAT_RATE, ' ')).slice(-1));
+
+  return amounts.length > 0 ? amounts.reduce((sum, amount) => sum + amount, 0) : null;
+}
+
+function detectServiceDate(lines: string[]): string | null {
+  for (const labeled of findLabeledText(lines, [SERVICE_DATE_LABEL])) {
+    const date = findDate(labeled);
+
+    if (date) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+function normalizeVatId(match: string): string | null {
+  const vatId = match.replace(/ /g, '').toUpperCase();
+
+  // German VAT IDs have nine digits, whatever the label runs into
+  return vatId.startsWith('DE') ? (/^DE\d{9}/.exec(vatId)?.[0] ?? null) : vatId;
+}
+
+/**
+ * The issuer's VAT ID
+ *
+ * Invoices between businesses often state the recipient's VAT ID as well.
+ * Labeled IDs win over unlabeled German ones, and IDs next to the issuer's
+ * details (letterhead or footer) over the rest; IDs marked as the
+ * recipient's are left out.
+ */
+function detectVatId(text: string): string | null {
+  const lines = text.split('\n');
+  const candidates = [
+    ...[...text.matchAll(VAT_ID)].map((match) => ({ match, value: match[1], labeled: true })),
+    ...[...text.matchAll(GERMAN_VAT_ID)].map((match) => ({ match, value: match[0], labeled: false })),
+  ].flatMap(({ match, value, labeled }) => {
+    const vatId = normalizeVatId(value);
+    const lineStart = text.lastIndexOf('\n', match.index) + 1;
+
+    if (!vatId || RECIPIENT_MARKER.test(text.slice(lineStart, match.index))) {
+      return [];
+    }
+
+    const line = text.slice(0, match.index).split('\n').length - 1;
+    const context = lines.slice(Math.max(0, line - ISSUER_CONTEXT_LINES), line + ISSUER_CONTEXT_LINES + 1);
+    const score = (labeled ? 2 : 0) + (context.some((nearby) => ISSUER_MARKER.test(nearby)) ? 1 : 0);
+
+    return [{ vatId, score, index: match.index }];
+  });
+
+  const [best] = candidates.sort((a, b) => b.score - a.score || a.index - b.index);
+
+  return best?.vatId ?? null;
+}
+
+function detectTaxNumber(text: string): string | null {
+  return TAX_NUMBER.exec(text)?.[1].replace(/ /g, '') ?? null;
+}
+
+function detectIban(text: string): string | null {
+  for (const match of text.toUpperCase().matchAll(IBAN_CANDIDATE)) {
+    const candidate = normalizeIban(match[0]);
+
+    // The pattern runs into following words - try the longest valid prefix
+    for (let length = candidate.length; length >= 15; length--) {
+      if (isValidIban(candidate.slice(0, length))) {
+        return candidate.slice(0, length);
+      }
+    }
+  }
+
+  return null;
+}
+
+function detectInvoiceNumber(text: string): string | null {
+  const number = INVOICE_NUMBER.exec(text)?.[1];
+  return number && /\d/.test(number) ? number.slice(0, 100) : null;
+}
+
+/**
+ * Detect the receipt fields in the text of a document
+ */
+export function detectReceiptFields(text: string): ReceiptFields {
+  const lines = text.split('\n');
+
+  return {
+    receipt_date: detectDate(lines, text),
+    receipt_service_date: detectServiceDate(lines),
+    receipt_net_amount: detectNetAmount(lines),
+    receipt_gross_amount: detectGrossAmount(lines, text),
+    receipt_vat_rate: detectVatRate(lines),
+    receipt_vat_amount: detectVatAmount(lines),
+    receipt_iban: detectIban(text),
+    receipt_invoice_number: detectInvoiceNumber(text),
+    receipt_vat_id: detectVatId(text),
+    receipt_tax_number: detectTaxNumber(text),
+  };
+}
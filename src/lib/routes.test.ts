@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { canAccessPath, getLoginPath, getSafeRedirectPath } from '@/lib/routes';
+import { type UserRole } from '@/types/user';
+
+const ROLES: UserRole[] = ['owner', 'advisor', 'client_admin', 'client_employee'];
+
+describe('canAccessPath', () => {
+  it.each<[string, UserRole[]]>([
+    ['/dashboard', ['owner', 'advisor']],
+    ['/dashboard/clients', ['owner', 'advisor']],
+    ['/dashboard/clients/new', ['owner', 'advisor']],
+    ['/dashboard/review', ['owner', 'advisor']],
+    ['/settings/branding', ['owner']],
+    ['/portal', ['client_admin', 'client_employee']],
+    ['/portalx', ROLES],
+    ['/', ROLES],
+  ])('%s', (pathname, allowed) => {
+    for (const role of ROLES) {
+      expect(canAccessPath(pathname, role), role).toBe(allowed.includes(role));
+    }
+  });
+});
+
+describe('getSafeRedirectPath', () => {
+  it.each([
+    ['/dashboard/clients', '/dashboard/clients'],
+    ['//evil.com', null],
+    ['/\\evil.com', null],
+    ['https://evil.com', null],
+    ['/login', null],
+  ])('%s -> %s', (path, expected) => {
+    expect(getSafeRedirectPath(path)).toBe(expected);
+  });
+});
+
+describe('getLoginPath', () => {
+  it('remembers safe targets only', () => {
+    expect(getLoginPath('/dashboard/clients')).toBe('/login?next=%2Fdashboard%2Fclients');
+    expect(getLoginPath('//evil.com')).toBe('/login');
+    expect(getLoginPath('/')).toBe('/login');
+  });
+});
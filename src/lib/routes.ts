@@ -0,0 +1,73 @@
+/**
+ * Tenant portal routes
+ *
+ * Paths are relative to the tenant host (the middleware rewrites them
+ * to /tenants/[tenant]/...). Kept free of server imports so the edge
+ * middleware can use the same access rules as server components.
+ */
+
+import { isAdvisorRole, isClientRole, type UserRole } from '@/types/user';
+
+export const LOGIN_PATH = '/login';
+
+/**
+ * Paths reachable without a session (prefix match)
+ */
+const PUBLIC_PATHS = [LOGIN_PATH];
+
+/**
+ * Route access rules, most specific prefix first
+ * Paths without a rule only require a valid session.
+ */
+const ROUTE_RULES: { prefix: string; allow: (role: UserRole) => boolean }[] = [
+  { prefix: '/settings', allow: (role) => role === 'owner' },
+  { prefix: '/dashboard', allow: isAdvisorRole },
+  { prefix: '/portal', allow: isClientRole },
+];
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/**
+ * Check whether a path is reachable without a session
+ */
+export function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some((prefix) => matchesPrefix(pathname, prefix));
+}
+
+/**
+ * Check whether a role may access a path
+ */
+export function canAccessPath(pathname: string, role: UserRole): boolean {
+  const rule = ROUTE_RULES.find(({ prefix }) => matchesPrefix(pathname, prefix));
+  return rule ? rule.allow(role) : true;
+}
+
+/**
+ * Landing page after login: advisor dashboard or client portal
+ */
+export function getHomePath(role: UserRole): string {
+  return isAdvisorRole(role) ? '/dashboard' : '/portal';
+}
+
+/**
+ * Build the login URL, remembering where the user wanted to go
+ */
+export function getLoginPath(next?: string): string {
+  const safeNext = next ? getSafeRedirectPath(next) : null;
+  return safeNext && safeNext !== '/' ? `${LOGIN_PATH}?next=${encodeURIComponent(safeNext)}` : LOGIN_PATH;
+}
+
+/**
+ * Accept only same-host relative paths as redirect targets
+ *
+ * @returns The path or null if it could point to another host
+ */
+export function getSafeRedirectPath(path: string): string | null {
+  if (!path.startsWith('/') || path.startsWith('//') || path.includes('\\')) {
+    return null;
+  }
+
+  return isPublicPath(path) ? null : path;
+}
@@ -0,0 +1,25 @@
+/**
+ * Login validation schemas
+ */
+
+import { z } from 'zod';
+
+export const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .pipe(z.email('Bitte eine gültige E-Mail-Adresse angeben'));
+
+export const passwordLoginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, 'Bitte Passwort eingeben').max(256),
+});
+
+export const emailTokenSchema = z.object({
+  email: emailSchema,
+});
+
+export const emailOtpSchema = z.object({
+  userId: z.string().min(1).max(36),
+  code: z.string().regex(/^\d{6}$/, 'Bitte den 6-stelligen Code eingeben'),
+});
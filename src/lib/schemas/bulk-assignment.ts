@@ -0,0 +1,34 @@
+/**
+ * Bulk assignment validation schemas
+ */
+
+import { z } from 'zod';
+import { dueDateSchema, idSchema } from '@/lib/schemas/checklist';
+import { type StartBulkAssignmentInput } from '@/types/bulk-assignment';
+
+/**
+ * Most organizations per bulk assignment
+ */
+export const MAX_BULK_ORGANIZATIONS = 500;
+
+export const startBulkAssignmentSchema = z.object({
+  source_type: z.enum(['template', 'checklist']),
+  source_id: idSchema,
+  filter: z.object({
+    organizationIds: z
+      .array(idSchema)
+      .min(1, 'Bitte mindestens einen Mandanten auswählen')
+      .max(MAX_BULK_ORGANIZATIONS, `Höchstens ${MAX_BULK_ORGANIZATIONS} Mandanten auf einmal`)
+      .optional(),
+    search: z
+      .string()
+      .trim()
+      .max(100)
+      .transform((value) => value || undefined)
+      .optional(),
+  }),
+  year: z.number().int().min(2000).max(2100).optional(),
+  month: z.number().int().min(1).max(12).optional(),
+  due_date: dueDateSchema.optional(),
+  activate: z.boolean().optional(),
+}) satisfies z.ZodType<StartBulkAssignmentInput>;
@@ -0,0 +1,89 @@
+/**
+ * Checklist validation schemas
+ */
+
+import { z } from 'zod';
+import { GERMAN_STATES } from '@/lib/holidays';
+import {
+  type ChecklistRecurrenceInput,
+  type ChecklistTransitionInput,
+  type CreateChecklistInput,
+  type CreateChecklistItemInput,
+  type UpdateChecklistInput,
+  type UpdateChecklistItemInput,
+} from '@/types/checklist';
+
+export const idSchema = z.string().trim().min(1, 'Fehlende ID').max(36);
+
+export const titleSchema = z
+  .string()
+  .trim()
+  .min(1, 'Bitte einen Titel angeben')
+  .max(200, 'Höchstens 200 Zeichen');
+
+// Empty descriptions are stored as "no description"
+export const descriptionSchema = z
+  .string()
+  .trim()
+  .max(1000, 'Höchstens 1000 Zeichen')
+  .transform((value) => value || undefined)
+  .optional();
+
+export const dueDateSchema = z.union([z.iso.date(), z.iso.datetime({ offset: true })], {
+  error: 'Bitte ein gültiges Datum angeben',
+});
+
+export const checklistItemStatusSchema = z.enum(['red', 'yellow', 'green']);
+
+export const createChecklistSchema = z.object({
+  organization_id: idSchema,
+  title: titleSchema,
+  description: descriptionSchema,
+  due_date: dueDateSchema.optional(),
+  requires_confirmation: z.boolean().optional(),
+}) satisfies z.ZodType<CreateChecklistInput>;
+
+export const updateChecklistSchema = z.object({
+  $id: idSchema,
+  title: titleSchema.optional(),
+  description: descriptionSchema,
+  due_date: dueDateSchema.optional(),
+  requires_confirmation: z.boolean().optional(),
+}) satisfies z.ZodType<UpdateChecklistInput>;
+
+export const createChecklistItemSchema = z.object({
+  checklist_id: idSchema,
+  title: titleSchema,
+  description: descriptionSchema,
+  status: checklistItemStatusSchema.default('red'),
+  position: z.number().int().min(0).optional(),
+  requires_document: z.boolean().default(false),
+}) satisfies z.ZodType<CreateChecklistItemInput>;
+
+export const updateChecklistItemSchema = z.object({
+  $id: idSchema,
+  title: titleSchema.optional(),
+  description: descriptionSchema,
+  status: checklistItemStatusSchema.optional(),
+  position: z.number().int().min(0).optional(),
+  requires_document: z.boolean().optional(),
+}) satisfies z.ZodType<UpdateChecklistItemInput>;
+
+export const checklistTransitionSchema = z.object({
+  $id: idSchema,
+  transition: z.enum(['activate', 'complete', 'reopen', 'archive']),
+  reason: z.string().trim().max(500, 'Höchstens 500 Zeichen').optional(),
+}) satisfies z.ZodType<ChecklistTransitionInput>;
+
+export const checklistRecurrenceSchema = z
+  .object({
+    $id: idSchema,
+    recurrence: z.enum(['monthly', 'quarterly', 'yearly']).nullable(),
+    due_day: z.number().int().min(1, 'Tag zwischen 1 und 31').max(31, 'Tag zwischen 1 und 31').optional(),
+    state: z.enum(Object.keys(GERMAN_STATES) as (keyof typeof GERMAN_STATES)[]).optional(),
+    period_start: z.iso.date({ error: 'Bitte ein gültiges Datum angeben' }).optional(),
+  })
+  .refine((input) => input.recurrence === null || input.due_day !== undefined, {
+    error: 'Bitte den Fälligkeitstag angeben',
+    path: ['due_day'],
+  }) satisfies z.ZodType<ChecklistRecurrenceInput>;
@@ -0,0 +1,27 @@
+/**
+ * Document review and search validation schemas
+ */
+
+import { z } from 'zod';
+import { idSchema } from '@/lib/schemas/checklist';
+import { type RejectDocumentInput, type SearchDocumentsInput } from '@/types/document';
+
+export const rejectDocumentSchema = z
+  .object({
+    $id: idSchema,
+    reason: z.enum(['illegible', 'wrong_period', 'incomplete', 'wrong_document', 'other']),
+    note: z
+      .string()
+      .trim()
+      .max(500, 'Höchstens 500 Zeichen')
+      .transform((value) => value || undefined)
+      .optional(),
+  })
+  .refine((input) => input.reason !== 'other' || input.note, {
+    message: 'Bitte den Grund beschreiben',
+    path: ['note'],
+  }) satisfies z.ZodType<RejectDocumentInput>;
+
+export const searchDocumentsSchema = z.object({
+  query: z.string().trim().min(2, 'Bitte mindestens 2 Zeichen eingeben').max(100, 'Höchstens 100 Zeichen'),
+}) satisfies z.ZodType<SearchDocumentsInput>;
@@ -0,0 +1,105 @@
+/**
+ * Organization validation schemas
+ *
+ * Tax identifiers and IBANs are checked here, so forms show the errors
+ * inline, and stored in a normalized form: the Steuernummer in the state's
+ * printed form, USt-IdNr. and IBAN without spaces.
+ */
+
+import { z } from 'zod';
+import { GERMAN_STATES } from '@/lib/holidays';
+import { isValidIban, normalizeIban } from '@/lib/iban';
+import { idSchema } from '@/lib/schemas/checklist';
+import { normalizeVatId, parseTaxNumber, validateTaxNumber, validateVatId } from '@/lib/tax-ids';
+import { type CreateOrganizationInput, type GermanState, type UpdateOrganizationInput } from '@/types/organization';
+
+// Empty optional fields are cleared
+function optionalText(max: number) {
+  return z
+    .string()
+    .trim()
+    .max(max, `Höchstens ${max} Zeichen`)
+    .nullish()
+    .transform((value) => (value === undefined ? undefined : value || null));
+}
+
+export const germanStateSchema = z.enum(Object.keys(GERMAN_STATES) as GermanState[], {
+  error: 'Bitte ein Bundesland auswählen',
+});
+
+const vatIdSchema = optionalText(20)
+  .transform((value) => value && normalizeVatId(value))
+  .superRefine((value, ctx) => {
+    const error = value && validateVatId(value);
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error });
+    }
+  });
+
+const ibanSchema = optionalText(42)
+  .transform((value) => value && normalizeIban(value))
+  .refine((value) => !value || isValidIban(value), 'Ungültige IBAN - bitte Länge und Prüfziffer kontrollieren');
+
+const organizationFields = {
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Bitte den Namen angeben')
+    .max(200, 'Höchstens 200 Zeichen'),
+  contact_email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.email('Bitte eine gültige E-Mail-Adresse angeben')),
+  contact_phone: optionalText(20),
+  state: germanStateSchema.nullish(),
+  tax_id: optionalText(50),
+  vat_id: vatIdSchema,
+  iban: ibanSchema,
+};
+
+/**
+ * Check the Steuernummer against the state and store it in the state's
+ * printed form - a 13-digit number also sets the state
+ */
+function withTaxNumber<T extends Pick<CreateOrganizationInput, 'state' | 'tax_id'>>(
+  input: T,
+  ctx: z.RefinementCtx
+): T {
+  if (!input.tax_id) {
+    return input;
+  }
+
+  const taxNumber = parseTaxNumber(input.tax_id, input.state);
+
+  if (!taxNumber) {
+    const message = validateTaxNumber(input.tax_id, input.state) ?? 'Ungültige Steuernummer';
+    ctx.addIssue({ code: 'custom', message, path: ['tax_id'] });
+    return input;
+  }
+
+  return { ...input, state: taxNumber.state, tax_id: taxNumber.standard };
+}
+
+/**
+ * Steuernummer with the state it belongs to
+ */
+export const taxNumberSchema = z
+  .object({ state: organizationFields.state, tax_id: organizationFields.tax_id })
+  .transform(withTaxNumber);
+
+export const createOrganizationSchema = z
+  .object(organizationFields)
+  .transform(withTaxNumber) satisfies z.ZodType<CreateOrganizationInput>;
+
+/**
+ * The Steuernummer is not checked here - updates may change only the
+ * number or only the state, so the action checks it together with the
+ * stored values (see taxNumberSchema)
+ */
+export const updateOrganizationSchema = z.object({
+  $id: idSchema,
+  ...organizationFields,
+  name: organizationFields.name.optional(),
+  contact_email: organizationFields.contact_email.optional(),
+}) satisfies z.ZodType<UpdateOrganizationInput>;
@@ -0,0 +1,76 @@
+/**
+ * Checklist template validation schemas
+ */
+
+import { z } from 'zod';
+import { findUnknownPlaceholders } from '@/lib/checklist-templates';
+import {
+  descriptionSchema,
+  dueDateSchema,
+  idSchema,
+  titleSchema,
+} from '@/lib/schemas/checklist';
+import {
+  type CreateChecklistTemplateInput,
+  type InstantiateTemplateInput,
+  type UpdateChecklistTemplateInput,
+} from '@/types/template';
+
+/**
+ * Most items per template (stored as one JSON attribute)
+ */
+export const MAX_TEMPLATE_ITEMS = 100;
+
+/**
+ * Most organizations per "create from template" request
+ */
+export const MAX_TEMPLATE_ORGANIZATIONS = 500;
+
+/**
+ * Reject typos like {{jahre}} - they would end up verbatim in client checklists
+ */
+function withKnownPlaceholders<T extends z.ZodType<string | undefined>>(schema: T) {
+  return schema.superRefine((value, ctx) => {
+    const unknown = findUnknownPlaceholders(value ?? '');
+
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Unbekannter Platzhalter: ${unknown.map((name) => `{{${name}}}`).join(', ')}`,
+      });
+    }
+  });
+}
+
+const templateItemSchema = z.object({
+  title: withKnownPlaceholders(titleSchema),
+  description: withKnownPlaceholders(descriptionSchema),
+  requires_document: z.boolean().default(false),
+});
+
+export const createChecklistTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Bitte einen Namen angeben').max(200, 'Höchstens 200 Zeichen'),
+  title: withKnownPlaceholders(titleSchema),
+  description: withKnownPlaceholders(descriptionSchema),
+  period: z.enum(['yearly', 'monthly']),
+  items: z
+    .array(templateItemSchema)
+    .min(1, 'Bitte mindestens einen Punkt anlegen')
+    .max(MAX_TEMPLATE_ITEMS, `Höchstens ${MAX_TEMPLATE_ITEMS} Punkte`),
+}) satisfies z.ZodType<CreateChecklistTemplateInput>;
+
+export const updateChecklistTemplateSchema = createChecklistTemplateSchema.extend({
+  $id: idSchema,
+}) satisfies z.ZodType<UpdateChecklistTemplateInput>;
+
+export const instantiateTemplateSchema = z.object({
+  templateId: idSchema,
+  organizationIds: z
+    .array(idSchema)
+    .min(1, 'Bitte mindestens einen Mandanten auswählen')
+    .max(MAX_TEMPLATE_ORGANIZATIONS, `Höchstens ${MAX_TEMPLATE_ORGANIZATIONS} Mandanten auf einmal`),
+  year: z.number().int().min(2000).max(2100).optional(),
+  month: z.number().int().min(1).max(12).optional(),
+  due_date: dueDateSchema.optional(),
+  activate: z.boolean().optional(),
+}) satisfies z.ZodType<InstantiateTemplateInput>;
@@ -0,0 +1,50 @@
+/**
+ * Tenant validation schemas
+ */
+
+import { z } from 'zod';
+import { isHexColor } from '@/lib/branding';
+import { validateSubdomain } from '@/lib/subdomain';
+import { type CreateTenantInput, type UpdateTenantBrandingInput } from '@/types/tenant';
+
+export const subdomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .superRefine((value, ctx) => {
+    const error = validateSubdomain(value);
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error });
+    }
+  });
+
+export const createTenantSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Bitte den Namen der Kanzlei angeben')
+    .max(200, 'Höchstens 200 Zeichen'),
+  subdomain: subdomainSchema,
+  ownerFirstName: z.string().trim().min(1, 'Bitte Vornamen angeben').max(100),
+  ownerLastName: z.string().trim().min(1, 'Bitte Nachnamen angeben').max(100),
+  ownerEmail: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.email('Bitte eine gültige E-Mail-Adresse angeben')),
+  ownerPassword: z
+    .string()
+    .min(8, 'Mindestens 8 Zeichen')
+    .max(256, 'Höchstens 256 Zeichen'),
+}) satisfies z.ZodType<CreateTenantInput>;
+
+const hexColorSchema = z
+  .string()
+  .trim()
+  .refine(isHexColor, 'Bitte eine Farbe im Format #RRGGBB angeben');
+
+export const updateTenantBrandingSchema = z.object({
+  logoUrl: z.url('Ungültige Logo-URL').optional(),
+  primaryColor: hexColorSchema.optional(),
+  secondaryColor: hexColorSchema.optional(),
+}) satisfies z.ZodType<UpdateTenantBrandingInput>;
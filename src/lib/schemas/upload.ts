@@ -0,0 +1,19 @@
+/**
+ * Chunked upload validation schemas
+ *
+ * Size and type limits are checked separately with validateDocumentFile,
+ * so the browser and the server report the same messages.
+ */
+
+import { z } from 'zod';
+import { idSchema } from '@/lib/schemas/checklist';
+import { type StartUploadInput } from '@/types/upload';
+
+export const startUploadSchema = z.object({
+  checklist_item_id: idSchema,
+  file_name: z.string().trim().min(1, 'Dateiname fehlt').max(255),
+  file_size: z.number().int().nonnegative(),
+  mime_type: z.string().max(255),
+  session_id: idSchema.optional(),
+  replaces_document_id: idSchema.optional(),
+}) satisfies z.ZodType<StartUploadInput>;
@@ -0,0 +1,54 @@
+/**
+ * Map errors thrown by repositories and policy checks to action results
+ *
+ * Not found, forbidden and checklist state errors are expected outcomes
+ * (stale links, other tenants' IDs, outdated pages), everything else is
+ * logged and reported generically.
+ */
+
+import { type TransitionBlocker } from '@/lib/checklist-lifecycle';
+import {
+  ChecklistLockedError,
+  ForbiddenError,
+  InvalidTransitionError,
+  NotFoundError,
+} from '@/lib/server/errors';
+import { type ChecklistStatus } from '@/types/checklist';
+
+const TRANSITION_MESSAGES: Record<TransitionBlocker, string> = {
+  invalid_state: 'Dieser Statuswechsel ist im aktuellen Status nicht möglich',
+  no_items: 'Eine Checkliste ohne Punkte kann nicht aktiviert werden',
+  not_complete: 'Es sind noch nicht alle Punkte erledigt',
+  reason_required: 'Bitte einen Grund für das Wiedereröffnen angeben',
+};
+
+const LOCKED_MESSAGES: Record<ChecklistStatus, string> = {
+  draft: 'Der Status von Punkten kann erst nach dem Aktivieren geändert werden',
+  active: 'Punkte können nur im Entwurf hinzugefügt, entfernt oder verschoben werden',
+  completed: 'Abgeschlossene Checklisten müssen erst wiedereröffnet werden',
+  archived: 'Archivierte Checklisten können nicht mehr geändert werden',
+};
+
+export function toActionError(
+  error: unknown,
+  notFoundMessage = 'Eintrag nicht gefunden'
+): { success: false; error: string } {
+  if (error instanceof NotFoundError) {
+    return { success: false, error: notFoundMessage };
+  }
+
+  if (error instanceof InvalidTransitionError) {
+    return { success: false, error: TRANSITION_MESSAGES[error.blocker] };
+  }
+
+  if (error instanceof ChecklistLockedError) {
+    return { success: false, error: LOCKED_MESSAGES[error.status] };
+  }
+
+  if (error instanceof ForbiddenError) {
+    return { success: false, error: 'Dafür fehlt Ihnen die Berechtigung' };
+  }
+
+  console.error('Server Action failed', error);
+  return { success: false, error: 'Aktion fehlgeschlagen, bitte erneut versuchen' };
+}
@@ -0,0 +1,168 @@
+/**
+ * Login and logout Server Actions for tenant portals
+ *
+ * Supports email/password, magic URL and email OTP logins. Every login is
+ * checked against the tenant of the current host (see establishSession).
+ */
+
+'use server';
+
+import { AppwriteException, ID } from 'node-appwrite';
+import { cookies } from 'next/headers';
+import { toFieldErrors } from '@/lib/form';
+import { LOGIN_PATH } from '@/lib/routes';
+import { emailOtpSchema, emailTokenSchema, passwordLoginSchema } from '@/lib/schemas/auth';
+import { account, createSessionClient } from '@/lib/server/appwrite';
+import { TenantContextError } from '@/lib/server/errors';
+import {
+  clearSessionCookie,
+  establishSession,
+  getRequestTenant,
+  getTenantOrigin,
+} from '@/lib/server/session';
+import { findTenantAccountIdByEmail } from '@/lib/server/tenant-lookup';
+import { SESSION_COOKIE } from '@/lib/session';
+import { type ActionResult } from '@/types/action';
+
+type LoginResult = ActionResult<{ redirectTo: string }>;
+
+function toLoginError(error: unknown): { success: false; error: string } {
+  if (error instanceof TenantContextError) {
+    return {
+      success: false,
+      error:
+        error.code === 'inactive'
+          ? 'Ihr Zugang ist derzeit nicht aktiv'
+          : 'Mit diesem Konto haben Sie keinen Zugang zu diesem Portal',
+    };
+  }
+
+  if (error instanceof AppwriteException && (error.code === 401 || error.code === 400)) {
+    return { success: false, error: 'Die Anmeldedaten sind ungültig' };
+  }
+
+  if (error instanceof AppwriteException && error.code === 429) {
+    return { success: false, error: 'Zu viele Versuche, bitte später erneut versuchen' };
+  }
+
+  console.error('Login failed', error);
+  return { success: false, error: 'Anmeldung fehlgeschlagen, bitte erneut versuchen' };
+}
+
+/**
+ * Log in with email and password
+ */
+export async function loginWithPassword(input: {
+  email: string;
+  password: string;
+}): Promise<LoginResult> {
+  const parsed = passwordLoginSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const tenant = await getRequestTenant();
+    const session = await account.createEmailPasswordSession(parsed.data.email, parsed.data.password);
+    return { success: true, data: { redirectTo: await establishSession(tenant, session) } };
+  } catch (error) {
+    return toLoginError(error);
+  }
+}
+
+/**
+ * Send a magic login link
+ *
+ * Always reports success so the form does not reveal which emails exist.
+ */
+export async function sendMagicLink(input: { email: string }): Promise<ActionResult> {
+  const parsed = emailTokenSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const tenant = await getRequestTenant();
+    const accountId = await findTenantAccountIdByEmail(tenant.id, parsed.data.email);
+
+    if (accountId) {
+      const url = `${await getTenantOrigin(tenant)}${LOGIN_PATH}/verify`;
+      await account.createMagicURLToken(accountId, parsed.data.email, url);
+    }
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    return toLoginError(error);
+  }
+}
+
+/**
+ * Send a one-time login code by email
+ *
+ * Returns a user ID for the verification step. For unknown emails a random
+ * ID is returned, so the flow looks the same and verification simply fails.
+ */
+export async function sendEmailOtp(input: {
+  email: string;
+}): Promise<ActionResult<{ userId: string }>> {
+  const parsed = emailTokenSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const tenant = await getRequestTenant();
+    const accountId = await findTenantAccountIdByEmail(tenant.id, parsed.data.email);
+
+    if (!accountId) {
+      return { success: true, data: { userId: ID.unique() } };
+    }
+
+    const token = await account.createEmailToken(accountId, parsed.data.email);
+    return { success: true, data: { userId: token.userId } };
+  } catch (error) {
+    return toLoginError(error);
+  }
+}
+
+/**
+ * Log in with a one-time code sent by email
+ */
+export async function verifyEmailOtp(input: {
+  userId: string;
+  code: string;
+}): Promise<LoginResult> {
+  const parsed = emailOtpSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const tenant = await getRequestTenant();
+    const session = await account.createSession(parsed.data.userId, parsed.data.code);
+    return { success: true, data: { redirectTo: await establishSession(tenant, session) } };
+  } catch (error) {
+    return toLoginError(error);
+  }
+}
+
+/**
+ * Log out: end the Appwrite session and remove the cookie
+ */
+export async function logout(): Promise<ActionResult<{ redirectTo: string }>> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE)?.value;
+
+  if (session) {
+    await createSessionClient(session)
+      .account.deleteSession('current')
+      .catch(() => undefined);
+  }
+
+  await clearSessionCookie();
+  return { success: true, data: { redirectTo: LOGIN_PATH } };
+}
@@ -0,0 +1,111 @@
+/**
+ * Tenant branding Server Actions
+ *
+ * Only the tenant owner may change the branding.
+ */
+
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { ID, Permission, Role } from 'node-appwrite';
+import { toFieldErrors } from '@/lib/form';
+import {
+  BUCKETS,
+  COLLECTIONS,
+  DATABASE_ID,
+  databases,
+  getFileViewUrl,
+  isBrandingFileUrl,
+  storage,
+} from '@/lib/server/appwrite';
+import { toActionError } from '@/lib/server/action-errors';
+import { requireRole } from '@/lib/server/auth';
+import { updateTenantBrandingSchema } from '@/lib/schemas/tenant';
+import { type ActionResult } from '@/types/action';
+import { type UpdateTenantBrandingInput } from '@/types/tenant';
+
+const LOGO_MAX_BYTES = 1024 * 1024;
+
+// SVG is deliberately excluded - it can carry scripts
+const LOGO_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Update the current tenant's branding
+ * Omitted values are reset to the BelegBoost defaults.
+ */
+export async function updateTenantBranding(
+  input: UpdateTenantBrandingInput
+): Promise<ActionResult> {
+  const parsed = updateTenantBrandingSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: 'Bitte die Eingaben prüfen',
+      fieldErrors: toFieldErrors(parsed.error),
+    };
+  }
+
+  if (parsed.data.logoUrl && !isBrandingFileUrl(parsed.data.logoUrl)) {
+    return {
+      success: false,
+      error: 'Bitte die Eingaben prüfen',
+      fieldErrors: { logoUrl: 'Bitte das Logo hier hochladen' },
+    };
+  }
+
+  try {
+    const { tenantId, subdomain } = await requireRole(['owner']);
+
+    await databases.updateDocument(DATABASE_ID, COLLECTIONS.tenants, tenantId, {
+      logo_url: parsed.data.logoUrl ?? null,
+      primary_color: parsed.data.primaryColor?.toLowerCase() ?? null,
+      secondary_color: parsed.data.secondaryColor?.toLowerCase() ?? null,
+    });
+
+    revalidatePath(`/tenants/${subdomain}`, 'layout');
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    return toActionError(error);
+  }
+}
+
+/**
+ * Upload a logo for the current tenant
+ *
+ * The logo is publicly readable (it is shown on the login page).
+ * The returned URL still has to be saved with updateTenantBranding().
+ *
+ * @returns The public URL of the uploaded logo
+ */
+export async function uploadTenantLogo(formData: FormData): Promise<ActionResult<string>> {
+  const file = formData.get('logo');
+
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, error: 'Bitte eine Datei auswählen' };
+  }
+
+  if (!LOGO_MIME_TYPES.includes(file.type)) {
+    return { success: false, error: 'Erlaubt sind PNG, JPEG und WebP' };
+  }
+
+  if (file.size > LOGO_MAX_BYTES) {
+    return { success: false, error: 'Das Logo darf höchstens 1 MB groß sein' };
+  }
+
+  try {
+    const { tenantId } = await requireRole(['owner']);
+
+    const uploaded = await storage.createFile(
+      BUCKETS.branding,
+      ID.unique(),
+      new File([file], `${tenantId}-logo`, { type: file.type }),
+      [Permission.read(Role.any())]
+    );
+
+    return { success: true, data: getFileViewUrl(BUCKETS.branding, uploaded.$id) };
+  } catch (error) {
+    return toActionError(error);
+  }
+}
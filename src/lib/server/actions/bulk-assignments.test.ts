@@ -0,0 +1,123 @@
+import { Query } from 'node-appwrite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  continueBulkAssignment,
+  getBulkAssignmentProgress,
+  startBulkAssignment,
+} from '@/lib/server/actions/bulk-assignments';
+import { COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { getFakeAppwrite, resetFakeAppwrite, setTenantContext } from '@/test/appwrite';
+import { createTestChecklist, createTestTenant, type TestTenant } from '@/test/fixtures';
+import { type ActionResult } from '@/types/action';
+import { type BulkAssignmentProgress } from '@/types/bulk-assignment';
+
+let tenant: TestTenant;
+let sourceId: string;
+let progress: BulkAssignmentProgress;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  tenant = await createTestTenant();
+  setTenantContext(tenant.contexts.advisor);
+
+  const { checklist } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+    items: ['red', 'red'],
+  });
+  sourceId = checklist.$id;
+
+  progress = unwrap(
+    await startBulkAssignment({
+      source_type: 'checklist',
+      source_id: sourceId,
+      filter: { organizationIds: [tenant.organizations.client, tenant.organizations.otherClient] },
+    })
+  );
+});
+
+function unwrap<T>(result: ActionResult<T>): T {
+  if (!result.success) {
+    throw new Error(`Action failed: ${result.error}`);
+  }
+
+  return result.data;
+}
+
+async function countAssignedChecklists(): Promise<number> {
+  const { total } = await getFakeAppwrite().databases.listDocuments(DATABASE_ID, COLLECTIONS.checklists, [
+    Query.isNotNull('assignment_key'),
+  ]);
+
+  return total;
+}
+
+describe('continueBulkAssignment', () => {
+  it('assigns the checklist to every target', async () => {
+    expect(progress).toMatchObject({ status: 'running', total: 2, processed: 0 });
+
+    const done = unwrap(await continueBulkAssignment(progress.id));
+
+    expect(done).toMatchObject({ status: 'completed', processed: 2, created: 2, skipped: 0, failures: [] });
+    expect(await countAssignedChecklists()).toBe(2);
+  });
+
+  it('counts a batch once when continued concurrently', async () => {
+    const results = await Promise.all([
+      continueBulkAssignment(progress.id),
+      continueBulkAssignment(progress.id),
+      continueBulkAssignment(progress.id),
+    ]);
+
+    expect(results.every((result) => result.success)).toBe(true);
+
+    const stored = unwrap(await getBulkAssignmentProgress(progress.id));
+
+    expect(stored).toMatchObject({ status: 'completed', processed: 2, created: 2, skipped: 0, failures: [] });
+    expect(await countAssignedChecklists()).toBe(2);
+  });
+
+  it('skips organizations that already have the checklist', async () => {
+    unwrap(await continueBulkAssignment(progress.id));
+
+    const again = unwrap(await startBulkAssignment({ source_type: 'checklist', source_id: sourceId, filter: {} }));
+
+    expect(unwrap(await continueBulkAssignment(again.id))).toMatchObject({ created: 0, skipped: 2 });
+  });
+
+  it('completes a checklist whose items were not all created', async () => {
+    // A request died after creating the checklist and its first item
+    const { databases } = getFakeAppwrite();
+    const partial = await databases.createDocument(DATABASE_ID, COLLECTIONS.checklists, 'partial', {
+      tenant_id: tenant.tenantId,
+      organization_id: tenant.organizations.client,
+      title: 'Unterlagen',
+      status: 'draft',
+      total_items: 0,
+      completed_items: 0,
+      assignment_key: `checklist:${sourceId}:${tenant.organizations.client}`,
+      bulk_assignment_id: progress.id,
+    });
+    await databases.createDocument(DATABASE_ID, COLLECTIONS.checklistItems, 'first-item', {
+      tenant_id: tenant.tenantId,
+      organization_id: tenant.organizations.client,
+      checklist_id: partial.$id,
+      title: 'Punkt 1',
+      status: 'red',
+      position: 0,
+      requires_document: true,
+    });
+
+    const done = unwrap(await continueBulkAssignment(progress.id));
+
+    expect(done).toMatchObject({ status: 'completed', created: 2, skipped: 0, failures: [] });
+    expect(await countAssignedChecklists()).toBe(2);
+
+    const { documents: items } = await databases.listDocuments(DATABASE_ID, COLLECTIONS.checklistItems, [
+      Query.equal('checklist_id', partial.$id),
+    ]);
+
+    expect(items.map((item) => item.position).sort()).toEqual([0, 1]);
+    expect(await databases.getDocument(DATABASE_ID, COLLECTIONS.checklists, partial.$id)).toMatchObject({
+      total_items: 2,
+    });
+  });
+});
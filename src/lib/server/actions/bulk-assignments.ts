@@ -0,0 +1,134 @@
+/**
+ * Bulk assignment Server Actions
+ *
+ * The UI starts an assignment and then calls continueBulkAssignment until
+ * the returned progress is completed - each call handles one batch.
+ * See src/lib/server/bulk-assignments.ts.
+ */
+
+'use server';
+
+import { toFieldErrors } from '@/lib/form';
+import { MAX_BULK_ORGANIZATIONS, startBulkAssignmentSchema } from '@/lib/schemas/bulk-assignment';
+import { toActionError } from '@/lib/server/action-errors';
+import { authorize } from '@/lib/server/auth';
+import {
+  findBulkAssignmentTargets,
+  processBulkAssignmentBatch,
+  resolveBulkAssignmentPeriod,
+  toBulkAssignmentProgress,
+} from '@/lib/server/bulk-assignments';
+import { getRepositories } from '@/lib/server/repositories';
+import { getTenantContext } from '@/lib/server/tenant';
+import { type ActionResult } from '@/types/action';
+import {
+  type BulkAssignmentProgress,
+  type StartBulkAssignmentInput,
+} from '@/types/bulk-assignment';
+
+const ASSIGNMENT_NOT_FOUND = 'Sammelzuweisung nicht gefunden';
+
+/**
+ * Start a bulk assignment for all active client organizations matching the filter
+ */
+export async function startBulkAssignment(
+  input: StartBulkAssignmentInput
+): Promise<ActionResult<BulkAssignmentProgress>> {
+  const context = await getTenantContext();
+  const parsed = startBulkAssignmentSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const repositories = getRepositories(context);
+    const { filter, ...source } = parsed.data;
+
+    authorize(context, 'create', { kind: 'bulk_assignment', tenant_id: context.tenantId });
+
+    // Also makes sure the source exists before anything is created
+    const period = await resolveBulkAssignmentPeriod(repositories, source);
+
+    if (source.source_type === 'checklist') {
+      await repositories.checklists.get(source.source_id);
+    }
+
+    const targets = await findBulkAssignmentTargets(repositories, filter, MAX_BULK_ORGANIZATIONS + 1);
+
+    if (targets.length === 0) {
+      return { success: false, error: 'Keine aktiven Mandanten für diese Auswahl gefunden' };
+    }
+
+    if (targets.length > MAX_BULK_ORGANIZATIONS) {
+      return {
+        success: false,
+        error: `Höchstens ${MAX_BULK_ORGANIZATIONS} Mandanten auf einmal, bitte die Auswahl eingrenzen`,
+      };
+    }
+
+    const assignment = await repositories.bulkAssignments.create({
+      ...source,
+      ...period,
+      activate: source.activate ?? false,
+      organization_ids: JSON.stringify(targets.map((organization) => organization.$id)),
+      status: 'running',
+      total: targets.length,
+      processed: 0,
+      created: 0,
+      skipped: 0,
+      failures: '[]',
+      created_by: context.userId,
+    });
+
+    return { success: true, data: toBulkAssignmentProgress(assignment) };
+  } catch (error) {
+    return toActionError(
+      error,
+      input.source_type === 'template' ? 'Vorlage nicht gefunden' : 'Checkliste nicht gefunden'
+    );
+  }
+}
+
+/**
+ * Process the next batch of a bulk assignment
+ * Safe to call again after an interruption or concurrently - nothing is
+ * created or counted twice.
+ */
+export async function continueBulkAssignment(
+  assignmentId: string
+): Promise<ActionResult<BulkAssignmentProgress>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const assignment = await repositories.bulkAssignments.get(assignmentId);
+
+    authorize(context, 'create', { kind: 'bulk_assignment', ...assignment });
+
+    const updated = await processBulkAssignmentBatch(context, repositories, assignment);
+
+    return { success: true, data: toBulkAssignmentProgress(updated) };
+  } catch (error) {
+    return toActionError(error, ASSIGNMENT_NOT_FOUND);
+  }
+}
+
+/**
+ * Current progress of a bulk assignment
+ */
+export async function getBulkAssignmentProgress(
+  assignmentId: string
+): Promise<ActionResult<BulkAssignmentProgress>> {
+  const context = await getTenantContext();
+
+  try {
+    const assignment = await getRepositories(context).bulkAssignments.get(assignmentId);
+
+    authorize(context, 'read', { kind: 'bulk_assignment', ...assignment });
+
+    return { success: true, data: toBulkAssignmentProgress(assignment) };
+  } catch (error) {
+    return toActionError(error, ASSIGNMENT_NOT_FOUND);
+  }
+}
@@ -0,0 +1,214 @@
+import { Query } from 'node-appwrite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  changeChecklistStatus,
+  createChecklist,
+  createChecklistItem,
+  deleteChecklist,
+  deleteChecklistItem,
+  updateChecklist,
+  updateChecklistItem,
+} from '@/lib/server/actions/checklists';
+import { BUCKETS, COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { UnauthenticatedError } from '@/lib/server/errors';
+import { getFakeAppwrite, resetFakeAppwrite, setTenantContext } from '@/test/appwrite';
+import { createTestChecklist, createTestDocument, createTestTenant, type TestTenant } from '@/test/fixtures';
+import { type ActionResult } from '@/types/action';
+
+let tenant: TestTenant;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  tenant = await createTestTenant();
+  setTenantContext(tenant.contexts.advisor);
+});
+
+function unwrap<T>(result: ActionResult<T>): T {
+  if (!result.success) {
+    throw new Error(`Action failed: ${result.error}`);
+  }
+
+  return result.data;
+}
+
+async function listAuditActions(resourceId: string): Promise<string[]> {
+  const { documents } = await getFakeAppwrite().databases.listDocuments(DATABASE_ID, COLLECTIONS.auditLogs, [
+    Query.equal('resource_id', resourceId),
+  ]);
+
+  return documents.map((entry) => entry.action as string);
+}
+
+describe('checklist lifecycle', () => {
+  it('creates, activates and completes a checklist', async () => {
+    const checklist = unwrap(
+      await createChecklist({ organization_id: tenant.organizations.client, title: 'Jahresabschluss 2025' })
+    );
+
+    expect(checklist).toMatchObject({ tenant_id: tenant.tenantId, status: 'draft', total_items: 0 });
+
+    const first = unwrap(await createChecklistItem({ checklist_id: checklist.$id, title: 'Kontoauszüge' }));
+    const second = unwrap(await createChecklistItem({ checklist_id: checklist.$id, title: 'Belege' }));
+
+    expect([first.position, second.position]).toEqual([0, 1]);
+
+    const active = unwrap(await changeChecklistStatus({ $id: checklist.$id, transition: 'activate' }));
+
+    expect(active).toMatchObject({ status: 'active', total_items: 2, completed_items: 0 });
+
+    // The client organization is notified, the other client is not
+    const [email] = getFakeAppwrite().messaging.sent;
+    expect(email.subject).toBe('Neue Checkliste: Jahresabschluss 2025');
+    expect(email.users.sort()).toEqual(
+      [
+        tenant.accounts[tenant.contexts.clientAdmin.userId],
+        tenant.accounts[tenant.contexts.clientEmployee.userId],
+      ].sort()
+    );
+
+    unwrap(await updateChecklistItem({ $id: first.$id, status: 'green' }));
+    unwrap(await updateChecklistItem({ $id: second.$id, status: 'green' }));
+
+    const stored = await getFakeAppwrite().databases.getDocument(DATABASE_ID, COLLECTIONS.checklists, checklist.$id);
+
+    expect(stored).toMatchObject({ status: 'completed', total_items: 2, completed_items: 2 });
+    expect(await listAuditActions(checklist.$id)).toEqual(['status_change', 'status_change']);
+  });
+
+  it('rejects invalid transitions and audits them', async () => {
+    const { checklist } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+      items: [],
+    });
+
+    const result = await changeChecklistStatus({ $id: checklist.$id, transition: 'activate' });
+
+    expect(result.success).toBe(false);
+    expect(await listAuditActions(checklist.$id)).toEqual(['status_change_rejected']);
+  });
+
+  it('locks the details of archived checklists', async () => {
+    const { checklist } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+      status: 'archived',
+    });
+
+    const result = await updateChecklist({ $id: checklist.$id, title: 'Neu' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('only assigns checklists to client organizations', async () => {
+    const result = await createChecklist({ organization_id: tenant.organizations.advisor, title: 'Intern' });
+
+    expect(result).toMatchObject({ success: false, fieldErrors: { organization_id: expect.any(String) } });
+  });
+
+  it('deletes a checklist with its items', async () => {
+    const { checklist } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+      items: ['red', 'red', 'red'],
+    });
+
+    unwrap(await deleteChecklist(checklist.$id));
+
+    const { total } = await getFakeAppwrite().databases.listDocuments(DATABASE_ID, COLLECTIONS.checklistItems);
+    expect(total).toBe(0);
+  });
+
+  it('keeps archived checklists and audits the attempt', async () => {
+    const { checklist } = await createTestChecklist(tenant.contexts.owner, tenant.organizations.client, {
+      status: 'archived',
+    });
+    setTenantContext(tenant.contexts.owner);
+
+    const result = await deleteChecklist(checklist.$id);
+
+    expect(result).toEqual({ success: false, error: 'Archivierte Checklisten können nicht mehr geändert werden' });
+    expect(await listAuditActions(checklist.$id)).toEqual(['status_change_rejected']);
+    await expect(
+      getFakeAppwrite().databases.getDocument(DATABASE_ID, COLLECTIONS.checklists, checklist.$id)
+    ).resolves.toBeDefined();
+  });
+
+  it('deletes the documents and files of a deleted checklist', async () => {
+    const { checklist, items } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+      items: ['red', 'yellow'],
+    });
+    await createTestDocument(tenant.contexts.advisor, items[0]);
+    await createTestDocument(tenant.contexts.advisor, items[1]);
+
+    unwrap(await deleteChecklist(checklist.$id));
+
+    const { databases, storage } = getFakeAppwrite();
+    expect((await databases.listDocuments(DATABASE_ID, COLLECTIONS.documents)).total).toBe(0);
+    expect((await storage.listFiles(BUCKETS.documents)).total).toBe(0);
+  });
+
+  it('deletes the documents and files of a deleted item', async () => {
+    const { items } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+      items: ['red', 'red'],
+    });
+    await createTestDocument(tenant.contexts.advisor, items[0]);
+    const kept = await createTestDocument(tenant.contexts.advisor, items[1]);
+
+    unwrap(await deleteChecklistItem(items[0].$id));
+
+    const { databases, storage } = getFakeAppwrite();
+    const { documents } = await databases.listDocuments(DATABASE_ID, COLLECTIONS.documents);
+    const { files } = await storage.listFiles(BUCKETS.documents);
+
+    expect(documents.map((document) => document.$id)).toEqual([kept.$id]);
+    expect(files.map((file) => file.$id)).toEqual([kept.file_id]);
+  });
+});
+
+describe('checklist access', () => {
+  it('does not let clients create checklists', async () => {
+    setTenantContext(tenant.contexts.clientAdmin);
+
+    const result = await createChecklist({ organization_id: tenant.organizations.client, title: 'Eigene Liste' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('does not let clients change item status', async () => {
+    const { items } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+      status: 'active',
+    });
+    setTenantContext(tenant.contexts.clientAdmin);
+
+    const result = await updateChecklistItem({ $id: items[0].$id, status: 'green' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('hides checklists of other client organizations', async () => {
+    const { checklist } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+      status: 'active',
+    });
+    setTenantContext(tenant.contexts.otherClient);
+
+    const result = await updateChecklist({ $id: checklist.$id, title: 'Fremd' });
+
+    expect(result).toEqual({ success: false, error: 'Checkliste nicht gefunden' });
+  });
+
+  it('hides checklists of other tenants', async () => {
+    const { checklist } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client);
+    const other = await createTestTenant('andere');
+    setTenantContext(other.contexts.owner);
+
+    const result = await deleteChecklist(checklist.$id);
+
+    expect(result).toEqual({ success: false, error: 'Checkliste nicht gefunden' });
+    await expect(
+      getFakeAppwrite().databases.getDocument(DATABASE_ID, COLLECTIONS.checklists, checklist.$id)
+    ).resolves.toBeDefined();
+  });
+
+  it('requires a session', async () => {
+    setTenantContext(null);
+
+    await expect(createChecklist({ organization_id: tenant.organizations.client, title: 'Ohne Sitzung' })).rejects.toThrow(
+      UnauthenticatedError
+    );
+  });
+});
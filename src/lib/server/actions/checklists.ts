@@ -0,0 +1,436 @@
+/**
+ * Checklist and checklist item Server Actions
+ *
+ * All reads and writes go through the tenant-scoped repositories and the
+ * permission policy. What can change depends on the checklist's status
+ * (see src/lib/checklist-lifecycle.ts). Every change to the items recounts
+ * the checklist's total_items / completed_items
+ * (see src/lib/server/checklist-counters.ts). Recurring checklists get their
+ * next instance from a scheduled job (see src/lib/server/recurring-checklists.ts).
+ */
+
+'use server';
+
+import { Query } from 'node-appwrite';
+import { getPeriodStart } from '@/lib/checklist-recurrence';
+import {
+  areDetailsEditable,
+  canChangeItemStatus,
+  isStructurallyEditable,
+} from '@/lib/checklist-lifecycle';
+import { toFieldErrors } from '@/lib/form';
+import { formatDate } from '@/lib/holidays';
+import { can } from '@/lib/permissions';
+import {
+  checklistRecurrenceSchema,
+  checklistTransitionSchema,
+  createChecklistItemSchema,
+  createChecklistSchema,
+  updateChecklistItemSchema,
+  updateChecklistSchema,
+} from '@/lib/schemas/checklist';
+import { toActionError } from '@/lib/server/action-errors';
+import { authorize } from '@/lib/server/auth';
+import { syncChecklistCounters } from '@/lib/server/checklist-counters';
+import {
+  applyChecklistTransition,
+  assertChecklistDeletable,
+  completeChecklistIfDone,
+} from '@/lib/server/checklist-transitions';
+import { removeDocumentsOf } from '@/lib/server/documents';
+import { ChecklistLockedError } from '@/lib/server/errors';
+import { getRepositories, type Repositories } from '@/lib/server/repositories';
+import { getTenantContext } from '@/lib/server/tenant';
+import { type ActionResult } from '@/types/action';
+import {
+  type Checklist,
+  type ChecklistItem,
+  type ChecklistRecurrenceInput,
+  type ChecklistTransitionInput,
+  type CreateChecklistInput,
+  type CreateChecklistItemInput,
+  type UpdateChecklistInput,
+  type UpdateChecklistItemInput,
+} from '@/types/checklist';
+
+const CHECKLIST_NOT_FOUND = 'Checkliste nicht gefunden';
+const ITEM_NOT_FOUND = 'Checklistenpunkt nicht gefunden';
+
+/**
+ * Items deleted per round when a checklist is removed
+ */
+const DELETE_BATCH_SIZE = 100;
+
+function toItemResource(checklist: Checklist) {
+  return {
+    kind: 'checklist_item' as const,
+    tenant_id: checklist.tenant_id,
+    organization_id: checklist.organization_id,
+    checklist_status: checklist.status,
+  };
+}
+
+/**
+ * Next free position at the end of a checklist
+ */
+async function getNextPosition(repositories: Repositories, checklistId: string): Promise<number> {
+  const { records } = await repositories.checklistItems.list([
+    Query.equal('checklist_id', checklistId),
+    Query.orderDesc('position'),
+    Query.limit(1),
+  ]);
+
+  return records[0] ? records[0].position + 1 : 0;
+}
+
+/**
+ * Create a checklist for a client organization
+ */
+export async function createChecklist(
+  input: CreateChecklistInput
+): Promise<ActionResult<Checklist>> {
+  const context = await getTenantContext();
+  const parsed = createChecklistSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const { checklists, organizations } = getRepositories(context);
+    const organization = await organizations.get(parsed.data.organization_id);
+
+    authorize(context, 'create', {
+      kind: 'checklist',
+      tenant_id: context.tenantId,
+      organization_id: organization.$id,
+      status: 'draft',
+    });
+
+    if (organization.type !== 'client') {
+      return {
+        success: false,
+        error: 'Checklisten können nur Mandanten zugewiesen werden',
+        fieldErrors: { organization_id: 'Bitte einen Mandanten auswählen' },
+      };
+    }
+
+    const checklist = await checklists.create({
+      ...parsed.data,
+      status: 'draft',
+      total_items: 0,
+      completed_items: 0,
+    });
+
+    return { success: true, data: checklist };
+  } catch (error) {
+    return toActionError(error, 'Mandant nicht gefunden');
+  }
+}
+
+/**
+ * Update a checklist's details (title, description, due date, confirmation)
+ * The status only changes through changeChecklistStatus.
+ */
+export async function updateChecklist(
+  input: UpdateChecklistInput
+): Promise<ActionResult<Checklist>> {
+  const context = await getTenantContext();
+  const parsed = updateChecklistSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const { checklists } = getRepositories(context);
+    const { $id, ...changes } = parsed.data;
+    const checklist = await checklists.get($id);
+
+    authorize(context, 'update', { kind: 'checklist', ...checklist });
+
+    if (!areDetailsEditable(checklist.status)) {
+      throw new ChecklistLockedError(checklist.status);
+    }
+
+    return { success: true, data: await checklists.update($id, changes) };
+  } catch (error) {
+    return toActionError(error, CHECKLIST_NOT_FOUND);
+  }
+}
+
+/**
+ * Delete a checklist together with its items and documents
+ * Archived checklists are kept; trying to delete one is audited.
+ *
+ * Documents and items are removed first, so an interrupted delete leaves a
+ * checklist with fewer items (fixed by the counter repair) rather than
+ * orphans.
+ */
+export async function deleteChecklist(checklistId: string): Promise<ActionResult> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const { checklists, checklistItems } = repositories;
+    const checklist = await checklists.get(checklistId);
+
+    await assertChecklistDeletable(context, checklist);
+    authorize(context, 'delete', { kind: 'checklist', ...checklist });
+
+    await removeDocumentsOf(repositories, { checklist_id: checklistId });
+
+    let items: ChecklistItem[];
+    do {
+      ({ records: items } = await checklistItems.list([
+        Query.equal('checklist_id', checklistId),
+        Query.limit(DELETE_BATCH_SIZE),
+      ]));
+      await Promise.all(items.map((item) => checklistItems.delete(item.$id)));
+    } while (items.length === DELETE_BATCH_SIZE);
+
+    await checklists.delete(checklistId);
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    return toActionError(error, CHECKLIST_NOT_FOUND);
+  }
+}
+
+/**
+ * Add an item to a checklist
+ */
+export async function createChecklistItem(
+  input: CreateChecklistItemInput
+): Promise<ActionResult<ChecklistItem>> {
+  const context = await getTenantContext();
+  const parsed = createChecklistItemSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const repositories = getRepositories(context);
+    const checklist = await repositories.checklists.get(parsed.data.checklist_id);
+
+    authorize(context, 'create', toItemResource(checklist));
+
+    if (!isStructurallyEditable(checklist.status)) {
+      throw new ChecklistLockedError(checklist.status);
+    }
+
+    const item = await repositories.checklistItems.create({
+      ...parsed.data,
+      position: parsed.data.position ?? (await getNextPosition(repositories, checklist.$id)),
+    });
+
+    await syncChecklistCounters(checklist);
+
+    return { success: true, data: item };
+  } catch (error) {
+    return toActionError(error, CHECKLIST_NOT_FOUND);
+  }
+}
+
+/**
+ * Update a checklist item
+ *
+ * Changing the traffic light status needs the change_status permission and
+ * an active checklist, everything else the update permission. Position and
+ * document requirement are structural and can only change in drafts.
+ * Turning the last item green completes the checklist automatically.
+ */
+export async function updateChecklistItem(
+  input: UpdateChecklistItemInput
+): Promise<ActionResult<ChecklistItem>> {
+  const context = await getTenantContext();
+  const parsed = updateChecklistItemSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const repositories = getRepositories(context);
+    const { $id, ...changes } = parsed.data;
+    const item = await repositories.checklistItems.get($id);
+    const checklist = await repositories.checklists.get(item.checklist_id);
+
+    const statusChanged = changes.status !== undefined && changes.status !== item.status;
+    const { status, ...otherChanges } = changes;
+    const structuralChange = otherChanges.position !== undefined || otherChanges.requires_document !== undefined;
+
+    if (statusChanged) {
+      authorize(context, 'change_status', toItemResource(checklist));
+
+      if (!canChangeItemStatus(checklist.status)) {
+        throw new ChecklistLockedError(checklist.status);
+      }
+    }
+
+    if (Object.values(otherChanges).some((value) => value !== undefined)) {
+      authorize(context, 'update', toItemResource(checklist));
+
+      const editable = structuralChange
+        ? isStructurallyEditable(checklist.status)
+        : areDetailsEditable(checklist.status);
+
+      if (!editable) {
+        throw new ChecklistLockedError(checklist.status);
+      }
+    }
+
+    const updated = await repositories.checklistItems.update(
+      $id,
+      statusChanged ? { ...otherChanges, status } : otherChanges
+    );
+
+    if (statusChanged) {
+      const counters = await syncChecklistCounters(checklist);
+      await completeChecklistIfDone(context, repositories, { ...checklist, ...counters });
+    }
+
+    return { success: true, data: updated };
+  } catch (error) {
+    return toActionError(error, ITEM_NOT_FOUND);
+  }
+}
+
+/**
+ * Remove an item from its checklist together with its documents
+ */
+export async function deleteChecklistItem(itemId: string): Promise<ActionResult> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const { checklists, checklistItems } = repositories;
+    const item = await checklistItems.get(itemId);
+    const checklist = await checklists.get(item.checklist_id);
+
+    authorize(context, 'delete', toItemResource(checklist));
+
+    if (!isStructurallyEditable(checklist.status)) {
+      throw new ChecklistLockedError(checklist.status);
+    }
+
+    await removeDocumentsOf(repositories, { checklist_item_id: itemId });
+    await checklistItems.delete(itemId);
+    await syncChecklistCounters(checklist);
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    return toActionError(error, ITEM_NOT_FOUND);
+  }
+}
+
+/**
+ * Move a checklist through its lifecycle: activate, complete, reopen, archive
+ *
+ * Rejected transitions are audited and reported with the reason.
+ */
+export async function changeChecklistStatus(
+  input: ChecklistTransitionInput
+): Promise<ActionResult<Checklist>> {
+  const context = await getTenantContext();
+  const parsed = checklistTransitionSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const repositories = getRepositories(context);
+    const checklist = await repositories.checklists.get(parsed.data.$id);
+
+    authorize(context, 'update', { kind: 'checklist', ...checklist });
+
+    const updated = await applyChecklistTransition(
+      context,
+      repositories,
+      checklist,
+      parsed.data.transition,
+      { reason: parsed.data.reason }
+    );
+
+    return { success: true, data: updated };
+  } catch (error) {
+    return toActionError(error, CHECKLIST_NOT_FOUND);
+  }
+}
+
+/**
+ * Set or end the recurrence of a checklist
+ *
+ * Only the newest instance of a series can be changed - its rule decides
+ * about the following instances. Ending the recurrence keeps the history.
+ */
+export async function setChecklistRecurrence(
+  input: ChecklistRecurrenceInput
+): Promise<ActionResult<Checklist>> {
+  const context = await getTenantContext();
+  const parsed = checklistRecurrenceSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const { checklists } = getRepositories(context);
+    const { $id, recurrence, due_day, state, period_start } = parsed.data;
+    const checklist = await checklists.get($id);
+
+    authorize(context, 'update', { kind: 'checklist', ...checklist });
+
+    if (checklist.next_instance_id) {
+      return { success: false, error: 'Nur die neueste Checkliste einer Serie kann geändert werden' };
+    }
+
+    if (recurrence === null) {
+      return { success: true, data: await checklists.update($id, { recurrence: null }) };
+    }
+
+    const periodDate = period_start ?? checklist.period_start ?? checklist.due_date ?? formatDate(new Date());
+
+    const updated = await checklists.update($id, {
+      recurrence,
+      recurrence_due_day: due_day,
+      recurrence_state: state,
+      series_id: checklist.series_id ?? checklist.$id,
+      period_start: getPeriodStart(periodDate, recurrence),
+    });
+
+    return { success: true, data: updated };
+  } catch (error) {
+    return toActionError(error, CHECKLIST_NOT_FOUND);
+  }
+}
+
+/**
+ * All instances of the series a checklist belongs to, newest period first
+ * Clients only see the instances that were activated.
+ */
+export async function listChecklistSeries(checklistId: string): Promise<ActionResult<Checklist[]>> {
+  const context = await getTenantContext();
+
+  try {
+    const { checklists } = getRepositories(context);
+    const checklist = await checklists.get(checklistId);
+
+    authorize(context, 'read', { kind: 'checklist', ...checklist });
+
+    if (!checklist.series_id) {
+      return { success: true, data: [checklist] };
+    }
+
+    const { records } = await checklists.listBySeries(checklist.series_id);
+
+    return {
+      success: true,
+      data: records.filter((instance) => can(context, 'read', { kind: 'checklist', ...instance })),
+    };
+  } catch (error) {
+    return toActionError(error, CHECKLIST_NOT_FOUND);
+  }
+}
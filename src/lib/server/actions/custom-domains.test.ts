@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { removeCustomDomain, verifyCustomDomain } from '@/lib/server/actions/custom-domains';
+import { COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { getCustomDomainVerification } from '@/lib/server/custom-domains';
+import { getTxtResolver, systemTxtResolver } from '@/lib/server/dns';
+import { getFakeAppwrite, resetFakeAppwrite, setTenantContext } from '@/test/appwrite';
+import { createTestTenant, type TestTenant } from '@/test/fixtures';
+
+const DOMAIN = 'portal.kanzlei-mueller.de';
+
+let tenant: TestTenant;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  tenant = await createTestTenant();
+  setTenantContext(tenant.contexts.owner);
+  // Nothing published - no test looks up real DNS
+  vi.stubEnv('DNS_TXT_STUB', '{}');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function publishRecord(tenantId: string) {
+  const { recordName, recordValue } = getCustomDomainVerification(tenantId, DOMAIN);
+  vi.stubEnv('DNS_TXT_STUB', JSON.stringify({ [recordName]: [recordValue] }));
+}
+
+async function getCustomDomains(tenantId: string) {
+  const stored = await getFakeAppwrite().databases.getDocument(DATABASE_ID, COLLECTIONS.tenants, tenantId);
+  return stored.custom_domains;
+}
+
+describe('verifyCustomDomain', () => {
+  it('attaches the domain once the TXT record is published', async () => {
+    expect(await verifyCustomDomain(DOMAIN)).toEqual({
+      success: false,
+      error: `TXT-Eintrag _belegboost.${DOMAIN} wurde nicht gefunden`,
+    });
+
+    publishRecord(tenant.tenantId);
+
+    expect(await verifyCustomDomain('Portal.Kanzlei-Mueller.de')).toEqual({ success: true, data: [DOMAIN] });
+    expect(await getCustomDomains(tenant.tenantId)).toEqual([DOMAIN]);
+  });
+
+  it("rejects the record of another tenant's verification", async () => {
+    publishRecord('other-tenant');
+
+    expect(await verifyCustomDomain(DOMAIN)).toMatchObject({ success: false });
+  });
+
+  it('rejects domains another tenant has verified', async () => {
+    const other = await createTestTenant('andere');
+    setTenantContext(other.contexts.owner);
+    publishRecord(other.tenantId);
+    await verifyCustomDomain(DOMAIN);
+
+    setTenantContext(tenant.contexts.owner);
+    publishRecord(tenant.tenantId);
+
+    expect(await verifyCustomDomain(DOMAIN)).toEqual({ success: false, error: 'Diese Domain wird bereits verwendet' });
+  });
+
+  it('only lets the owner verify domains', async () => {
+    setTenantContext(tenant.contexts.advisor);
+    publishRecord(tenant.tenantId);
+
+    await expect(verifyCustomDomain(DOMAIN)).rejects.toThrow();
+    expect(await getCustomDomains(tenant.tenantId)).toBeFalsy();
+  });
+});
+
+describe('removeCustomDomain', () => {
+  it('detaches the domain', async () => {
+    publishRecord(tenant.tenantId);
+    await verifyCustomDomain(DOMAIN);
+
+    expect(await removeCustomDomain(DOMAIN)).toEqual({ success: true, data: [] });
+    expect(await getCustomDomains(tenant.tenantId)).toEqual([]);
+  });
+});
+
+describe('getTxtResolver', () => {
+  it('ignores the stub in production', () => {
+    vi.stubEnv('DNS_TXT_STUB', '{}');
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(getTxtResolver()).toBe(systemTxtResolver);
+  });
+});
+
+describe('getCustomDomainVerification', () => {
+  it('requires a secret of its own', () => {
+    vi.stubEnv('DOMAIN_VERIFICATION_SECRET', '');
+
+    expect(() => getCustomDomainVerification(tenant.tenantId, DOMAIN)).toThrow('DOMAIN_VERIFICATION_SECRET');
+  });
+});
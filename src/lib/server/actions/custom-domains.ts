@@ -0,0 +1,98 @@
+/**
+ * Custom domain Server Actions
+ *
+ * Only the tenant owner may add, verify or remove custom domains.
+ */
+
+'use server';
+
+import {
+  getCustomDomainVerification as buildVerification,
+  isCustomDomainVerified,
+  normalizeCustomDomain,
+} from '@/lib/server/custom-domains';
+import { COLLECTIONS, DATABASE_ID, databases } from '@/lib/server/appwrite';
+import { requireRole } from '@/lib/server/auth';
+import { getTxtResolver } from '@/lib/server/dns';
+import { getTenantByCustomDomain, type TenantDocument } from '@/lib/server/tenant-lookup';
+import { type ActionResult } from '@/types/action';
+import { type CustomDomainVerification } from '@/types/tenant';
+
+/**
+ * Get the TXT record the owner has to publish for a custom domain
+ */
+export async function getCustomDomainVerification(
+  domain: string
+): Promise<ActionResult<CustomDomainVerification>> {
+  const { tenantId } = await requireRole(['owner']);
+  const normalized = normalizeCustomDomain(domain);
+
+  if (!normalized) {
+    return { success: false, error: 'Ungültige Domain' };
+  }
+
+  return { success: true, data: buildVerification(tenantId, normalized) };
+}
+
+/**
+ * Verify a custom domain via DNS and attach it to the current tenant
+ */
+export async function verifyCustomDomain(domain: string): Promise<ActionResult<string[]>> {
+  const { tenantId } = await requireRole(['owner']);
+  const normalized = normalizeCustomDomain(domain);
+
+  if (!normalized) {
+    return { success: false, error: 'Ungültige Domain' };
+  }
+
+  const owner = await getTenantByCustomDomain(normalized);
+
+  if (owner && owner.id !== tenantId) {
+    return { success: false, error: 'Diese Domain wird bereits verwendet' };
+  }
+
+  const verification = buildVerification(tenantId, normalized);
+
+  if (!(await isCustomDomainVerified(verification, getTxtResolver()))) {
+    return {
+      success: false,
+      error: `TXT-Eintrag ${verification.recordName} wurde nicht gefunden`,
+    };
+  }
+
+  const tenant = await databases.getDocument<TenantDocument>(
+    DATABASE_ID,
+    COLLECTIONS.tenants,
+    tenantId
+  );
+
+  const customDomains = Array.from(new Set([...(tenant.custom_domains ?? []), normalized]));
+
+  await databases.updateDocument(DATABASE_ID, COLLECTIONS.tenants, tenantId, {
+    custom_domains: customDomains,
+  });
+
+  return { success: true, data: customDomains };
+}
+
+/**
+ * Detach a custom domain from the current tenant
+ */
+export async function removeCustomDomain(domain: string): Promise<ActionResult<string[]>> {
+  const { tenantId } = await requireRole(['owner']);
+  const normalized = normalizeCustomDomain(domain) ?? domain;
+
+  const tenant = await databases.getDocument<TenantDocument>(
+    DATABASE_ID,
+    COLLECTIONS.tenants,
+    tenantId
+  );
+
+  const customDomains = (tenant.custom_domains ?? []).filter((item) => item !== normalized);
+
+  await databases.updateDocument(DATABASE_ID, COLLECTIONS.tenants, tenantId, {
+    custom_domains: customDomains,
+  });
+
+  return { success: true, data: customDomains };
+}
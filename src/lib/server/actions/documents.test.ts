@@ -0,0 +1,225 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  completeDocumentUpload,
+  deleteDocument,
+  getChecklistItemDocuments,
+  searchDocuments,
+  startDocumentUpload,
+} from '@/lib/server/actions/documents';
+import { BUCKETS, COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { getFakeAppwrite, resetFakeAppwrite, setTenantContext } from '@/test/appwrite';
+import { createTestChecklist, createTestDocument, createTestTenant, type TestTenant } from '@/test/fixtures';
+import { type ChecklistItem } from '@/types/checklist';
+import { type Document } from '@/types/document';
+
+// Stored files are read from the fake storage instead of Appwrite's download endpoint
+vi.mock('@/lib/server/file-inspection', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/server/file-inspection')>()),
+  fromStoredFile: (bucketId: string, fileId: string, size: number) => ({
+    size,
+    read: async (start: number, end: number) =>
+      new Uint8Array(await getFakeAppwrite().storage.getFileDownload(bucketId, fileId)).slice(start, end),
+  }),
+}));
+
+let tenant: TestTenant;
+let item: ChecklistItem;
+let first: Document;
+let corrected: Document;
+let second: Document;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  tenant = await createTestTenant();
+
+  ({
+    items: [item],
+  } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+    status: 'active',
+    items: ['yellow'],
+  }));
+
+  first = await createTestDocument(tenant.contexts.clientAdmin, item, { status: 'rejected' });
+  second = await createTestDocument(tenant.contexts.clientAdmin, item);
+  corrected = await createTestDocument(tenant.contexts.clientAdmin, item, { replaces: first });
+});
+
+describe('getChecklistItemDocuments', () => {
+  it('groups the versions of each document', async () => {
+    setTenantContext(tenant.contexts.advisor);
+
+    const result = await getChecklistItemDocuments(item.$id);
+
+    expect(result.success && result.data).toMatchObject({
+      item: { $id: item.$id },
+      checklist_title: 'Jahresabschluss 2025',
+      can_upload: true,
+      can_review: true,
+    });
+    expect(
+      result.success && result.data.documents.map((versions) => versions.map(({ document }) => document.$id))
+    ).toEqual([[corrected.$id, first.$id], [second.$id]]);
+  });
+
+  it('names the uploaders', async () => {
+    setTenantContext(tenant.contexts.clientEmployee);
+
+    const result = await getChecklistItemDocuments(item.$id);
+
+    expect(result.success && result.data.documents[0][0].uploader_name).toBe('client-admin Test');
+  });
+
+  it('lets clients upload but not review', async () => {
+    setTenantContext(tenant.contexts.clientEmployee);
+
+    const result = await getChecklistItemDocuments(item.$id);
+
+    expect(result.success && result.data).toMatchObject({ can_upload: true, can_review: false });
+  });
+
+  it('hides items of other client organizations', async () => {
+    setTenantContext(tenant.contexts.otherClient);
+
+    expect(await getChecklistItemDocuments(item.$id)).toEqual({
+      success: false,
+      error: 'Checklistenpunkt nicht gefunden',
+    });
+  });
+});
+
+describe('searchDocuments', () => {
+  beforeEach(async () => {
+    const { items } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.otherClient, {
+      status: 'active',
+    });
+    const foreign = await createTestDocument(tenant.contexts.otherClient, items[0]);
+
+    for (const [document, text] of [
+      [first, 'Rechnung Nr. 17 Stadtwerke'],
+      [second, 'Kontoauszug Januar'],
+      [foreign, 'Rechnung Nr. 18 Stadtwerke'],
+    ] as const) {
+      await getFakeAppwrite().databases.updateDocument(DATABASE_ID, COLLECTIONS.documents, document.$id, {
+        extracted_text: text,
+      });
+    }
+  });
+
+  it('finds documents by their text', async () => {
+    setTenantContext(tenant.contexts.advisor);
+
+    const result = await searchDocuments({ query: 'stadtwerke rechnung' });
+
+    expect(result.success && result.data.map((document) => document.extracted_text).sort()).toEqual([
+      'Rechnung Nr. 17 Stadtwerke',
+      'Rechnung Nr. 18 Stadtwerke',
+    ]);
+  });
+
+  it('only finds documents of the own organization for clients', async () => {
+    setTenantContext(tenant.contexts.clientEmployee);
+
+    const result = await searchDocuments({ query: 'Stadtwerke' });
+
+    expect(result.success && result.data.map((document) => document.$id)).toEqual([first.$id]);
+  });
+
+  it('asks for at least two characters', async () => {
+    setTenantContext(tenant.contexts.advisor);
+
+    expect(await searchDocuments({ query: ' r ' })).toMatchObject({
+      success: false,
+      fieldErrors: { query: 'Bitte mindestens 2 Zeichen eingeben' },
+    });
+  });
+});
+
+describe('completeDocumentUpload', () => {
+  const content = 'Datum;Betrag\n01.06.2025;119,00\n';
+
+  async function startUpload(): Promise<string> {
+    const result = await startDocumentUpload({
+      checklist_item_id: item.$id,
+      file_name: 'umsaetze.csv',
+      file_size: content.length,
+      mime_type: 'text/csv',
+    });
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    // All chunks arrived
+    const { storage, databases } = getFakeAppwrite();
+    const session = await databases.getDocument(DATABASE_ID, COLLECTIONS.uploadSessions, result.data.sessionId);
+    await storage.createFile(BUCKETS.documents, session.file_id, new File([content], 'umsaetze.csv'));
+
+    return result.data.sessionId;
+  }
+
+  it('checks the quota again for uploads that started together', async () => {
+    setTenantContext(tenant.contexts.clientAdmin);
+    const sessions = [await startUpload(), await startUpload()];
+
+    // Room for one more file only
+    const { databases } = getFakeAppwrite();
+    const { documents } = await databases.listDocuments(DATABASE_ID, COLLECTIONS.documents, []);
+    await databases.updateDocument(DATABASE_ID, COLLECTIONS.tenants, tenant.tenantId, {
+      storage_quota_bytes: documents.reduce((sum, document) => sum + document.file_size, 0) + content.length,
+    });
+
+    expect(await completeDocumentUpload(sessions[0])).toMatchObject({ success: true });
+    expect(await completeDocumentUpload(sessions[1])).toMatchObject({
+      success: false,
+      error: expect.stringContaining('Der Speicherplatz der Kanzlei ist aufgebraucht'),
+    });
+    expect(await databases.getDocument(DATABASE_ID, COLLECTIONS.uploadSessions, sessions[1])).toMatchObject({
+      status: 'failed',
+    });
+  });
+});
+
+describe('startDocumentUpload', () => {
+  it('leaves the replaced document unchanged when the quota is used up', async () => {
+    // Uploaded before versioning
+    const { databases } = getFakeAppwrite();
+    await databases.updateDocument(DATABASE_ID, COLLECTIONS.documents, second.$id, { slot_id: null, version: null });
+    await databases.updateDocument(DATABASE_ID, COLLECTIONS.tenants, tenant.tenantId, { storage_quota_bytes: 1 });
+
+    setTenantContext(tenant.contexts.clientAdmin);
+    const result = await startDocumentUpload({
+      checklist_item_id: item.$id,
+      replaces_document_id: second.$id,
+      file_name: 'beleg.pdf',
+      file_size: 1024,
+      mime_type: 'application/pdf',
+    });
+
+    expect(result).toMatchObject({ success: false });
+    expect(await databases.getDocument(DATABASE_ID, COLLECTIONS.documents, second.$id)).toMatchObject({
+      slot_id: null,
+      version: null,
+    });
+  });
+});
+
+describe('deleteDocument', () => {
+  it('keeps accepted and authoritative versions', async () => {
+    const { databases } = getFakeAppwrite();
+    const accepted = await createTestDocument(tenant.contexts.clientAdmin, item, { status: 'accepted' });
+    await databases.updateDocument(DATABASE_ID, COLLECTIONS.documents, second.$id, { is_authoritative: true });
+
+    setTenantContext(tenant.contexts.advisor);
+
+    for (const document of [accepted, second]) {
+      expect(await deleteDocument(document.$id)).toMatchObject({ success: false });
+      expect(await databases.getDocument(DATABASE_ID, COLLECTIONS.documents, document.$id)).toBeDefined();
+    }
+  });
+
+  it('deletes other versions', async () => {
+    setTenantContext(tenant.contexts.advisor);
+
+    expect(await deleteDocument(first.$id)).toEqual({ success: true, data: undefined });
+  });
+});
@@ -0,0 +1,678 @@
+/**
+ * Document Server Actions
+ *
+ * Clients upload documents to the items of their active checklists,
+ * advisors check them (see reviews.ts). Uploads move the item's traffic
+ * light (see src/lib/documents.ts).
+ *
+ * Small files are sent with uploadDocuments. Large scans are uploaded by the
+ * browser in chunks: startDocumentUpload issues an upload ticket (also for
+ * resuming), completeDocumentUpload checks the file and creates the
+ * document (see src/lib/server/uploads.ts).
+ *
+ * Both paths screen every file (content checks, malware scan) and check the
+ * tenant's storage quota before a document is created; rejected files are
+ * recorded in the audit log.
+ *
+ * Both paths also accept the ID of an existing document: the file is then
+ * stored as its next version instead of a new document, and the earlier
+ * versions stay (see listDocumentVersions).
+ *
+ * searchDocuments finds documents by the text the extraction job stored
+ * (see src/lib/server/text-extraction.ts).
+ */
+
+'use server';
+
+import { Query } from 'node-appwrite';
+import {
+  CHUNKED_DOCUMENT_MAX_BYTES,
+  getDocumentSlotId,
+  getItemStatusAfterDelete,
+  getItemStatusAfterUpload,
+  MAX_DOCUMENTS_PER_ITEM,
+  validateDocumentFile,
+} from '@/lib/documents';
+import { toFieldErrors } from '@/lib/form';
+import { can } from '@/lib/permissions';
+import { searchDocumentsSchema } from '@/lib/schemas/document';
+import { startUploadSchema } from '@/lib/schemas/upload';
+import { toActionError } from '@/lib/server/action-errors';
+import { BUCKETS, storage } from '@/lib/server/appwrite';
+import { writeAuditLog } from '@/lib/server/audit';
+import { authorize } from '@/lib/server/auth';
+import { applyItemStatus } from '@/lib/server/checklist-transitions';
+import { readPreviewDetails } from '@/lib/server/document-preview';
+import {
+  countItemDocuments,
+  getVersionSlot,
+  removeDocument,
+  screenDocument,
+  storeDocument,
+  toDocumentResource,
+  type ScreeningResult,
+} from '@/lib/server/documents';
+import { NotFoundError } from '@/lib/server/errors';
+import { fromBlob, fromStoredFile } from '@/lib/server/file-inspection';
+import { getRepositories, type Repositories } from '@/lib/server/repositories';
+import { checkFinishedUploadQuota, checkStorageQuota } from '@/lib/server/storage-quota';
+import { getTenantContext } from '@/lib/server/tenant';
+import {
+  checkUploadedFile,
+  discardUploadSession,
+  finishUploadSession,
+  isOpenUploadSession,
+  issueUploadTicket,
+  openUploadSession,
+} from '@/lib/server/uploads';
+import { type ActionResult } from '@/types/action';
+import { type ChecklistItem } from '@/types/checklist';
+import {
+  type ChecklistItemDocuments,
+  type Document,
+  type DocumentPreview,
+  type DocumentVersion,
+  type SearchDocumentsInput,
+} from '@/types/document';
+import { type StartUploadInput, type UploadSession, type UploadTicket } from '@/types/upload';
+import { type TenantContext } from '@/types/user';
+
+const ITEM_NOT_FOUND = 'Checklistenpunkt nicht gefunden';
+const DOCUMENT_NOT_FOUND = 'Dokument nicht gefunden';
+const UPLOAD_NOT_FOUND = 'Upload nicht gefunden';
+const TOO_MANY_DOCUMENTS = `Höchstens ${MAX_DOCUMENTS_PER_ITEM} Dokumente pro Punkt`;
+const SINGLE_VERSION = 'Bitte nur eine Datei als neue Version hochladen';
+
+/**
+ * Load the document a file is uploaded as a new version of
+ * Documents of other items are treated as not found.
+ */
+async function getReplacedDocument(
+  repositories: Repositories,
+  item: Pick<ChecklistItem, '$id'>,
+  documentId: string
+): Promise<Document | null> {
+  try {
+    const document = await repositories.documents.get(documentId);
+    return document.checklist_item_id === item.$id ? document : null;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Names of the users who uploaded the documents, by user ID
+ * Scoped to what the current user may see - clients only get the users of
+ * their own organization.
+ */
+async function getUploaderNames(
+  repositories: Repositories,
+  documents: Pick<Document, 'uploaded_by'>[]
+): Promise<Map<string, string>> {
+  const uploaderIds = [...new Set(documents.map((document) => document.uploaded_by))];
+
+  if (uploaderIds.length === 0) {
+    return new Map();
+  }
+
+  const { records } = await repositories.users.list([
+    Query.equal('$id', uploaderIds),
+    Query.limit(uploaderIds.length),
+  ]);
+
+  return new Map(records.map((user) => [user.$id, `${user.first_name} ${user.last_name}`.trim()]));
+}
+
+async function writeRejectedUploadLog(
+  context: TenantContext,
+  item: Pick<ChecklistItem, '$id' | 'organization_id'>,
+  fileName: string,
+  screening: Extract<ScreeningResult, { ok: false }>
+) {
+  await writeAuditLog(context, {
+    action: 'upload_rejected',
+    resource_type: 'document',
+    organization_id: item.organization_id,
+    metadata: { checklist_item_id: item.$id, file_name: fileName, reason: screening.error, threat: screening.threat },
+  });
+}
+
+/**
+ * Upload one or more files to a checklist item
+ *
+ * Expects the item ID as "checklist_item_id" and the files as "files".
+ * All files are checked before the first one is stored. With
+ * "replaces_document_id", a single file is stored as the next version of
+ * that document.
+ */
+export async function uploadDocuments(formData: FormData): Promise<ActionResult<Document[]>> {
+  const context = await getTenantContext();
+  const itemId = formData.get('checklist_item_id');
+  const replacesId = formData.get('replaces_document_id');
+  const files = formData.getAll('files').filter((file): file is File => file instanceof File);
+
+  if (typeof itemId !== 'string' || !itemId) {
+    return { success: false, error: ITEM_NOT_FOUND };
+  }
+
+  if (files.length === 0) {
+    return { success: false, error: 'Bitte eine Datei auswählen', fieldErrors: { files: 'Bitte eine Datei auswählen' } };
+  }
+
+  if (replacesId && files.length > 1) {
+    return { success: false, error: SINGLE_VERSION, fieldErrors: { files: SINGLE_VERSION } };
+  }
+
+  for (const file of files) {
+    const error = validateDocumentFile(file);
+
+    if (error) {
+      return { success: false, error, fieldErrors: { files: error } };
+    }
+  }
+
+  try {
+    const repositories = getRepositories(context);
+    const item = await repositories.checklistItems.get(itemId);
+    const checklist = await repositories.checklists.get(item.checklist_id);
+
+    authorize(context, 'upload', {
+      kind: 'checklist_item',
+      tenant_id: item.tenant_id,
+      organization_id: item.organization_id,
+      checklist_status: checklist.status,
+    });
+
+    let replaced: Document | null = null;
+
+    if (typeof replacesId === 'string' && replacesId) {
+      replaced = await getReplacedDocument(repositories, item, replacesId);
+
+      if (!replaced) {
+        return { success: false, error: DOCUMENT_NOT_FOUND };
+      }
+    }
+
+    if ((await countItemDocuments(repositories, item.$id)) + files.length > MAX_DOCUMENTS_PER_ITEM) {
+      return { success: false, error: TOO_MANY_DOCUMENTS };
+    }
+
+    const quotaError = await checkStorageQuota(
+      context.tenantId,
+      files.reduce((sum, file) => sum + file.size, 0)
+    );
+
+    if (quotaError) {
+      return { success: false, error: quotaError };
+    }
+
+    for (const file of files) {
+      const screening = await screenDocument(fromBlob(file), file);
+
+      if (!screening.ok) {
+        await writeRejectedUploadLog(context, item, file.name, screening);
+        return { success: false, error: screening.error, fieldErrors: { files: screening.error } };
+      }
+    }
+
+    // Only take the version slot once the upload is accepted
+    const slotId = replaced ? await getVersionSlot(repositories, replaced) : undefined;
+    const documents: Document[] = [];
+
+    for (const file of files) {
+      const document = await storeDocument(context, repositories, item, file, slotId);
+      documents.push(document);
+
+      await writeAuditLog(context, {
+        action: 'upload',
+        resource_type: 'document',
+        resource_id: document.$id,
+        organization_id: document.organization_id,
+        metadata: {
+          checklist_item_id: item.$id,
+          file_name: document.file_name,
+          file_size: document.file_size,
+          version: document.version,
+        },
+      });
+    }
+
+    await applyItemStatus(context, repositories, checklist, item, getItemStatusAfterUpload(item.status, context.role));
+
+    return { success: true, data: documents };
+  } catch (error) {
+    return toActionError(error, ITEM_NOT_FOUND);
+  }
+}
+
+/**
+ * Load an open upload session of the signed-in user
+ * Sessions of other users are treated as not found.
+ */
+async function getOwnUploadSession(
+  context: TenantContext,
+  repositories: Repositories,
+  sessionId: string
+): Promise<UploadSession> {
+  const session = await repositories.uploadSessions.get(sessionId);
+
+  if (session.uploaded_by !== context.userId) {
+    throw new NotFoundError();
+  }
+
+  return session;
+}
+
+/**
+ * Start a chunked upload, or resume an earlier one
+ *
+ * An earlier session is resumed if it is still open and belongs to the same
+ * item, file and version slot, otherwise a new session is started.
+ *
+ * @returns Ticket for uploading the remaining chunks
+ */
+export async function startDocumentUpload(input: StartUploadInput): Promise<ActionResult<UploadTicket>> {
+  const context = await getTenantContext();
+  const parsed = startUploadSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  const { checklist_item_id, session_id, replaces_document_id, ...file } = parsed.data;
+  const fileError = validateDocumentFile(
+    { name: file.file_name, size: file.file_size, type: file.mime_type },
+    CHUNKED_DOCUMENT_MAX_BYTES
+  );
+
+  if (fileError) {
+    return { success: false, error: fileError, fieldErrors: { files: fileError } };
+  }
+
+  try {
+    const repositories = getRepositories(context);
+    const item = await repositories.checklistItems.get(checklist_item_id);
+    const checklist = await repositories.checklists.get(item.checklist_id);
+
+    authorize(context, 'upload', {
+      kind: 'checklist_item',
+      tenant_id: item.tenant_id,
+      organization_id: item.organization_id,
+      checklist_status: checklist.status,
+    });
+
+    let replaced: Document | null = null;
+
+    if (replaces_document_id) {
+      replaced = await getReplacedDocument(repositories, item, replaces_document_id);
+
+      if (!replaced) {
+        return { success: false, error: DOCUMENT_NOT_FOUND };
+      }
+    }
+
+    const slotId = replaced ? getDocumentSlotId(replaced) : undefined;
+
+    if (session_id) {
+      const previous = await getOwnUploadSession(context, repositories, session_id).catch((error) => {
+        if (error instanceof NotFoundError) {
+          return null;
+        }
+        throw error;
+      });
+
+      if (
+        previous &&
+        isOpenUploadSession(previous) &&
+        previous.checklist_item_id === item.$id &&
+        previous.file_name === file.file_name &&
+        previous.file_size === file.file_size &&
+        // Appwrite returns unset attributes as null
+        (previous.slot_id ?? undefined) === slotId
+      ) {
+        return { success: true, data: await issueUploadTicket(previous) };
+      }
+    }
+
+    if ((await countItemDocuments(repositories, item.$id)) >= MAX_DOCUMENTS_PER_ITEM) {
+      return { success: false, error: TOO_MANY_DOCUMENTS };
+    }
+
+    const quotaError = await checkStorageQuota(context.tenantId, file.file_size);
+
+    if (quotaError) {
+      return { success: false, error: quotaError };
+    }
+
+    // Only take the version slot once the limits are checked
+    if (replaced) {
+      await getVersionSlot(repositories, replaced);
+    }
+
+    const session = await openUploadSession(context, repositories, item, file, slotId);
+
+    return { success: true, data: await issueUploadTicket(session) };
+  } catch (error) {
+    return toActionError(error, ITEM_NOT_FOUND);
+  }
+}
+
+/**
+ * Finish a chunked upload - checks the uploaded file and creates the document
+ *
+ * A file that can never become valid (wrong size, type or content) is
+ * deleted. Until then only the uploader can access it.
+ */
+export async function completeDocumentUpload(sessionId: string): Promise<ActionResult<Document>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const session = await getOwnUploadSession(context, repositories, sessionId);
+
+    if (session.status !== 'uploading') {
+      return { success: false, error: 'Dieser Upload ist bereits beendet' };
+    }
+
+    const item = await repositories.checklistItems.get(session.checklist_item_id);
+    const checklist = await repositories.checklists.get(item.checklist_id);
+
+    authorize(context, 'upload', {
+      kind: 'checklist_item',
+      tenant_id: item.tenant_id,
+      organization_id: item.organization_id,
+      checklist_status: checklist.status,
+    });
+
+    if ((await countItemDocuments(repositories, item.$id)) >= MAX_DOCUMENTS_PER_ITEM) {
+      await discardUploadSession(repositories, session);
+      return { success: false, error: TOO_MANY_DOCUMENTS };
+    }
+
+    const quotaError = await checkFinishedUploadQuota(context.tenantId, session.file_size);
+
+    if (quotaError) {
+      await discardUploadSession(repositories, session);
+      return { success: false, error: quotaError };
+    }
+
+    const check = await checkUploadedFile(session);
+
+    if (!check.ok) {
+      if (check.discard) {
+        await discardUploadSession(repositories, session);
+      }
+
+      return { success: false, error: check.error };
+    }
+
+    const screening = await screenDocument(
+      fromStoredFile(check.file.bucketId, check.file.$id, check.file.sizeOriginal),
+      { name: session.file_name, type: session.mime_type }
+    );
+
+    if (!screening.ok) {
+      await discardUploadSession(repositories, session);
+      await writeRejectedUploadLog(context, item, session.file_name, screening);
+      return { success: false, error: screening.error };
+    }
+
+    const document = await finishUploadSession(context, repositories, session, check.file);
+
+    await writeAuditLog(context, {
+      action: 'upload',
+      resource_type: 'document',
+      resource_id: document.$id,
+      organization_id: document.organization_id,
+      metadata: {
+        checklist_item_id: item.$id,
+        file_name: document.file_name,
+        file_size: document.file_size,
+        version: document.version,
+      },
+    });
+
+    await applyItemStatus(context, repositories, checklist, item, getItemStatusAfterUpload(item.status, context.role));
+
+    return { success: true, data: document };
+  } catch (error) {
+    return toActionError(error, UPLOAD_NOT_FOUND);
+  }
+}
+
+/**
+ * Cancel a chunked upload and delete the partly uploaded file
+ */
+export async function cancelDocumentUpload(sessionId: string): Promise<ActionResult> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const session = await getOwnUploadSession(context, repositories, sessionId);
+
+    if (session.status === 'uploading') {
+      await discardUploadSession(repositories, session);
+    }
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    return toActionError(error, UPLOAD_NOT_FOUND);
+  }
+}
+
+/**
+ * Documents of a checklist item, newest first
+ */
+export async function listItemDocuments(itemId: string): Promise<ActionResult<Document[]>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const item = await repositories.checklistItems.get(itemId);
+    const checklist = await repositories.checklists.get(item.checklist_id);
+
+    authorize(context, 'read', {
+      kind: 'checklist_item',
+      tenant_id: item.tenant_id,
+      organization_id: item.organization_id,
+      checklist_status: checklist.status,
+    });
+
+    const { records } = await repositories.documents.listByItem(item.$id);
+
+    return { success: true, data: records };
+  } catch (error) {
+    return toActionError(error, ITEM_NOT_FOUND);
+  }
+}
+
+/**
+ * A checklist item with all versions of its documents and what the current
+ * user may do with them
+ */
+export async function getChecklistItemDocuments(itemId: string): Promise<ActionResult<ChecklistItemDocuments>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const item = await repositories.checklistItems.get(itemId);
+    const checklist = await repositories.checklists.get(item.checklist_id);
+    const resource = {
+      kind: 'checklist_item' as const,
+      tenant_id: item.tenant_id,
+      organization_id: item.organization_id,
+      checklist_status: checklist.status,
+    };
+
+    authorize(context, 'read', resource);
+
+    const { records } = await repositories.documents.listByItem(item.$id);
+    const names = await getUploaderNames(repositories, records);
+    const slots = new Map<string, DocumentVersion[]>();
+
+    // Newest upload first, so each slot lists its versions newest first
+    for (const document of records) {
+      const slotId = getDocumentSlotId(document);
+      const version = { document, uploader_name: names.get(document.uploaded_by) ?? null };
+      slots.set(slotId, [...(slots.get(slotId) ?? []), version]);
+    }
+
+    return {
+      success: true,
+      data: {
+        item,
+        checklist_title: checklist.title,
+        documents: [...slots.values()],
+        can_upload: can(context, 'upload', resource),
+        can_review: records.length > 0 && can(context, 'review', toDocumentResource(records[0], checklist)),
+      },
+    };
+  } catch (error) {
+    return toActionError(error, ITEM_NOT_FOUND);
+  }
+}
+
+/**
+ * All versions of a document, newest first, with their uploaders
+ */
+export async function listDocumentVersions(documentId: string): Promise<ActionResult<DocumentVersion[]>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const document = await repositories.documents.get(documentId);
+    const checklist = await repositories.checklists.get(document.checklist_id);
+
+    authorize(context, 'read', toDocumentResource(document, checklist));
+
+    const versions = document.slot_id
+      ? (await repositories.documents.listVersions(getDocumentSlotId(document))).records
+      : [document];
+    const names = await getUploaderNames(repositories, versions);
+
+    return {
+      success: true,
+      data: versions.map((version) => ({ document: version, uploader_name: names.get(version.uploaded_by) ?? null })),
+    };
+  } catch (error) {
+    return toActionError(error, DOCUMENT_NOT_FOUND);
+  }
+}
+
+/**
+ * Details for previewing a document
+ * The file itself is served by /api/documents/[documentId]/file.
+ */
+export async function getDocumentPreview(documentId: string): Promise<ActionResult<DocumentPreview>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const document = await repositories.documents.get(documentId);
+    const checklist = await repositories.checklists.get(document.checklist_id);
+
+    authorize(context, 'read', toDocumentResource(document, checklist));
+
+    const [item, file, names] = await Promise.all([
+      repositories.checklistItems.get(document.checklist_item_id),
+      storage.getFile(BUCKETS.documents, document.file_id),
+      getUploaderNames(repositories, [document]),
+    ]);
+    const details = await readPreviewDetails(
+      fromStoredFile(BUCKETS.documents, document.file_id, document.file_size),
+      document
+    );
+
+    return {
+      success: true,
+      data: {
+        document,
+        uploader_name: names.get(document.uploaded_by) ?? null,
+        checklist_title: checklist.title,
+        item_title: item.title,
+        checksum: file.signature,
+        ...details,
+      },
+    };
+  } catch (error) {
+    return toActionError(error, DOCUMENT_NOT_FOUND);
+  }
+}
+
+/**
+ * Documents whose extracted text matches a search, best matches first
+ * Only documents the current user may read are returned.
+ */
+export async function searchDocuments(input: SearchDocumentsInput): Promise<ActionResult<Document[]>> {
+  const context = await getTenantContext();
+  const parsed = searchDocumentsSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const repositories = getRepositories(context);
+    const { records } = await repositories.documents.search(parsed.data.query);
+
+    if (records.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const checklistIds = [...new Set(records.map((document) => document.checklist_id))];
+    const checklists = await repositories.checklists.list([
+      Query.equal('$id', checklistIds),
+      Query.limit(checklistIds.length),
+    ]);
+    const checklistMap = new Map(checklists.records.map((checklist) => [checklist.$id, checklist]));
+
+    return {
+      success: true,
+      data: records.filter((document) => {
+        const checklist = checklistMap.get(document.checklist_id);
+        return checklist !== undefined && can(context, 'read', toDocumentResource(document, checklist));
+      }),
+    };
+  } catch (error) {
+    return toActionError(error);
+  }
+}
+
+/**
+ * Delete a document and its file
+ * Removing the last waiting document of a yellow item turns it red again.
+ */
+export async function deleteDocument(documentId: string): Promise<ActionResult> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const document = await repositories.documents.get(documentId);
+    const checklist = await repositories.checklists.get(document.checklist_id);
+
+    authorize(context, 'delete', toDocumentResource(document, checklist));
+
+    await removeDocument(repositories, document);
+
+    await writeAuditLog(context, {
+      action: 'delete',
+      resource_type: 'document',
+      resource_id: document.$id,
+      organization_id: document.organization_id,
+      metadata: { checklist_item_id: document.checklist_item_id, file_name: document.file_name },
+    });
+
+    const item = await repositories.checklistItems.get(document.checklist_item_id);
+    const { records } = await repositories.documents.listByItem(item.$id);
+    const remaining = records.map((record) => record.status);
+
+    await applyItemStatus(context, repositories, checklist, item, getItemStatusAfterDelete(item.status, remaining));
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    return toActionError(error, DOCUMENT_NOT_FOUND);
+  }
+}
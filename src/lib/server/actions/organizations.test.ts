@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { updateOrganization } from '@/lib/server/actions/organizations';
+import { COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { getFakeAppwrite, resetFakeAppwrite, setTenantContext } from '@/test/appwrite';
+import { createTestTenant, type TestTenant } from '@/test/fixtures';
+
+let tenant: TestTenant;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  tenant = await createTestTenant();
+  setTenantContext(tenant.contexts.advisor);
+
+  const { databases } = getFakeAppwrite();
+  await databases.updateDocument(DATABASE_ID, COLLECTIONS.organizations, tenant.organizations.client, {
+    state: 'BY',
+    tax_id: '181/815/08155',
+  });
+});
+
+async function getStored() {
+  return getFakeAppwrite().databases.getDocument(DATABASE_ID, COLLECTIONS.organizations, tenant.organizations.client);
+}
+
+describe('updateOrganization', () => {
+  it('checks a new Steuernummer against the stored state', async () => {
+    expect(await updateOrganization({ $id: tenant.organizations.client, tax_id: '21/815/08150' })).toEqual({
+      success: false,
+      error: 'Bitte die Eingaben prüfen',
+      fieldErrors: { tax_id: 'Format in Bayern: FFF/BBB/UUUUP oder 13-stellig (ELSTER)' },
+    });
+
+    expect(await updateOrganization({ $id: tenant.organizations.client, tax_id: '9181081508156' })).toMatchObject({
+      success: true,
+    });
+    expect(await getStored()).toMatchObject({ state: 'BY', tax_id: '181/815/08156' });
+  });
+
+  it('checks a new state against the stored Steuernummer', async () => {
+    expect(await updateOrganization({ $id: tenant.organizations.client, state: 'BE' })).toEqual({
+      success: false,
+      error: 'Bitte die Eingaben prüfen',
+      fieldErrors: { tax_id: 'Format in Berlin: FF/BBB/UUUUP oder 13-stellig (ELSTER)' },
+    });
+    expect(await getStored()).toMatchObject({ state: 'BY', tax_id: '181/815/08155' });
+  });
+
+  it('changes state and Steuernummer together', async () => {
+    expect(
+      await updateOrganization({ $id: tenant.organizations.client, state: 'BE', tax_id: '1121081508150' })
+    ).toMatchObject({ success: true });
+    expect(await getStored()).toMatchObject({ state: 'BE', tax_id: '21/815/08150' });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Organization Server Actions
+ *
+ * Advisors create and edit their client organizations here; the advisor
+ * firm's own organization is created at registration and only the owner
+ * edits it. Tax identifiers and bank data are validated and normalized by
+ * the schemas (see src/lib/schemas/organization.ts).
+ */
+
+'use server';
+
+import { Query } from 'node-appwrite';
+import { toFieldErrors } from '@/lib/form';
+import { can } from '@/lib/permissions';
+import {
+  createOrganizationSchema,
+  taxNumberSchema,
+  updateOrganizationSchema,
+} from '@/lib/schemas/organization';
+import { toActionError } from '@/lib/server/action-errors';
+import { authorize } from '@/lib/server/auth';
+import { getRepositories } from '@/lib/server/repositories';
+import { getTenantContext } from '@/lib/server/tenant';
+import { type ActionResult } from '@/types/action';
+import {
+  type CreateOrganizationInput,
+  type Organization,
+  type UpdateOrganizationInput,
+} from '@/types/organization';
+
+const ORGANIZATION_NOT_FOUND = 'Mandant nicht gefunden';
+
+/**
+ * Most client organizations listed at once
+ */
+const MAX_LISTED_ORGANIZATIONS = 500;
+
+function toOrganizationResource(organization: Pick<Organization, '$id' | 'tenant_id' | 'type'>) {
+  return {
+    kind: 'organization' as const,
+    $id: organization.$id,
+    tenant_id: organization.tenant_id,
+    type: organization.type,
+  };
+}
+
+/**
+ * Client organizations of the tenant, by name
+ */
+export async function listClientOrganizations(): Promise<ActionResult<Organization[]>> {
+  const context = await getTenantContext();
+
+  try {
+    const { records } = await getRepositories(context).organizations.list([
+      Query.equal('type', 'client'),
+      Query.orderAsc('name'),
+      Query.limit(MAX_LISTED_ORGANIZATIONS),
+    ]);
+
+    return {
+      success: true,
+      data: records.filter((organization) => can(context, 'read', toOrganizationResource(organization))),
+    };
+  } catch (error) {
+    return toActionError(error, ORGANIZATION_NOT_FOUND);
+  }
+}
+
+export async function getOrganization(organizationId: string): Promise<ActionResult<Organization>> {
+  const context = await getTenantContext();
+
+  try {
+    const organization = await getRepositories(context).organizations.get(organizationId);
+
+    authorize(context, 'read', toOrganizationResource(organization));
+
+    return { success: true, data: organization };
+  } catch (error) {
+    return toActionError(error, ORGANIZATION_NOT_FOUND);
+  }
+}
+
+/**
+ * Create a client organization
+ */
+export async function createOrganization(
+  input: CreateOrganizationInput
+): Promise<ActionResult<Organization>> {
+  const context = await getTenantContext();
+  const parsed = createOrganizationSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const { organizations } = getRepositories(context);
+
+    authorize(context, 'create', toOrganizationResource({ $id: '', tenant_id: context.tenantId, type: 'client' }));
+
+    const organization = await organizations.create({ ...parsed.data, type: 'client', status: 'active' });
+
+    return { success: true, data: organization };
+  } catch (error) {
+    return toActionError(error, ORGANIZATION_NOT_FOUND);
+  }
+}
+
+/**
+ * Update an organization's details
+ *
+ * A new Steuernummer is checked against the stored state and a new state
+ * against the stored Steuernummer.
+ */
+export async function updateOrganization(
+  input: UpdateOrganizationInput
+): Promise<ActionResult<Organization>> {
+  const context = await getTenantContext();
+  const parsed = updateOrganizationSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const { organizations } = getRepositories(context);
+    const { $id, ...changes } = parsed.data;
+    const organization = await organizations.get($id);
+
+    authorize(context, 'update', toOrganizationResource(organization));
+
+    if (changes.state !== undefined || changes.tax_id !== undefined) {
+      const taxNumber = taxNumberSchema.safeParse({
+        state: changes.state === undefined ? organization.state : changes.state,
+        tax_id: changes.tax_id === undefined ? organization.tax_id : changes.tax_id,
+      });
+
+      if (!taxNumber.success) {
+        return {
+          success: false,
+          error: 'Bitte die Eingaben prüfen',
+          fieldErrors: toFieldErrors(taxNumber.error),
+        };
+      }
+
+      Object.assign(changes, taxNumber.data);
+    }
+
+    const updated = await organizations.update($id, changes);
+
+    return { success: true, data: updated };
+  } catch (error) {
+    return toActionError(error, ORGANIZATION_NOT_FOUND);
+  }
+}
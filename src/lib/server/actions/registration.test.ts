@@ -0,0 +1,47 @@
+import { Query } from 'node-appwrite';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { registerTenant } from '@/lib/server/actions/registration';
+import { COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { getFakeAppwrite, resetFakeAppwrite } from '@/test/appwrite';
+
+// Registration runs on the main domain
+vi.mock('next/headers', () => ({
+  headers: async () => new Headers({ host: 'belegboost.de' }),
+}));
+
+beforeEach(() => {
+  resetFakeAppwrite();
+});
+
+describe('registerTenant', () => {
+  it("keeps the firm's records from client users", async () => {
+    const result = await registerTenant({
+      name: 'Kanzlei Müller',
+      subdomain: 'mueller',
+      ownerFirstName: 'Maria',
+      ownerLastName: 'Müller',
+      ownerEmail: 'maria@kanzlei-mueller.de',
+      ownerPassword: 'geheim123',
+    });
+
+    expect(result).toMatchObject({ success: true });
+
+    const { databases } = getFakeAppwrite();
+    const [tenant] = (await databases.listDocuments(DATABASE_ID, COLLECTIONS.tenants, [])).documents;
+    const byTenant = [Query.equal('tenant_id', tenant.$id)];
+    const records = [
+      tenant,
+      ...(await databases.listDocuments(DATABASE_ID, COLLECTIONS.organizations, byTenant)).documents,
+      ...(await databases.listDocuments(DATABASE_ID, COLLECTIONS.users, byTenant)).documents,
+    ];
+
+    expect(records).toHaveLength(3);
+
+    for (const record of records) {
+      expect(record.$permissions).toContain(`read("team:${tenant.team_id}/owner")`);
+      expect(record.$permissions).toContain(`read("team:${tenant.team_id}/advisor")`);
+      expect(record.$permissions).not.toContain(`read("team:${tenant.team_id}")`);
+      expect(record.$permissions.some((permission) => permission.includes('client'))).toBe(false);
+    }
+  });
+});
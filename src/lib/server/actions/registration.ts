@@ -0,0 +1,174 @@
+/**
+ * Tenant self-registration Server Action
+ *
+ * Only available on the main domain. Creates, in order:
+ * 1. the Appwrite auth user for the owner
+ * 2. the Appwrite team for the tenant (owner as confirmed member)
+ * 3. the Tenant record
+ * 4. the advisor Organization
+ * 5. the owner User record
+ *
+ * If any step fails, everything created so far is removed again.
+ */
+
+'use server';
+
+import { AppwriteException, ID, Permission, Role } from 'node-appwrite';
+import { toFieldErrors } from '@/lib/form';
+import { getTenantUrl } from '@/lib/hostname';
+import { COLLECTIONS, DATABASE_ID, databases, teams, users } from '@/lib/server/appwrite';
+import { getRecordPermissions } from '@/lib/server/repositories';
+import { getSubdomain } from '@/lib/server/tenant';
+import { getTenantBySubdomain } from '@/lib/server/tenant-lookup';
+import { createTenantSchema } from '@/lib/schemas/tenant';
+import { type ActionResult } from '@/types/action';
+import { type CreateOrganization } from '@/types/organization';
+import { type CreateTenantInput } from '@/types/tenant';
+import { type CreateUser, type TenantContext } from '@/types/user';
+
+type Rollback = () => Promise<unknown>;
+
+/**
+ * Register a new tax advisor tenant
+ *
+ * @returns The URL of the new tenant portal's login page
+ */
+export async function registerTenant(
+  input: CreateTenantInput
+): Promise<ActionResult<{ loginUrl: string }>> {
+  if (await getSubdomain()) {
+    return { success: false, error: 'Registrierung ist nur auf der Hauptdomain möglich' };
+  }
+
+  const parsed = createTenantSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: 'Bitte die Eingaben prüfen',
+      fieldErrors: toFieldErrors(parsed.error),
+    };
+  }
+
+  const data = parsed.data;
+
+  if (await getTenantBySubdomain(data.subdomain)) {
+    return {
+      success: false,
+      error: 'Diese Subdomain ist bereits vergeben',
+      fieldErrors: { subdomain: 'Diese Subdomain ist bereits vergeben' },
+    };
+  }
+
+  const rollbacks: Rollback[] = [];
+
+  try {
+    // 1. Auth user for the owner
+    const account = await users.create(
+      ID.unique(),
+      data.ownerEmail,
+      undefined,
+      data.ownerPassword,
+      `${data.ownerFirstName} ${data.ownerLastName}`
+    );
+    rollbacks.push(() => users.delete(account.$id));
+
+    // 2. Team for the tenant - memberships created with the API key are confirmed
+    const team = await teams.create(ID.unique(), data.name);
+    rollbacks.push(() => teams.delete(team.$id));
+
+    await teams.createMembership(team.$id, ['owner'], undefined, account.$id);
+
+    // Staff only - client users are members of the team as well
+    const staffRead = [
+      Permission.read(Role.team(team.$id, 'owner')),
+      Permission.read(Role.team(team.$id, 'advisor')),
+    ];
+    const ownerWrite = [
+      Permission.update(Role.team(team.$id, 'owner')),
+      Permission.delete(Role.team(team.$id, 'owner')),
+    ];
+
+    // 3. Tenant record - the unique subdomain index guards against races
+    const tenant = await databases.createDocument(
+      DATABASE_ID,
+      COLLECTIONS.tenants,
+      ID.unique(),
+      {
+        team_id: team.$id,
+        subdomain: data.subdomain,
+        name: data.name,
+        owner_email: data.ownerEmail,
+        status: 'trial',
+      },
+      [...staffRead, ...ownerWrite]
+    );
+    rollbacks.push(() => databases.deleteDocument(DATABASE_ID, COLLECTIONS.tenants, tenant.$id));
+
+    // 4. Advisor organization (the firm itself)
+    const organization: CreateOrganization = {
+      tenant_id: tenant.$id,
+      type: 'advisor',
+      name: data.name,
+      contact_email: data.ownerEmail,
+      status: 'active',
+    };
+
+    // The firm's records get the permissions the repositories give records
+    // of an organization (see getRecordPermissions)
+    const organizationId = ID.unique();
+    const context: TenantContext = {
+      tenantId: tenant.$id,
+      teamId: team.$id,
+      subdomain: data.subdomain,
+      userId: '',
+      organizationId,
+      role: 'owner',
+    };
+    const recordPermissions = getRecordPermissions(context, organizationId);
+
+    const organizationDoc = await databases.createDocument(
+      DATABASE_ID,
+      COLLECTIONS.organizations,
+      organizationId,
+      organization,
+      recordPermissions
+    );
+    rollbacks.push(() =>
+      databases.deleteDocument(DATABASE_ID, COLLECTIONS.organizations, organizationDoc.$id)
+    );
+
+    // 5. Owner user record
+    const owner: CreateUser = {
+      tenant_id: tenant.$id,
+      organization_id: organizationDoc.$id,
+      appwrite_user_id: account.$id,
+      role: 'owner',
+      first_name: data.ownerFirstName,
+      last_name: data.ownerLastName,
+      email: data.ownerEmail,
+      status: 'active',
+    };
+
+    await databases.createDocument(DATABASE_ID, COLLECTIONS.users, ID.unique(), owner, recordPermissions);
+
+    return { success: true, data: { loginUrl: getTenantUrl(data.subdomain, '/login') } };
+  } catch (error) {
+    // Undo in reverse order; keep going if a single rollback step fails
+    for (const rollback of rollbacks.reverse()) {
+      await rollback().catch((rollbackError) => {
+        console.error('Tenant registration rollback failed', rollbackError);
+      });
+    }
+
+    if (error instanceof AppwriteException && error.code === 409) {
+      return {
+        success: false,
+        error: 'Subdomain oder E-Mail-Adresse ist bereits registriert',
+      };
+    }
+
+    console.error('Tenant registration failed', error);
+    return { success: false, error: 'Registrierung fehlgeschlagen, bitte erneut versuchen' };
+  }
+}
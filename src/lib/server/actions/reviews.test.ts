@@ -0,0 +1,88 @@
+import { Query } from 'node-appwrite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { acceptDocument, listReviewQueue, rejectDocument } from '@/lib/server/actions/reviews';
+import { COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { getFakeAppwrite, resetFakeAppwrite, setTenantContext } from '@/test/appwrite';
+import { createTestChecklist, createTestDocument, createTestTenant, type TestTenant } from '@/test/fixtures';
+import { type ChecklistStatus } from '@/types/checklist';
+import { type Document } from '@/types/document';
+
+let tenant: TestTenant;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  tenant = await createTestTenant();
+  setTenantContext(tenant.contexts.advisor);
+});
+
+async function createPendingDocument(status: ChecklistStatus) {
+  const {
+    items: [item],
+  } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, {
+    status,
+    items: ['yellow'],
+  });
+  const document = await createTestDocument(tenant.contexts.clientAdmin, item);
+
+  return { item, document };
+}
+
+async function getStored(collectionId: string, id: string) {
+  return getFakeAppwrite().databases.getDocument(DATABASE_ID, collectionId, id);
+}
+
+async function listAuditActions(document: Document): Promise<string[]> {
+  const { documents } = await getFakeAppwrite().databases.listDocuments(DATABASE_ID, COLLECTIONS.auditLogs, [
+    Query.equal('resource_id', document.$id),
+  ]);
+
+  return documents.map((entry) => entry.action as string);
+}
+
+describe('acceptDocument', () => {
+  it('accepts the document and turns its item green', async () => {
+    const { item, document } = await createPendingDocument('active');
+
+    const result = await acceptDocument(document.$id);
+
+    expect(result).toMatchObject({ success: true, data: { status: 'accepted', is_authoritative: true } });
+    expect(await getStored(COLLECTIONS.checklistItems, item.$id)).toMatchObject({ status: 'green' });
+    expect(await listAuditActions(document)).toEqual(['review']);
+  });
+
+  it.each<[ChecklistStatus, string]>([
+    ['completed', 'Abgeschlossene Checklisten müssen erst wiedereröffnet werden'],
+    ['draft', 'Der Status von Punkten kann erst nach dem Aktivieren geändert werden'],
+  ])('leaves documents of %s checklists unreviewed', async (status, error) => {
+    const { item, document } = await createPendingDocument(status);
+
+    expect(await acceptDocument(document.$id)).toEqual({ success: false, error });
+    expect(await getStored(COLLECTIONS.documents, document.$id)).toMatchObject({ status: 'pending' });
+    expect(await getStored(COLLECTIONS.checklistItems, item.$id)).toMatchObject({ status: 'yellow' });
+    expect(await listAuditActions(document)).toEqual([]);
+  });
+});
+
+describe('rejectDocument', () => {
+  it('leaves documents of completed checklists unreviewed', async () => {
+    const { document } = await createPendingDocument('completed');
+
+    const result = await rejectDocument({ $id: document.$id, reason: 'illegible' });
+
+    expect(result).toEqual({ success: false, error: 'Abgeschlossene Checklisten müssen erst wiedereröffnet werden' });
+    expect(await getStored(COLLECTIONS.documents, document.$id)).toMatchObject({ status: 'pending' });
+  });
+});
+
+describe('listReviewQueue', () => {
+  it('only lists documents of active checklists', async () => {
+    await createPendingDocument('completed');
+    await createPendingDocument('draft');
+    const { document } = await createPendingDocument('active');
+
+    const result = await listReviewQueue();
+
+    expect(result.success && result.data.total).toBe(1);
+    expect(result.success && result.data.entries.map((entry) => entry.document.$id)).toEqual([document.$id]);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Document review Server Actions
+ *
+ * Advisors accept or reject each uploaded document. A rejection carries a
+ * reason (and an optional note), is sent to the client by email and keeps
+ * the document as history next to the one finally accepted. Reviews move
+ * the item's traffic light (see src/lib/documents.ts).
+ *
+ * Of several versions of a document, the advisor marks the one that counts
+ * as authoritative. Accepting a version marks it, rejecting it removes the
+ * mark.
+ */
+
+'use server';
+
+import { Query } from 'node-appwrite';
+import { canChangeItemStatus } from '@/lib/checklist-lifecycle';
+import { DOCUMENT_REJECTION_REASONS, getDocumentVersion, getItemStatusAfterReject } from '@/lib/documents';
+import { toFieldErrors } from '@/lib/form';
+import { can } from '@/lib/permissions';
+import { rejectDocumentSchema } from '@/lib/schemas/document';
+import { toActionError } from '@/lib/server/action-errors';
+import { writeAuditLog } from '@/lib/server/audit';
+import { authorize } from '@/lib/server/auth';
+import { applyItemStatus } from '@/lib/server/checklist-transitions';
+import { markAuthoritative, toDocumentResource } from '@/lib/server/documents';
+import { ChecklistLockedError } from '@/lib/server/errors';
+import { notifyDocumentRejected } from '@/lib/server/notifications';
+import { getRepositories } from '@/lib/server/repositories';
+import { getTenantContext } from '@/lib/server/tenant';
+import { type ActionResult } from '@/types/action';
+import { type Checklist } from '@/types/checklist';
+import {
+  type Document,
+  type RejectDocumentInput,
+  type ReviewQueue,
+  type ReviewQueueEntry,
+} from '@/types/document';
+
+const DOCUMENT_NOT_FOUND = 'Dokument nicht gefunden';
+
+/**
+ * Documents shown in the review queue at once
+ */
+const REVIEW_QUEUE_SIZE = 100;
+
+// Items only change status in active checklists - a review elsewhere would
+// leave the traffic light behind the document. The policy refuses these
+// reviews as well; checked first to tell the advisor why.
+function assertReviewable(checklist: Pick<Checklist, 'status'>): void {
+  if (!canChangeItemStatus(checklist.status)) {
+    throw new ChecklistLockedError(checklist.status);
+  }
+}
+
+function toMap<T extends { $id: string }>(records: T[]): Map<string, T> {
+  return new Map(records.map((record) => [record.$id, record]));
+}
+
+/**
+ * Oldest documents waiting for review, across all client organizations
+ */
+export async function listReviewQueue(): Promise<ActionResult<ReviewQueue>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const { records, total } = await repositories.documents.listPending(REVIEW_QUEUE_SIZE);
+
+    if (records.length === 0) {
+      return { success: true, data: { entries: [], total } };
+    }
+
+    const checklistIds = [...new Set(records.map((document) => document.checklist_id))];
+    const itemIds = [...new Set(records.map((document) => document.checklist_item_id))];
+    const organizationIds = [...new Set(records.map((document) => document.organization_id))];
+
+    const [checklists, items, organizations, history] = await Promise.all([
+      repositories.checklists.list([Query.equal('$id', checklistIds), Query.limit(checklistIds.length)]),
+      repositories.checklistItems.list([Query.equal('$id', itemIds), Query.limit(itemIds.length)]),
+      repositories.organizations.list([Query.equal('$id', organizationIds), Query.limit(organizationIds.length)]),
+      repositories.documents.listReviewedByItems(itemIds),
+    ]);
+
+    const checklistMap = toMap(checklists.records);
+    const itemMap = toMap(items.records);
+    const organizationMap = toMap(organizations.records);
+
+    const entries = records.flatMap((document): ReviewQueueEntry[] => {
+      const checklist = checklistMap.get(document.checklist_id);
+
+      if (!checklist || !can(context, 'review', toDocumentResource(document, checklist))) {
+        return [];
+      }
+
+      return [
+        {
+          document,
+          organization_name: organizationMap.get(document.organization_id)?.name ?? '',
+          checklist_title: checklist.title,
+          item_title: itemMap.get(document.checklist_item_id)?.title ?? '',
+          history: history.records.filter((earlier) => earlier.checklist_item_id === document.checklist_item_id),
+        },
+      ];
+    });
+
+    return { success: true, data: { entries, total } };
+  } catch (error) {
+    return toActionError(error);
+  }
+}
+
+/**
+ * Accept a document - its item turns green and the document becomes the
+ * authoritative version
+ *
+ * Only documents of active checklists are reviewed, elsewhere the item
+ * could not follow. Completed checklists must be reopened first.
+ */
+export async function acceptDocument(documentId: string): Promise<ActionResult<Document>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const document = await repositories.documents.get(documentId);
+    const checklist = await repositories.checklists.get(document.checklist_id);
+
+    assertReviewable(checklist);
+    authorize(context, 'review', toDocumentResource(document, checklist));
+
+    if (document.status === 'accepted') {
+      return { success: true, data: document };
+    }
+
+    const accepted = await markAuthoritative(
+      repositories,
+      await repositories.documents.update(document.$id, {
+        status: 'accepted',
+        reviewed_by: context.userId,
+        reviewed_at: new Date().toISOString(),
+        rejection_reason: null,
+        review_note: null,
+      })
+    );
+
+    await writeAuditLog(context, {
+      action: 'review',
+      resource_type: 'document',
+      resource_id: document.$id,
+      organization_id: document.organization_id,
+      metadata: { checklist_item_id: document.checklist_item_id, decision: 'accepted' },
+    });
+
+    const item = await repositories.checklistItems.get(document.checklist_item_id);
+    await applyItemStatus(context, repositories, checklist, item, 'green');
+
+    return { success: true, data: accepted };
+  } catch (error) {
+    return toActionError(error, DOCUMENT_NOT_FOUND);
+  }
+}
+
+/**
+ * Reject a document with a reason and tell the client
+ *
+ * The document is kept as history. Its item turns red unless another
+ * document of the item is accepted or still waiting for review. As with
+ * accepting, completed checklists must be reopened first.
+ */
+export async function rejectDocument(input: RejectDocumentInput): Promise<ActionResult<Document>> {
+  const context = await getTenantContext();
+  const parsed = rejectDocumentSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  const { $id, reason, note } = parsed.data;
+
+  try {
+    const repositories = getRepositories(context);
+    const document = await repositories.documents.get($id);
+    const checklist = await repositories.checklists.get(document.checklist_id);
+
+    assertReviewable(checklist);
+    authorize(context, 'review', toDocumentResource(document, checklist));
+
+    const rejected = await repositories.documents.update(document.$id, {
+      status: 'rejected',
+      reviewed_by: context.userId,
+      reviewed_at: new Date().toISOString(),
+      rejection_reason: reason,
+      review_note: note ?? null,
+      is_authoritative: false,
+    });
+
+    await writeAuditLog(context, {
+      action: 'review',
+      resource_type: 'document',
+      resource_id: document.$id,
+      organization_id: document.organization_id,
+      metadata: { checklist_item_id: document.checklist_item_id, decision: 'rejected', reason },
+    });
+
+    const item = await repositories.checklistItems.get(document.checklist_item_id);
+    const { records } = await repositories.documents.listByItem(item.$id);
+    const statuses = records.map((record) => (record.$id === rejected.$id ? rejected.status : record.status));
+
+    await applyItemStatus(context, repositories, checklist, item, getItemStatusAfterReject(statuses));
+
+    // Clients only see active checklists
+    if (checklist.status === 'active') {
+      await notifyDocumentRejected(
+        rejected,
+        {
+          itemTitle: item.title,
+          checklistTitle: checklist.title,
+          reason: DOCUMENT_REJECTION_REASONS[reason],
+          note,
+        },
+        context.subdomain
+      );
+    }
+
+    return { success: true, data: rejected };
+  } catch (error) {
+    return toActionError(error, DOCUMENT_NOT_FOUND);
+  }
+}
+
+/**
+ * Mark a version of a document as authoritative
+ * Rejected versions cannot be authoritative.
+ */
+export async function setAuthoritativeVersion(documentId: string): Promise<ActionResult<Document>> {
+  const context = await getTenantContext();
+
+  try {
+    const repositories = getRepositories(context);
+    const document = await repositories.documents.get(documentId);
+    const checklist = await repositories.checklists.get(document.checklist_id);
+
+    authorize(context, 'review', toDocumentResource(document, checklist));
+
+    if (document.status === 'rejected') {
+      return { success: false, error: 'Abgelehnte Versionen können nicht maßgeblich sein' };
+    }
+
+    if (document.is_authoritative) {
+      return { success: true, data: document };
+    }
+
+    const marked = await markAuthoritative(repositories, document);
+
+    await writeAuditLog(context, {
+      action: 'review',
+      resource_type: 'document',
+      resource_id: document.$id,
+      organization_id: document.organization_id,
+      metadata: {
+        checklist_item_id: document.checklist_item_id,
+        decision: 'authoritative',
+        version: getDocumentVersion(document),
+      },
+    });
+
+    return { success: true, data: marked };
+  } catch (error) {
+    return toActionError(error, DOCUMENT_NOT_FOUND);
+  }
+}
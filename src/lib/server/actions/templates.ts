@@ -0,0 +1,233 @@
+/**
+ * Checklist template Server Actions
+ *
+ * Saving a template never changes it in place: every edit stores a new
+ * version and marks the previous one as outdated, so checklists created
+ * earlier still point at the version they were built from.
+ */
+
+'use server';
+
+import { AppwriteException, ID } from 'node-appwrite';
+import { BUILT_IN_TEMPLATES } from '@/lib/checklist-templates';
+import { toFieldErrors } from '@/lib/form';
+import {
+  createChecklistTemplateSchema,
+  instantiateTemplateSchema,
+  updateChecklistTemplateSchema,
+} from '@/lib/schemas/template';
+import { toActionError } from '@/lib/server/action-errors';
+import { authorize } from '@/lib/server/auth';
+import {
+  getChecklistTemplate,
+  instantiateTemplate,
+  toChecklistTemplate,
+} from '@/lib/server/checklist-templates';
+import { getRepositories } from '@/lib/server/repositories';
+import { getTenantContext } from '@/lib/server/tenant';
+import { type ActionResult } from '@/types/action';
+import {
+  type ChecklistTemplate,
+  type CreateChecklistTemplateInput,
+  type InstantiateTemplateInput,
+  type InstantiateTemplateResult,
+  type UpdateChecklistTemplateInput,
+} from '@/types/template';
+
+const TEMPLATE_NOT_FOUND = 'Vorlage nicht gefunden';
+const TEMPLATE_OUTDATED = 'Die Vorlage wurde inzwischen geändert, bitte die Seite neu laden';
+
+/**
+ * Built-in templates followed by the current versions of the tenant's templates
+ */
+export async function listChecklistTemplates(): Promise<ActionResult<ChecklistTemplate[]>> {
+  const context = await getTenantContext();
+
+  try {
+    authorize(context, 'read', { kind: 'template', tenant_id: context.tenantId });
+
+    const { records } = await getRepositories(context).checklistTemplates.listLatest();
+
+    return { success: true, data: [...BUILT_IN_TEMPLATES, ...records.map(toChecklistTemplate)] };
+  } catch (error) {
+    return toActionError(error);
+  }
+}
+
+/**
+ * All versions of a template, newest first
+ */
+export async function listChecklistTemplateVersions(
+  rootId: string
+): Promise<ActionResult<ChecklistTemplate[]>> {
+  const context = await getTenantContext();
+
+  try {
+    authorize(context, 'read', { kind: 'template', tenant_id: context.tenantId });
+
+    const { records } = await getRepositories(context).checklistTemplates.listVersions(rootId);
+
+    return { success: true, data: records.map(toChecklistTemplate) };
+  } catch (error) {
+    return toActionError(error, TEMPLATE_NOT_FOUND);
+  }
+}
+
+/**
+ * Create a template (version 1)
+ */
+export async function createChecklistTemplate(
+  input: CreateChecklistTemplateInput
+): Promise<ActionResult<ChecklistTemplate>> {
+  const context = await getTenantContext();
+  const parsed = createChecklistTemplateSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    authorize(context, 'create', { kind: 'template', tenant_id: context.tenantId });
+
+    const { items, ...template } = parsed.data;
+    const record = await getRepositories(context).checklistTemplates.create({
+      ...template,
+      items: JSON.stringify(items),
+      root_id: ID.unique(),
+      version: 1,
+      is_latest: true,
+      status: 'active',
+      created_by: context.userId,
+    });
+
+    return { success: true, data: toChecklistTemplate(record) };
+  } catch (error) {
+    return toActionError(error);
+  }
+}
+
+/**
+ * Save a new version of a template
+ *
+ * Fails if the edited version is no longer the latest one, e.g. because a
+ * colleague saved the template in the meantime.
+ */
+export async function updateChecklistTemplate(
+  input: UpdateChecklistTemplateInput
+): Promise<ActionResult<ChecklistTemplate>> {
+  const context = await getTenantContext();
+  const parsed = updateChecklistTemplateSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const { checklistTemplates } = getRepositories(context);
+    const { $id, items, ...template } = parsed.data;
+    const current = await checklistTemplates.get($id);
+
+    authorize(context, 'update', { kind: 'template', ...current });
+
+    if (!current.is_latest || current.status !== 'active') {
+      return { success: false, error: TEMPLATE_OUTDATED };
+    }
+
+    // The unique index on root_id + version rejects a concurrent save
+    const record = await checklistTemplates.create({
+      ...template,
+      items: JSON.stringify(items),
+      root_id: current.root_id,
+      version: current.version + 1,
+      is_latest: true,
+      status: 'active',
+      created_by: context.userId,
+    });
+
+    await checklistTemplates.update(current.$id, { is_latest: false });
+
+    return { success: true, data: toChecklistTemplate(record) };
+  } catch (error) {
+    if (error instanceof AppwriteException && error.code === 409) {
+      return { success: false, error: TEMPLATE_OUTDATED };
+    }
+
+    return toActionError(error, TEMPLATE_NOT_FOUND);
+  }
+}
+
+/**
+ * Archive a template - it is no longer offered, checklists created from it stay
+ */
+export async function archiveChecklistTemplate(templateId: string): Promise<ActionResult> {
+  const context = await getTenantContext();
+
+  try {
+    const { checklistTemplates } = getRepositories(context);
+    const template = await checklistTemplates.get(templateId);
+
+    authorize(context, 'delete', { kind: 'template', ...template });
+
+    await checklistTemplates.update(template.$id, { status: 'archived' });
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    return toActionError(error, TEMPLATE_NOT_FOUND);
+  }
+}
+
+/**
+ * Create checklists from a template for one or more client organizations
+ *
+ * Each organization is handled on its own: a missing organization or a
+ * failed write is reported for that organization and does not stop the rest.
+ */
+export async function createChecklistsFromTemplate(
+  input: InstantiateTemplateInput
+): Promise<ActionResult<InstantiateTemplateResult>> {
+  const context = await getTenantContext();
+  const parsed = instantiateTemplateSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, error: 'Bitte die Eingaben prüfen', fieldErrors: toFieldErrors(parsed.error) };
+  }
+
+  try {
+    const repositories = getRepositories(context);
+    const { templateId, organizationIds, ...options } = parsed.data;
+
+    authorize(context, 'read', { kind: 'template', tenant_id: context.tenantId });
+
+    const template = await getChecklistTemplate(repositories, templateId);
+    const result: InstantiateTemplateResult = { created: [], failed: [] };
+
+    for (const organizationId of new Set(organizationIds)) {
+      try {
+        const organization = await repositories.organizations.get(organizationId);
+
+        authorize(context, 'create', {
+          kind: 'checklist',
+          tenant_id: context.tenantId,
+          organization_id: organization.$id,
+          status: options.activate ? 'active' : 'draft',
+        });
+
+        if (organization.type !== 'client') {
+          result.failed.push({ organization_id: organizationId, error: 'Kein Mandant' });
+          continue;
+        }
+
+        result.created.push(await instantiateTemplate(context, repositories, template, organization, options));
+      } catch (error) {
+        result.failed.push({
+          organization_id: organizationId,
+          error: toActionError(error, 'Mandant nicht gefunden').error,
+        });
+      }
+    }
+
+    return { success: true, data: result };
+  } catch (error) {
+    return toActionError(error, TEMPLATE_NOT_FOUND);
+  }
+}
@@ -3,7 +3,7 @@
  * Use this for Server Actions, API routes, and server components
  */
 
-import { Client, Databases, Storage, Users, Teams } from 'node-appwrite';
+import { Client, Account, Databases, Storage, Users, Teams, Messaging, type Models } from 'node-appwrite';
 
 if (!process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT) {
   throw new Error('NEXT_PUBLIC_APPWRITE_ENDPOINT is not defined');
@@ -17,17 +17,193 @@ if (!process.env.APPWRITE_API_KEY) {
   throw new Error('APPWRITE_API_KEY is not defined (server-side only)');
 }
 
+const endpoint = process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT;
+const projectId = process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID;
+
 // Create a server client with API key
 const client = new Client()
-  .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT)
-  .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID)
+  .setEndpoint(endpoint)
+  .setProject(projectId)
   .setKey(process.env.APPWRITE_API_KEY);
 
 // Initialize services
+// account: API key scoped - creates sessions and returns their secrets
+export const account = new Account(client);
 export const databases = new Databases(client);
 export const storage = new Storage(client);
 export const users = new Users(client);
 export const teams = new Teams(client);
+export const messaging = new Messaging(client);
 
 // Export client for advanced use cases
 export { client };
+
+/**
+ * Database ID for all BelegBoost collections
+ */
+export const DATABASE_ID = process.env.APPWRITE_DATABASE_ID || 'belegboost-db';
+
+/**
+ * Collection IDs (overridable per environment)
+ */
+export const COLLECTIONS = {
+  tenants: process.env.APPWRITE_TENANTS_COLLECTION || 'tenants',
+  organizations: process.env.APPWRITE_ORGANIZATIONS_COLLECTION || 'organizations',
+  users: process.env.APPWRITE_USERS_COLLECTION || 'users',
+  checklists: process.env.APPWRITE_CHECKLISTS_COLLECTION || 'checklists',
+  checklistItems: process.env.APPWRITE_CHECKLIST_ITEMS_COLLECTION || 'checklist_items',
+  documents: process.env.APPWRITE_DOCUMENTS_COLLECTION || 'documents',
+  auditLogs: process.env.APPWRITE_AUDIT_LOGS_COLLECTION || 'audit_logs',
+  checklistTemplates: process.env.APPWRITE_CHECKLIST_TEMPLATES_COLLECTION || 'checklist_templates',
+  bulkAssignments: process.env.APPWRITE_BULK_ASSIGNMENTS_COLLECTION || 'bulk_assignments',
+  uploadSessions: process.env.APPWRITE_UPLOAD_SESSIONS_COLLECTION || 'upload_sessions',
+} as const;
+
+/**
+ * Storage bucket IDs (overridable per environment)
+ */
+export const BUCKETS = {
+  branding: process.env.APPWRITE_BRANDING_BUCKET || 'branding',
+  // Shared by all tenants - file security grants access per file
+  documents: process.env.APPWRITE_DOCUMENTS_BUCKET || 'documents',
+} as const;
+
+/**
+ * Public view URL of a file (for files readable by anyone, e.g. logos)
+ */
+export function getFileViewUrl(bucketId: string, fileId: string): string {
+  return `${endpoint}/storage/buckets/${bucketId}/files/${fileId}/view?project=${projectId}`;
+}
+
+/**
+ * Check whether a URL is the view URL of a file in the branding bucket
+ * Logos are rendered unoptimized, so no other image source is accepted.
+ */
+export function isBrandingFileUrl(url: string): boolean {
+  const prefix = `${endpoint}/storage/buckets/${BUCKETS.branding}/files/`;
+  const fileId = url.startsWith(prefix) ? url.slice(prefix.length).split('/')[0] : '';
+
+  return /^[a-zA-Z0-9][a-zA-Z0-9._-]*$/.test(fileId) && url === getFileViewUrl(BUCKETS.branding, fileId);
+}
+
+/**
+ * Download part of a file (bytes start to end - 1) with the API key client
+ *
+ * Appwrite answers range requests only for some files (e.g. not for
+ * compressed ones); in that case the full file is returned and sliced here.
+ */
+export async function downloadFileRange(
+  bucketId: string,
+  fileId: string,
+  start: number,
+  end: number
+): Promise<Uint8Array> {
+  const url = new URL(`${endpoint}/storage/buckets/${bucketId}/files/${fileId}/download`);
+  const body: ArrayBuffer = await client.call(
+    'get',
+    url,
+    { range: `bytes=${start}-${end - 1}` },
+    {},
+    'arrayBuffer'
+  );
+  const bytes = new Uint8Array(body);
+
+  return bytes.length > end - start ? bytes.subarray(start, end) : bytes;
+}
+
+/**
+ * Upload one chunk of a file (bytes start to start + chunk length - 1) with
+ * the API key client
+ *
+ * Sent like the Appwrite SDK sends chunks: files of a single chunk as a
+ * plain upload, larger files with a content range.
+ *
+ * @returns Number of chunks Appwrite has received for the file
+ */
+export async function uploadFileChunk(
+  bucketId: string,
+  fileId: string,
+  file: { name: string; type: string; size: number },
+  start: number,
+  chunk: Uint8Array<ArrayBuffer>,
+  permissions: string[]
+): Promise<number> {
+  const url = new URL(`${endpoint}/storage/buckets/${bucketId}/files`);
+  const headers: Record<string, string> = { 'content-type': 'multipart/form-data' };
+
+  if (chunk.length < file.size) {
+    headers['content-range'] = `bytes ${start}-${start + chunk.length - 1}/${file.size}`;
+    headers['x-appwrite-id'] = fileId;
+  }
+
+  const stored: Models.File = await client.call('post', url, headers, {
+    fileId,
+    file: new File([chunk], file.name, { type: file.type }),
+    permissions,
+  });
+
+  return stored.chunksUploaded;
+}
+
+// Bytes fetched from Appwrite per streamed chunk
+const STREAM_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Stream part of a file (bytes start to end - 1) chunk by chunk
+ *
+ * Only one chunk is held in memory at a time - unless Appwrite answers with
+ * the full file (see downloadFileRange), which is then sliced once.
+ */
+export function streamFileRange(
+  bucketId: string,
+  fileId: string,
+  start: number,
+  end: number
+): ReadableStream<Uint8Array> {
+  let position = start;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (position >= end) {
+        controller.close();
+        return;
+      }
+
+      const chunkEnd = Math.min(position + STREAM_CHUNK_BYTES, end);
+      const url = new URL(`${endpoint}/storage/buckets/${bucketId}/files/${fileId}/download`);
+      const body: ArrayBuffer = await client.call(
+        'get',
+        url,
+        { range: `bytes=${position}-${chunkEnd - 1}` },
+        {},
+        'arrayBuffer'
+      );
+
+      if (body.byteLength > chunkEnd - position) {
+        controller.enqueue(new Uint8Array(body).subarray(position, end));
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(new Uint8Array(body));
+      position = chunkEnd;
+    },
+  });
+}
+
+/**
+ * Create a client acting on behalf of a signed-in user
+ *
+ * The session secret comes from the Appwrite session cookie. Never use the
+ * returned services for privileged operations - use the API key client above.
+ */
+export function createSessionClient(session: string) {
+  const sessionClient = new Client()
+    .setEndpoint(endpoint)
+    .setProject(projectId)
+    .setSession(session);
+
+  return {
+    account: new Account(sessionClient),
+  };
+}
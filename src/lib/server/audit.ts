@@ -0,0 +1,56 @@
+/**
+ * Audit log writer
+ *
+ * Entries are readable by the tenant's owner and advisors and cannot be
+ * changed by anyone but the API key. Writing an entry never fails the
+ * surrounding action - a lost audit entry is logged instead.
+ */
+
+import { ID, Permission, Role } from 'node-appwrite';
+import { COLLECTIONS, DATABASE_ID, databases } from '@/lib/server/appwrite';
+import { type DatabasesClient } from '@/lib/server/repositories';
+import { type AuditAction, type AuditLog } from '@/types/audit';
+import { type TenantContext } from '@/types/user';
+
+const METADATA_MAX_LENGTH = 2000;
+
+export interface AuditEntry {
+  action: AuditAction;
+  resource_type: string;
+  resource_id?: string;
+  /**
+   * Organization the resource belongs to (defaults to the user's organization)
+   */
+  organization_id?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Record an action of the current user
+ */
+export async function writeAuditLog(
+  context: TenantContext,
+  entry: AuditEntry,
+  db: DatabasesClient = databases
+): Promise<void> {
+  const metadata = entry.metadata ? JSON.stringify(entry.metadata) : undefined;
+
+  const log: Omit<AuditLog, '$id' | '$createdAt'> = {
+    tenant_id: context.tenantId,
+    organization_id: entry.organization_id ?? context.organizationId,
+    user_id: context.userId,
+    action: entry.action,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id,
+    metadata: metadata && metadata.length > METADATA_MAX_LENGTH ? metadata.slice(0, METADATA_MAX_LENGTH) : metadata,
+  };
+
+  try {
+    await db.createDocument(DATABASE_ID, COLLECTIONS.auditLogs, ID.unique(), log, [
+      Permission.read(Role.team(context.teamId, 'owner')),
+      Permission.read(Role.team(context.teamId, 'advisor')),
+    ]);
+  } catch (error) {
+    console.error('Writing audit log failed', { log, error });
+  }
+}
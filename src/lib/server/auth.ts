@@ -0,0 +1,90 @@
+/**
+ * Role guards for Server Actions and server components
+ */
+
+import { redirect } from 'next/navigation';
+import { can, type PolicyAction, type PolicyResource } from '@/lib/permissions';
+import { canAccessPath, getHomePath, getLoginPath } from '@/lib/routes';
+import { ForbiddenError, TenantContextError } from '@/lib/server/errors';
+import { getTenantContext } from '@/lib/server/tenant';
+import { type TenantContext, type UserRole } from '@/types/user';
+
+/**
+ * Get the tenant context and require one of the given roles
+ *
+ * @throws ForbiddenError if the user's role is not allowed
+ *
+ * @example
+ * ```typescript
+ * const { tenantId } = await requireRole(['owner']);
+ * ```
+ */
+export async function requireRole(roles: readonly UserRole[]): Promise<TenantContext> {
+  const context = await getTenantContext();
+
+  if (!roles.includes(context.role)) {
+    throw new ForbiddenError();
+  }
+
+  return context;
+}
+
+/**
+ * Enforce the route access rules from src/lib/routes.ts in a layout or page
+ *
+ * This is the server-side counterpart of the middleware's session check:
+ * the middleware only sees whether a session cookie exists, this verifies
+ * the session, the tenant membership and the role.
+ * - no valid session: redirect to the login page
+ * - not a member of this tenant / inactive: redirect to the login page with an error
+ * - role not allowed: redirect to the role's home page
+ *
+ * @example
+ * ```tsx
+ * export default async function DashboardLayout({ children }) {
+ *   await requireRouteAccess('/dashboard');
+ *   return children;
+ * }
+ * ```
+ */
+export async function requireRouteAccess(pathname: string): Promise<TenantContext> {
+  let context: TenantContext;
+
+  try {
+    context = await getTenantContext();
+  } catch (error) {
+    if (error instanceof TenantContextError && error.code === 'unauthenticated') {
+      redirect(getLoginPath(pathname));
+    }
+    if (error instanceof TenantContextError && error.code !== 'tenant_not_found') {
+      redirect(`${getLoginPath()}?error=access`);
+    }
+    throw error;
+  }
+
+  if (!canAccessPath(pathname, context.role)) {
+    redirect(getHomePath(context.role));
+  }
+
+  return context;
+}
+
+/**
+ * Enforce the permission policy in a Server Action
+ *
+ * @throws ForbiddenError if the policy denies the action
+ *
+ * @example
+ * ```typescript
+ * authorize(context, 'update', { kind: 'checklist', ...checklist });
+ * ```
+ */
+export function authorize<R extends PolicyResource>(
+  context: TenantContext,
+  action: PolicyAction<R['kind']>,
+  resource: R
+): void {
+  if (!can(context, action, resource)) {
+    throw new ForbiddenError(`Not allowed to ${action} this ${resource.kind}`);
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Bulk assignment of checklists to many client organizations
+ *
+ * A bulk assignment fixes its target organizations when it starts and is
+ * then processed in small batches (one request each), so the UI can show
+ * progress and an interrupted run can simply be continued.
+ *
+ * Every created checklist carries an assignment key built from source,
+ * period and organization. Organizations that already have a checklist
+ * with that key are skipped, so neither continuing a run nor starting the
+ * same assignment again creates duplicates (the key has a unique index).
+ * A checklist the same assignment started but could not finish (e.g. a
+ * crash before all items existed) is completed instead.
+ *
+ * Concurrent requests for the same batch are mostly kept apart by a claim
+ * token. Appwrite has no conditional updates, so two requests can still
+ * both process a batch; the counters are therefore taken from the
+ * checklists the batch left behind, not from what each request did.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must check the
+ * policy before using them.
+ */
+
+import { AppwriteException, ID, Query } from 'node-appwrite';
+import { getDefaultPeriod } from '@/lib/checklist-templates';
+import { toActionError } from '@/lib/server/action-errors';
+import { authorize } from '@/lib/server/auth';
+import {
+  completeChecklistFromBlueprint,
+  createChecklistFromBlueprint,
+  getChecklistBlueprint,
+  getChecklistTemplate,
+  renderChecklistTemplate,
+  type ChecklistBlueprint,
+} from '@/lib/server/checklist-templates';
+import { type Repositories } from '@/lib/server/repositories';
+import {
+  type BulkAssignment,
+  type BulkAssignmentFailure,
+  type BulkAssignmentFilter,
+  type BulkAssignmentProgress,
+} from '@/types/bulk-assignment';
+import { type Checklist } from '@/types/checklist';
+import { type Organization } from '@/types/organization';
+import { type TenantContext } from '@/types/user';
+
+/**
+ * Organizations handled per request
+ */
+export const BULK_BATCH_SIZE = 10;
+
+/**
+ * Values per Query.equal (Appwrite limit)
+ */
+const QUERY_VALUES_LIMIT = 100;
+
+const PAGE_SIZE = 100;
+
+/**
+ * Active client organizations matching a filter, by name
+ *
+ * Stops after `limit` organizations, so callers can detect selections that
+ * are too large without loading the whole tenant.
+ */
+export async function findBulkAssignmentTargets(
+  repositories: Repositories,
+  filter: BulkAssignmentFilter,
+  limit: number
+): Promise<Organization[]> {
+  const baseQueries = [Query.equal('type', 'client'), Query.equal('status', 'active')];
+
+  if (filter.search) {
+    baseQueries.push(Query.contains('name', filter.search));
+  }
+
+  const idGroups: (string[] | null)[] = [];
+
+  if (filter.organizationIds) {
+    const ids = [...new Set(filter.organizationIds)];
+    for (let i = 0; i < ids.length; i += QUERY_VALUES_LIMIT) {
+      idGroups.push(ids.slice(i, i + QUERY_VALUES_LIMIT));
+    }
+  } else {
+    idGroups.push(null);
+  }
+
+  const targets: Organization[] = [];
+
+  for (const ids of idGroups) {
+    let cursor: string | undefined;
+
+    do {
+      const { records } = await repositories.organizations.list([
+        ...baseQueries,
+        ...(ids ? [Query.equal('$id', ids)] : []),
+        Query.orderAsc('$id'),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]);
+
+      targets.push(...records);
+      cursor = records.length === PAGE_SIZE ? records[records.length - 1].$id : undefined;
+    } while (cursor && targets.length < limit);
+
+    if (targets.length >= limit) {
+      break;
+    }
+  }
+
+  return targets
+    .slice(0, limit)
+    .sort((a, b) => a.name.localeCompare(b.name, 'de'));
+}
+
+/**
+ * Fix the {{jahr}} / {{monat}} period of a template assignment at the start,
+ * so continuing the run next month still produces the same checklists
+ */
+export async function resolveBulkAssignmentPeriod(
+  repositories: Repositories,
+  input: Pick<BulkAssignment, 'source_type' | 'source_id' | 'year' | 'month'>
+): Promise<{ year?: number; month?: number }> {
+  if (input.source_type !== 'template') {
+    return {};
+  }
+
+  const template = await getChecklistTemplate(repositories, input.source_id);
+  const period = getDefaultPeriod(template.period);
+
+  return template.period === 'monthly'
+    ? { year: input.year ?? period.year, month: input.month ?? period.month }
+    : { year: input.year ?? period.year };
+}
+
+export function toBulkAssignmentProgress(assignment: BulkAssignment): BulkAssignmentProgress {
+  return {
+    id: assignment.$id,
+    status: assignment.status,
+    total: assignment.total,
+    processed: assignment.processed,
+    created: assignment.created,
+    skipped: assignment.skipped,
+    failures: JSON.parse(assignment.failures) as BulkAssignmentFailure[],
+  };
+}
+
+/**
+ * Where the checklists come from, loaded once per batch
+ */
+interface BulkAssignmentSource {
+  key: string;
+  blueprintFor(organization: Organization): ChecklistBlueprint;
+}
+
+async function loadSource(
+  repositories: Repositories,
+  assignment: BulkAssignment
+): Promise<BulkAssignmentSource> {
+  if (assignment.source_type === 'template') {
+    const template = await getChecklistTemplate(repositories, assignment.source_id);
+    const period = [assignment.year, assignment.month].filter(Boolean).join('-');
+
+    return {
+      // All versions share the root ID, so a run restarted after an edit still skips
+      key: `template:${template.rootId}:${period}`,
+      blueprintFor: (organization) =>
+        renderChecklistTemplate(template, organization, {
+          year: assignment.year,
+          month: assignment.month,
+        }),
+    };
+  }
+
+  // Copies are made from the source as it is when the batch runs
+  const checklist = await repositories.checklists.get(assignment.source_id);
+  const blueprint = await getChecklistBlueprint(repositories, checklist);
+
+  return { key: `checklist:${checklist.$id}`, blueprintFor: () => blueprint };
+}
+
+function getAssignmentKey(source: BulkAssignmentSource, organizationId: string): string {
+  return `${source.key}:${organizationId}`;
+}
+
+// Whether creating the items of a checklist of this assignment was interrupted
+async function isIncomplete(
+  repositories: Repositories,
+  checklist: Checklist,
+  blueprint: ChecklistBlueprint
+): Promise<boolean> {
+  const { total } = await repositories.checklistItems.list([
+    Query.equal('checklist_id', checklist.$id),
+    Query.limit(1),
+  ]);
+
+  return total < blueprint.items.length;
+}
+
+/**
+ * Create the organization's checklist, or complete it if an earlier
+ * attempt of this assignment was interrupted
+ *
+ * @returns The failure, null if the organization has its checklist
+ */
+async function assignOrganization(
+  context: TenantContext,
+  repositories: Repositories,
+  assignment: BulkAssignment,
+  source: BulkAssignmentSource,
+  organizationId: string
+): Promise<BulkAssignmentFailure | null> {
+  let organization: Organization | null = null;
+
+  try {
+    organization = await repositories.organizations.get(organizationId);
+
+    authorize(context, 'create', {
+      kind: 'checklist',
+      tenant_id: context.tenantId,
+      organization_id: organization.$id,
+      status: assignment.activate ? 'active' : 'draft',
+    });
+
+    if (organization.type !== 'client' || organization.status !== 'active') {
+      return { organization_id: organizationId, organization_name: organization.name, error: 'Mandant ist nicht aktiv' };
+    }
+
+    const assignmentKey = getAssignmentKey(source, organization.$id);
+    const blueprint = source.blueprintFor(organization);
+    const {
+      records: [existing],
+    } = await repositories.checklists.list([Query.equal('assignment_key', assignmentKey), Query.limit(1)]);
+
+    if (!existing) {
+      await createChecklistFromBlueprint(context, repositories, blueprint, organization.$id, {
+        due_date: assignment.due_date,
+        activate: assignment.activate,
+        assignment_key: assignmentKey,
+        bulk_assignment_id: assignment.$id,
+      });
+    } else if (
+      existing.bulk_assignment_id === assignment.$id &&
+      (await isIncomplete(repositories, existing, blueprint))
+    ) {
+      await completeChecklistFromBlueprint(context, repositories, existing, blueprint, {
+        activate: assignment.activate,
+      });
+    }
+
+    return null;
+  } catch (error) {
+    // Another request created the same checklist in the meantime (unique index)
+    if (error instanceof AppwriteException && error.code === 409) {
+      return null;
+    }
+
+    return {
+      organization_id: organizationId,
+      organization_name: organization?.name,
+      error: toActionError(error, 'Mandant nicht gefunden').error,
+    };
+  }
+}
+
+/**
+ * Process the next batch of a running bulk assignment
+ *
+ * Failures are recorded per organization and do not stop the run. A source
+ * that can no longer be loaded (deleted template or checklist) throws.
+ * If another request claims or finishes the batch in the meantime, its
+ * progress is returned and this request's outcome is dropped.
+ */
+export async function processBulkAssignmentBatch(
+  context: TenantContext,
+  repositories: Repositories,
+  assignment: BulkAssignment,
+  batchSize = BULK_BATCH_SIZE
+): Promise<BulkAssignment> {
+  if (assignment.status === 'completed') {
+    return assignment;
+  }
+
+  const claim = ID.unique();
+  await repositories.bulkAssignments.update(assignment.$id, { batch_claim: claim });
+
+  // Appwrite has no conditional updates - read back whose claim won.
+  // Returns the assignment if another request took over, null otherwise.
+  async function findTakeover(): Promise<BulkAssignment | null> {
+    const current = await repositories.bulkAssignments.get(assignment.$id);
+    return current.batch_claim === claim && current.processed === assignment.processed ? null : current;
+  }
+
+  const takenOver = await findTakeover();
+
+  if (takenOver) {
+    return takenOver;
+  }
+
+  const organizationIds = JSON.parse(assignment.organization_ids) as string[];
+  const batch = organizationIds.slice(assignment.processed, assignment.processed + batchSize);
+  const source = await loadSource(repositories, assignment);
+
+  const batchFailures = new Map<string, BulkAssignmentFailure>();
+
+  for (const organizationId of batch) {
+    const failure = await assignOrganization(context, repositories, assignment, source, organizationId);
+
+    if (failure) {
+      batchFailures.set(organizationId, failure);
+    }
+  }
+
+  // Count what the batch left behind rather than what this request did: a
+  // request running the same batch may have created some of the checklists
+  const assignmentKeys = batch.map((organizationId) => getAssignmentKey(source, organizationId));
+  const { records: checklists } = batch.length
+    ? await repositories.checklists.list([Query.equal('assignment_key', assignmentKeys), Query.limit(batch.length)])
+    : { records: [] };
+  const createdIds = new Set(
+    checklists
+      .filter((checklist) => checklist.bulk_assignment_id === assignment.$id)
+      .map((checklist) => checklist.organization_id)
+  );
+
+  const failures = JSON.parse(assignment.failures) as BulkAssignmentFailure[];
+  let created = assignment.created;
+  let skipped = assignment.skipped;
+
+  for (const organizationId of batch) {
+    const failure = batchFailures.get(organizationId);
+
+    if (createdIds.has(organizationId)) {
+      created++;
+    } else if (failure) {
+      failures.push(failure);
+    } else {
+      skipped++;
+    }
+  }
+
+  const processed = assignment.processed + batch.length;
+  const overtaken = await findTakeover();
+
+  if (overtaken) {
+    return overtaken;
+  }
+
+  return repositories.bulkAssignments.update(assignment.$id, {
+    processed,
+    created,
+    skipped,
+    failures: JSON.stringify(failures),
+    status: processed >= assignment.total ? 'completed' : 'running',
+  });
+}
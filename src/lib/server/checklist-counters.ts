@@ -0,0 +1,114 @@
+/**
+ * Checklist item counters
+ *
+ * Checklists store total_items and completed_items so lists can show
+ * progress without loading items. The counters are recounted from the items
+ * after every change instead of being incremented: a recount is idempotent,
+ * so concurrent changes and failed writes cannot make them drift for good.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must have
+ * checked that the checklist belongs to the current tenant.
+ */
+
+import { Query, type Models } from 'node-appwrite';
+import { COLLECTIONS, DATABASE_ID, databases } from '@/lib/server/appwrite';
+import { type DatabasesClient } from '@/lib/server/repositories';
+import { type Checklist } from '@/types/checklist';
+
+type ChecklistCounters = Pick<Checklist, 'total_items' | 'completed_items'>;
+
+type CounterTarget = Pick<Checklist, '$id' | 'tenant_id'> & Partial<ChecklistCounters>;
+
+/**
+ * Checklists per page when repairing
+ */
+const REPAIR_PAGE_SIZE = 100;
+
+/**
+ * Count the items of a checklist (only the totals are fetched)
+ */
+export async function countChecklistItems(
+  checklist: Pick<Checklist, '$id' | 'tenant_id'>,
+  db: DatabasesClient = databases
+): Promise<ChecklistCounters> {
+  const scope = [
+    Query.equal('tenant_id', checklist.tenant_id),
+    Query.equal('checklist_id', checklist.$id),
+    Query.select(['$id']),
+    Query.limit(1),
+  ];
+
+  const [all, completed] = await Promise.all([
+    db.listDocuments(DATABASE_ID, COLLECTIONS.checklistItems, scope),
+    db.listDocuments(DATABASE_ID, COLLECTIONS.checklistItems, [
+      ...scope,
+      Query.equal('status', 'green'),
+    ]),
+  ]);
+
+  return { total_items: all.total, completed_items: completed.total };
+}
+
+/**
+ * Recount a checklist's items and store the counters if they changed
+ *
+ * @returns The current counters and whether they had drifted
+ */
+export async function syncChecklistCounters(
+  checklist: CounterTarget,
+  db: DatabasesClient = databases
+): Promise<ChecklistCounters & { changed: boolean }> {
+  const counters = await countChecklistItems(checklist, db);
+  const changed =
+    counters.total_items !== checklist.total_items ||
+    counters.completed_items !== checklist.completed_items;
+
+  if (changed) {
+    await db.updateDocument(DATABASE_ID, COLLECTIONS.checklists, checklist.$id, counters);
+  }
+
+  return { ...counters, changed };
+}
+
+/**
+ * Recount all checklists and fix the ones that drifted
+ *
+ * Runs across all tenants unless a tenant is given.
+ *
+ * @returns Number of checked checklists and IDs of the repaired ones
+ */
+export async function repairChecklistCounters(
+  options: { tenantId?: string; db?: DatabasesClient } = {}
+): Promise<{ checked: number; repaired: string[] }> {
+  const db = options.db ?? databases;
+  const repaired: string[] = [];
+  let checked = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await db.listDocuments<Models.Document & Checklist>(
+      DATABASE_ID,
+      COLLECTIONS.checklists,
+      [
+        ...(options.tenantId ? [Query.equal('tenant_id', options.tenantId)] : []),
+        Query.select(['$id', 'tenant_id', 'total_items', 'completed_items']),
+        Query.orderAsc('$id'),
+        Query.limit(REPAIR_PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    for (const checklist of page.documents) {
+      const { changed } = await syncChecklistCounters(checklist, db);
+      checked++;
+
+      if (changed) {
+        repaired.push(checklist.$id);
+      }
+    }
+
+    cursor = page.documents.length === REPAIR_PAGE_SIZE ? page.documents.at(-1)?.$id : undefined;
+  } while (cursor);
+
+  return { checked, repaired };
+}
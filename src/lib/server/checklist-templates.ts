@@ -0,0 +1,293 @@
+/**
+ * Checklist templates - loading and instantiation
+ *
+ * Built-in templates live in code (src/lib/checklist-templates.ts), the
+ * tenant's own templates in the checklist_templates collection. Checklists
+ * created from a template are independent copies that remember the template
+ * version they came from. Existing checklists can be copied the same way.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must check the
+ * policy before using them.
+ */
+
+import { AppwriteException } from 'node-appwrite';
+import {
+  getBuiltInTemplate,
+  getDefaultPeriod,
+  getTemplateValues,
+  renderTemplateText,
+} from '@/lib/checklist-templates';
+import { syncChecklistCounters } from '@/lib/server/checklist-counters';
+import { applyChecklistTransition } from '@/lib/server/checklist-transitions';
+import { type Repositories } from '@/lib/server/repositories';
+import { type Checklist, type ChecklistRecurrenceFields } from '@/types/checklist';
+import { type Organization } from '@/types/organization';
+import {
+  type ChecklistTemplate,
+  type ChecklistTemplateItem,
+  type ChecklistTemplateRecord,
+} from '@/types/template';
+import { type TenantContext } from '@/types/user';
+
+/**
+ * Map a stored template version to the application type
+ */
+export function toChecklistTemplate(record: ChecklistTemplateRecord): ChecklistTemplate {
+  return {
+    id: record.$id,
+    rootId: record.root_id,
+    version: record.version,
+    name: record.name,
+    title: record.title,
+    description: record.description,
+    period: record.period,
+    items: JSON.parse(record.items) as ChecklistTemplateItem[],
+    builtIn: false,
+    updatedAt: record.$createdAt,
+  };
+}
+
+/**
+ * Load a built-in template or a version of one of the tenant's templates
+ *
+ * @throws NotFoundError if the template does not exist in the tenant
+ */
+export async function getChecklistTemplate(
+  repositories: Repositories,
+  id: string
+): Promise<ChecklistTemplate> {
+  const builtIn = getBuiltInTemplate(id);
+
+  if (builtIn) {
+    return builtIn;
+  }
+
+  return toChecklistTemplate(await repositories.checklistTemplates.get(id));
+}
+
+/**
+ * Everything needed to create a checklist - placeholders already filled in
+ */
+export interface ChecklistBlueprint {
+  title: string;
+  description?: string;
+  items: ChecklistTemplateItem[];
+  template_id?: string;
+  template_version?: number;
+}
+
+export interface BlueprintOptions {
+  due_date?: string;
+  /**
+   * Activate the checklist right away (notifies the client)
+   */
+  activate?: boolean;
+  /**
+   * Idempotency key of a bulk assignment
+   */
+  assignment_key?: string;
+  /**
+   * Bulk assignment creating the checklist
+   */
+  bulk_assignment_id?: string;
+  /**
+   * Recurrence of a generated instance (see src/lib/server/recurring-checklists.ts)
+   */
+  recurrence?: ChecklistRecurrenceFields;
+}
+
+export interface InstantiateOptions extends BlueprintOptions {
+  /**
+   * Values for {{jahr}} / {{monat}} - default depends on the template period
+   */
+  year?: number;
+  month?: number;
+}
+
+/**
+ * Fill in a template's placeholders for an organization and period
+ */
+export function renderChecklistTemplate(
+  template: ChecklistTemplate,
+  organization: Pick<Organization, 'name'>,
+  options: { year?: number; month?: number } = {}
+): ChecklistBlueprint {
+  const period = getDefaultPeriod(template.period);
+  const values = getTemplateValues(
+    organization.name,
+    options.year ?? period.year,
+    options.month ?? period.month
+  );
+
+  return {
+    title: renderTemplateText(template.title, values),
+    description: template.description ? renderTemplateText(template.description, values) : undefined,
+    items: template.items.map((item) => ({
+      title: renderTemplateText(item.title, values),
+      description: item.description ? renderTemplateText(item.description, values) : undefined,
+      requires_document: item.requires_document,
+    })),
+    template_id: template.id,
+    template_version: template.version,
+  };
+}
+
+/**
+ * Blueprint for copying an existing checklist
+ * Texts are copied verbatim; the copy keeps the template reference of the source.
+ */
+export async function getChecklistBlueprint(
+  repositories: Repositories,
+  checklist: Checklist
+): Promise<ChecklistBlueprint> {
+  const { records } = await repositories.checklistItems.listByChecklist(checklist.$id);
+
+  return {
+    title: checklist.title,
+    description: checklist.description,
+    items: records.map((item) => ({
+      title: item.title,
+      description: item.description,
+      requires_document: item.requires_document,
+    })),
+    template_id: checklist.template_id,
+    template_version: checklist.template_version,
+  };
+}
+
+// Items have fixed IDs, so requests adding the same item settle on one
+function getBlueprintItemId(checklistId: string, position: number): string {
+  return `${checklistId}-${position}`;
+}
+
+/**
+ * Add the blueprint's items to a checklist, skipping the ones that exist
+ *
+ * @param options.createdItemIds - Receives the IDs of the added items
+ * @param options.existingPositions - Positions the checklist already has
+ */
+async function createBlueprintItems(
+  repositories: Repositories,
+  checklist: Checklist,
+  blueprint: ChecklistBlueprint,
+  options: { createdItemIds?: string[]; existingPositions?: Set<number> } = {}
+): Promise<void> {
+  for (const [position, item] of blueprint.items.entries()) {
+    if (options.existingPositions?.has(position)) {
+      continue;
+    }
+
+    try {
+      const created = await repositories.checklistItems.create(
+        {
+          checklist_id: checklist.$id,
+          title: item.title,
+          description: item.description,
+          status: 'red',
+          position,
+          requires_document: item.requires_document,
+        },
+        getBlueprintItemId(checklist.$id, position)
+      );
+      options.createdItemIds?.push(created.$id);
+    } catch (error) {
+      // Added by another request completing the same checklist
+      if (!(error instanceof AppwriteException && error.code === 409)) {
+        throw error;
+      }
+    }
+  }
+}
+
+async function finishChecklist(
+  context: TenantContext,
+  repositories: Repositories,
+  checklist: Checklist,
+  options: BlueprintOptions
+): Promise<Checklist> {
+  const counters = await syncChecklistCounters(checklist);
+  const synced = { ...checklist, total_items: counters.total_items, completed_items: counters.completed_items };
+
+  if (!options.activate || synced.status !== 'draft') {
+    return synced;
+  }
+
+  return applyChecklistTransition(context, repositories, synced, 'activate');
+}
+
+/**
+ * Create a checklist with its items for one organization
+ *
+ * The checklist is created as a draft and only activated once all items
+ * exist. If creating the items fails, the partial checklist is removed
+ * again, so a retry starts from scratch.
+ */
+export async function createChecklistFromBlueprint(
+  context: TenantContext,
+  repositories: Repositories,
+  blueprint: ChecklistBlueprint,
+  organizationId: string,
+  options: BlueprintOptions = {}
+): Promise<Checklist> {
+  const checklist = await repositories.checklists.create({
+    organization_id: organizationId,
+    title: blueprint.title,
+    description: blueprint.description,
+    due_date: options.due_date,
+    status: 'draft',
+    total_items: 0,
+    completed_items: 0,
+    template_id: blueprint.template_id,
+    template_version: blueprint.template_version,
+    assignment_key: options.assignment_key,
+    bulk_assignment_id: options.bulk_assignment_id,
+    ...options.recurrence,
+  });
+
+  const createdItemIds: string[] = [];
+
+  try {
+    await createBlueprintItems(repositories, checklist, blueprint, { createdItemIds });
+  } catch (error) {
+    await Promise.allSettled(createdItemIds.map((id) => repositories.checklistItems.delete(id)));
+    await repositories.checklists.delete(checklist.$id).catch(() => undefined);
+    throw error;
+  }
+
+  return finishChecklist(context, repositories, checklist, options);
+}
+
+/**
+ * Add the missing items of a checklist whose creation was interrupted
+ * (e.g. by a crash between creating the checklist and its items) and
+ * activate it if asked to
+ */
+export async function completeChecklistFromBlueprint(
+  context: TenantContext,
+  repositories: Repositories,
+  checklist: Checklist,
+  blueprint: ChecklistBlueprint,
+  options: Pick<BlueprintOptions, 'activate'> = {}
+): Promise<Checklist> {
+  const { records } = await repositories.checklistItems.listByChecklist(checklist.$id);
+  const existingPositions = new Set(records.map((item) => item.position));
+
+  await createBlueprintItems(repositories, checklist, blueprint, { existingPositions });
+  return finishChecklist(context, repositories, checklist, options);
+}
+
+/**
+ * Create a checklist with its items from a template for one organization
+ */
+export async function instantiateTemplate(
+  context: TenantContext,
+  repositories: Repositories,
+  template: ChecklistTemplate,
+  organization: Pick<Organization, '$id' | 'name'>,
+  options: InstantiateOptions = {}
+): Promise<Checklist> {
+  const { year, month, ...blueprintOptions } = options;
+  const blueprint = renderChecklistTemplate(template, organization, { year, month });
+
+  return createChecklistFromBlueprint(context, repositories, blueprint, organization.$id, blueprintOptions);
+}
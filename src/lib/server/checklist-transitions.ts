@@ -0,0 +1,153 @@
+/**
+ * Checklist lifecycle transitions with their side effects
+ *
+ * Applies the rules from src/lib/checklist-lifecycle.ts, writes an audit
+ * entry for every attempt (including rejected ones) and notifies the client
+ * organization when a checklist is activated. Automatic item status changes
+ * (uploads, document reviews) go through applyItemStatus.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must have
+ * loaded the checklist through the repositories and checked the policy.
+ */
+
+import {
+  canChangeItemStatus,
+  CHECKLIST_TRANSITIONS,
+  getTransitionBlocker,
+  isDeletable,
+  shouldAutoComplete,
+} from '@/lib/checklist-lifecycle';
+import { writeAuditLog } from '@/lib/server/audit';
+import { syncChecklistCounters } from '@/lib/server/checklist-counters';
+import { ChecklistLockedError, InvalidTransitionError } from '@/lib/server/errors';
+import { notifyChecklistActivated } from '@/lib/server/notifications';
+import { type Repositories } from '@/lib/server/repositories';
+import {
+  type Checklist,
+  type ChecklistItem,
+  type ChecklistItemStatus,
+  type ChecklistTransition,
+} from '@/types/checklist';
+import { type TenantContext } from '@/types/user';
+
+/**
+ * Move a checklist to its next status
+ *
+ * @param options.reason - Why a completed checklist is reopened
+ * @param options.automatic - Triggered by the system, not by a user request
+ * @throws InvalidTransitionError if the transition is not possible
+ */
+export async function applyChecklistTransition(
+  context: TenantContext,
+  repositories: Repositories,
+  checklist: Checklist,
+  transition: ChecklistTransition,
+  options: { reason?: string; automatic?: boolean } = {}
+): Promise<Checklist> {
+  const blocker = getTransitionBlocker(checklist, transition, options.reason);
+
+  if (blocker) {
+    await writeAuditLog(context, {
+      action: 'status_change_rejected',
+      resource_type: 'checklist',
+      resource_id: checklist.$id,
+      organization_id: checklist.organization_id,
+      metadata: { from: checklist.status, transition, blocker },
+    });
+
+    throw new InvalidTransitionError(checklist.status, transition, blocker);
+  }
+
+  const to = CHECKLIST_TRANSITIONS[transition].to;
+
+  const updated = await repositories.checklists.update(
+    checklist.$id,
+    to === 'completed' ? { status: to, completed_at: new Date().toISOString() } : { status: to }
+  );
+
+  await writeAuditLog(context, {
+    action: 'status_change',
+    resource_type: 'checklist',
+    resource_id: checklist.$id,
+    organization_id: checklist.organization_id,
+    metadata: {
+      from: checklist.status,
+      to,
+      transition,
+      reason: options.reason?.trim() || undefined,
+      automatic: options.automatic || undefined,
+    },
+  });
+
+  if (transition === 'activate') {
+    await notifyChecklistActivated(updated, context.subdomain);
+  }
+
+  return updated;
+}
+
+/**
+ * Make sure a checklist may be deleted in its current status
+ * A rejected delete is audited like a rejected transition.
+ *
+ * @throws ChecklistLockedError if the checklist is archived
+ */
+export async function assertChecklistDeletable(context: TenantContext, checklist: Checklist): Promise<void> {
+  if (isDeletable(checklist.status)) {
+    return;
+  }
+
+  await writeAuditLog(context, {
+    action: 'status_change_rejected',
+    resource_type: 'checklist',
+    resource_id: checklist.$id,
+    organization_id: checklist.organization_id,
+    metadata: { from: checklist.status, transition: 'delete', blocker: 'invalid_state' },
+  });
+
+  throw new ChecklistLockedError(checklist.status);
+}
+
+/**
+ * Complete a checklist once all items are green (unless the advisor
+ * confirms completion manually)
+ *
+ * @returns The checklist, completed if it was done
+ */
+export async function completeChecklistIfDone(
+  context: TenantContext,
+  repositories: Repositories,
+  checklist: Checklist
+): Promise<Checklist> {
+  if (!shouldAutoComplete(checklist)) {
+    return checklist;
+  }
+
+  return applyChecklistTransition(context, repositories, checklist, 'complete', { automatic: true });
+}
+
+/**
+ * Change an item's status as a side effect of another action (e.g. an upload)
+ *
+ * Only active checklists are affected; in any other status the item keeps
+ * its status. Recounts the checklist and completes it when it is done.
+ *
+ * @returns The item with its current status
+ */
+export async function applyItemStatus(
+  context: TenantContext,
+  repositories: Repositories,
+  checklist: Checklist,
+  item: ChecklistItem,
+  status: ChecklistItemStatus
+): Promise<ChecklistItem> {
+  if (item.status === status || !canChangeItemStatus(checklist.status)) {
+    return item;
+  }
+
+  const updated = await repositories.checklistItems.update(item.$id, { status });
+  const counters = await syncChecklistCounters(checklist);
+  await completeChecklistIfDone(context, repositories, { ...checklist, ...counters });
+
+  return updated;
+}
@@ -0,0 +1,23 @@
+/**
+ * Authentication of scheduled job requests
+ *
+ * Job routes under /api/jobs are called by the scheduler with
+ * "Authorization: Bearer $CRON_SECRET". Without a configured secret every
+ * request is rejected.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { type NextRequest } from 'next/server';
+
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,92 @@
+/**
+ * Custom domain verification
+ *
+ * Advisors prove ownership of a custom domain (e.g. portal.kanzlei-mueller.de)
+ * by publishing a TXT record. The expected value is derived from the tenant
+ * and domain with an HMAC, so no pending verification state has to be stored.
+ */
+
+import { createHmac } from 'node:crypto';
+import { getRootDomains, normalizeHostname } from '@/lib/hostname';
+import { type TxtResolver } from '@/lib/server/dns';
+import { type CustomDomainVerification } from '@/types/tenant';
+
+const RECORD_PREFIX = '_belegboost';
+const VALUE_PREFIX = 'belegboost-verification=';
+
+const DOMAIN_LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+// A secret of its own: tokens must not change when the API key is rotated,
+// and must not reveal anything about it
+function getVerificationSecret(): string {
+  const secret = process.env.DOMAIN_VERIFICATION_SECRET;
+
+  if (!secret) {
+    throw new Error('DOMAIN_VERIFICATION_SECRET is not defined (server-side only)');
+  }
+
+  return secret;
+}
+
+/**
+ * Normalize and validate a custom domain entered by an advisor
+ *
+ * Rejects IP addresses, single-label hosts and anything under our own
+ * root domains (those are served as tenant subdomains instead).
+ *
+ * @returns The normalized domain or null if it cannot be used
+ */
+export function normalizeCustomDomain(input: string): string | null {
+  const domain = normalizeHostname(input);
+
+  if (!domain || domain.length > 253) {
+    return null;
+  }
+
+  const labels = domain.split('.');
+
+  if (labels.length < 2 || !labels.every((label) => DOMAIN_LABEL.test(label))) {
+    return null;
+  }
+
+  // Top-level domains are never numeric, which also rules out IPv4 addresses
+  if (/^\d+$/.test(labels[labels.length - 1])) {
+    return null;
+  }
+
+  const isRootDomain = getRootDomains().some(
+    (root) => domain === root || domain.endsWith(`.${root}`)
+  );
+
+  return isRootDomain ? null : domain;
+}
+
+/**
+ * Get the TXT record a tenant must publish to verify a domain
+ */
+export function getCustomDomainVerification(
+  tenantId: string,
+  domain: string
+): CustomDomainVerification {
+  const token = createHmac('sha256', getVerificationSecret())
+    .update(`${tenantId}:${domain}`)
+    .digest('hex')
+    .slice(0, 32);
+
+  return {
+    domain,
+    recordName: `${RECORD_PREFIX}.${domain}`,
+    recordValue: `${VALUE_PREFIX}${token}`,
+  };
+}
+
+/**
+ * Check whether the verification TXT record is published
+ */
+export async function isCustomDomainVerified(
+  verification: CustomDomainVerification,
+  resolver: TxtResolver
+): Promise<boolean> {
+  const records = await resolver(verification.recordName);
+  return records.some((record) => record.trim() === verification.recordValue);
+}
@@ -0,0 +1,56 @@
+/**
+ * DNS TXT record lookups
+ *
+ * Custom domain verification goes through a TxtResolver so the lookup can be
+ * swapped for a local stub during development and offline testing.
+ */
+
+import { resolveTxt } from 'node:dns/promises';
+
+/**
+ * Resolves the TXT records of a hostname
+ * Each record is returned as a single joined string.
+ */
+export type TxtResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * TXT resolver backed by the system DNS
+ * Missing records resolve to an empty list instead of throwing.
+ */
+export const systemTxtResolver: TxtResolver = async (hostname) => {
+  try {
+    const records = await resolveTxt(hostname);
+    return records.map((chunks) => chunks.join(''));
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') {
+      return [];
+    }
+    throw error;
+  }
+};
+
+/**
+ * Create a TXT resolver answering from a static record table
+ *
+ * @example
+ * ```typescript
+ * const resolver = createStubTxtResolver({
+ *   '_belegboost.portal.kanzlei-mueller.de': ['belegboost-verification=abc123'],
+ * });
+ * ```
+ */
+export function createStubTxtResolver(records: Record<string, string[]>): TxtResolver {
+  return async (hostname) => records[hostname.toLowerCase()] ?? [];
+}
+
+/**
+ * Get the TXT resolver for the current environment
+ *
+ * Set DNS_TXT_STUB to a JSON record table to verify domains offline. It is
+ * ignored in production, where it would let anyone claim any domain.
+ */
+export function getTxtResolver(): TxtResolver {
+  const stub = process.env.NODE_ENV !== 'production' ? process.env.DNS_TXT_STUB : undefined;
+  return stub ? createStubTxtResolver(JSON.parse(stub)) : systemTxtResolver;
+}
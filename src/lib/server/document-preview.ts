@@ -0,0 +1,114 @@
+/**
+ * Document preview details
+ *
+ * Page count of PDFs and pixel size of images. Only the image headers are
+ * downloaded; PDFs are not read here - the text extraction job counts their
+ * pages and stores the count on the document, until then it is unknown.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must have
+ * checked the read policy for the document.
+ */
+
+import { type FileContent } from '@/lib/server/file-inspection';
+import { type Document, type DocumentPreview } from '@/types/document';
+
+// Image headers incl. embedded EXIF thumbnails in front of the JPEG frame
+const IMAGE_HEAD_BYTES = 256 * 1024;
+
+type ImageSize = NonNullable<DocumentPreview['image_size']>;
+
+function readPngSize(bytes: Uint8Array): ImageSize | null {
+  // Signature, then the IHDR chunk with width and height
+  if (bytes.length < 24 || bytes[0] !== 0x89 || bytes[1] !== 0x50) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function readJpegSize(bytes: Uint8Array): ImageSize | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 9 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+
+    // Start of frame (SOF0-SOF15 without DHT, JPG and DAC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+}
+
+function readTiffSize(bytes: Uint8Array): ImageSize | null {
+  if (bytes.length < 8) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[0] === 0x49;
+  const directory = view.getUint32(4, littleEndian);
+
+  if (directory + 2 > bytes.length) {
+    return null;
+  }
+
+  const size: Partial<ImageSize> = {};
+  const entries = view.getUint16(directory, littleEndian);
+
+  for (let index = 0; index < entries; index++) {
+    const entry = directory + 2 + index * 12;
+
+    if (entry + 12 > bytes.length) {
+      break;
+    }
+
+    const tag = view.getUint16(entry, littleEndian);
+    // SHORT (3) or LONG (4) value, stored in the entry itself
+    const value =
+      view.getUint16(entry + 2, littleEndian) === 3
+        ? view.getUint16(entry + 8, littleEndian)
+        : view.getUint32(entry + 8, littleEndian);
+
+    if (tag === 256) {
+      size.width = value;
+    } else if (tag === 257) {
+      size.height = value;
+    }
+  }
+
+  return size.width && size.height ? { width: size.width, height: size.height } : null;
+}
+
+const IMAGE_SIZE_READERS: Record<string, (bytes: Uint8Array) => ImageSize | null> = {
+  'image/png': readPngSize,
+  'image/jpeg': readJpegSize,
+  'image/tiff': readTiffSize,
+};
+
+/**
+ * Read the page count or pixel size of a stored document
+ * Unknown values are null - the preview works without them.
+ */
+export async function readPreviewDetails(
+  content: FileContent,
+  document: Pick<Document, 'mime_type' | 'page_count'>
+): Promise<Pick<DocumentPreview, 'page_count' | 'image_size'>> {
+  if (document.mime_type === 'application/pdf') {
+    return { page_count: document.page_count ?? null, image_size: null };
+  }
+
+  const readImageSize = IMAGE_SIZE_READERS[document.mime_type];
+
+  if (readImageSize) {
+    const head = await content.read(0, Math.min(IMAGE_HEAD_BYTES, content.size));
+    return { page_count: null, image_size: readImageSize(head) };
+  }
+
+  return { page_count: null, image_size: null };
+}
@@ -0,0 +1,245 @@
+/**
+ * Document files in Appwrite Storage
+ *
+ * All tenants share the documents bucket (file security enabled). Each file
+ * gets the same permissions as its document record: the tenant's owner and
+ * advisor team roles and the label of the client organization.
+ *
+ * The record is written after the file, so a failed upload never leaves a
+ * record without a file; a failed record write removes the file again.
+ *
+ * Files are screened (content checks and malware scan) before their record
+ * is created, so advisors never see a rejected file.
+ *
+ * A file uploaded as a new version of a document gets the next version
+ * number of the document's slot; earlier versions are kept.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must have
+ * loaded the item through the repositories and checked the policy.
+ */
+
+import { AppwriteException, ID, Query } from 'node-appwrite';
+import { getDocumentSlotId } from '@/lib/documents';
+import { BUCKETS, storage } from '@/lib/server/appwrite';
+import { inspectFileContent, type FileContent } from '@/lib/server/file-inspection';
+import { getMalwareScanner, type MalwareScanner } from '@/lib/server/malware-scan';
+import { getRecordPermissions, type Repositories } from '@/lib/server/repositories';
+import { type Checklist, type ChecklistItem } from '@/types/checklist';
+import { type Document } from '@/types/document';
+import { type TenantContext } from '@/types/user';
+
+/**
+ * Policy resource of a document (see src/lib/permissions.ts)
+ */
+export function toDocumentResource(document: Document, checklist: Pick<Checklist, 'status'>) {
+  return { kind: 'document' as const, ...document, checklist_status: checklist.status };
+}
+
+/**
+ * Result of screening a file
+ * threat: name of the malware found, if any
+ */
+export type ScreeningResult = { ok: true } | { ok: false; error: string; threat?: string };
+
+/**
+ * Check the content of a file and scan it for malware
+ *
+ * Throws if the scanner is unavailable - files are never accepted unscanned.
+ */
+export async function screenDocument(
+  content: FileContent,
+  declared: { name: string; type: string },
+  scanner: MalwareScanner = getMalwareScanner()
+): Promise<ScreeningResult> {
+  const error = await inspectFileContent(content, declared);
+
+  if (error) {
+    return { ok: false, error };
+  }
+
+  const scan = await scanner(content);
+
+  if (!scan.clean) {
+    console.warn('Malware found in upload', { fileName: declared.name, threat: scan.threat });
+    return { ok: false, error: `In „${declared.name}“ wurde Schadsoftware gefunden`, threat: scan.threat };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Upload a file and create its document record
+ * Callers must have screened the file (screenDocument).
+ *
+ * @param slotId - Slot to add the file to as a new version (defaults to a new slot)
+ */
+export async function storeDocument(
+  context: TenantContext,
+  repositories: Repositories,
+  item: Pick<ChecklistItem, '$id' | 'organization_id'>,
+  file: File,
+  slotId?: string
+): Promise<Document> {
+  const uploaded = await storage.createFile(
+    BUCKETS.documents,
+    ID.unique(),
+    file,
+    getRecordPermissions(context, item.organization_id)
+  );
+
+  return createDocumentRecord(
+    context,
+    repositories,
+    item,
+    {
+      fileId: uploaded.$id,
+      fileName: file.name,
+      fileSize: uploaded.sizeOriginal,
+      mimeType: file.type,
+    },
+    slotId
+  );
+}
+
+// Attempts to find a free version number when uploads to a slot overlap
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Create the document record for a file already in the documents bucket
+ * The file is deleted if the record cannot be written.
+ *
+ * @param slotId - Slot to add the file to as a new version (defaults to a new slot)
+ */
+export async function createDocumentRecord(
+  context: TenantContext,
+  repositories: Repositories,
+  item: Pick<ChecklistItem, '$id'>,
+  file: { fileId: string; fileName: string; fileSize: number; mimeType: string },
+  slotId?: string
+): Promise<Document> {
+  const record = {
+    checklist_item_id: item.$id,
+    uploaded_by: context.userId,
+    file_id: file.fileId,
+    file_name: file.fileName.slice(0, 255),
+    file_size: file.fileSize,
+    mime_type: file.mimeType,
+    status: 'pending' as const,
+    extraction_status: 'pending' as const,
+  };
+
+  try {
+    if (!slotId) {
+      return await repositories.documents.create({ ...record, slot_id: ID.unique(), version: 1 });
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const version = await getNextVersion(repositories, slotId);
+        return await repositories.documents.create({ ...record, slot_id: slotId, version });
+      } catch (error) {
+        // The unique index on slot_id + version rejects a concurrent upload - count again
+        if (!(error instanceof AppwriteException && error.code === 409) || attempt >= MAX_VERSION_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  } catch (error) {
+    await storage.deleteFile(BUCKETS.documents, file.fileId).catch(() => undefined);
+    throw error;
+  }
+}
+
+async function getNextVersion(repositories: Repositories, slotId: string): Promise<number> {
+  const { records } = await repositories.documents.listVersions(slotId);
+  return Math.max(0, ...records.map((record) => record.version ?? 1)) + 1;
+}
+
+/**
+ * Slot for a new version of a document
+ *
+ * Documents uploaded before versioning get their slot written first, so
+ * they show up as version 1.
+ */
+export async function getVersionSlot(repositories: Repositories, document: Document): Promise<string> {
+  if (!document.slot_id) {
+    await repositories.documents.update(document.$id, { slot_id: document.$id, version: 1 });
+  }
+
+  return getDocumentSlotId(document);
+}
+
+/**
+ * Mark a document as the authoritative version of its slot
+ * The mark is taken from any other version of the slot.
+ */
+export async function markAuthoritative(repositories: Repositories, document: Document): Promise<Document> {
+  if (document.slot_id) {
+    const { records } = await repositories.documents.listVersions(document.slot_id);
+
+    for (const version of records) {
+      if (version.is_authoritative && version.$id !== document.$id) {
+        await repositories.documents.update(version.$id, { is_authoritative: false });
+      }
+    }
+  }
+
+  return document.is_authoritative ? document : repositories.documents.update(document.$id, { is_authoritative: true });
+}
+
+/**
+ * Delete a document record and its file
+ *
+ * A file that cannot be deleted is only logged - without its record it is
+ * no longer reachable through the application.
+ */
+export async function removeDocument(
+  repositories: Repositories,
+  document: Pick<Document, '$id' | 'file_id'>
+): Promise<void> {
+  await repositories.documents.delete(document.$id);
+
+  try {
+    await storage.deleteFile(BUCKETS.documents, document.file_id);
+  } catch (error) {
+    console.error('Deleting document file failed', { fileId: document.file_id, error });
+  }
+}
+
+/**
+ * Documents deleted per round when their checklist or item is removed
+ */
+const REMOVE_BATCH_SIZE = 100;
+
+/**
+ * Delete all documents of a checklist or checklist item with their files
+ *
+ * Called before the parent is deleted, so no record or file outlives it.
+ */
+export async function removeDocumentsOf(
+  repositories: Repositories,
+  parent: { checklist_id: string } | { checklist_item_id: string }
+): Promise<void> {
+  const [[attribute, id]] = Object.entries(parent);
+  let records: Document[];
+
+  do {
+    ({ records } = await repositories.documents.list([Query.equal(attribute, id), Query.limit(REMOVE_BATCH_SIZE)]));
+    await Promise.all(records.map((document) => removeDocument(repositories, document)));
+  } while (records.length === REMOVE_BATCH_SIZE);
+}
+
+/**
+ * Number of documents of a checklist item
+ */
+export async function countItemDocuments(
+  repositories: Repositories,
+  checklistItemId: string
+): Promise<number> {
+  const { total } = await repositories.documents.list([
+    Query.equal('checklist_item_id', checklistItemId),
+    Query.limit(1),
+  ]);
+
+  return total;
+}
@@ -0,0 +1,132 @@
+/**
+ * Typed errors for tenant context resolution and the checklist lifecycle
+ *
+ * Server Actions can catch these to tell "not signed in" (redirect to login)
+ * apart from "signed in, but not allowed here" (forbidden), and "allowed,
+ * but not in this checklist state".
+ */
+
+import { type TransitionBlocker } from '@/lib/checklist-lifecycle';
+import { type ChecklistStatus, type ChecklistTransition } from '@/types/checklist';
+
+export type TenantContextErrorCode =
+  | 'unauthenticated'
+  | 'tenant_not_found'
+  | 'wrong_tenant'
+  | 'inactive'
+  | 'forbidden'
+  | 'not_found';
+
+/**
+ * Base class for all tenant context errors
+ */
+export class TenantContextError extends Error {
+  readonly code: TenantContextErrorCode;
+
+  constructor(code: TenantContextErrorCode, message: string) {
+    super(message);
+    this.name = 'TenantContextError';
+    this.code = code;
+  }
+}
+
+/**
+ * No valid Appwrite session was found for the request
+ */
+export class UnauthenticatedError extends TenantContextError {
+  constructor(message = 'Not authenticated') {
+    super('unauthenticated', message);
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+/**
+ * The request does not resolve to an existing tenant
+ */
+export class TenantNotFoundError extends TenantContextError {
+  constructor(message = 'Tenant not found') {
+    super('tenant_not_found', message);
+    this.name = 'TenantNotFoundError';
+  }
+}
+
+/**
+ * The signed-in user does not belong to the requested tenant
+ */
+export class WrongTenantError extends TenantContextError {
+  constructor(message = 'User does not belong to this tenant') {
+    super('wrong_tenant', message);
+    this.name = 'WrongTenantError';
+  }
+}
+
+/**
+ * The tenant is suspended or the user account is not active
+ */
+export class InactiveError extends TenantContextError {
+  constructor(message = 'Account is not active') {
+    super('inactive', message);
+    this.name = 'InactiveError';
+  }
+}
+
+/**
+ * The user's role does not allow the requested operation
+ */
+export class ForbiddenError extends TenantContextError {
+  constructor(message = 'Operation not permitted for this role') {
+    super('forbidden', message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * The record does not exist or belongs to another tenant / organization
+ *
+ * Both cases look the same to the caller, so IDs from other tenants
+ * cannot be probed.
+ */
+export class NotFoundError extends TenantContextError {
+  constructor(message = 'Record not found') {
+    super('not_found', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Base class for operations the checklist's current status does not allow
+ */
+export class ChecklistStateError extends Error {
+  readonly status: ChecklistStatus;
+
+  constructor(status: ChecklistStatus, message: string) {
+    super(message);
+    this.name = 'ChecklistStateError';
+    this.status = status;
+  }
+}
+
+/**
+ * A lifecycle transition was requested that is not possible right now
+ */
+export class InvalidTransitionError extends ChecklistStateError {
+  readonly transition: ChecklistTransition;
+  readonly blocker: TransitionBlocker;
+
+  constructor(status: ChecklistStatus, transition: ChecklistTransition, blocker: TransitionBlocker) {
+    super(status, `Cannot ${transition} a ${status} checklist (${blocker})`);
+    this.name = 'InvalidTransitionError';
+    this.transition = transition;
+    this.blocker = blocker;
+  }
+}
+
+/**
+ * The checklist (or its items) cannot be changed in its current status
+ */
+export class ChecklistLockedError extends ChecklistStateError {
+  constructor(status: ChecklistStatus, message = `Checklist is ${status} and cannot be changed`) {
+    super(status, message);
+    this.name = 'ChecklistLockedError';
+  }
+}
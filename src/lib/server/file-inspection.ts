@@ -0,0 +1,233 @@
+/**
+ * Content checks for uploaded documents
+ *
+ * The browser's MIME type and the file extension are only claims. Before a
+ * document is accepted, its first bytes must match the declared type, and
+ * files that can carry code are turned away:
+ * - executables and scripts, whatever they are named
+ * - Office files with macros (vbaProject.bin)
+ * - password protected Office files and ZIP files with encrypted entries,
+ *   which neither we nor the malware scanner can look into
+ *
+ * Content is read in byte ranges, so large scans in storage never have to
+ * be loaded completely.
+ */
+
+import { downloadFileRange } from '@/lib/server/appwrite';
+
+/**
+ * Random access to the bytes of a file
+ */
+export interface FileContent {
+  size: number;
+  /**
+   * Bytes start to end - 1
+   */
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+/**
+ * Content of a file received in a request
+ */
+export function fromBlob(blob: Blob): FileContent {
+  return {
+    size: blob.size,
+    read: async (start, end) => new Uint8Array(await blob.slice(start, end).arrayBuffer()),
+  };
+}
+
+/**
+ * Content of a file in Appwrite Storage
+ */
+export function fromStoredFile(bucketId: string, fileId: string, size: number): FileContent {
+  return {
+    size,
+    read: (start, end) => downloadFileRange(bucketId, fileId, start, end),
+  };
+}
+
+// Bytes needed to recognize all supported types
+const HEAD_BYTES = 1024;
+
+// End of central directory record (22 bytes) plus the longest ZIP comment
+const ZIP_TAIL_BYTES = 22 + 0xffff;
+
+// Office files list a few hundred entries at most
+const MAX_CENTRAL_DIRECTORY_BYTES = 4 * 1024 * 1024;
+
+const MACRO_ENTRY = /(^|\/)vbaProject\.bin$/i;
+
+function startsWith(bytes: Uint8Array, signature: readonly number[], offset = 0): boolean {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function toAscii(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('latin1');
+}
+
+const EXECUTABLE_SIGNATURES: readonly (readonly number[])[] = [
+  [0x4d, 0x5a], // Windows PE ("MZ")
+  [0x7f, 0x45, 0x4c, 0x46], // ELF
+  [0xfe, 0xed, 0xfa, 0xce], // Mach-O
+  [0xfe, 0xed, 0xfa, 0xcf],
+  [0xce, 0xfa, 0xed, 0xfe],
+  [0xcf, 0xfa, 0xed, 0xfe],
+  [0xca, 0xfe, 0xba, 0xbe], // Mach-O universal, Java class
+  [0x23, 0x21], // Script with shebang ("#!")
+];
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+// OLE compound file - legacy Office formats, and how encrypted OOXML is stored
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const OFFICE_TYPES = new Set([
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+]);
+
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+/**
+ * Text files must not contain NUL bytes (binary data)
+ */
+function isText(head: Uint8Array): boolean {
+  return !head.includes(0);
+}
+
+function isXml(head: Uint8Array): boolean {
+  const text = toAscii(head).replace(/^\xef\xbb\xbf/, '').trimStart();
+  return isText(head) && text.startsWith('<');
+}
+
+/**
+ * Whether the first bytes match a declared MIME type
+ */
+const CONTENT_MATCHERS: Record<string, (head: Uint8Array) => boolean> = {
+  // The PDF header may follow up to 1024 bytes of garbage
+  'application/pdf': (head) => toAscii(head).includes('%PDF-'),
+  'image/jpeg': (head) => startsWith(head, [0xff, 0xd8, 0xff]),
+  'image/png': (head) => startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/tiff': (head) =>
+    startsWith(head, [0x49, 0x49, 0x2a, 0x00]) || startsWith(head, [0x4d, 0x4d, 0x00, 0x2a]),
+  'image/heic': (head) =>
+    toAscii(head.subarray(4, 8)) === 'ftyp' && HEIC_BRANDS.includes(toAscii(head.subarray(8, 12))),
+  'application/xml': isXml,
+  'text/xml': isXml,
+  'text/csv': isText,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': (head) => startsWith(head, ZIP_SIGNATURE),
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': (head) =>
+    startsWith(head, ZIP_SIGNATURE),
+};
+
+type ZipFinding = 'ok' | 'invalid' | 'encrypted' | 'macros';
+
+/**
+ * Check the entries of a ZIP based file (xlsx, docx)
+ *
+ * Reads the central directory only: entry names and the encryption flag
+ * are all we need, no entry is decompressed.
+ */
+async function inspectZip(content: FileContent): Promise<ZipFinding> {
+  const tailStart = Math.max(0, content.size - ZIP_TAIL_BYTES);
+  const tail = await content.read(tailStart, content.size);
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  let eocd = -1;
+  for (let offset = tail.length - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+
+  if (eocd === -1) {
+    return 'invalid';
+  }
+
+  const entries = view.getUint16(eocd + 10, true);
+  const directorySize = view.getUint32(eocd + 12, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+
+  // ZIP64 markers or a directory outside the file
+  if (
+    directorySize > MAX_CENTRAL_DIRECTORY_BYTES ||
+    directoryOffset + directorySize > content.size ||
+    entries === 0xffff
+  ) {
+    return 'invalid';
+  }
+
+  const directory = await content.read(directoryOffset, directoryOffset + directorySize);
+  const entryView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+  let hasContentTypes = false;
+  let offset = 0;
+
+  for (let index = 0; index < entries; index++) {
+    if (offset + 46 > directory.length || entryView.getUint32(offset, true) !== 0x02014b50) {
+      return 'invalid';
+    }
+
+    const flags = entryView.getUint16(offset + 8, true);
+    const nameLength = entryView.getUint16(offset + 28, true);
+    const extraLength = entryView.getUint16(offset + 30, true);
+    const commentLength = entryView.getUint16(offset + 32, true);
+    const name = Buffer.from(directory.subarray(offset + 46, offset + 46 + nameLength)).toString('utf8');
+
+    if (flags & 0x1) {
+      return 'encrypted';
+    }
+
+    if (MACRO_ENTRY.test(name)) {
+      return 'macros';
+    }
+
+    hasContentTypes ||= name === '[Content_Types].xml';
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return hasContentTypes ? 'ok' : 'invalid';
+}
+
+/**
+ * Check the content of a file against its declared type
+ *
+ * @returns An error message, or null if the file is acceptable
+ */
+export async function inspectFileContent(
+  content: FileContent,
+  declared: { name: string; type: string }
+): Promise<string | null> {
+  const head = await content.read(0, Math.min(HEAD_BYTES, content.size));
+
+  if (EXECUTABLE_SIGNATURES.some((signature) => startsWith(head, signature))) {
+    return `„${declared.name}“ ist ein Programm oder Skript und wird nicht angenommen`;
+  }
+
+  const isOffice = OFFICE_TYPES.has(declared.type);
+
+  if (isOffice && startsWith(head, OLE_SIGNATURE)) {
+    return `„${declared.name}“ ist passwortgeschützt oder im alten Office-Format - bitte ohne Passwort als .xlsx oder .docx speichern`;
+  }
+
+  const matches = CONTENT_MATCHERS[declared.type];
+
+  if (!matches || !matches(head)) {
+    return `„${declared.name}“ entspricht nicht dem angegebenen Dateityp`;
+  }
+
+  if (!isOffice) {
+    return null;
+  }
+
+  switch (await inspectZip(content)) {
+    case 'encrypted':
+      return `„${declared.name}“ ist verschlüsselt - bitte ohne Passwort hochladen`;
+    case 'macros':
+      return `„${declared.name}“ enthält Makros - bitte ohne Makros als .xlsx oder .docx speichern`;
+    case 'invalid':
+      return `„${declared.name}“ ist beschädigt oder kein gültiges Office-Dokument`;
+    default:
+      return null;
+  }
+}
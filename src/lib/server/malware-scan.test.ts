@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fromBlob } from '@/lib/server/file-inspection';
+import { createFakeMalwareScanner, EICAR_TEST_SIGNATURE, getMalwareScanner } from '@/lib/server/malware-scan';
+
+const MEGABYTE = 1024 * 1024;
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('createFakeMalwareScanner', () => {
+  it('finds a signature across chunk borders', async () => {
+    const padding = 'x'.repeat(MEGABYTE - 10);
+    const scan = createFakeMalwareScanner();
+
+    expect(await scan(fromBlob(new Blob([padding, EICAR_TEST_SIGNATURE, padding])))).toEqual({
+      clean: false,
+      threat: 'Eicar-Test-Signature',
+    });
+  });
+
+  it('reads the file chunk by chunk', async () => {
+    const content = fromBlob(new Blob([new Uint8Array(3 * MEGABYTE)]));
+    const read = vi.spyOn(content, 'read');
+
+    expect(await createFakeMalwareScanner()(content)).toEqual({ clean: true });
+    expect(read.mock.calls).toEqual([
+      [0, MEGABYTE],
+      [MEGABYTE, 2 * MEGABYTE],
+      [2 * MEGABYTE, 3 * MEGABYTE],
+    ]);
+  });
+});
+
+describe('getMalwareScanner', () => {
+  it('fails without a configured scanner in every environment', () => {
+    vi.stubEnv('MALWARE_SCANNER', '');
+    vi.stubEnv('NODE_ENV', 'development');
+
+    expect(() => getMalwareScanner()).toThrow('No malware scanner configured');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Malware scanning of uploaded documents
+ *
+ * Uploads go through a MalwareScanner so the scanner can be swapped for a
+ * local fake during development and offline testing. Otherwise a ClamAV
+ * daemon (clamd) is used; without one, uploads are refused rather than
+ * accepted unscanned - in every environment, the fake has to be chosen
+ * explicitly.
+ */
+
+import { once } from 'node:events';
+import { createConnection, type Socket } from 'node:net';
+import { type FileContent } from '@/lib/server/file-inspection';
+
+export type ScanResult = { clean: true } | { clean: false; threat: string };
+
+/**
+ * Scans the content of a file
+ * Throws if the file could not be scanned.
+ */
+export type MalwareScanner = (content: FileContent) => Promise<ScanResult>;
+
+export interface ClamAvOptions {
+  /**
+   * Unix socket of clamd, e.g. /run/clamav/clamd.ctl
+   */
+  socketPath?: string;
+  host?: string;
+  port?: number;
+  timeoutMs?: number;
+}
+
+// Bytes per INSTREAM chunk
+const STREAM_CHUNK_BYTES = 1024 * 1024;
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+/**
+ * Standard anti-virus test file, detected by every scanner
+ */
+export const EICAR_TEST_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+async function streamContent(socket: Socket, content: FileContent): Promise<void> {
+  socket.write('zINSTREAM\0');
+
+  for (let start = 0; start < content.size; start += STREAM_CHUNK_BYTES) {
+    const bytes = await content.read(start, Math.min(start + STREAM_CHUNK_BYTES, content.size));
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(bytes.length);
+
+    if (!socket.write(Buffer.concat([length, bytes]))) {
+      await once(socket, 'drain');
+    }
+  }
+
+  // A zero-length chunk ends the stream
+  socket.end(Buffer.alloc(4));
+}
+
+/**
+ * Parse a clamd reply, e.g. "stream: OK" or "stream: Win.Test.EICAR_HDB-1 FOUND"
+ */
+function parseClamAvReply(reply: string): ScanResult {
+  const text = reply.replace(/\0/g, '').trim();
+
+  if (text.endsWith(': OK')) {
+    return { clean: true };
+  }
+
+  const found = /^stream: (.+) FOUND$/.exec(text);
+
+  if (found) {
+    return { clean: false, threat: found[1] };
+  }
+
+  throw new Error(`ClamAV scan failed: ${text || 'no reply'}`);
+}
+
+/**
+ * Create a scanner that streams files to clamd (INSTREAM command)
+ *
+ * Files larger than clamd's StreamMaxLength are reported as errors, so
+ * raise that limit to the largest accepted upload.
+ */
+export function createClamAvScanner(options: ClamAvOptions): MalwareScanner {
+  return (content) =>
+    new Promise<ScanResult>((resolve, reject) => {
+      const socket = options.socketPath
+        ? createConnection(options.socketPath)
+        : createConnection(options.port ?? 3310, options.host ?? 'localhost');
+      const reply: Buffer[] = [];
+
+      socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      socket.on('data', (data) => reply.push(data));
+      socket.on('timeout', () => socket.destroy(new Error('ClamAV scan timed out')));
+      socket.on('error', reject);
+      socket.on('close', (hadError) => {
+        if (hadError) {
+          return;
+        }
+
+        try {
+          resolve(parseClamAvReply(Buffer.concat(reply).toString('utf8')));
+        } catch (error) {
+          reject(error);
+        }
+      });
+      socket.on('connect', () => {
+        streamContent(socket, content).catch((error: Error) => socket.destroy(error));
+      });
+    });
+}
+
+/**
+ * Create a scanner that looks for fixed byte strings
+ *
+ * Reads the file chunk by chunk, like the ClamAV scanner - meant for
+ * development and tests only.
+ *
+ * @param signatures - Threat name by byte string (defaults to the EICAR test file)
+ */
+export function createFakeMalwareScanner(
+  signatures: Record<string, string> = { [EICAR_TEST_SIGNATURE]: 'Eicar-Test-Signature' }
+): MalwareScanner {
+  // Kept from the previous chunk, so signatures across a chunk border are found
+  const overlap = Math.max(0, ...Object.keys(signatures).map((signature) => signature.length - 1));
+
+  return async (content) => {
+    let tail = '';
+
+    for (let start = 0; start < content.size; start += STREAM_CHUNK_BYTES) {
+      const bytes = await content.read(start, Math.min(start + STREAM_CHUNK_BYTES, content.size));
+      const text = tail + Buffer.from(bytes).toString('latin1');
+      const match = Object.keys(signatures).find((signature) => text.includes(signature));
+
+      if (match) {
+        return { clean: false, threat: signatures[match] };
+      }
+
+      tail = overlap > 0 ? text.slice(-overlap) : '';
+    }
+
+    return { clean: true };
+  };
+}
+
+/**
+ * Get the malware scanner for the current environment
+ *
+ * Set CLAMAV_SOCKET or CLAMAV_HOST (and CLAMAV_PORT) to scan with ClamAV,
+ * or MALWARE_SCANNER=fake to use the fake scanner. Without either, no
+ * upload is accepted.
+ */
+export function getMalwareScanner(): MalwareScanner {
+  if (process.env.MALWARE_SCANNER === 'fake') {
+    return createFakeMalwareScanner();
+  }
+
+  if (process.env.CLAMAV_SOCKET || process.env.CLAMAV_HOST) {
+    return createClamAvScanner({
+      socketPath: process.env.CLAMAV_SOCKET,
+      host: process.env.CLAMAV_HOST,
+      port: process.env.CLAMAV_PORT ? Number(process.env.CLAMAV_PORT) : undefined,
+    });
+  }
+
+  throw new Error('No malware scanner configured (set CLAMAV_HOST, CLAMAV_SOCKET or MALWARE_SCANNER=fake)');
+}
@@ -0,0 +1,96 @@
+/**
+ * Email notifications via Appwrite Messaging
+ *
+ * Messages go to the Appwrite accounts of the recipients, so an email
+ * provider must be configured in the Appwrite project. Sending is best
+ * effort: failures are logged and never fail the surrounding action.
+ */
+
+import { ID, Query, type Models } from 'node-appwrite';
+import { getTenantUrl } from '@/lib/hostname';
+import { COLLECTIONS, DATABASE_ID, databases, messaging } from '@/lib/server/appwrite';
+import { type Checklist } from '@/types/checklist';
+import { type Document } from '@/types/document';
+import { type User } from '@/types/user';
+
+/**
+ * Appwrite account IDs of the active users of an organization
+ */
+async function getOrganizationAccountIds(tenantId: string, organizationId: string): Promise<string[]> {
+  const userDocs = await databases.listDocuments<Models.Document & User>(
+    DATABASE_ID,
+    COLLECTIONS.users,
+    [
+      Query.equal('tenant_id', tenantId),
+      Query.equal('organization_id', organizationId),
+      Query.equal('status', 'active'),
+      Query.select(['appwrite_user_id']),
+      Query.limit(100),
+    ]
+  );
+
+  return userDocs.documents.map((user) => user.appwrite_user_id);
+}
+
+/**
+ * Tell the client organization that a checklist is ready for them
+ */
+export async function notifyChecklistActivated(
+  checklist: Pick<Checklist, '$id' | 'tenant_id' | 'organization_id' | 'title' | 'due_date'>,
+  subdomain: string
+): Promise<void> {
+  try {
+    const recipients = await getOrganizationAccountIds(checklist.tenant_id, checklist.organization_id);
+
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const dueDate = checklist.due_date
+      ? `\nBitte bis zum ${new Date(checklist.due_date).toLocaleDateString('de-DE')} erledigen.`
+      : '';
+
+    await messaging.createEmail(
+      ID.unique(),
+      `Neue Checkliste: ${checklist.title}`,
+      `Ihre Steuerkanzlei hat Ihnen die Checkliste „${checklist.title}“ freigegeben.${dueDate}\n\n` +
+        `Zum Mandantenportal: ${getTenantUrl(subdomain, '/portal')}`,
+      [],
+      recipients
+    );
+  } catch (error) {
+    console.error('Sending checklist notification failed', { checklistId: checklist.$id, error });
+  }
+}
+
+/**
+ * Tell the client organization that a document was rejected and why
+ */
+export async function notifyDocumentRejected(
+  document: Pick<Document, '$id' | 'tenant_id' | 'organization_id' | 'checklist_item_id' | 'file_name'>,
+  details: { itemTitle: string; checklistTitle: string; reason: string; note?: string },
+  subdomain: string
+): Promise<void> {
+  try {
+    const recipients = await getOrganizationAccountIds(document.tenant_id, document.organization_id);
+
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const note = details.note ? `\nHinweis Ihrer Kanzlei: ${details.note}` : '';
+    const itemUrl = getTenantUrl(subdomain, `/portal/items/${document.checklist_item_id}`);
+
+    await messaging.createEmail(
+      ID.unique(),
+      `Dokument abgelehnt: ${details.itemTitle}`,
+      `Ihre Steuerkanzlei hat „${document.file_name}“ zu „${details.itemTitle}“ ` +
+        `(Checkliste „${details.checklistTitle}“) abgelehnt.\nGrund: ${details.reason}${note}\n\n` +
+        `Bitte laden Sie ein neues Dokument hoch: ${itemUrl}`,
+      [],
+      recipients
+    );
+  } catch (error) {
+    console.error('Sending document notification failed', { documentId: document.$id, error });
+  }
+}
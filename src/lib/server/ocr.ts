@@ -0,0 +1,94 @@
+/**
+ * Local text recognition (OCR) for scanned receipts
+ *
+ * Images go through an OcrEngine so the engine can be swapped, e.g. for a
+ * fake during development and offline testing. The default engine runs
+ * the Tesseract command line tool on the server - nothing leaves the
+ * machine. Without a configured engine, images are left without text.
+ */
+
+import { execFile } from 'node:child_process';
+
+/**
+ * Recognizes the text in an image (PNG, JPEG or TIFF)
+ * Throws if the image could not be processed.
+ */
+export type OcrEngine = (image: Uint8Array) => Promise<string>;
+
+export interface TesseractOptions {
+  /**
+   * Path of the tesseract binary (defaults to tesseract on the PATH)
+   */
+  command?: string;
+  /**
+   * Installed language models, e.g. "deu+eng"
+   */
+  languages?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_LANGUAGES = 'deu+eng';
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+// Text of a dense A4 page stays far below this
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Create an engine that runs Tesseract (tesseract stdin stdout)
+ *
+ * Needs tesseract and its language models installed on the server, e.g.
+ * the Debian packages tesseract-ocr, tesseract-ocr-deu and tesseract-ocr-eng.
+ */
+export function createTesseractOcrEngine(options: TesseractOptions = {}): OcrEngine {
+  return (image) =>
+    new Promise<string>((resolve, reject) => {
+      const child = execFile(
+        options.command ?? 'tesseract',
+        ['stdin', 'stdout', '-l', options.languages ?? DEFAULT_LANGUAGES],
+        { encoding: 'utf8', maxBuffer: MAX_OUTPUT_BYTES, timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new Error(`Tesseract failed: ${stderr.trim() || error.message}`));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+
+      // A failed start is reported through the callback
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.end(image);
+    });
+}
+
+/**
+ * Create an engine that returns a fixed text for every image
+ *
+ * Meant for development and tests only.
+ */
+export function createFakeOcrEngine(text = ''): OcrEngine {
+  return async () => text;
+}
+
+/**
+ * Get the OCR engine for the current environment
+ *
+ * Set OCR_ENGINE=tesseract (optionally TESSERACT_PATH and OCR_LANGUAGES)
+ * to recognize images with Tesseract, or OCR_ENGINE=fake for the fake
+ * engine. Without OCR_ENGINE there is no engine (null).
+ */
+export function getOcrEngine(): OcrEngine | null {
+  if (process.env.OCR_ENGINE === 'fake') {
+    return createFakeOcrEngine();
+  }
+
+  if (process.env.OCR_ENGINE === 'tesseract') {
+    return createTesseractOcrEngine({
+      command: process.env.TESSERACT_PATH,
+      languages: process.env.OCR_LANGUAGES,
+    });
+  }
+
+  return null;
+}
@@ -0,0 +1,51 @@
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { readPdf } from '@/lib/server/pdf';
+
+/**
+ * A PDF with one page per content stream (Flate-compressed)
+ */
+function createPdf(contents: Buffer[]): Uint8Array {
+  const kids = contents.map((_, index) => `${3 + index * 2} 0 R`).join(' ');
+  const parts: (string | Buffer)[] = [
+    '%PDF-1.4\n',
+    '1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n',
+    `2 0 obj\n<< /Type /Pages /Kids [${kids}] /Count ${contents.length} >>\nendobj\n`,
+  ];
+
+  contents.forEach((content, index) => {
+    const page = 3 + index * 2;
+    const data = deflateSync(content);
+
+    parts.push(
+      `${page} 0 obj\n<< /Type /Page /Parent 2 0 R /Contents ${page + 1} 0 R >>\nendobj\n`,
+      `${page + 1} 0 obj\n<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`,
+      data,
+      '\nendstream\nendobj\n'
+    );
+  });
+
+  parts.push('%%EOF\n');
+
+  return Buffer.concat(parts.map((part) => (typeof part === 'string' ? Buffer.from(part, 'latin1') : part)));
+}
+
+describe('readPdf', () => {
+  it('reads the pages and their text', () => {
+    const pdf = createPdf([Buffer.from('BT (Rechnung) Tj ET'), Buffer.from('BT (Seite 2) Tj ET')]);
+
+    expect(readPdf(pdf)).toEqual({ pageCount: 2, text: 'Rechnung\n\nSeite 2' });
+  });
+
+  it('leaves out streams that decode to more than the limit', () => {
+    const bomb = Buffer.from('BT (x) Tj ET\n'.repeat(1024 * 1024 * 2));
+    const pdf = createPdf([Buffer.from('BT (Rechnung) Tj ET'), bomb]);
+
+    expect(pdf.length).toBeLessThan(100_000);
+    expect(readPdf(pdf)).toEqual({ pageCount: 2, text: 'Rechnung' });
+  });
+
+  it('gives null for files without pages', () => {
+    expect(readPdf(Buffer.from('%PDF-1.4\n%%EOF\n'))).toBeNull();
+  });
+});
@@ -0,0 +1,666 @@
+/**
+ * Minimal PDF reading
+ *
+ * Just enough of the file format for document previews and text
+ * extraction: objects are indexed (including those packed into compressed
+ * object streams), pages are found through the page tree, and the text of
+ * their content streams is decoded with the fonts' ToUnicode maps.
+ *
+ * This is not a full parser - encrypted or damaged files give null instead
+ * of a wrong answer, and scanned pages simply have no text.
+ */
+
+import { constants, inflateSync } from 'node:zlib';
+
+/**
+ * Largest PDF read completely, for page counts and text (50 MB)
+ */
+export const PDF_READ_MAX_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Most bytes decoded from one stream (20 MB) and from all streams of a
+ * file (100 MB) - Flate packs repeated bytes about 1000:1, so a small file
+ * could otherwise fill the memory
+ */
+const STREAM_MAX_BYTES = 20 * 1024 * 1024;
+const DECODED_MAX_BYTES = 100 * 1024 * 1024;
+
+/**
+ * An indirect object: its body (dictionary or value) and decoded stream data
+ */
+interface PdfObject {
+  body: string;
+  stream: Buffer | null;
+}
+
+type PdfObjects = Map<number, PdfObject>;
+
+/**
+ * Pages and embedded text of a PDF
+ */
+export interface PdfContent {
+  pageCount: number;
+  /**
+   * Pages separated by blank lines, empty for scans
+   */
+  text: string;
+}
+
+/**
+ * Maps character codes of a font to text
+ */
+interface FontDecoder {
+  bytesPerCode: number;
+  map: Map<number, string>;
+}
+
+type Operand = number | string | Buffer | Operand[];
+
+// "N G" in front of "obj", with the bytes looked at for it
+const OBJECT_HEADER = /(\d+)\s+\d+\s+$/;
+const OBJECT_HEADER_BYTES = 32;
+
+// Longest dictionary read as text - larger ones are cut off
+const BODY_MAX_BYTES = 1024 * 1024;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+
+const DELIMITERS = new Set([...'()<>[]{}/%'].map((char) => char.charCodeAt(0)));
+
+// WinAnsiEncoding differs from Latin-1 in 0x80-0x9f (e.g. 0x80 is the euro sign)
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+// Escapes in literal strings: \n \r \t \b \f
+const STRING_ESCAPES: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+
+// Gap in a TJ array (thousandths of the font size) that separates words
+const WORD_GAP = 200;
+
+// Page tree depth and page count guards against broken or hostile files
+const MAX_TREE_DEPTH = 32;
+const MAX_PAGES = 1000;
+
+/**
+ * Decode a stream's data - only unfiltered and Flate streams are supported
+ *
+ * @param budget - Bytes the file's streams may still decode to, reduced here
+ * @returns The decoded data, or null for other filters, broken data and
+ * streams over the limits
+ */
+function decodeStream(dictionary: string, data: Buffer, budget: { remaining: number }): Buffer | null {
+  const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dictionary)?.[1];
+
+  if (!filter) {
+    return data;
+  }
+
+  const names = filter.match(/\/\w+/g) ?? [];
+
+  if (names.length !== 1 || names[0] !== '/FlateDecode') {
+    return null;
+  }
+
+  if (budget.remaining <= 0) {
+    return null;
+  }
+
+  try {
+    // Tolerates a missing end marker, which some producers write
+    const decoded = inflateSync(data, {
+      finishFlush: constants.Z_SYNC_FLUSH,
+      maxOutputLength: Math.min(STREAM_MAX_BYTES, budget.remaining),
+    });
+
+    budget.remaining -= decoded.length;
+    return decoded;
+  } catch {
+    // Also thrown when the output would exceed maxOutputLength
+    return null;
+  }
+}
+
+/**
+ * Find the next "N G obj" from position on
+ *
+ * @returns Object number and the index after "obj", or null
+ */
+function findObjectStart(buffer: Buffer, position: number): { number: number; start: number } | null {
+  for (let index = buffer.indexOf('obj', position); index !== -1; index = buffer.indexOf('obj', index + 3)) {
+    const next = buffer[index + 3];
+
+    // Not part of a longer word, e.g. "objects"
+    if (next !== undefined && /\w/.test(String.fromCharCode(next))) {
+      continue;
+    }
+
+    const header = OBJECT_HEADER.exec(buffer.toString('latin1', Math.max(0, index - OBJECT_HEADER_BYTES), index));
+
+    if (header) {
+      return { number: Number(header[1]), start: index + 3 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Index the objects of a PDF by object number
+ * Later definitions win, as with incremental updates.
+ *
+ * Works on the bytes - only dictionaries are turned into text, so a large
+ * file is not copied into a string.
+ */
+function readObjects(buffer: Buffer): PdfObjects {
+  const objects: PdfObjects = new Map();
+  const budget = { remaining: DECODED_MAX_BYTES };
+  const readBody = (start: number, end: number) =>
+    buffer.toString('latin1', start, Math.min(end, start + BODY_MAX_BYTES)).trim();
+
+  for (let found = findObjectStart(buffer, 0); found; ) {
+    const { number, start } = found;
+    const objectEnd = buffer.indexOf('endobj', start);
+    const streamKeyword = buffer.indexOf('stream', start);
+
+    if (streamKeyword === -1 || (objectEnd !== -1 && objectEnd < streamKeyword)) {
+      const body = readBody(start, objectEnd === -1 ? buffer.length : objectEnd);
+      objects.set(number, { body, stream: null });
+      found = findObjectStart(buffer, start);
+      continue;
+    }
+
+    const body = readBody(start, streamKeyword);
+    const crlf = buffer[streamKeyword + 6] === 0x0d && buffer[streamKeyword + 7] === 0x0a;
+    const dataStart = streamKeyword + 6 + (crlf ? 2 : 1);
+    const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(body);
+    let dataEnd = length ? dataStart + Number(length[1]) : -1;
+
+    // Indirect or wrong lengths - fall back to the end marker
+    if (dataEnd === -1 || !buffer.toString('latin1', dataEnd, dataEnd + 20).includes('endstream')) {
+      dataEnd = buffer.indexOf('endstream', dataStart);
+
+      if (dataEnd === -1) {
+        break;
+      }
+    }
+
+    objects.set(number, { body, stream: decodeStream(body, buffer.subarray(dataStart, dataEnd), budget) });
+    found = findObjectStart(buffer, buffer.indexOf('endstream', dataEnd) + 9);
+  }
+
+  // Objects packed into object streams (PDF 1.5+)
+  for (const { body, stream } of [...objects.values()]) {
+    if (!stream || !/\/Type\s*\/ObjStm/.test(body)) {
+      continue;
+    }
+
+    const first = Number(/\/First\s+(\d+)/.exec(body)?.[1] ?? 0);
+    const data = stream.toString('latin1');
+    const header = data.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let index = 0; index + 1 < header.length; index += 2) {
+      const number = header[index];
+      const end = index + 3 < header.length ? header[index + 3] : data.length - first;
+
+      if (!objects.has(number)) {
+        objects.set(number, { body: data.slice(first + header[index + 1], first + end).trim(), stream: null });
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Index of the first character after a balanced << >> or [ ] starting at start
+ */
+function skipBalanced(text: string, start: number): number {
+  let depth = 0;
+  let index = start;
+
+  while (index < text.length) {
+    if (text.startsWith('<<', index) || text[index] === '[') {
+      depth++;
+      index += text[index] === '[' ? 1 : 2;
+    } else if (text.startsWith('>>', index) || text[index] === ']') {
+      depth--;
+      index += text[index] === ']' ? 1 : 2;
+
+      if (depth === 0) {
+        return index;
+      }
+    } else if (text[index] === '(') {
+      // Skip strings, they may contain brackets
+      let level = 0;
+
+      for (; index < text.length; index++) {
+        if (text[index] === '\\') {
+          index++;
+        } else if (text[index] === '(') {
+          level++;
+        } else if (text[index] === ')' && --level === 0) {
+          break;
+        }
+      }
+
+      index++;
+    } else {
+      index++;
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Value of a dictionary entry - references are resolved
+ *
+ * @returns Inner text of a dictionary or array, a plain value, or null
+ */
+function getEntry(objects: PdfObjects, dictionary: string, key: string): string | null {
+  const match = new RegExp(`/${key}(?![\\w.#-])\\s*`).exec(dictionary);
+
+  if (!match) {
+    return null;
+  }
+
+  const start = match.index + match[0].length;
+  const reference = /^(\d+)\s+\d+\s+R/.exec(dictionary.slice(start));
+
+  if (reference) {
+    return objects.get(Number(reference[1]))?.body ?? null;
+  }
+
+  if (dictionary.startsWith('<<', start) || dictionary[start] === '[') {
+    return dictionary.slice(start, skipBalanced(dictionary, start));
+  }
+
+  return /^[^\s/<>[\]()]+/.exec(dictionary.slice(start))?.[0] ?? null;
+}
+
+function getReferences(value: string | null): number[] {
+  return [...(value ?? '').matchAll(/(\d+)\s+\d+\s+R/g)].map((match) => Number(match[1]));
+}
+
+/**
+ * Page objects in reading order
+ * Follows the page tree from the catalog; without one, takes all page objects.
+ */
+function getPages(objects: PdfObjects): PdfObject[] {
+  const catalog = [...objects.values()].find((object) => /\/Type\s*\/Catalog\b/.test(object.body));
+  const pages: PdfObject[] = [];
+  const visited = new Set<number>();
+
+  function walk(number: number, depth: number) {
+    const node = objects.get(number);
+
+    if (!node || visited.has(number) || depth > MAX_TREE_DEPTH || pages.length >= MAX_PAGES) {
+      return;
+    }
+
+    visited.add(number);
+
+    if (/\/Type\s*\/Pages\b/.test(node.body)) {
+      for (const kid of getReferences(getEntry(objects, node.body, 'Kids'))) {
+        walk(kid, depth + 1);
+      }
+    } else if (/\/Type\s*\/Page\b/.test(node.body)) {
+      pages.push(node);
+    }
+  }
+
+  const root = catalog && /\/Pages\s+(\d+)\s+\d+\s+R/.exec(catalog.body);
+
+  if (root) {
+    walk(Number(root[1]), 0);
+  }
+
+  if (pages.length > 0) {
+    return pages;
+  }
+
+  return [...objects.values()].filter((object) => /\/Type\s*\/Page\b/.test(object.body)).slice(0, MAX_PAGES);
+}
+
+/**
+ * Decoded content streams of a page (a single stream or an array of them)
+ */
+function getPageContent(objects: PdfObjects, page: PdfObject): Buffer {
+  const reference = /\/Contents\s+(\d+)\s+\d+\s+R/.exec(page.body);
+  const target = reference ? objects.get(Number(reference[1])) : undefined;
+  const numbers =
+    reference && target?.stream
+      ? [Number(reference[1])]
+      : getReferences(target ? target.body : getEntry(objects, page.body, 'Contents'));
+
+  return Buffer.concat(
+    numbers.flatMap((number) => {
+      const stream = objects.get(number)?.stream;
+      return stream ? [stream, Buffer.from('\n')] : [];
+    })
+  );
+}
+
+function decodeUtf16(hex: string): string {
+  let text = '';
+
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(index, index + 4), 16));
+  }
+
+  return text;
+}
+
+/**
+ * Parse a ToUnicode CMap (bfchar and bfrange sections)
+ */
+function parseToUnicode(cmap: string): FontDecoder {
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const decoder: FontDecoder = { bytesPerCode: codespace ? Math.max(1, codespace[1].length / 2) : 2, map: new Map() };
+
+  for (const section of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, text] of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      decoder.map.set(parseInt(code, 16), decodeUtf16(text));
+    }
+  }
+
+  for (const section of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of section[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g
+    )) {
+      const first = parseInt(low, 16);
+      const last = Math.min(parseInt(high, 16), first + 0xffff);
+
+      if (target.startsWith('[')) {
+        [...target.matchAll(/<([0-9a-fA-F]*)>/g)].forEach(([, text], offset) => {
+          decoder.map.set(first + offset, decodeUtf16(text));
+        });
+        continue;
+      }
+
+      // The last UTF-16 unit counts up with the code
+      const base = target.slice(1, -1);
+      const prefix = decodeUtf16(base.slice(0, -4));
+      const unit = parseInt(base.slice(-4), 16);
+
+      for (let code = first; code <= last; code++) {
+        decoder.map.set(code, prefix + String.fromCharCode(unit + code - first));
+      }
+    }
+  }
+
+  return decoder;
+}
+
+/**
+ * Decoders of the fonts a page uses, by resource name
+ *
+ * Inherits resources from parent nodes of the page tree. Simple fonts
+ * without a ToUnicode map are left out (decoded as WinAnsi), composite
+ * fonts without one are null (not decodable).
+ */
+function getPageFonts(objects: PdfObjects, page: PdfObject): Map<string, FontDecoder | null> {
+  let node: string | null = page.body;
+  let resources: string | null = null;
+
+  for (let depth = 0; node && !resources && depth <= MAX_TREE_DEPTH; depth++) {
+    resources = getEntry(objects, node, 'Resources');
+    node = resources ? null : getEntry(objects, node, 'Parent');
+  }
+
+  const fonts = new Map<string, FontDecoder | null>();
+  const fontDictionary = resources && getEntry(objects, resources, 'Font');
+
+  for (const [, name, number] of (fontDictionary ?? '').matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const font = objects.get(Number(number));
+    const toUnicode = font && /\/ToUnicode\s+(\d+)\s+\d+\s+R/.exec(font.body);
+    const cmap = toUnicode && objects.get(Number(toUnicode[1]))?.stream;
+
+    if (cmap) {
+      fonts.set(name, parseToUnicode(cmap.toString('latin1')));
+    }
+    // Composite fonts without a map cannot be decoded
+    else if (font && /\/Subtype\s*\/Type0\b/.test(font.body)) {
+      fonts.set(name, null);
+    }
+  }
+
+  return fonts;
+}
+
+function decodeText(bytes: Buffer, font: FontDecoder | null | undefined): string {
+  if (font === null) {
+    return '';
+  }
+
+  if (!font) {
+    return [...bytes]
+      .map((byte) => (byte >= 0x80 && byte <= 0x9f ? WIN_ANSI_HIGH[byte - 0x80] : String.fromCharCode(byte)))
+      .join('');
+  }
+
+  let text = '';
+
+  for (let index = 0; index + font.bytesPerCode <= bytes.length; index += font.bytesPerCode) {
+    const code = bytes.readUIntBE(index, font.bytesPerCode);
+    text += font.map.get(code) ?? (font.bytesPerCode === 1 ? String.fromCharCode(code) : '');
+  }
+
+  return text;
+}
+
+/**
+ * Read a literal string "( ... )" starting at start
+ * @returns The string bytes and the index after the closing parenthesis
+ */
+function readLiteralString(data: Buffer, start: number): [Buffer, number] {
+  const bytes: number[] = [];
+  let depth = 1;
+  let index = start + 1;
+
+  while (index < data.length) {
+    const byte = data[index++];
+
+    if (byte === 0x5c) {
+      const next = data[index++];
+
+      if (next >= 0x30 && next <= 0x37) {
+        let octal = next - 0x30;
+
+        for (let digits = 1; digits < 3 && data[index] >= 0x30 && data[index] <= 0x37; digits++) {
+          octal = octal * 8 + data[index++] - 0x30;
+        }
+
+        bytes.push(octal & 0xff);
+      } else if (next === 0x0d || next === 0x0a) {
+        // Line continuation
+        if (next === 0x0d && data[index] === 0x0a) {
+          index++;
+        }
+      } else {
+        bytes.push(STRING_ESCAPES[next] ?? next);
+      }
+    } else if (byte === 0x28) {
+      depth++;
+      bytes.push(byte);
+    } else if (byte === 0x29) {
+      if (--depth === 0) {
+        break;
+      }
+      bytes.push(byte);
+    } else {
+      bytes.push(byte);
+    }
+  }
+
+  return [Buffer.from(bytes), index];
+}
+
+/**
+ * Extract the text of a page's content stream
+ */
+function extractContentText(data: Buffer, fonts: Map<string, FontDecoder | null>): string {
+  const source = data.toString('latin1');
+  const stack: Operand[][] = [[]];
+  let font: FontDecoder | null | undefined;
+  let lastY: number | null = null;
+  let text = '';
+  let index = 0;
+
+  const operands = () => stack[stack.length - 1];
+  const separate = (separator: string) => {
+    if (text && !/\s$/.test(text)) {
+      text += separator;
+    } else if (separator === '\n' && text.endsWith(' ')) {
+      text = `${text.trimEnd()}\n`;
+    }
+  };
+  const show = (operand: Operand | undefined) => {
+    if (Buffer.isBuffer(operand)) {
+      text += decodeText(operand, font);
+    }
+  };
+
+  while (index < data.length) {
+    const byte = data[index];
+
+    if (WHITESPACE.has(byte)) {
+      index++;
+    } else if (byte === 0x25) {
+      while (index < data.length && data[index] !== 0x0a && data[index] !== 0x0d) {
+        index++;
+      }
+    } else if (byte === 0x28) {
+      const [bytes, next] = readLiteralString(data, index);
+      operands().push(bytes);
+      index = next;
+    } else if (byte === 0x3c && data[index + 1] === 0x3c) {
+      // Dictionaries only appear as marked-content operands - skip them
+      index = skipBalanced(source, index);
+    } else if (byte === 0x3c) {
+      const end = data.indexOf(0x3e, index);
+      const hex = source.slice(index + 1, end === -1 ? data.length : end).replace(/\s/g, '');
+      operands().push(Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex'));
+      index = end === -1 ? data.length : end + 1;
+    } else if (byte === 0x5b) {
+      stack.push([]);
+      index++;
+    } else if (byte === 0x5d) {
+      const array = stack.length > 1 ? stack.pop()! : [];
+      operands().push(array);
+      index++;
+    } else {
+      let end = index + 1;
+
+      while (end < data.length && !WHITESPACE.has(data[end]) && !DELIMITERS.has(data[end])) {
+        end++;
+      }
+
+      const token = source.slice(index, end);
+      index = end;
+
+      if (token.startsWith('/')) {
+        operands().push(token.slice(1));
+      } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        operands().push(Number(token));
+      } else if (token === 'BI') {
+        // Inline image data ends at "EI"
+        const imageEnd = source.indexOf('EI', source.indexOf('ID', index));
+        index = imageEnd === -1 ? data.length : imageEnd + 2;
+        operands().length = 0;
+      } else {
+        const args = operands();
+
+        switch (token) {
+          case 'Tf':
+            font = fonts.get(String(args[0]));
+            break;
+          case 'Tj':
+            show(args[0]);
+            break;
+          case "'":
+            separate('\n');
+            show(args[0]);
+            break;
+          case '"':
+            separate('\n');
+            show(args[2]);
+            break;
+          case 'TJ':
+            for (const item of Array.isArray(args[0]) ? args[0] : []) {
+              if (typeof item === 'number' && item < -WORD_GAP) {
+                separate(' ');
+              } else {
+                show(item);
+              }
+            }
+            break;
+          case 'Td':
+          case 'TD':
+            separate(args[1] !== 0 ? '\n' : ' ');
+            break;
+          case 'T*':
+            separate('\n');
+            break;
+          case 'Tm':
+            separate(lastY !== null && args[5] === lastY ? ' ' : '\n');
+            lastY = typeof args[5] === 'number' ? args[5] : null;
+            break;
+          case 'ET':
+            separate(' ');
+            break;
+        }
+
+        stack.length = 1;
+        stack[0] = [];
+      }
+    }
+  }
+
+  return text;
+}
+
+function parsePdf(bytes: Uint8Array): PdfObjects | null {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // Streams of encrypted files cannot be read without the key
+  for (let index = buffer.indexOf('/Encrypt'); index !== -1; index = buffer.indexOf('/Encrypt', index + 8)) {
+    if (WHITESPACE.has(buffer[index + 8])) {
+      return null;
+    }
+  }
+
+  return readObjects(buffer);
+}
+
+/**
+ * Read the pages and embedded text of a PDF
+ *
+ * @returns Page count and text, or null if the file could not be read
+ */
+export function readPdf(bytes: Uint8Array): PdfContent | null {
+  const objects = parsePdf(bytes);
+  const pages = objects ? getPages(objects) : [];
+
+  if (!objects || pages.length === 0) {
+    return null;
+  }
+
+  // Pages may share content streams - the limit counts what is read, not what is stored
+  let remaining = DECODED_MAX_BYTES;
+
+  const text = pages
+    .map((page) => {
+      const content = remaining > 0 ? getPageContent(objects, page) : Buffer.alloc(0);
+      remaining -= content.length;
+
+      return extractContentText(content, getPageFonts(objects, page))
+        .split('\n')
+        .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+  return { pageCount: pages.length, text };
+}
@@ -0,0 +1,249 @@
+/**
+ * Recurring checklist instances
+ *
+ * The newest instance of a series carries the recurrence rule. Shortly
+ * before the next period ends, a scheduled job creates the following
+ * instance from it (see src/lib/checklist-recurrence.ts) and links the two
+ * through next_instance_id. All instances share the series_id, which is
+ * what the history of a series is listed by.
+ *
+ * Instances created from a template are rendered again from the latest
+ * version of that template for the new period. Other checklists are copied
+ * and the period in their texts (e.g. "September 2026") is replaced.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must have
+ * loaded the checklist through the repositories and checked the policy.
+ */
+
+import { Query, type Models } from 'node-appwrite';
+import {
+  formatPeriodLabel,
+  getNextPeriodStart,
+  getRecurringDueDate,
+  isNextInstanceDue,
+  RECURRENCE_MONTHS,
+} from '@/lib/checklist-recurrence';
+import { formatDate, parseDate } from '@/lib/holidays';
+import { COLLECTIONS, DATABASE_ID, databases } from '@/lib/server/appwrite';
+import {
+  createChecklistFromBlueprint,
+  getChecklistBlueprint,
+  getChecklistTemplate,
+  renderChecklistTemplate,
+  toChecklistTemplate,
+  type ChecklistBlueprint,
+} from '@/lib/server/checklist-templates';
+import { NotFoundError } from '@/lib/server/errors';
+import { getRepositories, type DatabasesClient, type Repositories } from '@/lib/server/repositories';
+import { toTenant, type TenantDocument } from '@/lib/server/tenant-lookup';
+import { type Checklist, type ChecklistRecurrence } from '@/types/checklist';
+import { type TenantContext } from '@/types/user';
+
+/**
+ * Checklists per page when looking for due series
+ */
+const PAGE_SIZE = 100;
+
+/**
+ * Checklist that is part of a recurring series
+ */
+export type RecurringChecklist = Checklist & {
+  recurrence: ChecklistRecurrence;
+  period_start: string;
+};
+
+export function isRecurring(checklist: Checklist): checklist is RecurringChecklist {
+  return Boolean(checklist.recurrence && checklist.period_start);
+}
+
+/**
+ * Latest active version of the template an instance was created from
+ *
+ * @returns null if the template no longer exists in the tenant
+ */
+async function getLatestTemplate(repositories: Repositories, templateId: string) {
+  try {
+    const template = await getChecklistTemplate(repositories, templateId);
+
+    if (template.builtIn) {
+      return template;
+    }
+
+    const { records } = await repositories.checklistTemplates.listVersions(template.rootId);
+    const latest = records.find((record) => record.is_latest && record.status === 'active');
+
+    return latest ? toChecklistTemplate(latest) : template;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Contents of the instance for the following period
+ */
+async function getNextBlueprint(
+  repositories: Repositories,
+  checklist: RecurringChecklist,
+  nextStart: string
+): Promise<ChecklistBlueprint> {
+  const template = checklist.template_id
+    ? await getLatestTemplate(repositories, checklist.template_id)
+    : null;
+
+  if (template) {
+    const organization = await repositories.organizations.get(checklist.organization_id);
+    const start = parseDate(nextStart);
+
+    // {{monat}} is the last month of the period
+    return renderChecklistTemplate(template, organization, {
+      year: start.getUTCFullYear(),
+      month: start.getUTCMonth() + RECURRENCE_MONTHS[checklist.recurrence],
+    });
+  }
+
+  const blueprint = await getChecklistBlueprint(repositories, checklist);
+  const previousLabel = formatPeriodLabel(checklist.period_start, checklist.recurrence);
+  const nextLabel = formatPeriodLabel(nextStart, checklist.recurrence);
+  const replace = (text?: string) => text?.replaceAll(previousLabel, nextLabel);
+
+  return {
+    ...blueprint,
+    title: replace(blueprint.title) ?? blueprint.title,
+    description: replace(blueprint.description),
+    items: blueprint.items.map((item) => ({
+      ...item,
+      title: replace(item.title) ?? item.title,
+      description: replace(item.description),
+    })),
+  };
+}
+
+/**
+ * Create the instance for the period after the given one and link it
+ *
+ * If that instance already exists (e.g. the link failed last time), it is
+ * only linked. Instances of an activated series are activated right away.
+ */
+export async function generateNextInstance(
+  context: TenantContext,
+  repositories: Repositories,
+  checklist: RecurringChecklist
+): Promise<Checklist> {
+  const seriesId = checklist.series_id ?? checklist.$id;
+  const nextStart = getNextPeriodStart(checklist.period_start, checklist.recurrence);
+
+  const { records } = await repositories.checklists.list([
+    Query.equal('series_id', seriesId),
+    Query.equal('period_start', nextStart),
+    Query.limit(1),
+  ]);
+
+  let next = records[0];
+
+  if (!next) {
+    const blueprint = await getNextBlueprint(repositories, checklist, nextStart);
+
+    next = await createChecklistFromBlueprint(context, repositories, blueprint, checklist.organization_id, {
+      due_date: checklist.recurrence_due_day
+        ? getRecurringDueDate(nextStart, checklist.recurrence, checklist.recurrence_due_day, checklist.recurrence_state)
+        : undefined,
+      activate: checklist.status !== 'draft',
+      recurrence: {
+        recurrence: checklist.recurrence,
+        recurrence_due_day: checklist.recurrence_due_day,
+        recurrence_state: checklist.recurrence_state,
+        series_id: seriesId,
+        period_start: nextStart,
+      },
+    });
+  }
+
+  await repositories.checklists.update(checklist.$id, { series_id: seriesId, next_instance_id: next.$id });
+
+  return next;
+}
+
+/**
+ * Context for changes made by the scheduler on behalf of a tenant
+ */
+function getSystemContext(tenant: TenantDocument): TenantContext {
+  const { id, teamId, subdomain } = toTenant(tenant);
+  return { tenantId: id, teamId, userId: 'system', organizationId: '', role: 'owner', subdomain };
+}
+
+/**
+ * Generate all instances that are due, across all tenants
+ *
+ * Meant to run daily. A series that is several periods behind may need
+ * several runs to catch up. Suspended tenants are skipped.
+ *
+ * @returns Number of checked series and IDs of the generated and failed instances
+ */
+export async function generateRecurringChecklists(
+  options: { today?: string; db?: DatabasesClient } = {}
+): Promise<{ checked: number; generated: string[]; failed: string[] }> {
+  const db = options.db ?? databases;
+  const today = options.today ?? formatDate(new Date());
+  const tenants = new Map<string, TenantDocument | null>();
+  const generated: string[] = [];
+  const failed: string[] = [];
+  let checked = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await db.listDocuments<Models.Document & Checklist>(
+      DATABASE_ID,
+      COLLECTIONS.checklists,
+      [
+        Query.isNotNull('recurrence'),
+        Query.isNull('next_instance_id'),
+        Query.notEqual('status', 'archived'),
+        Query.orderAsc('$id'),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    for (const checklist of page.documents) {
+      if (!isRecurring(checklist)) {
+        continue;
+      }
+
+      checked++;
+
+      if (!isNextInstanceDue(checklist.period_start, checklist.recurrence, today)) {
+        continue;
+      }
+
+      if (!tenants.has(checklist.tenant_id)) {
+        const tenant = await db
+          .getDocument<TenantDocument>(DATABASE_ID, COLLECTIONS.tenants, checklist.tenant_id)
+          .catch(() => null);
+        tenants.set(checklist.tenant_id, tenant?.status === 'suspended' ? null : tenant);
+      }
+
+      const tenant = tenants.get(checklist.tenant_id);
+
+      if (!tenant) {
+        continue;
+      }
+
+      try {
+        const context = getSystemContext(tenant);
+        const next = await generateNextInstance(context, getRepositories(context, db), checklist);
+        generated.push(next.$id);
+      } catch (error) {
+        console.error('Generating recurring checklist failed', { checklistId: checklist.$id, error });
+        failed.push(checklist.$id);
+      }
+    }
+
+    cursor = page.documents.length === PAGE_SIZE ? page.documents.at(-1)?.$id : undefined;
+  } while (cursor);
+
+  return { checked, generated, failed };
+}
@@ -0,0 +1,276 @@
+/**
+ * Tenant-scoped repositories
+ *
+ * Server code should read and write tenant data through these instead of
+ * the raw databases service, so no query can forget the tenant filter.
+ *
+ * @example
+ * ```typescript
+ * const context = await getTenantContext();
+ * const { checklists } = getRepositories(context);
+ * const { records } = await checklists.list([Query.equal('status', 'active')]);
+ * ```
+ */
+
+import { Query } from 'node-appwrite';
+import { MAX_DOCUMENTS_PER_ITEM } from '@/lib/documents';
+import { COLLECTIONS, databases } from '@/lib/server/appwrite';
+import {
+  createScopedCollection,
+  type DatabasesClient,
+  type ScopedInput,
+} from '@/lib/server/repositories/scoped-collection';
+import { type BulkAssignment } from '@/types/bulk-assignment';
+import { type Checklist, type ChecklistItem } from '@/types/checklist';
+import { type Document } from '@/types/document';
+import { type Organization } from '@/types/organization';
+import { type ChecklistTemplateRecord } from '@/types/template';
+import { type UploadSession } from '@/types/upload';
+import { type TenantContext, type User } from '@/types/user';
+
+export {
+  getOrganizationLabel,
+  getRecordPermissions,
+  type DatabasesClient,
+} from '@/lib/server/repositories/scoped-collection';
+
+/**
+ * Values per Query.equal (Appwrite limit)
+ */
+const QUERY_VALUES_LIMIT = 100;
+
+const PAGE_SIZE = 100;
+
+/**
+ * IDs of all records matching the queries
+ */
+async function listIds(
+  collection: { list(queries: string[]): Promise<{ records: { $id: string }[] }> },
+  queries: string[]
+): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const { records } = await collection.list([
+      ...queries,
+      Query.orderAsc('$id'),
+      Query.limit(PAGE_SIZE),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ]);
+
+    ids.push(...records.map((record) => record.$id));
+    cursor = records.length === PAGE_SIZE ? records[records.length - 1].$id : undefined;
+  } while (cursor);
+
+  return ids;
+}
+
+/**
+ * Get the repositories for the given tenant context
+ *
+ * @param db - Databases service to use (defaults to the API key client)
+ */
+export function getRepositories(context: TenantContext, db: DatabasesClient = databases) {
+  const organizations = createScopedCollection<Organization>(context, db, {
+    collectionId: COLLECTIONS.organizations,
+    organizationKey: '$id',
+  });
+
+  const users = createScopedCollection<User>(context, db, {
+    collectionId: COLLECTIONS.users,
+    organizationKey: 'organization_id',
+  });
+
+  const checklists = createScopedCollection<Checklist>(context, db, {
+    collectionId: COLLECTIONS.checklists,
+    organizationKey: 'organization_id',
+  });
+
+  const checklistItems = createScopedCollection<ChecklistItem>(context, db, {
+    collectionId: COLLECTIONS.checklistItems,
+    organizationKey: 'organization_id',
+  });
+
+  const documents = createScopedCollection<Document>(context, db, {
+    collectionId: COLLECTIONS.documents,
+    organizationKey: 'organization_id',
+  });
+
+  // Templates belong to the whole tenant and are never shared with clients
+  const checklistTemplates = createScopedCollection<ChecklistTemplateRecord>(context, db, {
+    collectionId: COLLECTIONS.checklistTemplates,
+    organizationKey: null,
+  });
+
+  const bulkAssignments = createScopedCollection<BulkAssignment>(context, db, {
+    collectionId: COLLECTIONS.bulkAssignments,
+    organizationKey: null,
+  });
+
+  const uploadSessions = createScopedCollection<UploadSession>(context, db, {
+    collectionId: COLLECTIONS.uploadSessions,
+    organizationKey: 'organization_id',
+  });
+
+  return {
+    organizations,
+    users,
+
+    checklists: {
+      ...checklists,
+
+      /**
+       * Instances of a recurring series, newest period first
+       */
+      listBySeries(seriesId: string) {
+        return checklists.list([
+          Query.equal('series_id', seriesId),
+          Query.orderDesc('period_start'),
+          Query.limit(100),
+        ]);
+      },
+    },
+
+    checklistItems: {
+      ...checklistItems,
+
+      /**
+       * Items of a checklist, in display order
+       */
+      listByChecklist(checklistId: string) {
+        return checklistItems.list([
+          Query.equal('checklist_id', checklistId),
+          Query.orderAsc('position'),
+          Query.limit(500),
+        ]);
+      },
+
+      /**
+       * Add an item - organization is taken from the (scoped) checklist
+       */
+      async create(data: Omit<ScopedInput<ChecklistItem>, 'organization_id'>, id?: string) {
+        const checklist = await checklists.get(data.checklist_id);
+        return checklistItems.create({ ...data, organization_id: checklist.organization_id }, id);
+      },
+    },
+
+    documents: {
+      ...documents,
+
+      /**
+       * Documents uploaded for a checklist item, newest first
+       */
+      listByItem(checklistItemId: string) {
+        return documents.list([
+          Query.equal('checklist_item_id', checklistItemId),
+          Query.orderDesc('$createdAt'),
+        ]);
+      },
+
+      /**
+       * All versions of a document slot, newest first
+       */
+      listVersions(slotId: string) {
+        return documents.list([
+          Query.equal('slot_id', slotId),
+          Query.orderDesc('version'),
+          Query.limit(MAX_DOCUMENTS_PER_ITEM),
+        ]);
+      },
+
+      /**
+       * Documents of active checklists waiting for review, oldest first
+       *
+       * Documents of draft or completed checklists cannot be reviewed and
+       * are left out, so they never take the places of reviewable ones.
+       */
+      async listPending(limit = 100) {
+        const checklistIds = await listIds(checklists, [Query.equal('status', 'active')]);
+        const pending: Document[] = [];
+        let total = 0;
+
+        for (let i = 0; i < checklistIds.length; i += QUERY_VALUES_LIMIT) {
+          const page = await documents.list([
+            Query.equal('status', 'pending'),
+            Query.equal('checklist_id', checklistIds.slice(i, i + QUERY_VALUES_LIMIT)),
+            Query.orderAsc('$createdAt'),
+            Query.limit(limit),
+          ]);
+
+          pending.push(...page.records);
+          total += page.total;
+        }
+
+        return {
+          total,
+          records: pending.sort((a, b) => a.$createdAt.localeCompare(b.$createdAt)).slice(0, limit),
+        };
+      },
+
+      /**
+       * Reviewed (accepted or rejected) documents of several items, newest first
+       */
+      listReviewedByItems(checklistItemIds: string[]) {
+        return documents.list([
+          Query.equal('checklist_item_id', checklistItemIds),
+          Query.notEqual('status', 'pending'),
+          Query.orderDesc('$createdAt'),
+          Query.limit(checklistItemIds.length * MAX_DOCUMENTS_PER_ITEM),
+        ]);
+      },
+
+      /**
+       * Documents whose extracted text matches a search, best matches first
+       * Needs the fulltext index on extracted_text.
+       */
+      search(query: string, limit = 25) {
+        return documents.list([Query.search('extracted_text', query), Query.limit(limit)]);
+      },
+
+      /**
+       * Add a document - checklist and organization are taken from the (scoped) item
+       */
+      async create(data: Omit<ScopedInput<Document>, 'organization_id' | 'checklist_id'>) {
+        const item = await checklistItems.get(data.checklist_item_id);
+        return documents.create({
+          ...data,
+          checklist_id: item.checklist_id,
+          organization_id: item.organization_id,
+        });
+      },
+    },
+
+    checklistTemplates: {
+      ...checklistTemplates,
+
+      /**
+       * Current versions of the tenant's templates, by name
+       */
+      listLatest() {
+        return checklistTemplates.list([
+          Query.equal('is_latest', true),
+          Query.equal('status', 'active'),
+          Query.orderAsc('name'),
+          Query.limit(100),
+        ]);
+      },
+
+      /**
+       * All versions of a template, newest first
+       */
+      listVersions(rootId: string) {
+        return checklistTemplates.list([
+          Query.equal('root_id', rootId),
+          Query.orderDesc('version'),
+          Query.limit(100),
+        ]);
+      },
+    },
+
+    bulkAssignments,
+    uploadSessions,
+  };
+}
+
+export type Repositories = ReturnType<typeof getRepositories>;
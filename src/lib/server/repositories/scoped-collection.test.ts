@@ -0,0 +1,186 @@
+import { ID, Query } from 'node-appwrite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { ForbiddenError, NotFoundError } from '@/lib/server/errors';
+import { type DatabasesClient, getRepositories } from '@/lib/server/repositories';
+import { assignOrganizationLabel } from '@/lib/server/session';
+import { getFakeAppwrite, resetFakeAppwrite } from '@/test/appwrite';
+import { createTestChecklist, createTestTenant, type TestTenant } from '@/test/fixtures';
+import { type Checklist } from '@/types/checklist';
+import { type User } from '@/types/user';
+
+let tenant: TestTenant;
+let otherTenant: TestTenant;
+let own: Checklist;
+let other: Checklist;
+let foreign: Checklist;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  tenant = await createTestTenant();
+  otherTenant = await createTestTenant('andere');
+
+  ({ checklist: own } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client));
+  ({ checklist: other } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.otherClient));
+  ({ checklist: foreign } = await createTestChecklist(
+    otherTenant.contexts.advisor,
+    otherTenant.organizations.client
+  ));
+});
+
+async function getStoredChecklist(id: string) {
+  return getFakeAppwrite().databases.getDocument(DATABASE_ID, COLLECTIONS.checklists, id);
+}
+
+describe('tenant isolation', () => {
+  it('lists only records of the own tenant', async () => {
+    const { records } = await getRepositories(tenant.contexts.owner).checklists.list();
+
+    expect(records.map((record) => record.$id).sort()).toEqual([own.$id, other.$id].sort());
+  });
+
+  it('treats records of other tenants as missing', async () => {
+    const { checklists } = getRepositories(tenant.contexts.owner);
+
+    await expect(checklists.find(foreign.$id)).resolves.toBeNull();
+    await expect(checklists.get(foreign.$id)).rejects.toThrow(NotFoundError);
+    await expect(checklists.update(foreign.$id, { title: 'Fremd' })).rejects.toThrow(NotFoundError);
+    await expect(checklists.delete(foreign.$id)).rejects.toThrow(NotFoundError);
+
+    expect(await getStoredChecklist(foreign.$id)).toMatchObject({ title: foreign.title });
+  });
+
+  it('keeps tenant and organization on update', async () => {
+    const { checklists } = getRepositories(tenant.contexts.owner);
+
+    await checklists.update(own.$id, {
+      tenant_id: otherTenant.tenantId,
+      organization_id: tenant.organizations.otherClient,
+    } as Partial<Checklist>);
+
+    expect(await getStoredChecklist(own.$id)).toMatchObject({
+      tenant_id: tenant.tenantId,
+      organization_id: tenant.organizations.client,
+    });
+  });
+
+  it('stores new records in the tenant of the context', async () => {
+    const checklist = await getRepositories(tenant.contexts.advisor).checklists.create({
+      tenant_id: otherTenant.tenantId,
+      organization_id: tenant.organizations.client,
+      title: 'Neu',
+      status: 'draft',
+      total_items: 0,
+      completed_items: 0,
+    } as Omit<Checklist, '$id' | '$createdAt' | '$updatedAt' | 'tenant_id'>);
+
+    const stored = await getStoredChecklist(checklist.$id);
+
+    expect(stored.tenant_id).toBe(tenant.tenantId);
+    expect(stored.$permissions).toContain(`read("label:org${tenant.organizations.client}")`);
+  });
+});
+
+describe('organization isolation', () => {
+  it('lists only the own organization for clients', async () => {
+    const { records } = await getRepositories(tenant.contexts.clientEmployee).checklists.list();
+
+    expect(records.map((record) => record.$id)).toEqual([own.$id]);
+  });
+
+  it('treats records of other organizations as missing for clients', async () => {
+    const { checklists } = getRepositories(tenant.contexts.clientAdmin);
+
+    await expect(checklists.find(other.$id)).resolves.toBeNull();
+    await expect(checklists.update(other.$id, { title: 'Fremd' })).rejects.toThrow(NotFoundError);
+    await expect(checklists.delete(other.$id)).rejects.toThrow(NotFoundError);
+  });
+
+  it('does not let clients create records for another organization', async () => {
+    const { checklists } = getRepositories(tenant.contexts.clientAdmin);
+
+    await expect(
+      checklists.create({
+        organization_id: tenant.organizations.otherClient,
+        title: 'Fremd',
+        status: 'draft',
+        total_items: 0,
+        completed_items: 0,
+      })
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('scopes the organizations collection by its own ID', async () => {
+    const { records } = await getRepositories(tenant.contexts.clientAdmin).organizations.list();
+
+    expect(records.map((record) => record.$id)).toEqual([tenant.organizations.client]);
+  });
+
+  it('hides tenant-wide records from clients', async () => {
+    await getFakeAppwrite().databases.createDocument(DATABASE_ID, COLLECTIONS.checklistTemplates, ID.unique(), {
+      tenant_id: tenant.tenantId,
+      name: 'Jahresabschluss',
+    });
+
+    const advisor = getRepositories(tenant.contexts.advisor).checklistTemplates;
+    const client = getRepositories(tenant.contexts.clientAdmin).checklistTemplates;
+
+    expect((await advisor.list()).records).toHaveLength(1);
+    expect(await client.list()).toEqual({ total: 0, records: [] });
+  });
+
+  it('filters records a widened query lets through', async () => {
+    const { databases } = getFakeAppwrite();
+
+    // Ignores the injected filters, like a caller's Query.or could - list only
+    const widened = {
+      listDocuments: (databaseId: string, collectionId: string) => databases.listDocuments(databaseId, collectionId),
+    } as unknown as DatabasesClient;
+
+    const { records } = await getRepositories(tenant.contexts.clientAdmin, widened).checklists.list([
+      Query.or([Query.equal('title', own.title), Query.notEqual('title', own.title)]),
+    ]);
+
+    expect(records.map((record) => record.$id)).toEqual([own.$id]);
+  });
+});
+
+describe('client sessions', () => {
+  async function getUserRecord(userId: string): Promise<User> {
+    return (await getFakeAppwrite().databases.getDocument(DATABASE_ID, COLLECTIONS.users, userId)) as unknown as User;
+  }
+
+  it('can read their organization once the label is assigned', async () => {
+    const user = await getUserRecord(tenant.contexts.clientAdmin.userId);
+    const stored = await getStoredChecklist(own.$id);
+
+    expect(await getFakeAppwrite().isAllowed(stored, 'read', user.appwrite_user_id)).toBe(false);
+
+    await assignOrganizationLabel(user);
+
+    expect(await getFakeAppwrite().isAllowed(stored, 'read', user.appwrite_user_id)).toBe(true);
+    expect(await getFakeAppwrite().isAllowed(stored, 'update', user.appwrite_user_id)).toBe(false);
+    expect(
+      await getFakeAppwrite().isAllowed(await getStoredChecklist(other.$id), 'read', user.appwrite_user_id)
+    ).toBe(false);
+  });
+
+  it('keeps labels of other organizations', async () => {
+    const user = await getUserRecord(tenant.contexts.clientAdmin.userId);
+    await getFakeAppwrite().users.updateLabels(user.appwrite_user_id, ['orgelsewhere']);
+
+    await assignOrganizationLabel(user);
+    await assignOrganizationLabel(user);
+
+    const account = await getFakeAppwrite().users.get(user.appwrite_user_id);
+    expect(account.labels).toEqual(['orgelsewhere', `org${tenant.organizations.client}`]);
+  });
+
+  it('labels no advisor accounts', async () => {
+    const user = await getUserRecord(tenant.contexts.advisor.userId);
+
+    await assignOrganizationLabel(user);
+
+    expect((await getFakeAppwrite().users.get(user.appwrite_user_id)).labels).toEqual([]);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Tenant-scoped access to a single Appwrite collection
+ *
+ * Every query gets the tenant filter (and the organization filter for
+ * client users) injected, single reads are checked against the same scope,
+ * and new documents get their tenant, organization and permissions from the
+ * context instead of the caller. Records outside the scope behave exactly
+ * like records that do not exist.
+ *
+ * This is isolation only - whether a user may perform an action is decided
+ * by the permission policy (see authorize in src/lib/server/auth.ts).
+ */
+
+import { AppwriteException, ID, Permission, Query, Role, type Databases, type Models } from 'node-appwrite';
+import { DATABASE_ID } from '@/lib/server/appwrite';
+import { ForbiddenError, NotFoundError } from '@/lib/server/errors';
+import { isClientRole, type TenantContext } from '@/types/user';
+
+/**
+ * The part of the Databases service the repositories use
+ */
+export type DatabasesClient = Pick<
+  Databases,
+  'listDocuments' | 'getDocument' | 'createDocument' | 'updateDocument' | 'deleteDocument'
+>;
+
+/**
+ * Fields every tenant-scoped record carries
+ */
+type ScopedRecord = {
+  $id: string;
+  tenant_id: string;
+  $createdAt: string;
+  $updatedAt: string;
+};
+
+/**
+ * Stored document - only the scope attributes are known here
+ */
+type ScopedDocument = Models.Document & { tenant_id: string; organization_id?: string };
+
+/**
+ * Input for new records - the tenant always comes from the context
+ */
+export type ScopedInput<T extends ScopedRecord> = Omit<T, '$id' | '$createdAt' | '$updatedAt' | 'tenant_id'>;
+
+export interface ScopedCollection<T extends ScopedRecord> {
+  list(queries?: string[]): Promise<{ total: number; records: T[] }>;
+  find(id: string): Promise<T | null>;
+  get(id: string): Promise<T>;
+  /**
+   * @param id - Fixed document ID, so a record cannot be created twice
+   */
+  create(data: ScopedInput<T>, id?: string): Promise<T>;
+  update(id: string, data: Partial<ScopedInput<T>>): Promise<T>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Appwrite metadata that is not part of our record interfaces
+ */
+const APPWRITE_INTERNAL_FIELDS = ['$collectionId', '$databaseId', '$permissions', '$sequence'];
+
+/**
+ * Map an Appwrite document to a record interface
+ */
+function toRecord<T extends ScopedRecord>(doc: Models.Document): T {
+  const record: Record<string, unknown> = { ...doc };
+
+  for (const field of APPWRITE_INTERNAL_FIELDS) {
+    delete record[field];
+  }
+
+  return record as T;
+}
+
+/**
+ * Label that lets client users read their organization's documents
+ *
+ * Appwrite labels are alphanumeric, so the organization ID is used as is.
+ * Client accounts get this label when they log in (see
+ * assignOrganizationLabel in src/lib/server/session.ts).
+ */
+export function getOrganizationLabel(organizationId: string): string {
+  return `org${organizationId}`;
+}
+
+/**
+ * Appwrite permissions for a record (or storage file) owned by an organization
+ * - owner and advisor team members: read, update, delete
+ * - client users of the organization: read (not for tenant-wide records)
+ *
+ * Server Actions use the API key and rely on the injected filters; the
+ * permissions protect direct reads with a user session.
+ */
+export function getRecordPermissions(context: TenantContext, organizationId: string | null): string[] {
+  const staff = [Role.team(context.teamId, 'owner'), Role.team(context.teamId, 'advisor')];
+
+  return [
+    ...staff.flatMap((role) => [Permission.read(role), Permission.update(role), Permission.delete(role)]),
+    ...(organizationId ? [Permission.read(Role.label(getOrganizationLabel(organizationId)))] : []),
+  ];
+}
+
+/**
+ * Create a scoped view of a collection for the given tenant context
+ *
+ * @param options.organizationKey - Attribute holding the owning organization
+ *   ('$id' for the organizations collection itself, null for tenant-wide
+ *   records that only the advisor side may see)
+ */
+export function createScopedCollection<T extends ScopedRecord>(
+  context: TenantContext,
+  db: DatabasesClient,
+  options: { collectionId: string; organizationKey: 'organization_id' | '$id' | null }
+): ScopedCollection<T> {
+  const { collectionId, organizationKey } = options;
+
+  // Client users only ever see their own organization
+  const restrictToOrganization = isClientRole(context.role);
+
+  function isInScope(doc: ScopedDocument): boolean {
+    if (doc.tenant_id !== context.tenantId) {
+      return false;
+    }
+
+    if (!restrictToOrganization) {
+      return true;
+    }
+
+    return organizationKey !== null && doc[organizationKey] === context.organizationId;
+  }
+
+  async function find(id: string): Promise<T | null> {
+    try {
+      const doc = await db.getDocument<ScopedDocument>(DATABASE_ID, collectionId, id);
+      return isInScope(doc) ? toRecord<T>(doc) : null;
+    } catch (error) {
+      if (error instanceof AppwriteException && error.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function get(id: string): Promise<T> {
+    const record = await find(id);
+
+    if (!record) {
+      throw new NotFoundError();
+    }
+
+    return record;
+  }
+
+  async function list(queries: string[] = []): Promise<{ total: number; records: T[] }> {
+    // Tenant-wide records are never visible to client users
+    if (restrictToOrganization && organizationKey === null) {
+      return { total: 0, records: [] };
+    }
+
+    const scope = [Query.equal('tenant_id', context.tenantId)];
+
+    if (restrictToOrganization && organizationKey) {
+      scope.push(Query.equal(organizationKey, context.organizationId));
+    }
+
+    const result = await db.listDocuments<ScopedDocument>(DATABASE_ID, collectionId, [...scope, ...queries]);
+
+    // The filters already exclude these - checked again in case a caller's
+    // query widened the result (e.g. Query.or)
+    return {
+      total: result.total,
+      records: result.documents.filter(isInScope).map((doc) => toRecord<T>(doc)),
+    };
+  }
+
+  async function create(data: ScopedInput<T>, id = ID.unique()): Promise<T> {
+    const record: Record<string, unknown> = { ...data, tenant_id: context.tenantId };
+    let organizationId: string | null = null;
+
+    if (organizationKey === '$id') {
+      organizationId = id;
+    } else if (organizationKey === 'organization_id') {
+      if (typeof record.organization_id !== 'string') {
+        throw new Error(`Missing organization_id for ${collectionId}`);
+      }
+      organizationId = record.organization_id;
+    }
+
+    if (restrictToOrganization && organizationId !== context.organizationId) {
+      throw new ForbiddenError('Cannot create records for another organization');
+    }
+
+    const doc = await db.createDocument(
+      DATABASE_ID,
+      collectionId,
+      id,
+      record,
+      getRecordPermissions(context, organizationId)
+    );
+
+    return toRecord<T>(doc);
+  }
+
+  async function update(id: string, data: Partial<ScopedInput<T>>): Promise<T> {
+    await get(id);
+
+    // Tenant and organization are fixed once a record exists
+    const changes: Record<string, unknown> = { ...data };
+    delete changes.tenant_id;
+    delete changes.organization_id;
+
+    const doc = await db.updateDocument(DATABASE_ID, collectionId, id, changes);
+    return toRecord<T>(doc);
+  }
+
+  async function remove(id: string): Promise<void> {
+    await get(id);
+    await db.deleteDocument(DATABASE_ID, collectionId, id);
+  }
+
+  return { list, find, get, create, update, delete: remove };
+}
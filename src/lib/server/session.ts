@@ -0,0 +1,122 @@
+/**
+ * Session handling for tenant logins
+ *
+ * Sessions are created server-side with the API key client, checked against
+ * the tenant of the current host and only then stored in an httpOnly cookie
+ * scoped to that host. Accounts that do not belong to the tenant never get
+ * a cookie; their freshly created session is deleted again. Client accounts
+ * get their organization's label on every login, which lets their own
+ * session read the organization's records (see getRecordPermissions).
+ */
+
+import { cookies, headers } from 'next/headers';
+import { type Models } from 'node-appwrite';
+import { getTenantUrl, normalizeHostname } from '@/lib/hostname';
+import { getHomePath } from '@/lib/routes';
+import { COLLECTIONS, DATABASE_ID, databases, users } from '@/lib/server/appwrite';
+import { TenantNotFoundError } from '@/lib/server/errors';
+import { getOrganizationLabel } from '@/lib/server/repositories';
+import { getSubdomain } from '@/lib/server/tenant';
+import { getTenantBySubdomain, getTenantUser } from '@/lib/server/tenant-lookup';
+import { SESSION_COOKIE } from '@/lib/session';
+import { type Tenant } from '@/types/tenant';
+import { isClientRole, type User } from '@/types/user';
+
+/**
+ * Get the tenant of the current request host
+ *
+ * @throws TenantNotFoundError if the host does not resolve to a tenant
+ */
+export async function getRequestTenant(): Promise<Tenant> {
+  const subdomain = await getSubdomain();
+  const tenant = subdomain ? await getTenantBySubdomain(subdomain) : null;
+
+  if (!tenant) {
+    throw new TenantNotFoundError();
+  }
+
+  return tenant;
+}
+
+/**
+ * Get the origin (protocol and host) of a tenant's portal
+ *
+ * Built from the tenant and the configured app URL, never from forwarded
+ * headers, so login links cannot be pointed at another host. A verified
+ * custom domain the request came in on is kept, so the session cookie ends
+ * up on the host the user started from.
+ */
+export async function getTenantOrigin(tenant: Tenant): Promise<string> {
+  const headersList = await headers();
+  const hostname = normalizeHostname(headersList.get('host') || '');
+  const origin = new URL(getTenantUrl(tenant.subdomain));
+
+  if (hostname && tenant.customDomains?.includes(hostname)) {
+    return `${origin.protocol}//${hostname}`;
+  }
+
+  return origin.origin;
+}
+
+/**
+ * Give a client account the label of its organization
+ *
+ * Labels of other organizations stay - one account can be a client of
+ * several tenants. Advisor accounts read through their team role instead.
+ */
+export async function assignOrganizationLabel(user: User): Promise<void> {
+  if (!isClientRole(user.role)) {
+    return;
+  }
+
+  const label = getOrganizationLabel(user.organization_id);
+  const account = await users.get(user.appwrite_user_id);
+
+  if (!account.labels.includes(label)) {
+    await users.updateLabels(user.appwrite_user_id, [...account.labels, label]);
+  }
+}
+
+/**
+ * Store a new session after verifying that its account belongs to the tenant
+ *
+ * @returns The path to redirect to based on the user's role
+ * @throws WrongTenantError or InactiveError (the session is deleted first)
+ */
+export async function establishSession(
+  tenant: Tenant,
+  session: Models.Session
+): Promise<string> {
+  let user;
+  try {
+    user = await getTenantUser(tenant, session.userId);
+  } catch (error) {
+    await users.deleteSession(session.userId, session.$id).catch(() => undefined);
+    throw error;
+  }
+
+  await assignOrganizationLabel(user);
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, session.secret, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(session.expire),
+  });
+
+  await databases.updateDocument(DATABASE_ID, COLLECTIONS.users, user.$id, {
+    last_login_at: new Date().toISOString(),
+  });
+
+  return getHomePath(user.role);
+}
+
+/**
+ * Remove the session cookie of the current request
+ */
+export async function clearSessionCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE);
+}
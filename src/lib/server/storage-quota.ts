@@ -0,0 +1,119 @@
+/**
+ * Document storage quota per tenant
+ *
+ * Usage is summed from the documents and the open chunked uploads of the
+ * tenant instead of being kept as a counter: a recount cannot drift, and
+ * announced uploads reserve their space before the first byte arrives.
+ * Chunked uploads are checked again when they finish, as uploads started
+ * in parallel can pass the first check together.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must have
+ * checked the policy for the upload.
+ */
+
+import { Query, type Models } from 'node-appwrite';
+import { formatFileSize } from '@/lib/documents';
+import { COLLECTIONS, DATABASE_ID, databases } from '@/lib/server/appwrite';
+import { type DatabasesClient } from '@/lib/server/repositories';
+import { type TenantDocument } from '@/lib/server/tenant-lookup';
+
+/**
+ * Storage per tenant unless the tenant has its own limit (50 GB)
+ * Overridable with TENANT_STORAGE_QUOTA_BYTES.
+ */
+export const DEFAULT_TENANT_STORAGE_QUOTA_BYTES =
+  Number(process.env.TENANT_STORAGE_QUOTA_BYTES) || 50 * 1024 * 1024 * 1024;
+
+const PAGE_SIZE = 1000;
+
+async function sumFileSizes(db: DatabasesClient, collectionId: string, queries: string[]): Promise<number> {
+  let total = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await db.listDocuments<Models.Document & { file_size: number }>(DATABASE_ID, collectionId, [
+      ...queries,
+      Query.select(['$id', 'file_size']),
+      Query.orderAsc('$id'),
+      Query.limit(PAGE_SIZE),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ]);
+
+    total += page.documents.reduce((sum, record) => sum + record.file_size, 0);
+    cursor = page.documents.length === PAGE_SIZE ? page.documents.at(-1)?.$id : undefined;
+  } while (cursor);
+
+  return total;
+}
+
+function sumDocumentSizes(tenantId: string, db: DatabasesClient): Promise<number> {
+  return sumFileSizes(db, COLLECTIONS.documents, [Query.equal('tenant_id', tenantId)]);
+}
+
+/**
+ * Bytes used by a tenant's documents and open uploads
+ */
+export async function getTenantStorageUsage(
+  tenantId: string,
+  db: DatabasesClient = databases
+): Promise<number> {
+  const [stored, reserved] = await Promise.all([
+    sumDocumentSizes(tenantId, db),
+    sumFileSizes(db, COLLECTIONS.uploadSessions, [
+      Query.equal('tenant_id', tenantId),
+      Query.equal('status', 'uploading'),
+      Query.greaterThan('expires_at', new Date().toISOString()),
+    ]),
+  ]);
+
+  return stored + reserved;
+}
+
+async function checkQuota(
+  tenantId: string,
+  additionalBytes: number,
+  db: DatabasesClient,
+  getUsage: () => Promise<number>
+): Promise<string | null> {
+  const [tenant, used] = await Promise.all([
+    db.getDocument<TenantDocument>(DATABASE_ID, COLLECTIONS.tenants, tenantId),
+    getUsage(),
+  ]);
+  const quota = tenant.storage_quota_bytes ?? DEFAULT_TENANT_STORAGE_QUOTA_BYTES;
+
+  if (used + additionalBytes <= quota) {
+    return null;
+  }
+
+  return `Der Speicherplatz der Kanzlei ist aufgebraucht (${formatFileSize(used)} von ${formatFileSize(quota)} belegt)`;
+}
+
+/**
+ * Check whether a tenant can store more bytes
+ *
+ * @returns An error message, or null if the bytes fit into the quota
+ */
+export function checkStorageQuota(
+  tenantId: string,
+  additionalBytes: number,
+  db: DatabasesClient = databases
+): Promise<string | null> {
+  return checkQuota(tenantId, additionalBytes, db, () => getTenantStorageUsage(tenantId, db));
+}
+
+/**
+ * Check whether a finished chunked upload still fits into the quota
+ *
+ * Uploads started at the same time each pass checkStorageQuota before the
+ * others have reserved their space. Only stored documents count here, so
+ * the uploads that finish first get the space.
+ *
+ * @returns An error message, or null if the file fits into the quota
+ */
+export function checkFinishedUploadQuota(
+  tenantId: string,
+  fileSize: number,
+  db: DatabasesClient = databases
+): Promise<string | null> {
+  return checkQuota(tenantId, fileSize, db, () => sumDocumentSizes(tenantId, db));
+}
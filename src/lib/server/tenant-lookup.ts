@@ -0,0 +1,182 @@
+/**
+ * Tenant lookups by subdomain or custom domain
+ *
+ * Plain server-side helpers (not Server Actions) - they bypass tenant
+ * isolation by design and must only be used to resolve the current request.
+ */
+
+import { Query, type Models } from 'node-appwrite';
+import { COLLECTIONS, DATABASE_ID, databases, isBrandingFileUrl, teams } from '@/lib/server/appwrite';
+import { InactiveError, WrongTenantError } from '@/lib/server/errors';
+import { type Tenant, type TenantStatus } from '@/types/tenant';
+import { type User } from '@/types/user';
+
+/**
+ * Tenant document as stored in the tenants collection
+ */
+export type TenantDocument = Models.Document & {
+  team_id: string;
+  subdomain: string;
+  name: string;
+  owner_email: string;
+  logo_url?: string;
+  primary_color?: string;
+  secondary_color?: string;
+  custom_domains?: string[];
+  storage_quota_bytes?: number;
+  status: TenantStatus;
+};
+
+type UserDocument = Models.Document & User;
+
+/**
+ * Map a tenant document to the Tenant interface
+ */
+export function toTenant(doc: TenantDocument): Tenant {
+  const logoUrl = doc.logo_url && isBrandingFileUrl(doc.logo_url) ? doc.logo_url : undefined;
+  const hasBranding = logoUrl || doc.primary_color || doc.secondary_color;
+
+  return {
+    id: doc.$id,
+    teamId: doc.team_id,
+    subdomain: doc.subdomain,
+    name: doc.name,
+    ownerEmail: doc.owner_email,
+    branding: hasBranding
+      ? {
+          logoUrl,
+          primaryColor: doc.primary_color || undefined,
+          secondaryColor: doc.secondary_color || undefined,
+        }
+      : undefined,
+    customDomains: doc.custom_domains ?? [],
+    storageQuotaBytes: doc.storage_quota_bytes ?? undefined,
+    status: doc.status,
+    createdAt: doc.$createdAt,
+    updatedAt: doc.$updatedAt,
+  };
+}
+
+/**
+ * Look up a tenant by its subdomain
+ *
+ * @returns Promise<Tenant | null> - The tenant or null if none exists
+ */
+export async function getTenantBySubdomain(subdomain: string): Promise<Tenant | null> {
+  const tenantDocs = await databases.listDocuments<TenantDocument>(
+    DATABASE_ID,
+    COLLECTIONS.tenants,
+    [Query.equal('subdomain', subdomain.toLowerCase()), Query.limit(1)]
+  );
+
+  const doc = tenantDocs.documents[0];
+  return doc ? toTenant(doc) : null;
+}
+
+/**
+ * Look up a tenant by one of its verified custom domains
+ *
+ * @param hostname - Normalized hostname (see normalizeHostname)
+ * @returns Promise<Tenant | null> - The tenant or null if no tenant owns the domain
+ */
+export async function getTenantByCustomDomain(hostname: string): Promise<Tenant | null> {
+  const tenantDocs = await databases.listDocuments<TenantDocument>(
+    DATABASE_ID,
+    COLLECTIONS.tenants,
+    [Query.contains('custom_domains', [hostname]), Query.limit(1)]
+  );
+
+  const doc = tenantDocs.documents[0];
+  return doc ? toTenant(doc) : null;
+}
+
+/**
+ * Find which of the given subdomains are already registered
+ *
+ * @returns Promise<Set<string>> - The subset of subdomains that are taken
+ */
+export async function getTakenSubdomains(subdomains: string[]): Promise<Set<string>> {
+  if (subdomains.length === 0) {
+    return new Set();
+  }
+
+  const tenantDocs = await databases.listDocuments<TenantDocument>(
+    DATABASE_ID,
+    COLLECTIONS.tenants,
+    [
+      Query.equal('subdomain', subdomains),
+      Query.select(['subdomain']),
+      Query.limit(subdomains.length),
+    ]
+  );
+
+  return new Set(tenantDocs.documents.map((doc) => doc.subdomain));
+}
+
+/**
+ * Get the user record of an Appwrite account within a tenant
+ *
+ * Verifies that the account has an active user record in the tenant and a
+ * confirmed membership in the tenant's Appwrite team.
+ *
+ * @throws WrongTenantError if the account does not belong to the tenant
+ * @throws InactiveError if the tenant is suspended or the user is not active
+ */
+export async function getTenantUser(tenant: Tenant, accountId: string): Promise<User> {
+  if (tenant.status === 'suspended') {
+    throw new InactiveError('Tenant is suspended');
+  }
+
+  const userDocs = await databases.listDocuments<UserDocument>(
+    DATABASE_ID,
+    COLLECTIONS.users,
+    [
+      Query.equal('appwrite_user_id', accountId),
+      Query.equal('tenant_id', tenant.id),
+      Query.limit(1),
+    ]
+  );
+
+  const user = userDocs.documents[0];
+
+  if (!user) {
+    throw new WrongTenantError();
+  }
+
+  if (user.status !== 'active') {
+    throw new InactiveError('User account is not active');
+  }
+
+  const memberships = await teams.listMemberships(tenant.teamId, [
+    Query.equal('userId', accountId),
+  ]);
+
+  if (!memberships.memberships.some((membership) => membership.confirm)) {
+    throw new WrongTenantError('User is not a member of the tenant team');
+  }
+
+  return user;
+}
+
+/**
+ * Find the Appwrite account ID of a tenant user by email
+ *
+ * @returns Promise<string | null> - The account ID or null if the email is unknown in the tenant
+ */
+export async function findTenantAccountIdByEmail(
+  tenantId: string,
+  email: string
+): Promise<string | null> {
+  const userDocs = await databases.listDocuments<UserDocument>(
+    DATABASE_ID,
+    COLLECTIONS.users,
+    [
+      Query.equal('tenant_id', tenantId),
+      Query.equal('email', email.trim().toLowerCase()),
+      Query.equal('status', 'active'),
+      Query.limit(1),
+    ]
+  );
+
+  return userDocs.documents[0]?.appwrite_user_id ?? null;
+}
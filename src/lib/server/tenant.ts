@@ -10,60 +10,83 @@
 
 'use server';
 
-import { headers } from 'next/headers';
+import { cookies, headers } from 'next/headers';
+import { AppwriteException } from 'node-appwrite';
+import { createSessionClient } from '@/lib/server/appwrite';
+import { TenantNotFoundError, UnauthenticatedError } from '@/lib/server/errors';
+import {
+  getTenantByCustomDomain,
+  getTenantBySubdomain,
+  getTenantUser,
+} from '@/lib/server/tenant-lookup';
+import { resolveHostname } from '@/lib/hostname';
+import { SESSION_COOKIE } from '@/lib/session';
 import { type TenantContext } from '@/types/user';
 
 /**
- * Get the current tenant context from request headers
+ * Get the current tenant context from the request
  *
- * @returns Promise<TenantContext> - The current tenant, user, and role context
- * @throws Error if user is not authenticated or tenant cannot be determined
+ * Resolves the tenant from the subdomain, the Appwrite account from the
+ * session cookie, and verifies that the account has an active user record
+ * in the tenant and a confirmed membership in the tenant's Appwrite team.
+ *
+ * @returns Promise<TenantContext> - The current tenant, user, organization and role
+ * @throws UnauthenticatedError if there is no valid session
+ * @throws TenantNotFoundError if the subdomain does not resolve to a tenant
+ * @throws WrongTenantError if the user does not belong to the tenant
+ * @throws InactiveError if the tenant is suspended or the user is not active
  *
  * @example
  * ```typescript
  * export async function createChecklist(formData: FormData) {
- *   const { tenantId, userId, role } = await getTenantContext();
+ *   const { tenantId, organizationId, role } = await getTenantContext();
  *   // Use tenantId to ensure data isolation
  * }
  * ```
  */
 export async function getTenantContext(): Promise<TenantContext> {
-  // Get hostname from headers
-  const headersList = await headers();
-  const hostname = headersList.get('host') || '';
+  const subdomain = await getSubdomain();
+
+  if (!subdomain) {
+    throw new TenantNotFoundError('No tenant subdomain found in request');
+  }
 
-  // Extract subdomain
-  let subdomain = '';
+  // 1. Check for a session cookie
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE)?.value;
 
-  if (hostname.includes('localhost')) {
-    const parts = hostname.split('.');
-    if (parts.length > 1 && parts[0] !== 'localhost') {
-      subdomain = parts[0];
-    }
-  } else if (hostname.includes('belegboost.de')) {
-    const parts = hostname.split('.');
-    if (parts[0] !== 'www' && parts.length === 3) {
-      subdomain = parts[0];
+  if (!session) {
+    throw new UnauthenticatedError();
+  }
+
+  // 2. Resolve the Appwrite account behind the session
+  let accountId: string;
+  try {
+    const { account } = createSessionClient(session);
+    accountId = (await account.get()).$id;
+  } catch (error) {
+    if (error instanceof AppwriteException && error.code === 401) {
+      throw new UnauthenticatedError('Session is invalid or expired');
     }
+    throw error;
   }
 
-  if (!subdomain) {
-    throw new Error('No tenant subdomain found in request');
+  // 3. Resolve the tenant
+  const tenant = await getTenantBySubdomain(subdomain);
+
+  if (!tenant) {
+    throw new TenantNotFoundError(`Tenant "${subdomain}" not found`);
   }
 
-  // TODO: Implement actual authentication check with Appwrite
-  // For now, this is a placeholder that will be implemented in Phase 2
-  // In Phase 2, we will:
-  // 1. Check for valid session cookie
-  // 2. Fetch user from Appwrite
-  // 3. Verify user belongs to the tenant team
-  // 4. Return actual tenant context
+  // 4. Verify the user record and team membership within this tenant
+  const user = await getTenantUser(tenant, accountId);
 
-  // Placeholder return - will be replaced in Phase 2
   return {
-    tenantId: 'placeholder-tenant-id',
-    userId: 'placeholder-user-id',
-    role: 'owner',
+    tenantId: tenant.id,
+    teamId: tenant.teamId,
+    userId: user.$id,
+    organizationId: user.organization_id,
+    role: user.role,
     subdomain,
   };
 }
@@ -71,22 +94,22 @@ export async function getTenantContext(): Promise<TenantContext> {
 /**
  * Get subdomain from request headers
  *
+ * Hosts outside the root domains are looked up as verified custom domains,
+ * so the same tenant subdomain is returned for both host styles.
+ *
  * @returns Promise<string | null> - The subdomain or null if on main domain
  */
 export async function getSubdomain(): Promise<string | null> {
   const headersList = await headers();
-  const hostname = headersList.get('host') || '';
+  const resolution = resolveHostname(headersList.get('host') || '');
 
-  if (hostname.includes('localhost')) {
-    const parts = hostname.split('.');
-    if (parts.length > 1 && parts[0] !== 'localhost') {
-      return parts[0];
-    }
-  } else if (hostname.includes('belegboost.de')) {
-    const parts = hostname.split('.');
-    if (parts[0] !== 'www' && parts.length === 3) {
-      return parts[0];
-    }
+  if (resolution.type === 'tenant') {
+    return resolution.subdomain;
+  }
+
+  if (resolution.type === 'unknown') {
+    const tenant = await getTenantByCustomDomain(resolution.hostname);
+    return tenant?.subdomain ?? null;
   }
 
   return null;
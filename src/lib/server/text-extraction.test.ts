@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { processPendingExtractions } from '@/lib/server/text-extraction';
+import { getFakeAppwrite, resetFakeAppwrite } from '@/test/appwrite';
+import { createTestChecklist, createTestDocument, createTestTenant } from '@/test/fixtures';
+import { type Document } from '@/types/document';
+
+// Stored files are read from the fake storage instead of Appwrite's download endpoint
+vi.mock('@/lib/server/file-inspection', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/server/file-inspection')>()),
+  fromStoredFile: (bucketId: string, fileId: string, size: number) => ({
+    size,
+    read: async (start: number, end: number) =>
+      new Uint8Array(await getFakeAppwrite().storage.getFileDownload(bucketId, fileId)).slice(start, end),
+  }),
+}));
+
+let document: Document;
+
+beforeEach(async () => {
+  resetFakeAppwrite();
+  const tenant = await createTestTenant();
+  const {
+    items: [item],
+  } = await createTestChecklist(tenant.contexts.advisor, tenant.organizations.client, { status: 'active' });
+  const stored = await createTestDocument(tenant.contexts.clientAdmin, item, { content: 'Rechnung;Kontoauszug' });
+
+  document = await updateDocument(stored.$id, { mime_type: 'text/csv' });
+});
+
+async function updateDocument(id: string, data: Partial<Document>): Promise<Document> {
+  const updated = await getFakeAppwrite().databases.updateDocument(DATABASE_ID, COLLECTIONS.documents, id, data);
+  return updated as unknown as Document;
+}
+
+async function getStored(): Promise<Document> {
+  const stored = await getFakeAppwrite().databases.getDocument(DATABASE_ID, COLLECTIONS.documents, document.$id);
+  return stored as unknown as Document;
+}
+
+describe('processPendingExtractions', () => {
+  it('stores the text and releases the claim', async () => {
+    expect(await processPendingExtractions({ ocr: null })).toEqual({ processed: 1, failed: [] });
+    expect(await getStored()).toMatchObject({
+      extraction_status: 'completed',
+      extracted_text: 'Rechnung;Kontoauszug',
+      extraction_attempts: 1,
+      extraction_claim: null,
+    });
+  });
+
+  it('processes a document once when runs overlap', async () => {
+    const results = await Promise.all([
+      processPendingExtractions({ ocr: null }),
+      processPendingExtractions({ ocr: null }),
+    ]);
+
+    expect(results.reduce((sum, result) => sum + result.processed, 0)).toBe(1);
+    expect(await getStored()).toMatchObject({ extraction_status: 'completed', extraction_attempts: 1 });
+  });
+
+  it('takes over documents of runs that died', async () => {
+    const claimedAt = new Date('2025-06-01T10:00:00.000Z');
+    await updateDocument(document.$id, {
+      extraction_status: 'processing',
+      extraction_claim: 'other-run',
+      extraction_claimed_at: claimedAt.toISOString(),
+      extraction_attempts: 1,
+    });
+
+    const running = await processPendingExtractions({ ocr: null, now: new Date(claimedAt.getTime() + 60_000) });
+    expect(running).toEqual({ processed: 0, failed: [] });
+
+    const died = await processPendingExtractions({ ocr: null, now: new Date(claimedAt.getTime() + 31 * 60_000) });
+    expect(died).toEqual({ processed: 1, failed: [] });
+    expect(await getStored()).toMatchObject({ extraction_status: 'completed', extraction_attempts: 2 });
+  });
+
+  it('gives up on documents after three attempts', async () => {
+    await updateDocument(document.$id, {
+      extraction_status: 'processing',
+      extraction_claimed_at: '2025-06-01T10:00:00.000Z',
+      extraction_attempts: 3,
+    });
+
+    expect(await processPendingExtractions({ ocr: null })).toEqual({ processed: 0, failed: [document.$id] });
+    expect(await getStored()).toMatchObject({ extraction_status: 'failed', extraction_attempts: 3 });
+  });
+});
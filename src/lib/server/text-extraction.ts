@@ -0,0 +1,260 @@
+/**
+ * Text extraction from uploaded documents
+ *
+ * A background job (see /api/jobs/document-extraction) picks up new
+ * documents and stores their text, the receipt fields detected in it and
+ * the mandatory invoice elements it lacks on the document record:
+ * - PDFs: the embedded text (scanned PDFs without a text layer stay empty)
+ *   and the page count shown in the preview
+ * - images: text recognized by the local OCR engine (see ocr.ts), HEIC
+ *   photos are converted to JPEG first
+ * - XML and CSV files: their text content
+ * - Office files: unsupported
+ *
+ * Everything runs on our own servers, nothing is sent to external services.
+ * Images wait while no OCR engine is configured.
+ *
+ * Runs across all tenants with the API key client; documents are only
+ * updated, never read out to anyone.
+ */
+
+import { ID, ImageFormat, Query, type Models } from 'node-appwrite';
+import { DOCUMENT_TYPES } from '@/lib/documents';
+import { checkInvoiceRequirements } from '@/lib/invoice-requirements';
+import { detectReceiptFields } from '@/lib/receipt-fields';
+import { BUCKETS, COLLECTIONS, DATABASE_ID, databases, storage } from '@/lib/server/appwrite';
+import { fromStoredFile } from '@/lib/server/file-inspection';
+import { getOcrEngine, type OcrEngine } from '@/lib/server/ocr';
+import { PDF_READ_MAX_BYTES, readPdf } from '@/lib/server/pdf';
+import { type DatabasesClient } from '@/lib/server/repositories';
+import { type Document } from '@/types/document';
+
+/**
+ * Longest text stored on a document (size of the extracted_text attribute)
+ */
+export const EXTRACTED_TEXT_MAX_LENGTH = 100_000;
+
+// Attempts before a document is marked as failed
+const MAX_EXTRACTION_ATTEMPTS = 3;
+
+// Documents per run - OCR takes seconds per page
+const DEFAULT_BATCH_SIZE = 25;
+
+// Claims older than this belong to a run that died and are taken over
+const CLAIM_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Largest image handed to the OCR engine (50 MB)
+const OCR_MAX_BYTES = 50 * 1024 * 1024;
+
+const OCR_TYPES = ['image/jpeg', 'image/png', 'image/tiff'];
+
+// Converted to JPEG by Appwrite's image preview first
+const CONVERTED_OCR_TYPES = ['image/heic'];
+
+const XML_TYPES = ['application/xml', 'text/xml'];
+
+function decodeXmlText(xml: string): string {
+  const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+  return xml
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => text)
+    .replace(/<[^>]*>/g, '\n')
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => entities[name])
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+async function recognizeImage(
+  document: Pick<Document, 'file_id' | 'mime_type'>,
+  data: () => Promise<Uint8Array>,
+  ocr: OcrEngine
+): Promise<string> {
+  if (!CONVERTED_OCR_TYPES.includes(document.mime_type)) {
+    return ocr(await data());
+  }
+
+  const image = await storage.getFilePreview(
+    BUCKETS.documents,
+    document.file_id,
+    undefined,
+    undefined,
+    undefined,
+    100,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    ImageFormat.Jpg
+  );
+
+  return ocr(new Uint8Array(image));
+}
+
+/**
+ * Text of a document, and its page count for PDFs
+ */
+export interface ExtractedText {
+  text: string;
+  pageCount: number | null;
+}
+
+/**
+ * Extract the text of a stored document
+ *
+ * @returns The text (empty if there is none), or null if no text can be
+ * extracted from the file (type not supported, encrypted or too large)
+ */
+export async function extractDocumentText(
+  document: Pick<Document, 'file_id' | 'file_size' | 'mime_type'>,
+  ocr: OcrEngine | null
+): Promise<ExtractedText | null> {
+  const content = fromStoredFile(BUCKETS.documents, document.file_id, document.file_size);
+  const data = () => content.read(0, content.size);
+  const plain = (text: string): ExtractedText => ({ text, pageCount: null });
+
+  if (document.mime_type === 'application/pdf') {
+    return content.size <= PDF_READ_MAX_BYTES ? readPdf(await data()) : null;
+  }
+
+  if ([...OCR_TYPES, ...CONVERTED_OCR_TYPES].includes(document.mime_type)) {
+    return ocr && content.size <= OCR_MAX_BYTES ? plain((await recognizeImage(document, data, ocr)).trim()) : null;
+  }
+
+  if (XML_TYPES.includes(document.mime_type)) {
+    return plain(decodeXmlText(Buffer.from(await data()).toString('utf8')));
+  }
+
+  if (document.mime_type === 'text/csv') {
+    return plain(Buffer.from(await data()).toString('utf8').replace(/^\uFEFF/, '').trim());
+  }
+
+  return null;
+}
+
+/**
+ * Document fields for an extracted text
+ */
+function toExtractionResult({ text, pageCount }: ExtractedText): Partial<Document> {
+  const fields = detectReceiptFields(text);
+
+  return {
+    extraction_status: 'completed',
+    extracted_text: text.slice(0, EXTRACTED_TEXT_MAX_LENGTH),
+    page_count: pageCount,
+    ...fields,
+    missing_invoice_requirements: checkInvoiceRequirements(text, fields),
+  };
+}
+
+/**
+ * Claim a document for this run - marks it as processing and counts the attempt
+ *
+ * Runs can overlap, as OCR of a full batch may outlast the cron interval.
+ * Appwrite has no conditional updates, so the claim is read back: if
+ * another run claimed the document in between, it is left to that run.
+ * Counting on claim also uses up an attempt when a run dies mid-document.
+ *
+ * @returns The claim token, or null if another run holds the document
+ */
+async function claimExtraction(db: DatabasesClient, document: Document): Promise<string | null> {
+  const claim = ID.unique();
+
+  await db.updateDocument(DATABASE_ID, COLLECTIONS.documents, document.$id, {
+    extraction_status: 'processing',
+    extraction_claim: claim,
+    extraction_claimed_at: new Date().toISOString(),
+    extraction_attempts: (document.extraction_attempts ?? 0) + 1,
+  });
+
+  return (await holdsClaim(db, document.$id, claim)) ? claim : null;
+}
+
+async function holdsClaim(db: DatabasesClient, documentId: string, claim: string): Promise<boolean> {
+  const current = await db.getDocument<Models.Document & Document>(DATABASE_ID, COLLECTIONS.documents, documentId);
+  return current.extraction_claim === claim;
+}
+
+/**
+ * Extract text and receipt fields of documents waiting for extraction
+ *
+ * Takes the oldest waiting documents of all tenants, up to options.limit
+ * per run, and claims each before working on it (see claimExtraction);
+ * documents whose run died are taken over after 30 minutes. Documents
+ * that fail are retried on the next runs and marked as failed after three
+ * attempts. Images are skipped while there is no OCR engine.
+ *
+ * @returns Number of documents processed, IDs of those that failed
+ */
+export async function processPendingExtractions(
+  options: { db?: DatabasesClient; limit?: number; ocr?: OcrEngine | null; now?: Date } = {}
+): Promise<{ processed: number; failed: string[] }> {
+  const db = options.db ?? databases;
+  const ocr = options.ocr === undefined ? getOcrEngine() : options.ocr;
+  const types = Object.keys(DOCUMENT_TYPES).filter((type) => ocr || !type.startsWith('image/'));
+  const staleBefore = new Date((options.now ?? new Date()).getTime() - CLAIM_TIMEOUT_MS).toISOString();
+  const failed: string[] = [];
+  let processed = 0;
+
+  const { documents } = await db.listDocuments<Models.Document & Document>(DATABASE_ID, COLLECTIONS.documents, [
+    Query.or([
+      Query.equal('extraction_status', 'pending'),
+      // Documents uploaded before extraction have no status yet
+      Query.isNull('extraction_status'),
+      Query.and([Query.equal('extraction_status', 'processing'), Query.lessThan('extraction_claimed_at', staleBefore)]),
+    ]),
+    Query.equal('mime_type', types),
+    Query.orderAsc('$createdAt'),
+    Query.limit(options.limit ?? DEFAULT_BATCH_SIZE),
+  ]);
+
+  for (const document of documents) {
+    const attempts = (document.extraction_attempts ?? 0) + 1;
+    let claim: string | null = null;
+
+    try {
+      // Taken over from runs that died on it every time
+      if (attempts > MAX_EXTRACTION_ATTEMPTS) {
+        await db.updateDocument(DATABASE_ID, COLLECTIONS.documents, document.$id, { extraction_status: 'failed' });
+        failed.push(document.$id);
+        continue;
+      }
+
+      claim = await claimExtraction(db, document);
+
+      if (!claim) {
+        continue;
+      }
+
+      const extracted = await extractDocumentText(document, ocr);
+
+      // Taken over while extracting - the other run stores its result
+      if (!(await holdsClaim(db, document.$id, claim))) {
+        continue;
+      }
+
+      await db.updateDocument(DATABASE_ID, COLLECTIONS.documents, document.$id, {
+        ...(extracted === null ? { extraction_status: 'unsupported' as const } : toExtractionResult(extracted)),
+        extraction_claim: null,
+      });
+      processed++;
+    } catch (error) {
+      console.error('Extracting document text failed', { documentId: document.$id, attempts, error });
+      failed.push(document.$id);
+
+      if (claim) {
+        await db
+          .updateDocument(DATABASE_ID, COLLECTIONS.documents, document.$id, {
+            extraction_status: attempts >= MAX_EXTRACTION_ATTEMPTS ? 'failed' : 'pending',
+            extraction_claim: null,
+          })
+          .catch(() => undefined);
+      }
+    }
+  }
+
+  return { processed, failed };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { isOpenUploadSession, storeUploadChunk } from '@/lib/server/uploads';
+import { CHUNK_SIZE } from '@/lib/uploads';
+import { type UploadSession } from '@/types/upload';
+
+const TOMORROW = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+function createSession(overrides: Partial<UploadSession> = {}): UploadSession {
+  return {
+    $id: 'session',
+    tenant_id: 'tenant',
+    organization_id: 'organization',
+    checklist_item_id: 'item',
+    uploaded_by: 'user',
+    file_id: 'file',
+    file_name: 'scan.pdf',
+    file_size: CHUNK_SIZE + 100,
+    mime_type: 'application/pdf',
+    status: 'uploading',
+    expires_at: TOMORROW,
+    ...overrides,
+  } as UploadSession;
+}
+
+describe('isOpenUploadSession', () => {
+  it('is open while uploading and not expired', () => {
+    expect(isOpenUploadSession(createSession())).toBe(true);
+    expect(isOpenUploadSession(createSession({ status: 'completed' }))).toBe(false);
+    expect(isOpenUploadSession(createSession({ expires_at: '2020-01-01T00:00:00.000Z' }))).toBe(false);
+  });
+});
+
+describe('storeUploadChunk', () => {
+  it('refuses chunks for closed sessions', async () => {
+    const result = await storeUploadChunk(createSession({ status: 'failed' }), 0, new Uint8Array(CHUNK_SIZE));
+
+    expect(result).toEqual({ ok: false, error: 'Dieser Upload ist bereits beendet' });
+  });
+
+  it.each([
+    ['a chunk beyond the announced size', 2, 100],
+    ['a negative index', -1, CHUNK_SIZE],
+    ['a short chunk', 0, CHUNK_SIZE - 1],
+    ['a last chunk that is too long', 1, 101],
+  ])('refuses %s', async (_, index, length) => {
+    const result = await storeUploadChunk(createSession(), index, new Uint8Array(length));
+
+    expect(result).toEqual({ ok: false, error: 'Ungültiger Dateiabschnitt' });
+  });
+});
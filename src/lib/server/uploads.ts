@@ -0,0 +1,272 @@
+/**
+ * Chunked document uploads
+ *
+ * The browser sends large files chunk by chunk to
+ * /api/uploads/:sessionId/chunks/:index (see src/lib/uploads.ts), which
+ * stores them in the documents bucket with the API key. Users have no create
+ * permission on the bucket: files only come from open upload sessions, under
+ * the file ID issued for the session and no larger than announced (the size
+ * the storage quota was checked for). Until the upload is finished, only the
+ * server can access the file. Finishing checks the stored file against the
+ * upload session, hands the file over to the tenant (same permissions as the
+ * document record) and creates the document record.
+ *
+ * Plain server-side helpers (not Server Actions) - callers must have
+ * loaded the item or session through the repositories and checked the
+ * policy.
+ */
+
+import { AppwriteException, ID, Query, type Models } from 'node-appwrite';
+import { CHUNKED_DOCUMENT_MAX_BYTES, validateDocumentFile } from '@/lib/documents';
+import { BUCKETS, COLLECTIONS, DATABASE_ID, databases, storage, uploadFileChunk } from '@/lib/server/appwrite';
+import { createDocumentRecord } from '@/lib/server/documents';
+import { getRecordPermissions, type DatabasesClient, type Repositories } from '@/lib/server/repositories';
+import { getChunkCount, getChunkRange, UPLOAD_SESSION_TTL_HOURS } from '@/lib/uploads';
+import { type ChecklistItem } from '@/types/checklist';
+import { type Document } from '@/types/document';
+import { type StartUploadInput, type UploadSession, type UploadTicket } from '@/types/upload';
+import { type TenantContext } from '@/types/user';
+
+const PAGE_SIZE = 100;
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof AppwriteException && error.code === 404;
+}
+
+/**
+ * Result of checking an uploaded file
+ * discard: the file can never become valid and should be deleted
+ */
+export type UploadCheck =
+  | { ok: true; file: Models.File }
+  | { ok: false; error: string; discard: boolean };
+
+/**
+ * Create an upload session for a file announced by the browser
+ *
+ * @param slotId - Slot the file is uploaded to as a new version (defaults to a new slot)
+ */
+export async function openUploadSession(
+  context: TenantContext,
+  repositories: Repositories,
+  item: Pick<ChecklistItem, '$id' | 'organization_id'>,
+  input: Omit<StartUploadInput, 'checklist_item_id' | 'session_id' | 'replaces_document_id'>,
+  slotId?: string
+): Promise<UploadSession> {
+  const expiresAt = new Date(Date.now() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+  return repositories.uploadSessions.create({
+    organization_id: item.organization_id,
+    checklist_item_id: item.$id,
+    uploaded_by: context.userId,
+    file_id: ID.unique(),
+    file_name: input.file_name.slice(0, 255),
+    file_size: input.file_size,
+    mime_type: input.mime_type,
+    slot_id: slotId,
+    status: 'uploading',
+    expires_at: expiresAt.toISOString(),
+  });
+}
+
+/**
+ * Check whether chunks can still be uploaded for a session
+ */
+export function isOpenUploadSession(session: Pick<UploadSession, 'status' | 'expires_at'>, now = new Date()): boolean {
+  return session.status === 'uploading' && session.expires_at > now.toISOString();
+}
+
+/**
+ * Issue the ticket for uploading (the rest of) a session's file
+ */
+export async function issueUploadTicket(session: UploadSession): Promise<UploadTicket> {
+  return {
+    sessionId: session.$id,
+    chunkCount: getChunkCount(session.file_size),
+    chunksUploaded: await getChunksUploaded(session.file_id),
+    expiresAt: session.expires_at,
+  };
+}
+
+async function getChunksUploaded(fileId: string): Promise<number> {
+  try {
+    return (await storage.getFile(BUCKETS.documents, fileId)).chunksUploaded;
+  } catch (error) {
+    // Nothing uploaded yet
+    if (isNotFound(error)) {
+      return 0;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Store one chunk of an open session's file
+ *
+ * The chunk must have exactly the size the announced file size gives for
+ * its index - the stored file can never grow beyond what was announced.
+ *
+ * @returns Number of chunks stored so far, or why the chunk was refused
+ */
+export async function storeUploadChunk(
+  session: UploadSession,
+  index: number,
+  chunk: Uint8Array<ArrayBuffer>
+): Promise<{ ok: true; chunksUploaded: number } | { ok: false; error: string }> {
+  if (!isOpenUploadSession(session)) {
+    return { ok: false, error: 'Dieser Upload ist bereits beendet' };
+  }
+
+  const [start, end] = getChunkRange(index, session.file_size);
+  const inRange = Number.isInteger(index) && index >= 0 && index < getChunkCount(session.file_size);
+
+  if (!inRange || chunk.length !== end - start) {
+    return { ok: false, error: 'Ungültiger Dateiabschnitt' };
+  }
+
+  const chunksUploaded = await uploadFileChunk(
+    BUCKETS.documents,
+    session.file_id,
+    { name: session.file_name, type: session.mime_type, size: session.file_size },
+    start,
+    chunk,
+    // API key only until the upload is finished
+    []
+  );
+
+  return { ok: true, chunksUploaded };
+}
+
+/**
+ * Check the stored file against its upload session
+ */
+export async function checkUploadedFile(session: UploadSession): Promise<UploadCheck> {
+  let file: Models.File;
+
+  try {
+    file = await storage.getFile(BUCKETS.documents, session.file_id);
+  } catch (error) {
+    if (isNotFound(error)) {
+      return { ok: false, error: 'Die Datei wurde noch nicht hochgeladen', discard: false };
+    }
+
+    throw error;
+  }
+
+  if (file.chunksUploaded < file.chunksTotal) {
+    return { ok: false, error: 'Die Datei ist noch nicht vollständig hochgeladen', discard: false };
+  }
+
+  if (file.sizeOriginal !== session.file_size) {
+    return { ok: false, error: `„${session.file_name}“ wurde nicht vollständig übertragen`, discard: true };
+  }
+
+  const error = validateDocumentFile(
+    { name: session.file_name, size: file.sizeOriginal, type: session.mime_type },
+    CHUNKED_DOCUMENT_MAX_BYTES
+  );
+
+  return error ? { ok: false, error, discard: true } : { ok: true, file };
+}
+
+/**
+ * Hand a checked file over to the tenant and create its document record
+ */
+export async function finishUploadSession(
+  context: TenantContext,
+  repositories: Repositories,
+  session: UploadSession,
+  file: Models.File
+): Promise<Document> {
+  await storage.updateFile(
+    BUCKETS.documents,
+    file.$id,
+    session.file_name,
+    getRecordPermissions(context, session.organization_id)
+  );
+
+  const document = await createDocumentRecord(
+    context,
+    repositories,
+    { $id: session.checklist_item_id },
+    {
+      fileId: file.$id,
+      fileName: session.file_name,
+      fileSize: file.sizeOriginal,
+      mimeType: session.mime_type,
+    },
+    session.slot_id
+  );
+
+  await repositories.uploadSessions.update(session.$id, { status: 'completed' });
+
+  return document;
+}
+
+/**
+ * Delete a session's file and mark the session as failed
+ */
+export async function discardUploadSession(
+  repositories: Repositories,
+  session: Pick<UploadSession, '$id' | 'file_id'>
+): Promise<void> {
+  await deleteUploadFile(session.file_id);
+  await repositories.uploadSessions.update(session.$id, { status: 'failed' });
+}
+
+async function deleteUploadFile(fileId: string): Promise<void> {
+  try {
+    await storage.deleteFile(BUCKETS.documents, fileId);
+  } catch (error) {
+    if (!isNotFound(error)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Remove the files of expired, unfinished uploads across all tenants
+ *
+ * @returns Number of removed uploads and IDs of the sessions that failed
+ */
+export async function cleanupExpiredUploads(
+  options: { now?: Date; db?: DatabasesClient } = {}
+): Promise<{ removed: number; failed: string[] }> {
+  const db = options.db ?? databases;
+  const now = (options.now ?? new Date()).toISOString();
+  const failed: string[] = [];
+  let removed = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await db.listDocuments<Models.Document & UploadSession>(
+      DATABASE_ID,
+      COLLECTIONS.uploadSessions,
+      [
+        Query.equal('status', 'uploading'),
+        Query.lessThan('expires_at', now),
+        Query.orderAsc('$id'),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    for (const session of page.documents) {
+      try {
+        await deleteUploadFile(session.file_id);
+        await db.updateDocument(DATABASE_ID, COLLECTIONS.uploadSessions, session.$id, {
+          status: 'failed',
+        });
+        removed++;
+      } catch (error) {
+        console.error('Removing expired upload failed', { sessionId: session.$id, error });
+        failed.push(session.$id);
+      }
+    }
+
+    cursor = page.documents.length === PAGE_SIZE ? page.documents.at(-1)?.$id : undefined;
+  } while (cursor);
+
+  return { removed, failed };
+}
@@ -0,0 +1,11 @@
+/**
+ * Session cookie configuration
+ *
+ * Kept free of SDK imports so it can be shared by the edge middleware
+ * and server-side code alike.
+ */
+
+/**
+ * Name of the cookie holding the Appwrite session secret
+ */
+export const SESSION_COOKIE = `a_session_${process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID}`;
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { suggestSubdomains, transliterate, validateSubdomain } from '@/lib/subdomain';
+
+describe('validateSubdomain', () => {
+  it.each([
+    'mueller',
+    'kanzlei-mueller',
+    'stb-2025',
+    'a'.repeat(63),
+
+    // Blocked terms inside a word
+    'sporn',
+    'pelster',
+    'kanzlei-kelsterbach',
+    'mainz-iglesias',
+  ])('accepts %s', (subdomain) => {
+    expect(validateSubdomain(subdomain)).toBeNull();
+  });
+
+  it.each([
+    ['ab', 'Mindestens 3 Zeichen'],
+    ['a'.repeat(64), 'Höchstens 63 Zeichen'],
+    ['-mueller', 'Nur Kleinbuchstaben, Ziffern und Bindestriche (nicht am Anfang oder Ende)'],
+    ['mueller-', 'Nur Kleinbuchstaben, Ziffern und Bindestriche (nicht am Anfang oder Ende)'],
+    ['Mueller', 'Nur Kleinbuchstaben, Ziffern und Bindestriche (nicht am Anfang oder Ende)'],
+    ['müller', 'Nur Kleinbuchstaben, Ziffern und Bindestriche (nicht am Anfang oder Ende)'],
+    ['kanzlei.mueller', 'Nur Kleinbuchstaben, Ziffern und Bindestriche (nicht am Anfang oder Ende)'],
+    ['xn--mller-kva', 'Umlaute bitte umschreiben (z. B. ü → ue)'],
+    ['www', 'Diese Subdomain ist reserviert'],
+    ['admin', 'Diese Subdomain ist reserviert'],
+    ['belegboost', 'Diese Subdomain ist reserviert'],
+    ['finanzamt-berlin', 'Diese Subdomain ist nicht erlaubt'],
+    ['mein-elster', 'Diese Subdomain ist nicht erlaubt'],
+    ['pornkanzlei', 'Diese Subdomain ist nicht erlaubt'],
+    ['f-u-c-k', 'Diese Subdomain ist nicht erlaubt'],
+  ])('rejects %s', (subdomain, error) => {
+    expect(validateSubdomain(subdomain)).toBe(error);
+  });
+});
+
+describe('transliterate', () => {
+  it.each([
+    ['Müller & Söhne', 'Mueller & Soehne'],
+    ['Äpfel', 'Aepfel'],
+    ['Großmann', 'Grossmann'],
+    ['Café Señor', 'Cafe Senor'],
+  ])('%s -> %s', (value, expected) => {
+    expect(transliterate(value)).toBe(expected);
+  });
+});
+
+describe('suggestSubdomains', () => {
+  it('suggests the distinctive part of the firm name first', () => {
+    expect(suggestSubdomains('Steuerkanzlei Müller GmbH', 3)).toEqual([
+      'steuerkanzlei-mueller',
+      'mueller',
+      'steuerkanzleimueller',
+    ]);
+  });
+
+  it('only suggests valid subdomains', () => {
+    const suggestions = suggestSubdomains('Elster & Partner');
+
+    expect(suggestions.every((suggestion) => validateSubdomain(suggestion) === null)).toBe(true);
+  });
+
+  it('suggests nothing without usable words', () => {
+    expect(suggestSubdomains('GmbH & Co. KG')).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tenant subdomain rules
+ *
+ * Shared by the registration form (client) and the registration
+ * Server Action, so both apply exactly the same rules.
+ */
+
+import { RESERVED_SUBDOMAINS } from '@/lib/hostname';
+
+export const SUBDOMAIN_MIN_LENGTH = 3;
+export const SUBDOMAIN_MAX_LENGTH = 63;
+
+/**
+ * Lowercase letters, digits and inner hyphens (DNS label rules)
+ */
+const SUBDOMAIN_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+
+/**
+ * Subdomains that cannot be registered by tenants
+ * Extends the hostname-level reserved list with names we may need later.
+ */
+const RESERVED_TENANT_SUBDOMAINS = new Set([
+  ...RESERVED_SUBDOMAINS,
+  'mail',
+  'smtp',
+  'ftp',
+  'staging',
+  'dev',
+  'test',
+  'status',
+  'support',
+  'help',
+  'docs',
+  'blog',
+  'static',
+  'assets',
+  'cdn',
+  'login',
+  'register',
+  'belegboost',
+]);
+
+/**
+ * Offensive or misleading names that must not become a portal address
+ * Matched at the start of a word, so names like "sporn" or "pelster" stay
+ * available.
+ */
+const BLOCKED_SUBDOMAIN_TERMS = [
+  'arschloch',
+  'fick',
+  'fuck',
+  'hitler',
+  'nazi',
+  'nutte',
+  'porn',
+  'scheisse',
+  'shit',
+  'wichser',
+  'phishing',
+  'finanzamt',
+  'elster',
+  'bundeszentralamt',
+];
+
+/**
+ * Legal form and filler words stripped when deriving suggestions
+ */
+const FIRM_NAME_STOPWORDS = new Set([
+  'gmbh',
+  'mbh',
+  'ag',
+  'kg',
+  'ohg',
+  'gbr',
+  'partg',
+  'partgmbb',
+  'mbb',
+  'ug',
+  'co',
+  'und',
+  'die',
+  'der',
+  'das',
+]);
+
+/**
+ * Generic profession words - not distinctive enough on their own
+ */
+const GENERIC_FIRM_WORDS = new Set([
+  'kanzlei',
+  'steuerkanzlei',
+  'steuerberater',
+  'steuerberatung',
+  'steuerberatungsgesellschaft',
+  'stb',
+  'partner',
+]);
+
+const TRANSLITERATIONS: Record<string, string> = {
+  ä: 'ae',
+  ö: 'oe',
+  ü: 'ue',
+  ß: 'ss',
+};
+
+/**
+ * Check whether a subdomain is reserved for the platform
+ */
+export function isReservedSubdomain(subdomain: string): boolean {
+  return RESERVED_TENANT_SUBDOMAINS.has(subdomain.toLowerCase());
+}
+
+/**
+ * Validate a subdomain against the DNS label rules
+ *
+ * @returns An error message or null if the subdomain is syntactically valid
+ */
+export function validateSubdomain(subdomain: string): string | null {
+  if (subdomain.length < SUBDOMAIN_MIN_LENGTH) {
+    return `Mindestens ${SUBDOMAIN_MIN_LENGTH} Zeichen`;
+  }
+
+  if (subdomain.length > SUBDOMAIN_MAX_LENGTH) {
+    return `Höchstens ${SUBDOMAIN_MAX_LENGTH} Zeichen`;
+  }
+
+  if (!SUBDOMAIN_PATTERN.test(subdomain)) {
+    return 'Nur Kleinbuchstaben, Ziffern und Bindestriche (nicht am Anfang oder Ende)';
+  }
+
+  if (subdomain.startsWith('xn--')) {
+    return 'Umlaute bitte umschreiben (z. B. ü → ue)';
+  }
+
+  if (isReservedSubdomain(subdomain)) {
+    return 'Diese Subdomain ist reserviert';
+  }
+
+  if (isBlockedSubdomain(subdomain)) {
+    return 'Diese Subdomain ist nicht erlaubt';
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a word of a subdomain starts with a blocked term
+ *
+ * The subdomain without hyphens counts as a word too, so "f-u-c-k" is
+ * blocked as well.
+ */
+export function isBlockedSubdomain(subdomain: string): boolean {
+  const lower = subdomain.toLowerCase();
+  const words = [...lower.split('-'), lower.replace(/-/g, '')];
+
+  return BLOCKED_SUBDOMAIN_TERMS.some((term) => words.some((word) => word.startsWith(term)));
+}
+
+/**
+ * Transliterate German umlauts and strip other diacritics
+ *
+ * @example
+ * ```typescript
+ * transliterate('Müller & Söhne'); // 'Mueller & Soehne'
+ * ```
+ */
+export function transliterate(value: string): string {
+  return value
+    .replace(/[äöüß]/gi, (char) => {
+      const replacement = TRANSLITERATIONS[char.toLowerCase()];
+      return char === char.toLowerCase() ? replacement : replacement[0].toUpperCase() + replacement[1];
+    })
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Turn arbitrary text into a subdomain candidate
+ */
+export function slugifySubdomain(value: string): string {
+  return transliterate(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, SUBDOMAIN_MAX_LENGTH)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Derive subdomain suggestions from a firm name
+ *
+ * Candidates are returned most specific first and only include
+ * syntactically valid, non-reserved names. Availability is not checked.
+ *
+ * @example
+ * ```typescript
+ * suggestSubdomains('Steuerkanzlei Müller GmbH');
+ * // ['steuerkanzlei-mueller', 'mueller', 'steuerkanzlei-mueller-stb', ...]
+ * ```
+ */
+export function suggestSubdomains(firmName: string, limit = 5): string[] {
+  const words = slugifySubdomain(firmName)
+    .split('-')
+    .filter((word) => word && !FIRM_NAME_STOPWORDS.has(word));
+
+  if (words.length === 0) {
+    return [];
+  }
+
+  const full = words.join('-');
+  const key = words.find((word) => !GENERIC_FIRM_WORDS.has(word)) ?? words[0];
+  const initials = words.map((word) => word[0]).join('');
+
+  const candidates = [
+    full,
+    key,
+    words.join(''),
+    `${key}-stb`,
+    `stb-${key}`,
+    `kanzlei-${key}`,
+    `${full}-stb`,
+    `${initials}-${key}`,
+    `${key}-${new Date().getFullYear()}`,
+  ];
+
+  return Array.from(new Set(candidates))
+    .filter((candidate) => validateSubdomain(candidate) === null)
+    .slice(0, limit);
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { createOrganizationSchema } from '@/lib/schemas/organization';
+import { normalizeVatId, parseTaxNumber, validateTaxNumber, validateVatId } from '@/lib/tax-ids';
+import { type GermanState } from '@/types/organization';
+
+// Example numbers of the tax offices, printed and in the 13-digit form
+const TAX_NUMBERS: [GermanState, string, string][] = [
+  ['BW', '93815/08152', '2893081508152'],
+  ['BY', '181/815/08155', '9181081508155'],
+  ['BE', '21/815/08150', '1121081508150'],
+  ['BB', '048/815/08155', '3048081508155'],
+  ['HB', '75 815 08152', '2475081508152'],
+  ['HH', '02/815/08156', '2202081508156'],
+  ['HE', '013 815 08153', '2613081508153'],
+  ['MV', '079/815/08151', '4079081508151'],
+  ['NI', '24/815/08151', '2324081508151'],
+  ['NW', '133/8150/8159', '5133081508159'],
+  ['RP', '22/815/08154', '2722081508154'],
+  ['SL', '010/815/08182', '1010081508182'],
+  ['SN', '201/123/12340', '3201012312340'],
+  ['ST', '101/815/08154', '3101081508154'],
+  ['SH', '29 815 08158', '2129081508158'],
+  ['TH', '151/815/08156', '4151081508156'],
+];
+
+describe('parseTaxNumber', () => {
+  it.each(TAX_NUMBERS)('reads the printed form in %s', (state, standard, elster) => {
+    expect(parseTaxNumber(standard, state)).toEqual({ state, standard, elster });
+  });
+
+  it.each(TAX_NUMBERS)('reads the 13-digit form of %s without a state', (state, standard, elster) => {
+    expect(parseTaxNumber(elster)).toEqual({ state, standard, elster });
+  });
+
+  it.each(TAX_NUMBERS)('converts %s in both directions', (state, standard) => {
+    const { elster } = parseTaxNumber(standard, state)!;
+
+    expect(parseTaxNumber(elster, state)?.standard).toBe(standard);
+  });
+
+  it('ignores spaces and slashes', () => {
+    expect(parseTaxNumber('181 815 08155', 'BY')?.standard).toBe('181/815/08155');
+    expect(parseTaxNumber('9181 0815 08155')?.standard).toBe('181/815/08155');
+  });
+
+  it.each<[string, GermanState | null]>([
+    // The printed form needs the state
+    ['181/815/08155', null],
+    // Too short or too long
+    ['181/815/0815', 'BY'],
+    ['181/815/081555', 'BY'],
+    // Fixed first digit of Brandenburg, Sachsen and Thüringen
+    ['148/815/08155', 'BB'],
+    ['101/123/12340', 'SN'],
+    ['251/815/08156', 'TH'],
+    // 13-digit form of another state
+    ['9181081508155', 'BE'],
+    // 13-digit form without the 0 after the tax office
+    ['9181181508155', null],
+    ['181/815/0815A', 'BY'],
+  ])('rejects %s in %s', (value, state) => {
+    expect(parseTaxNumber(value, state)).toBeNull();
+  });
+});
+
+describe('validateTaxNumber', () => {
+  it.each<[string, GermanState | null, string | null]>([
+    ['181/815/08155', 'BY', null],
+    ['9181081508155', null, null],
+    ['181/815/08155', null, 'Bitte das Bundesland angeben oder die 13-stellige Steuernummer (ELSTER)'],
+    ['181/815/0815', 'BY', 'Format in Bayern: FFF/BBB/UUUUP oder 13-stellig (ELSTER)'],
+    ['9181081508155', 'BE', 'Format in Berlin: FF/BBB/UUUUP oder 13-stellig (ELSTER)'],
+  ])('%s in %s: %s', (value, state, expected) => {
+    expect(validateTaxNumber(value, state)).toBe(expected);
+  });
+});
+
+describe('validateVatId', () => {
+  it.each(['DE136695976', 'DE811907980', 'DE813495425', 'DE129273398', 'ATU12345678', 'NL123456789B01'])(
+    'accepts %s',
+    (vatId) => {
+      expect(validateVatId(vatId)).toBeNull();
+    }
+  );
+
+  it.each([
+    ['DE136695975', 'Prüfziffer stimmt nicht - bitte die USt-IdNr. kontrollieren'],
+    ['DE811907981', 'Prüfziffer stimmt nicht - bitte die USt-IdNr. kontrollieren'],
+    ['DE13669597', 'Ungültiges Format'],
+    ['ATU1234567', 'Ungültiges Format'],
+    ['136695976', 'Bitte mit dem Länderkennzeichen beginnen, z. B. DE'],
+    ['GR123456789', 'Bitte mit dem Länderkennzeichen beginnen, z. B. DE'],
+  ])('rejects %s', (vatId, error) => {
+    expect(validateVatId(vatId)).toBe(error);
+  });
+
+  it('normalizes typed numbers', () => {
+    expect(normalizeVatId('de 136.695-976')).toBe('DE136695976');
+  });
+});
+
+describe('createOrganizationSchema', () => {
+  const organization = { name: 'Bäckerei Schmidt', contact_email: 'info@baeckerei-schmidt.de' };
+
+  it('stores the Steuernummer in the printed form of its state', () => {
+    expect(createOrganizationSchema.parse({ ...organization, tax_id: '9181081508155' })).toMatchObject({
+      state: 'BY',
+      tax_id: '181/815/08155',
+    });
+  });
+
+  it('stores the USt-IdNr. normalized', () => {
+    expect(createOrganizationSchema.parse({ ...organization, vat_id: 'de 136 695 976' })).toMatchObject({
+      vat_id: 'DE136695976',
+    });
+  });
+
+  it.each([
+    [
+      { tax_id: '181/815/08155' },
+      'tax_id',
+      'Bitte das Bundesland angeben oder die 13-stellige Steuernummer (ELSTER)',
+    ],
+    [
+      { state: 'NW', tax_id: '21/815/08150' },
+      'tax_id',
+      'Format in Nordrhein-Westfalen: FFF/BBBB/UUUP oder 13-stellig (ELSTER)',
+    ],
+    [{ state: 'XX' }, 'state', 'Bitte ein Bundesland auswählen'],
+    [{ vat_id: 'DE136695975' }, 'vat_id', 'Prüfziffer stimmt nicht - bitte die USt-IdNr. kontrollieren'],
+    [{ vat_id: 'DE1366959' }, 'vat_id', 'Ungültiges Format'],
+  ])('rejects %o', (fields, path, message) => {
+    const result = createOrganizationSchema.safeParse({ ...organization, ...fields });
+
+    expect(result.error?.issues).toEqual([expect.objectContaining({ path: [path], message })]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * German tax identifiers
+ *
+ * Steuernummer: every federal state prints it in its own format (the
+ * "Standardschema", e.g. 181/815/08155 in Bayern). ELSTER and the tax
+ * offices' interfaces use the 13-digit "Bundesschema" instead: a state
+ * prefix, the tax office number, a 0, then district and personal number
+ * (9181081508155). Both are accepted; the 13-digit form also tells the
+ * state. The last digit is a check digit whose method differs between the
+ * states - it is not verified.
+ *
+ * USt-IdNr.: checked against the formats of the EU member states, German
+ * ones also by their check digit (ISO 7064, MOD 11,10).
+ *
+ * IBANs are checked in src/lib/iban.ts.
+ */
+
+import { GERMAN_STATES } from '@/lib/holidays';
+import { type GermanState } from '@/types/organization';
+
+/**
+ * Steuernummer format per state
+ * - elster: prefix of the 13-digit form
+ * - format: printed form - F tax office, B district, U personal number,
+ *   P check digit, other digits are fixed
+ */
+export const TAX_NUMBER_FORMATS: Record<GermanState, { elster: string; format: string }> = {
+  BW: { elster: '28', format: 'FFBBB/UUUUP' },
+  BY: { elster: '9', format: 'FFF/BBB/UUUUP' },
+  BE: { elster: '11', format: 'FF/BBB/UUUUP' },
+  BB: { elster: '30', format: '0FF/BBB/UUUUP' },
+  HB: { elster: '24', format: 'FF BBB UUUUP' },
+  HH: { elster: '22', format: 'FF/BBB/UUUUP' },
+  HE: { elster: '26', format: '0FF BBB UUUUP' },
+  MV: { elster: '40', format: '0FF/BBB/UUUUP' },
+  NI: { elster: '23', format: 'FF/BBB/UUUUP' },
+  NW: { elster: '5', format: 'FFF/BBBB/UUUP' },
+  RP: { elster: '27', format: 'FF/BBB/UUUUP' },
+  SL: { elster: '10', format: '0FF/BBB/UUUUP' },
+  SN: { elster: '32', format: '2FF/BBB/UUUUP' },
+  ST: { elster: '31', format: '1FF/BBB/UUUUP' },
+  SH: { elster: '21', format: 'FF BBB UUUUP' },
+  TH: { elster: '41', format: '1FF/BBB/UUUUP' },
+};
+
+/**
+ * Formats of the USt-IdNr. after the country code (Greece uses EL)
+ */
+const VAT_ID_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+  // Northern Ireland
+  XI: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+};
+
+/**
+ * A Steuernummer in both forms
+ */
+export interface TaxNumber {
+  state: GermanState;
+  /**
+   * Printed form of the state, e.g. "181/815/08155"
+   */
+  standard: string;
+  /**
+   * 13-digit form, e.g. "9181081508155"
+   */
+  elster: string;
+}
+
+function getLayout(state: GermanState) {
+  const { elster, format } = TAX_NUMBER_FORMATS[state];
+  const pattern = format.replace(/[^\dFBUP]/g, '');
+
+  return {
+    elster,
+    format,
+    length: pattern.length,
+    fixed: /^\d*/.exec(pattern)![0],
+    office: pattern.replace(/[^F]/g, '').length,
+  };
+}
+
+function fromStandard(state: GermanState, digits: string): TaxNumber | null {
+  const layout = getLayout(state);
+
+  if (digits.length !== layout.length || !digits.startsWith(layout.fixed)) {
+    return null;
+  }
+
+  const office = digits.slice(layout.fixed.length, layout.fixed.length + layout.office);
+  const rest = digits.slice(layout.fixed.length + layout.office);
+  let index = 0;
+
+  return {
+    state,
+    standard: layout.format.replace(/[\dFBUP]/g, () => digits[index++]),
+    elster: `${layout.elster}${office}0${rest}`,
+  };
+}
+
+function fromElster(state: GermanState, digits: string): TaxNumber | null {
+  const layout = getLayout(state);
+  const separator = layout.elster.length + layout.office;
+
+  if (digits.length !== 13 || !digits.startsWith(layout.elster) || digits[separator] !== '0') {
+    return null;
+  }
+
+  const office = digits.slice(layout.elster.length, separator);
+  return fromStandard(state, `${layout.fixed}${office}${digits.slice(separator + 1)}`);
+}
+
+/**
+ * Read a Steuernummer in the state's printed form or the 13-digit form
+ * Spaces and slashes are ignored.
+ *
+ * @param state - Required for the printed form; the 13-digit form must
+ * match it if given
+ * @returns Both forms, or null if the number does not fit
+ */
+export function parseTaxNumber(value: string, state?: GermanState | null): TaxNumber | null {
+  const digits = value.replace(/[\s/]/g, '');
+
+  if (!/^\d+$/.test(digits)) {
+    return null;
+  }
+
+  const states = state ? [state] : (Object.keys(TAX_NUMBER_FORMATS) as GermanState[]);
+
+  for (const candidate of states) {
+    const taxNumber = fromElster(candidate, digits) ?? (state ? fromStandard(candidate, digits) : null);
+
+    if (taxNumber) {
+      return taxNumber;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a Steuernummer for a state
+ *
+ * @returns An error message or null if the number fits
+ */
+export function validateTaxNumber(value: string, state?: GermanState | null): string | null {
+  if (parseTaxNumber(value, state)) {
+    return null;
+  }
+
+  if (!state) {
+    return 'Bitte das Bundesland angeben oder die 13-stellige Steuernummer (ELSTER)';
+  }
+
+  return `Format in ${GERMAN_STATES[state]}: ${TAX_NUMBER_FORMATS[state].format} oder 13-stellig (ELSTER)`;
+}
+
+/**
+ * Remove spaces, dots and hyphens and upper-case a USt-IdNr. as typed
+ */
+export function normalizeVatId(value: string): string {
+  return value.replace(/[\s.-]/g, '').toUpperCase();
+}
+
+/**
+ * Check digit of a German USt-IdNr. (ISO 7064, MOD 11,10)
+ */
+function hasValidGermanCheckDigit(digits: string): boolean {
+  let product = 10;
+
+  for (const digit of digits.slice(0, 8)) {
+    const sum = (Number(digit) + product) % 10 || 10;
+    product = (2 * sum) % 11;
+  }
+
+  return (11 - product) % 10 === Number(digits[8]);
+}
+
+/**
+ * Validate a normalized USt-IdNr. (see normalizeVatId)
+ *
+ * @returns An error message or null if the USt-IdNr. is valid
+ */
+export function validateVatId(vatId: string): string | null {
+  const format = VAT_ID_FORMATS[vatId.slice(0, 2)];
+
+  if (!format) {
+    return 'Bitte mit dem Länderkennzeichen beginnen, z. B. DE';
+  }
+
+  if (!format.test(vatId.slice(2))) {
+    return 'Ungültiges Format';
+  }
+
+  if (vatId.startsWith('DE') && !hasValidGermanCheckDigit(vatId.slice(2))) {
+    return 'Prüfziffer stimmt nicht - bitte die USt-IdNr. kontrollieren';
+  }
+
+  return null;
+}
@@ -0,0 +1,56 @@
+/**
+ * Chunked upload settings
+ *
+ * Large scans are uploaded by the browser in chunks to a route handler
+ * (src/app/api/uploads), which passes them on to Appwrite Storage - Server
+ * Actions cannot take bodies this large. An interrupted upload continues
+ * with the first chunk Appwrite has not received yet.
+ *
+ * Shared by the upload client (src/lib/client/resumable-upload.ts) and the
+ * server, which issues the upload tickets, stores the chunks and checks the
+ * finished file (src/lib/server/uploads.ts).
+ */
+
+/**
+ * Chunk size in bytes - fixed by Appwrite (5 MB)
+ */
+export const CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Attempts per chunk before the upload is given up
+ */
+export const MAX_UPLOAD_RETRIES = 6;
+
+/**
+ * Unfinished uploads are removed after this many hours
+ */
+export const UPLOAD_SESSION_TTL_HOURS = 24;
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+/**
+ * Number of chunks of a file
+ */
+export function getChunkCount(fileSize: number): number {
+  return Math.max(1, Math.ceil(fileSize / CHUNK_SIZE));
+}
+
+/**
+ * Byte range of a chunk as [start, end)
+ */
+export function getChunkRange(index: number, fileSize: number): [number, number] {
+  const start = index * CHUNK_SIZE;
+  return [start, Math.min(start + CHUNK_SIZE, fileSize)];
+}
+
+/**
+ * Wait time before the given retry (1-based)
+ *
+ * Doubles with every attempt up to 30 seconds. Up to a quarter is added at
+ * random, so clients that lost the connection together do not retry in step.
+ */
+export function getRetryDelay(attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+  return Math.round(delay * (1 + random() / 4));
+}
@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveHostname } from '@/lib/hostname';
+import { getLoginPath, isPublicPath } from '@/lib/routes';
+import { SESSION_COOKIE } from '@/lib/session';
 
 export const config = {
   matcher: [
@@ -13,41 +16,68 @@ export const config = {
   ],
 };
 
-export function middleware(request: NextRequest) {
-  const hostname = request.headers.get('host') || '';
-  const url = request.nextUrl;
+// Custom domain -> subdomain mapping, cached per edge instance. Kept short so
+// removed domains stop resolving soon (see /api/domains/resolve).
+const CUSTOM_DOMAIN_TTL_MS = 60 * 1000;
+const customDomainCache = new Map<string, { subdomain: string | null; expiresAt: number }>();
 
-  let subdomain = '';
+async function resolveCustomDomain(request: NextRequest, hostname: string): Promise<string | null> {
+  const cached = customDomainCache.get(hostname);
 
-  // Development: [tenant].localhost:3000
-  if (hostname.includes('localhost')) {
-    const parts = hostname.split('.');
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.subdomain;
+  }
 
-    // If just "localhost:3000" -> main site
-    // If "tenant.localhost:3000" -> tenant site
-    if (parts.length > 1 && parts[0] !== 'localhost') {
-      subdomain = parts[0];
+  const lookupUrl = new URL('/api/domains/resolve', request.nextUrl.origin);
+  lookupUrl.searchParams.set('host', hostname);
+
+  let subdomain: string | null = null;
+  try {
+    const response = await fetch(lookupUrl);
+    if (response.ok) {
+      subdomain = ((await response.json()) as { subdomain: string | null }).subdomain;
     }
+  } catch {
+    // Treat lookup failures as unknown hosts, but don't cache them
+    return null;
   }
-  // Production: [tenant].belegboost.de or www.belegboost.de
-  else if (hostname.includes('belegboost.de')) {
-    const parts = hostname.split('.');
 
-    // www.belegboost.de or belegboost.de -> main site
-    if (parts[0] === 'www' || parts.length === 2) {
-      subdomain = '';
-    }
-    // [tenant].belegboost.de -> tenant site
-    else if (parts.length === 3) {
-      subdomain = parts[0];
-    }
+  customDomainCache.set(hostname, { subdomain, expiresAt: Date.now() + CUSTOM_DOMAIN_TTL_MS });
+  return subdomain;
+}
+
+export async function middleware(request: NextRequest) {
+  const hostname = request.headers.get('host') || '';
+  const url = request.nextUrl;
+
+  const resolution = resolveHostname(hostname);
+
+  let subdomain: string | null = null;
+
+  if (resolution.type === 'tenant') {
+    subdomain = resolution.subdomain;
+  }
+  // Not one of our root domains - may be a verified custom domain
+  else if (resolution.type === 'unknown') {
+    subdomain = await resolveCustomDomain(request, resolution.hostname);
   }
 
-  // Main domain (no subdomain) - show landing page
+  // Main domain (no tenant subdomain) - show landing page
   if (!subdomain) {
+    // Tenant routes are only reachable through the rewrite below
+    if (url.pathname === '/tenants' || url.pathname.startsWith('/tenants/')) {
+      return new NextResponse(null, { status: 404 });
+    }
     return NextResponse.next();
   }
 
+  // Tenant pages require a session. This only checks that the cookie exists -
+  // pages verify the session and role again server-side (requireRouteAccess).
+  if (!isPublicPath(url.pathname) && !request.cookies.has(SESSION_COOKIE)) {
+    const loginUrl = new URL(getLoginPath(`${url.pathname}${url.search}`), url);
+    return NextResponse.redirect(loginUrl);
+  }
+
   // Rewrite to tenant routes: /tenants/[tenant]/...
   url.pathname = `/tenants/${subdomain}${url.pathname}`;
 
@@ -0,0 +1,207 @@
+/**
+ * In-memory stand-in for the Appwrite Databases service
+ *
+ * Implements the positional-argument methods our code uses. Collections
+ * need no schema and are created on first write; unique indexes can be
+ * declared with createIndex to reproduce 409 conflicts.
+ */
+
+import { AppwriteException, type Models } from 'node-appwrite';
+import { clone, conflict, notFound, resolveId, timestamp } from '@/test/appwrite-fake/helpers';
+import { validatePermissions } from '@/test/appwrite-fake/permissions';
+import { applyQueries, type FakeRecord } from '@/test/appwrite-fake/query';
+
+type StoredDocument = Models.Document & Record<string, unknown>;
+
+type DocumentData = Record<string, unknown>;
+
+export class FakeDatabases {
+  private collections = new Map<string, Map<string, StoredDocument>>();
+  private uniqueIndexes = new Map<string, string[][]>();
+  private sequence = 0;
+
+  private key(databaseId: string, collectionId: string): string {
+    return `${databaseId}/${collectionId}`;
+  }
+
+  private collection(databaseId: string, collectionId: string): Map<string, StoredDocument> {
+    const key = this.key(databaseId, collectionId);
+    let documents = this.collections.get(key);
+
+    if (!documents) {
+      documents = new Map();
+      this.collections.set(key, documents);
+    }
+
+    return documents;
+  }
+
+  private findDocument(databaseId: string, collectionId: string, documentId: string): StoredDocument {
+    const document = this.collection(databaseId, collectionId).get(documentId);
+
+    if (!document) {
+      throw notFound('document_not_found', 'Document with the requested ID could not be found.');
+    }
+
+    return document;
+  }
+
+  /**
+   * Attributes starting with $ are managed by Appwrite and never stored from input
+   */
+  private toAttributes(data: DocumentData): DocumentData {
+    return Object.fromEntries(Object.entries(data).filter(([key]) => !key.startsWith('$')));
+  }
+
+  private assertUnique(databaseId: string, collectionId: string, candidate: StoredDocument): void {
+    const indexes = this.uniqueIndexes.get(this.key(databaseId, collectionId)) ?? [];
+
+    for (const attributes of indexes) {
+      for (const existing of this.collection(databaseId, collectionId).values()) {
+        if (
+          existing.$id !== candidate.$id &&
+          attributes.every((attribute) => existing[attribute] === candidate[attribute])
+        ) {
+          throw conflict('document_already_exists', 'Document with the requested ID already exists.');
+        }
+      }
+    }
+  }
+
+  /**
+   * Declare an index - only unique indexes have an effect
+   */
+  async createIndex(
+    databaseId: string,
+    collectionId: string,
+    key: string,
+    type: string,
+    attributes: string[]
+  ): Promise<{ key: string; type: string; attributes: string[] }> {
+    if (type === 'unique') {
+      const collectionKey = this.key(databaseId, collectionId);
+      this.uniqueIndexes.set(collectionKey, [...(this.uniqueIndexes.get(collectionKey) ?? []), attributes]);
+    }
+
+    return { key, type, attributes };
+  }
+
+  async listDocuments<Document extends Models.Document = Models.DefaultDocument>(
+    databaseId: string,
+    collectionId: string,
+    queries: string[] = []
+  ): Promise<Models.DocumentList<Document>> {
+    const documents = [...this.collection(databaseId, collectionId).values()] as FakeRecord[];
+    const result = applyQueries(documents, queries);
+
+    return { total: result.total, documents: clone(result.documents) as unknown as Document[] };
+  }
+
+  async getDocument<Document extends Models.Document = Models.DefaultDocument>(
+    databaseId: string,
+    collectionId: string,
+    documentId: string,
+    queries: string[] = []
+  ): Promise<Document> {
+    const document = this.findDocument(databaseId, collectionId, documentId) as unknown as FakeRecord;
+    const selected = applyQueries([document], queries).documents[0];
+
+    return clone(selected) as unknown as Document;
+  }
+
+  async createDocument<Document extends Models.Document = Models.DefaultDocument>(
+    databaseId: string,
+    collectionId: string,
+    documentId: string,
+    data: DocumentData,
+    permissions: string[] = []
+  ): Promise<Document> {
+    const id = resolveId(documentId);
+    const documents = this.collection(databaseId, collectionId);
+
+    if (documents.has(id)) {
+      throw conflict('document_already_exists', 'Document with the requested ID already exists.');
+    }
+
+    const now = timestamp();
+    const document: StoredDocument = {
+      ...clone(this.toAttributes(data)),
+      $id: id,
+      $sequence: ++this.sequence,
+      $collectionId: collectionId,
+      $databaseId: databaseId,
+      $createdAt: now,
+      $updatedAt: now,
+      $permissions: [...validatePermissions(permissions)],
+    };
+
+    this.assertUnique(databaseId, collectionId, document);
+    documents.set(id, document);
+
+    return clone(document) as unknown as Document;
+  }
+
+  async updateDocument<Document extends Models.Document = Models.DefaultDocument>(
+    databaseId: string,
+    collectionId: string,
+    documentId: string,
+    data: DocumentData = {},
+    permissions?: string[]
+  ): Promise<Document> {
+    const existing = this.findDocument(databaseId, collectionId, documentId);
+
+    const document: StoredDocument = {
+      ...existing,
+      ...clone(this.toAttributes(data)),
+      $updatedAt: timestamp(),
+      $permissions: permissions ? [...validatePermissions(permissions)] : existing.$permissions,
+    };
+
+    this.assertUnique(databaseId, collectionId, document);
+    this.collection(databaseId, collectionId).set(documentId, document);
+
+    return clone(document) as unknown as Document;
+  }
+
+  async deleteDocument(databaseId: string, collectionId: string, documentId: string): Promise<object> {
+    this.findDocument(databaseId, collectionId, documentId);
+    this.collection(databaseId, collectionId).delete(documentId);
+    return {};
+  }
+
+  async incrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(
+    databaseId: string,
+    collectionId: string,
+    documentId: string,
+    attribute: string,
+    value = 1,
+    max?: number
+  ): Promise<Document> {
+    const current = Number(this.findDocument(databaseId, collectionId, documentId)[attribute] ?? 0);
+    const next = current + value;
+
+    if (max !== undefined && next > max) {
+      throw new AppwriteException(`Attribute "${attribute}" would exceed ${max}`, 400, 'attribute_limit_exceeded');
+    }
+
+    return this.updateDocument<Document>(databaseId, collectionId, documentId, { [attribute]: next });
+  }
+
+  async decrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(
+    databaseId: string,
+    collectionId: string,
+    documentId: string,
+    attribute: string,
+    value = 1,
+    min?: number
+  ): Promise<Document> {
+    const current = Number(this.findDocument(databaseId, collectionId, documentId)[attribute] ?? 0);
+    const next = current - value;
+
+    if (min !== undefined && next < min) {
+      throw new AppwriteException(`Attribute "${attribute}" would fall below ${min}`, 400, 'attribute_limit_exceeded');
+    }
+
+    return this.updateDocument<Document>(databaseId, collectionId, documentId, { [attribute]: next });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Shared helpers for the in-memory Appwrite fake
+ */
+
+import { AppwriteException, ID } from 'node-appwrite';
+
+const CUSTOM_ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,35}$/;
+
+let lastTimestamp = 0;
+
+/**
+ * Current time as ISO string, strictly increasing so ordering by
+ * $createdAt is deterministic even within the same millisecond
+ */
+export function timestamp(): string {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp).toISOString();
+}
+
+/**
+ * Resolve ID.unique() placeholders and validate custom IDs
+ *
+ * @throws AppwriteException (400) for IDs Appwrite would reject
+ */
+export function resolveId(id: string): string {
+  if (id === 'unique()') {
+    return ID.unique();
+  }
+
+  if (!CUSTOM_ID_PATTERN.test(id)) {
+    throw new AppwriteException(`Invalid ID: ${id}`, 400, 'general_argument_invalid');
+  }
+
+  return id;
+}
+
+export function notFound(type: string, message: string): AppwriteException {
+  return new AppwriteException(message, 404, type);
+}
+
+export function conflict(type: string, message: string): AppwriteException {
+  return new AppwriteException(message, 409, type);
+}
+
+/**
+ * Copy values in and out of the store so callers cannot mutate it
+ */
+export function clone<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,111 @@
+/**
+ * In-memory Appwrite fake for offline integration tests
+ *
+ * Implements the subset of Databases, Storage, Users, Teams and Messaging
+ * that our server code uses (positional-argument signatures only),
+ * including Query filters, ordering, pagination and permission strings.
+ * Requests never leave the process, so repositories and Server Actions can
+ * run end to end without a live Appwrite instance.
+ *
+ * Like the API key client, the services ignore permissions when reading and
+ * writing; use getRoles/isAllowed to check what a user session could access.
+ *
+ * @example
+ * ```typescript
+ * const appwrite = createFakeAppwrite();
+ * const repositories = getRepositories(context, appwrite.services.databases);
+ * ```
+ *
+ * Server Actions import the services from src/lib/server/appwrite.ts - the
+ * test setup (src/test/setup.ts) replaces them with the current fake.
+ */
+
+import { type Databases, type Messaging, type Storage, type Teams, type Users } from 'node-appwrite';
+import { FakeDatabases } from '@/test/appwrite-fake/databases';
+import { FakeMessaging } from '@/test/appwrite-fake/messaging';
+import { isPermitted, type PermissionAction } from '@/test/appwrite-fake/permissions';
+import { FakeStorage } from '@/test/appwrite-fake/storage';
+import { FakeTeams } from '@/test/appwrite-fake/teams';
+import { FakeUsers } from '@/test/appwrite-fake/users';
+
+export { FakeDatabases, FakeMessaging, FakeStorage, FakeTeams, FakeUsers };
+export { type FakeEmail } from '@/test/appwrite-fake/messaging';
+export { isPermitted, parsePermission, type PermissionAction } from '@/test/appwrite-fake/permissions';
+export { applyQueries } from '@/test/appwrite-fake/query';
+
+export interface FakeAppwrite {
+  databases: FakeDatabases;
+  storage: FakeStorage;
+  users: FakeUsers;
+  teams: FakeTeams;
+  messaging: FakeMessaging;
+
+  /**
+   * The fakes typed as the SDK services, for code that expects those
+   * Methods outside the implemented subset are missing at runtime.
+   */
+  services: { databases: Databases; storage: Storage; users: Users; teams: Teams; messaging: Messaging };
+
+  /**
+   * Permission roles a user session would have, e.g. user:ID, team:ID/owner, label:x
+   */
+  getRoles(userId: string): Promise<string[]>;
+
+  /**
+   * Check whether a user session could perform an action on a document or file
+   */
+  isAllowed(
+    resource: { $permissions: string[] },
+    action: PermissionAction,
+    userId: string
+  ): Promise<boolean>;
+}
+
+/**
+ * Create an empty fake Appwrite project
+ */
+export function createFakeAppwrite(): FakeAppwrite {
+  const databases = new FakeDatabases();
+  const storage = new FakeStorage();
+  const users = new FakeUsers();
+  const teams = new FakeTeams(users);
+  const messaging = new FakeMessaging();
+
+  async function getRoles(userId: string): Promise<string[]> {
+    const user = await users.get(userId);
+    const verification = user.emailVerification ? 'verified' : 'unverified';
+
+    return [
+      'any',
+      'users',
+      `users/${verification}`,
+      `user:${user.$id}`,
+      `user:${user.$id}/${verification}`,
+      ...teams.membershipsOf(userId).flatMap((membership) => [
+        `team:${membership.teamId}`,
+        ...membership.roles.map((role) => `team:${membership.teamId}/${role}`),
+        `member:${membership.$id}`,
+      ]),
+      ...user.labels.map((label) => `label:${label}`),
+    ];
+  }
+
+  return {
+    databases,
+    storage,
+    users,
+    teams,
+    messaging,
+    services: {
+      databases: databases as unknown as Databases,
+      storage: storage as unknown as Storage,
+      users: users as unknown as Users,
+      teams: teams as unknown as Teams,
+      messaging: messaging as unknown as Messaging,
+    },
+    getRoles,
+    async isAllowed(resource, action, userId) {
+      return isPermitted(resource.$permissions, action, await getRoles(userId));
+    },
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * In-memory stand-in for the Appwrite Messaging service
+ *
+ * Emails are not delivered but kept in `sent`, so tests can check who was
+ * notified and with what.
+ */
+
+import { MessageStatus, type Models } from 'node-appwrite';
+import { clone, resolveId, timestamp } from '@/test/appwrite-fake/helpers';
+
+export interface FakeEmail {
+  $id: string;
+  subject: string;
+  content: string;
+  topics: string[];
+  users: string[];
+  targets: string[];
+}
+
+export class FakeMessaging {
+  readonly sent: FakeEmail[] = [];
+
+  async createEmail(
+    messageId: string,
+    subject: string,
+    content: string,
+    topics: string[] = [],
+    users: string[] = [],
+    targets: string[] = []
+  ): Promise<Models.Message> {
+    const email: FakeEmail = { $id: resolveId(messageId), subject, content, topics, users, targets };
+    const now = timestamp();
+
+    this.sent.push(clone(email));
+
+    return {
+      $id: email.$id,
+      $createdAt: now,
+      $updatedAt: now,
+      providerType: 'email',
+      topics,
+      users,
+      targets,
+      deliveredAt: now,
+      deliveredTotal: users.length + targets.length,
+      data: { subject, content },
+      status: MessageStatus.Sent,
+    };
+  }
+}
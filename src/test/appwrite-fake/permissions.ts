@@ -0,0 +1,59 @@
+/**
+ * Permission strings for the in-memory Appwrite fake
+ *
+ * Validates strings built with Permission/Role like the real API and
+ * answers whether a set of roles grants an action, so tests can check the
+ * permissions our code writes, not just the data.
+ */
+
+import { AppwriteException } from 'node-appwrite';
+
+export type PermissionAction = 'read' | 'create' | 'update' | 'delete';
+
+const PERMISSION_PATTERN = /^(read|create|update|delete|write)\("([^"]+)"\)$/;
+
+const ROLE_PATTERN =
+  /^(any|guests|users(\/(verified|unverified))?|user:[\w.-]+(\/(verified|unverified))?|team:[\w.-]+(\/[\w.-]+)?|member:[\w.-]+|label:[a-zA-Z0-9]+)$/;
+
+/**
+ * Parse a permission string, e.g. read("team:abc/owner")
+ *
+ * @throws AppwriteException (400) for malformed permissions or roles
+ */
+export function parsePermission(permission: string): { action: string; role: string } {
+  const match = PERMISSION_PATTERN.exec(permission);
+
+  if (!match || !ROLE_PATTERN.test(match[2])) {
+    throw new AppwriteException(`Invalid permission: ${permission}`, 400, 'general_argument_invalid');
+  }
+
+  return { action: match[1], role: match[2] };
+}
+
+/**
+ * Validate a list of permission strings
+ *
+ * @throws AppwriteException (400) for the first invalid entry
+ */
+export function validatePermissions(permissions: string[]): string[] {
+  permissions.forEach(parsePermission);
+  return permissions;
+}
+
+/**
+ * Check whether any of the given roles is granted the action
+ * write() covers create, update and delete, as in Appwrite.
+ *
+ * @param roles - Role strings of the caller (see FakeAppwrite.getRoles)
+ */
+export function isPermitted(
+  permissions: string[],
+  action: PermissionAction,
+  roles: string[]
+): boolean {
+  return permissions.some((permission) => {
+    const parsed = parsePermission(permission);
+    const actionMatches = parsed.action === action || (parsed.action === 'write' && action !== 'read');
+    return actionMatches && roles.includes(parsed.role);
+  });
+}
@@ -0,0 +1,236 @@
+/**
+ * Query evaluation for the in-memory Appwrite fake
+ *
+ * Interprets the JSON strings produced by node-appwrite's Query helpers:
+ * filters (including or/and), ordering, limit/offset/cursor pagination and
+ * select. Unsupported methods fail like the real API does.
+ */
+
+import { AppwriteException } from 'node-appwrite';
+
+type QueryValue = string | number | boolean | null;
+
+interface ParsedQuery {
+  method: string;
+  attribute?: string;
+  values?: unknown[];
+}
+
+/**
+ * Any record with Appwrite-style $ metadata
+ */
+export type FakeRecord = { $id: string; $createdAt: string; $updatedAt: string } & Record<string, unknown>;
+
+/**
+ * Appwrite's default page size when no limit is given
+ */
+const DEFAULT_LIMIT = 25;
+
+/**
+ * Appwrite's largest accepted page size
+ */
+const MAX_LIMIT = 5000;
+
+function invalidQuery(message: string): AppwriteException {
+  return new AppwriteException(`Invalid query: ${message}`, 400, 'general_query_invalid');
+}
+
+function parseQuery(query: string | ParsedQuery): ParsedQuery {
+  if (typeof query !== 'string') {
+    return query;
+  }
+
+  try {
+    const parsed = JSON.parse(query) as ParsedQuery;
+    if (typeof parsed.method !== 'string') {
+      throw new Error('missing method');
+    }
+    return parsed;
+  } catch {
+    throw invalidQuery(`Syntax error in "${query}"`);
+  }
+}
+
+/**
+ * Compare two attribute values the way the database would
+ * Numbers compare numerically, everything else as strings (ISO dates sort correctly).
+ */
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : 1;
+}
+
+/**
+ * Array attributes match if any element matches
+ */
+function anyValue(value: unknown, test: (item: unknown) => boolean): boolean {
+  return Array.isArray(value) ? value.some(test) : test(value);
+}
+
+function requireAttribute(query: ParsedQuery): string {
+  if (!query.attribute) {
+    throw invalidQuery(`Attribute missing for ${query.method}`);
+  }
+  return query.attribute;
+}
+
+function matches(record: FakeRecord, query: ParsedQuery): boolean {
+  const values = (query.values ?? []) as QueryValue[];
+
+  switch (query.method) {
+    case 'or':
+      return (query.values as ParsedQuery[]).some((sub) => matches(record, sub));
+    case 'and':
+      return (query.values as ParsedQuery[]).every((sub) => matches(record, sub));
+    case 'createdBefore':
+      return compare(record.$createdAt, values[0]) < 0;
+    case 'createdAfter':
+      return compare(record.$createdAt, values[0]) > 0;
+    case 'createdBetween':
+      return compare(record.$createdAt, values[0]) >= 0 && compare(record.$createdAt, values[1]) <= 0;
+    case 'updatedBefore':
+      return compare(record.$updatedAt, values[0]) < 0;
+    case 'updatedAfter':
+      return compare(record.$updatedAt, values[0]) > 0;
+    case 'updatedBetween':
+      return compare(record.$updatedAt, values[0]) >= 0 && compare(record.$updatedAt, values[1]) <= 0;
+  }
+
+  const value = record[requireAttribute(query)];
+
+  switch (query.method) {
+    case 'equal':
+      return anyValue(value, (item) => values.some((candidate) => compare(item, candidate) === 0));
+    case 'notEqual':
+      return !anyValue(value, (item) => values.some((candidate) => compare(item, candidate) === 0));
+    case 'lessThan':
+      return anyValue(value, (item) => item != null && compare(item, values[0]) < 0);
+    case 'lessThanEqual':
+      return anyValue(value, (item) => item != null && compare(item, values[0]) <= 0);
+    case 'greaterThan':
+      return anyValue(value, (item) => item != null && compare(item, values[0]) > 0);
+    case 'greaterThanEqual':
+      return anyValue(value, (item) => item != null && compare(item, values[0]) >= 0);
+    case 'between':
+      return anyValue(value, (item) => compare(item, values[0]) >= 0 && compare(item, values[1]) <= 0);
+    case 'notBetween':
+      return !anyValue(value, (item) => compare(item, values[0]) >= 0 && compare(item, values[1]) <= 0);
+    case 'isNull':
+      return value === null || value === undefined;
+    case 'isNotNull':
+      return value !== null && value !== undefined;
+    case 'startsWith':
+      return anyValue(value, (item) => String(item ?? '').startsWith(String(values[0])));
+    case 'notStartsWith':
+      return !anyValue(value, (item) => String(item ?? '').startsWith(String(values[0])));
+    case 'endsWith':
+      return anyValue(value, (item) => String(item ?? '').endsWith(String(values[0])));
+    case 'notEndsWith':
+      return !anyValue(value, (item) => String(item ?? '').endsWith(String(values[0])));
+    case 'contains':
+      return Array.isArray(value)
+        ? values.some((candidate) => value.includes(candidate))
+        : values.some((candidate) => String(value ?? '').includes(String(candidate)));
+    case 'notContains':
+      return Array.isArray(value)
+        ? !values.some((candidate) => value.includes(candidate))
+        : !values.some((candidate) => String(value ?? '').includes(String(candidate)));
+    case 'search':
+    case 'notSearch': {
+      // Full-text search approximated as "every word occurs"
+      const text = String(value ?? '').toLowerCase();
+      const found = String(values[0] ?? '')
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(Boolean)
+        .every((word) => text.includes(word));
+      return query.method === 'search' ? found : !found;
+    }
+    default:
+      throw invalidQuery(`Unsupported method "${query.method}"`);
+  }
+}
+
+const PAGINATION_METHODS = new Set(['limit', 'offset', 'cursorAfter', 'cursorBefore']);
+const ORDER_METHODS = new Set(['orderAsc', 'orderDesc', 'orderRandom']);
+
+/**
+ * Apply queries to a collection
+ *
+ * @param records - All records in insertion order
+ * @returns The page of matching records and the total number of matches
+ */
+export function applyQueries<T extends FakeRecord>(
+  records: T[],
+  queries: (string | ParsedQuery)[] = []
+): { total: number; documents: T[] } {
+  const parsed = queries.map(parseQuery);
+
+  const filters = parsed.filter(
+    (query) => !PAGINATION_METHODS.has(query.method) && !ORDER_METHODS.has(query.method) && query.method !== 'select'
+  );
+  const orders = parsed.filter((query) => ORDER_METHODS.has(query.method));
+  const option = (method: string) => parsed.find((query) => query.method === method)?.values?.[0];
+
+  let result = records.filter((record) => filters.every((query) => matches(record, query)));
+
+  if (orders.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const order of orders) {
+        if (order.method === 'orderRandom') return Math.random() - 0.5;
+        const attribute = requireAttribute(order);
+        const difference = compare(a[attribute], b[attribute]);
+        if (difference !== 0) return order.method === 'orderAsc' ? difference : -difference;
+      }
+      return 0;
+    });
+  }
+
+  const total = result.length;
+
+  const cursorAfter = option('cursorAfter');
+  const cursorBefore = option('cursorBefore');
+  const cursor = cursorAfter ?? cursorBefore;
+
+  if (cursor !== undefined) {
+    const index = result.findIndex((record) => record.$id === cursor);
+    if (index === -1) {
+      throw invalidQuery(`Cursor "${String(cursor)}" not found`);
+    }
+    result = cursorAfter !== undefined ? result.slice(index + 1) : result.slice(0, index);
+  }
+
+  const limit = Number(option('limit') ?? DEFAULT_LIMIT);
+  const offset = Number(option('offset') ?? 0);
+
+  if (!Number.isInteger(limit) || limit < 0 || limit > MAX_LIMIT) {
+    throw invalidQuery(`Invalid limit ${limit}`);
+  }
+
+  // cursorBefore pages backwards from the cursor
+  if (cursorBefore !== undefined) {
+    const end = Math.max(0, result.length - offset);
+    result = result.slice(Math.max(0, end - limit), end);
+  } else {
+    result = result.slice(offset, offset + limit);
+  }
+
+  const select = parsed.find((query) => query.method === 'select')?.values as string[] | undefined;
+
+  if (select && !select.includes('*')) {
+    result = result.map((record) => {
+      const projected: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(record)) {
+        if (key.startsWith('$') || select.includes(key)) {
+          projected[key] = value;
+        }
+      }
+      return projected as T;
+    });
+  }
+
+  return { total, documents: result };
+}
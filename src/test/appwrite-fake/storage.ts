@@ -0,0 +1,154 @@
+/**
+ * In-memory stand-in for the Appwrite Storage service
+ *
+ * Buckets declared with createBucket enforce their size and extension
+ * limits; undeclared buckets are created on first upload without limits.
+ */
+
+import { createHash } from 'node:crypto';
+import { AppwriteException, type Models } from 'node-appwrite';
+import { clone, notFound, resolveId, timestamp } from '@/test/appwrite-fake/helpers';
+import { validatePermissions } from '@/test/appwrite-fake/permissions';
+import { applyQueries, type FakeRecord } from '@/test/appwrite-fake/query';
+
+interface FakeBucket {
+  $id: string;
+  name: string;
+  maximumFileSize?: number;
+  allowedFileExtensions: string[];
+  files: Map<string, { file: Models.File; content: ArrayBuffer }>;
+}
+
+export class FakeStorage {
+  private buckets = new Map<string, FakeBucket>();
+
+  private bucket(bucketId: string): FakeBucket {
+    let bucket = this.buckets.get(bucketId);
+
+    if (!bucket) {
+      bucket = { $id: bucketId, name: bucketId, allowedFileExtensions: [], files: new Map() };
+      this.buckets.set(bucketId, bucket);
+    }
+
+    return bucket;
+  }
+
+  private findFile(bucketId: string, fileId: string): { file: Models.File; content: ArrayBuffer } {
+    const stored = this.bucket(bucketId).files.get(fileId);
+
+    if (!stored) {
+      throw notFound('storage_file_not_found', 'The requested file could not be found.');
+    }
+
+    return stored;
+  }
+
+  async createBucket(
+    bucketId: string,
+    name: string,
+    _permissions?: string[],
+    _fileSecurity?: boolean,
+    _enabled?: boolean,
+    maximumFileSize?: number,
+    allowedFileExtensions: string[] = []
+  ): Promise<{ $id: string; name: string }> {
+    this.buckets.set(bucketId, {
+      $id: bucketId,
+      name,
+      maximumFileSize,
+      allowedFileExtensions: allowedFileExtensions.map((extension) => extension.toLowerCase()),
+      files: this.buckets.get(bucketId)?.files ?? new Map(),
+    });
+
+    return { $id: bucketId, name };
+  }
+
+  async createFile(
+    bucketId: string,
+    fileId: string,
+    file: File,
+    permissions: string[] = []
+  ): Promise<Models.File> {
+    const bucket = this.bucket(bucketId);
+    const id = resolveId(fileId);
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+
+    if (bucket.maximumFileSize !== undefined && file.size > bucket.maximumFileSize) {
+      throw new AppwriteException('File size not allowed', 400, 'storage_invalid_file_size');
+    }
+
+    if (bucket.allowedFileExtensions.length > 0 && !bucket.allowedFileExtensions.includes(extension)) {
+      throw new AppwriteException('File extension not allowed', 400, 'storage_file_type_unsupported');
+    }
+
+    if (bucket.files.has(id)) {
+      throw new AppwriteException('A file with the requested ID already exists.', 409, 'storage_file_already_exists');
+    }
+
+    const content = await file.arrayBuffer();
+    const now = timestamp();
+    const stored: Models.File = {
+      $id: id,
+      bucketId,
+      $createdAt: now,
+      $updatedAt: now,
+      $permissions: [...validatePermissions(permissions)],
+      name: file.name,
+      signature: createHash('md5').update(Buffer.from(content)).digest('hex'),
+      mimeType: file.type || 'application/octet-stream',
+      sizeOriginal: file.size,
+      chunksTotal: 1,
+      chunksUploaded: 1,
+    };
+
+    bucket.files.set(id, { file: stored, content });
+    return clone(stored);
+  }
+
+  async getFile(bucketId: string, fileId: string): Promise<Models.File> {
+    return clone(this.findFile(bucketId, fileId).file);
+  }
+
+  async listFiles(bucketId: string, queries: string[] = [], search?: string): Promise<Models.FileList> {
+    let files = [...this.bucket(bucketId).files.values()].map(({ file }) => file);
+
+    if (search) {
+      files = files.filter((file) => file.name.toLowerCase().includes(search.toLowerCase()));
+    }
+
+    const result = applyQueries(files as unknown as FakeRecord[], queries);
+    return { total: result.total, files: clone(result.documents) as unknown as Models.File[] };
+  }
+
+  async updateFile(
+    bucketId: string,
+    fileId: string,
+    name?: string,
+    permissions?: string[]
+  ): Promise<Models.File> {
+    const stored = this.findFile(bucketId, fileId);
+
+    stored.file = {
+      ...stored.file,
+      name: name ?? stored.file.name,
+      $permissions: permissions ? [...validatePermissions(permissions)] : stored.file.$permissions,
+      $updatedAt: timestamp(),
+    };
+
+    return clone(stored.file);
+  }
+
+  async deleteFile(bucketId: string, fileId: string): Promise<object> {
+    this.findFile(bucketId, fileId);
+    this.bucket(bucketId).files.delete(fileId);
+    return {};
+  }
+
+  async getFileDownload(bucketId: string, fileId: string): Promise<ArrayBuffer> {
+    return this.findFile(bucketId, fileId).content.slice(0);
+  }
+
+  async getFileView(bucketId: string, fileId: string): Promise<ArrayBuffer> {
+    return this.findFile(bucketId, fileId).content.slice(0);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * In-memory stand-in for the Appwrite Teams service
+ *
+ * Memberships created here behave like those created with an API key:
+ * existing users are confirmed immediately.
+ */
+
+import { AppwriteException, type Models } from 'node-appwrite';
+import { clone, conflict, notFound, resolveId, timestamp } from '@/test/appwrite-fake/helpers';
+import { applyQueries, type FakeRecord } from '@/test/appwrite-fake/query';
+import { type FakeUsers } from '@/test/appwrite-fake/users';
+
+export class FakeTeams {
+  private teams = new Map<string, Models.Team<Models.Preferences>>();
+  private memberships = new Map<string, Models.Membership>();
+
+  constructor(private readonly users: FakeUsers) {
+    users.onDelete = (userId) => {
+      for (const membership of [...this.memberships.values()]) {
+        if (membership.userId === userId) {
+          this.removeMembership(membership);
+        }
+      }
+    };
+  }
+
+  private findTeam(teamId: string): Models.Team<Models.Preferences> {
+    const team = this.teams.get(teamId);
+
+    if (!team) {
+      throw notFound('team_not_found', 'Team with the requested ID could not be found.');
+    }
+
+    return team;
+  }
+
+  private findMembership(teamId: string, membershipId: string): Models.Membership {
+    const membership = this.memberships.get(membershipId);
+
+    if (!membership || membership.teamId !== teamId) {
+      throw notFound('membership_not_found', 'Membership with the requested ID could not be found.');
+    }
+
+    return membership;
+  }
+
+  private removeMembership(membership: Models.Membership): void {
+    this.memberships.delete(membership.$id);
+
+    const team = this.teams.get(membership.teamId);
+    if (team) {
+      this.teams.set(team.$id, { ...team, total: team.total - 1 });
+    }
+  }
+
+  async create(teamId: string, name: string): Promise<Models.Team<Models.Preferences>> {
+    const id = resolveId(teamId);
+
+    if (this.teams.has(id)) {
+      throw conflict('team_already_exists', 'Team with the requested ID already exists.');
+    }
+
+    const now = timestamp();
+    const team: Models.Team<Models.Preferences> = {
+      $id: id,
+      $createdAt: now,
+      $updatedAt: now,
+      name,
+      total: 0,
+      prefs: {} as Models.Preferences,
+    };
+
+    this.teams.set(id, team);
+    return clone(team);
+  }
+
+  async get(teamId: string): Promise<Models.Team<Models.Preferences>> {
+    return clone(this.findTeam(teamId));
+  }
+
+  async delete(teamId: string): Promise<object> {
+    this.findTeam(teamId);
+
+    for (const membership of [...this.memberships.values()]) {
+      if (membership.teamId === teamId) {
+        this.memberships.delete(membership.$id);
+      }
+    }
+
+    this.teams.delete(teamId);
+    return {};
+  }
+
+  async createMembership(
+    teamId: string,
+    roles: string[],
+    email?: string,
+    userId?: string
+  ): Promise<Models.Membership> {
+    const team = this.findTeam(teamId);
+
+    if (!userId) {
+      // Invitations by email need the user to accept - not modelled
+      throw new AppwriteException('The fake only supports memberships for existing users', 400, 'general_argument_invalid');
+    }
+
+    const user = await this.users.get(userId);
+
+    if ([...this.memberships.values()].some((m) => m.teamId === teamId && m.userId === userId)) {
+      throw conflict('membership_already_confirmed', 'Membership is already confirmed.');
+    }
+
+    const now = timestamp();
+    const membership: Models.Membership = {
+      $id: resolveId('unique()'),
+      $createdAt: now,
+      $updatedAt: now,
+      userId: user.$id,
+      userName: user.name,
+      userEmail: email ?? user.email,
+      teamId,
+      teamName: team.name,
+      invited: now,
+      joined: now,
+      confirm: true,
+      mfa: false,
+      roles: [...roles],
+    };
+
+    this.memberships.set(membership.$id, membership);
+    this.teams.set(teamId, { ...team, total: team.total + 1 });
+
+    return clone(membership);
+  }
+
+  async getMembership(teamId: string, membershipId: string): Promise<Models.Membership> {
+    return clone(this.findMembership(teamId, membershipId));
+  }
+
+  async listMemberships(teamId: string, queries: string[] = [], search?: string): Promise<Models.MembershipList> {
+    this.findTeam(teamId);
+
+    let memberships = [...this.memberships.values()].filter((membership) => membership.teamId === teamId);
+
+    if (search) {
+      const term = search.toLowerCase();
+      memberships = memberships.filter(
+        (membership) =>
+          membership.userName.toLowerCase().includes(term) || membership.userEmail.includes(term)
+      );
+    }
+
+    const result = applyQueries(memberships as unknown as FakeRecord[], queries);
+    return { total: result.total, memberships: clone(result.documents) as unknown as Models.Membership[] };
+  }
+
+  async updateMembership(teamId: string, membershipId: string, roles: string[]): Promise<Models.Membership> {
+    const membership = { ...this.findMembership(teamId, membershipId), roles: [...roles], $updatedAt: timestamp() };
+    this.memberships.set(membershipId, membership);
+    return clone(membership);
+  }
+
+  async deleteMembership(teamId: string, membershipId: string): Promise<object> {
+    this.removeMembership(this.findMembership(teamId, membershipId));
+    return {};
+  }
+
+  /**
+   * Memberships of a user across all teams (used to derive permission roles)
+   */
+  membershipsOf(userId: string): Models.Membership[] {
+    return [...this.memberships.values()].filter((membership) => membership.userId === userId).map(clone);
+  }
+}
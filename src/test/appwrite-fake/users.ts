@@ -0,0 +1,128 @@
+/**
+ * In-memory stand-in for the Appwrite Users service
+ */
+
+import { type Models } from 'node-appwrite';
+import { clone, conflict, notFound, resolveId, timestamp } from '@/test/appwrite-fake/helpers';
+import { applyQueries, type FakeRecord } from '@/test/appwrite-fake/query';
+
+export class FakeUsers {
+  private users = new Map<string, Models.User<Models.Preferences>>();
+
+  /**
+   * Called when a user is deleted, so teams can drop the user's memberships
+   */
+  onDelete?: (userId: string) => void;
+
+  private findUser(userId: string): Models.User<Models.Preferences> {
+    const user = this.users.get(userId);
+
+    if (!user) {
+      throw notFound('user_not_found', 'User with the requested ID could not be found.');
+    }
+
+    return user;
+  }
+
+  private update(userId: string, changes: Partial<Models.User<Models.Preferences>>): Models.User<Models.Preferences> {
+    const user = { ...this.findUser(userId), ...changes, $updatedAt: timestamp() };
+    this.users.set(userId, user);
+    return clone(user);
+  }
+
+  async create(
+    userId: string,
+    email?: string,
+    phone?: string,
+    _password?: string,
+    name?: string
+  ): Promise<Models.User<Models.Preferences>> {
+    const id = resolveId(userId);
+    const normalizedEmail = email?.toLowerCase() ?? '';
+
+    for (const existing of this.users.values()) {
+      if (existing.$id === id || (normalizedEmail && existing.email === normalizedEmail)) {
+        throw conflict('user_already_exists', 'A user with the same id, email, or phone already exists in this project.');
+      }
+    }
+
+    const now = timestamp();
+    const user: Models.User<Models.Preferences> = {
+      $id: id,
+      $createdAt: now,
+      $updatedAt: now,
+      name: name ?? '',
+      registration: now,
+      status: true,
+      labels: [],
+      passwordUpdate: now,
+      email: normalizedEmail,
+      phone: phone ?? '',
+      emailVerification: false,
+      phoneVerification: false,
+      mfa: false,
+      prefs: {} as Models.Preferences,
+      targets: [],
+      accessedAt: now,
+    };
+
+    this.users.set(id, user);
+    return clone(user);
+  }
+
+  async get(userId: string): Promise<Models.User<Models.Preferences>> {
+    return clone(this.findUser(userId));
+  }
+
+  async list(queries: string[] = [], search?: string): Promise<Models.UserList<Models.Preferences>> {
+    let users = [...this.users.values()];
+
+    if (search) {
+      const term = search.toLowerCase();
+      users = users.filter((user) => user.name.toLowerCase().includes(term) || user.email.includes(term));
+    }
+
+    const result = applyQueries(users as unknown as FakeRecord[], queries);
+    return { total: result.total, users: clone(result.documents) as unknown as Models.User<Models.Preferences>[] };
+  }
+
+  async delete(userId: string): Promise<object> {
+    this.findUser(userId);
+    this.users.delete(userId);
+    this.onDelete?.(userId);
+    return {};
+  }
+
+  async updateLabels(userId: string, labels: string[]): Promise<Models.User<Models.Preferences>> {
+    return this.update(userId, { labels: [...new Set(labels)] });
+  }
+
+  async updateStatus(userId: string, status: boolean): Promise<Models.User<Models.Preferences>> {
+    return this.update(userId, { status });
+  }
+
+  async updateEmailVerification(
+    userId: string,
+    emailVerification: boolean
+  ): Promise<Models.User<Models.Preferences>> {
+    return this.update(userId, { emailVerification });
+  }
+
+  /**
+   * Sessions are not modelled - only checks that the user exists
+   */
+  async deleteSession(userId: string, sessionId: string): Promise<object> {
+    this.findUser(userId);
+
+    if (!sessionId) {
+      throw notFound('user_session_not_found', 'The current user session could not be found.');
+    }
+
+    return {};
+  }
+
+  async deleteSessions(userId: string): Promise<object> {
+    this.findUser(userId);
+    return {};
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Fake Appwrite project and request context for tests
+ *
+ * The test setup (src/test/setup.ts) replaces the services exported by
+ * src/lib/server/appwrite.ts with forwarders to the current fake project
+ * and getTenantContext() with the context set here, so Server Actions run
+ * end to end without a live Appwrite instance or a request.
+ *
+ * @example
+ * ```typescript
+ * beforeEach(async () => {
+ *   resetFakeAppwrite();
+ *   tenant = await createTestTenant();
+ *   setTenantContext(tenant.contexts.advisor);
+ * });
+ * ```
+ */
+
+import { type Databases, type Messaging, type Storage, type Teams, type Users } from 'node-appwrite';
+import { UnauthenticatedError } from '@/lib/server/errors';
+import { createFakeAppwrite, type FakeAppwrite } from '@/test/appwrite-fake';
+import { type TenantContext } from '@/types/user';
+
+let appwrite = createFakeAppwrite();
+let tenantContext: TenantContext | null = null;
+
+/**
+ * The fake project the services currently forward to
+ */
+export function getFakeAppwrite(): FakeAppwrite {
+  return appwrite;
+}
+
+/**
+ * Start over with an empty fake project and no signed-in user
+ */
+export function resetFakeAppwrite(): FakeAppwrite {
+  appwrite = createFakeAppwrite();
+  tenantContext = null;
+  return appwrite;
+}
+
+/**
+ * Act as the given user in the following Server Action calls
+ */
+export function setTenantContext(context: TenantContext | null): void {
+  tenantContext = context;
+}
+
+/**
+ * Stand-in for getTenantContext()
+ *
+ * @throws UnauthenticatedError if no context is set, like a request without session
+ */
+export async function getTestTenantContext(): Promise<TenantContext> {
+  if (!tenantContext) {
+    throw new UnauthenticatedError();
+  }
+
+  return tenantContext;
+}
+
+/**
+ * Forward every property access to the service of the current fake project,
+ * so modules that imported the service keep working after a reset
+ */
+function forward<T extends object>(getService: (fake: FakeAppwrite) => object): T {
+  return new Proxy({} as T, {
+    get(_, property) {
+      const service = getService(appwrite) as Record<string | symbol, unknown>;
+      const value = service[property];
+      return typeof value === 'function' ? value.bind(service) : value;
+    },
+  });
+}
+
+export const fakeServices = {
+  databases: forward<Databases>((fake) => fake.databases),
+  storage: forward<Storage>((fake) => fake.storage),
+  users: forward<Users>((fake) => fake.users),
+  teams: forward<Teams>((fake) => fake.teams),
+  messaging: forward<Messaging>((fake) => fake.messaging),
+};
@@ -0,0 +1,214 @@
+/**
+ * Test data in the fake Appwrite project
+ *
+ * A tenant comes with its Appwrite team, the advisor firm, two client
+ * organizations and one user per role - stored the way registration and
+ * the repositories store them, permissions included.
+ */
+
+import { ID, type Models } from 'node-appwrite';
+import { BUCKETS, COLLECTIONS, DATABASE_ID } from '@/lib/server/appwrite';
+import { getRecordPermissions } from '@/lib/server/repositories';
+import { getFakeAppwrite } from '@/test/appwrite';
+import { type Checklist, type ChecklistItem, type ChecklistItemStatus } from '@/types/checklist';
+import { type Document, type DocumentStatus } from '@/types/document';
+import { type Organization, type OrganizationType } from '@/types/organization';
+import { type TenantContext, type User, type UserRole } from '@/types/user';
+
+export interface TestTenant {
+  tenantId: string;
+  teamId: string;
+  subdomain: string;
+  organizations: { advisor: string; client: string; otherClient: string };
+  /**
+   * Contexts as getTenantContext() returns them for each user
+   */
+  contexts: {
+    owner: TenantContext;
+    advisor: TenantContext;
+    clientAdmin: TenantContext;
+    clientEmployee: TenantContext;
+    otherClient: TenantContext;
+  };
+  /**
+   * Appwrite account IDs by user record ID
+   */
+  accounts: Record<string, string>;
+}
+
+/**
+ * Create a tenant with its organizations and users
+ */
+export async function createTestTenant(subdomain = 'kanzlei'): Promise<TestTenant> {
+  const { databases, teams } = getFakeAppwrite();
+  const team = await teams.create(ID.unique(), subdomain);
+
+  const tenant = await databases.createDocument(DATABASE_ID, COLLECTIONS.tenants, ID.unique(), {
+    team_id: team.$id,
+    subdomain,
+    name: `Kanzlei ${subdomain}`,
+    owner_email: `owner@${subdomain}.test`,
+    status: 'active',
+  });
+
+  const base = { tenantId: tenant.$id, teamId: team.$id, subdomain };
+  const accounts: Record<string, string> = {};
+
+  async function createOrganization(name: string, type: OrganizationType): Promise<string> {
+    const id = ID.unique();
+    const organization: Omit<Organization, '$id' | '$createdAt' | '$updatedAt'> = {
+      tenant_id: tenant.$id,
+      type,
+      name,
+      contact_email: `kontakt@${id}.test`,
+      status: 'active',
+    };
+
+    await databases.createDocument(
+      DATABASE_ID,
+      COLLECTIONS.organizations,
+      id,
+      organization,
+      getRecordPermissions({ ...base, userId: '', organizationId: id, role: 'owner' }, id)
+    );
+
+    return id;
+  }
+
+  async function createUser(name: string, role: UserRole, organizationId: string): Promise<TenantContext> {
+    const email = `${name}@${subdomain}.test`;
+    const account = await getFakeAppwrite().users.create(ID.unique(), email, undefined, undefined, name);
+    await teams.createMembership(team.$id, [role], undefined, account.$id);
+
+    const user: Omit<User, '$id' | '$createdAt' | '$updatedAt'> = {
+      tenant_id: tenant.$id,
+      organization_id: organizationId,
+      appwrite_user_id: account.$id,
+      role,
+      first_name: name,
+      last_name: 'Test',
+      email,
+      status: 'active',
+    };
+
+    const record = await databases.createDocument(DATABASE_ID, COLLECTIONS.users, ID.unique(), user);
+    accounts[record.$id] = account.$id;
+
+    return { ...base, userId: record.$id, organizationId, role };
+  }
+
+  const organizations = {
+    advisor: await createOrganization(`Kanzlei ${subdomain}`, 'advisor'),
+    client: await createOrganization('Müller GmbH', 'client'),
+    otherClient: await createOrganization('Schmidt KG', 'client'),
+  };
+
+  return {
+    ...base,
+    organizations,
+    contexts: {
+      owner: await createUser('owner', 'owner', organizations.advisor),
+      advisor: await createUser('advisor', 'advisor', organizations.advisor),
+      clientAdmin: await createUser('client-admin', 'client_admin', organizations.client),
+      clientEmployee: await createUser('client-employee', 'client_employee', organizations.client),
+      otherClient: await createUser('other-client', 'client_admin', organizations.otherClient),
+    },
+    accounts,
+  };
+}
+
+/**
+ * Store a checklist with items directly, bypassing the lifecycle rules
+ */
+export async function createTestChecklist(
+  context: TenantContext,
+  organizationId: string,
+  options: { status?: Checklist['status']; items?: ChecklistItemStatus[]; requiresDocument?: boolean } = {}
+): Promise<{ checklist: Checklist; items: ChecklistItem[] }> {
+  const { databases } = getFakeAppwrite();
+  const statuses = options.items ?? ['red'];
+  const permissions = getRecordPermissions(context, organizationId);
+
+  const checklist = await databases.createDocument<Checklist & Models.Document>(
+    DATABASE_ID,
+    COLLECTIONS.checklists,
+    ID.unique(),
+    {
+      tenant_id: context.tenantId,
+      organization_id: organizationId,
+      title: 'Jahresabschluss 2025',
+      status: options.status ?? 'draft',
+      total_items: statuses.length,
+      completed_items: statuses.filter((status) => status === 'green').length,
+    },
+    permissions
+  );
+
+  const items = [];
+
+  for (const [position, status] of statuses.entries()) {
+    items.push(
+      await databases.createDocument<ChecklistItem & Models.Document>(
+        DATABASE_ID,
+        COLLECTIONS.checklistItems,
+        ID.unique(),
+        {
+          tenant_id: context.tenantId,
+          organization_id: organizationId,
+          checklist_id: checklist.$id,
+          title: `Punkt ${position + 1}`,
+          status,
+          position,
+          requires_document: options.requiresDocument ?? false,
+        },
+        permissions
+      )
+    );
+  }
+
+  return { checklist, items };
+}
+
+/**
+ * Store an uploaded PDF with its document record for a checklist item
+ *
+ * @param options.replaces - Store the file as the next version of this document
+ */
+export async function createTestDocument(
+  context: TenantContext,
+  item: ChecklistItem,
+  options: { status?: DocumentStatus; content?: string; replaces?: Document } = {}
+): Promise<Document> {
+  const { databases, storage } = getFakeAppwrite();
+  const permissions = getRecordPermissions(context, item.organization_id);
+  const content = options.content ?? '%PDF-1.4\n%%EOF\n';
+
+  await storage.createBucket(BUCKETS.documents, 'Documents');
+  const file = await storage.createFile(
+    BUCKETS.documents,
+    ID.unique(),
+    new File([content], 'beleg.pdf', { type: 'application/pdf' }),
+    permissions
+  );
+
+  return databases.createDocument<Document & Models.Document>(
+    DATABASE_ID,
+    COLLECTIONS.documents,
+    ID.unique(),
+    {
+      tenant_id: context.tenantId,
+      organization_id: item.organization_id,
+      checklist_id: item.checklist_id,
+      checklist_item_id: item.$id,
+      uploaded_by: context.userId,
+      slot_id: options.replaces?.slot_id ?? ID.unique(),
+      version: (options.replaces?.version ?? 0) + 1,
+      file_id: file.$id,
+      file_name: file.name,
+      file_size: file.sizeOriginal,
+      mime_type: file.mimeType,
+      status: options.status ?? 'pending',
+    },
+    permissions
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Test setup: no test talks to Appwrite or needs a request
+ *
+ * - src/lib/server/appwrite.ts: services forward to the fake project of
+ *   src/test/appwrite.ts, IDs and helpers stay as they are
+ * - getTenantContext(): returns the context set with setTenantContext()
+ * - next/cache: revalidation is a no-op outside of Next.js
+ */
+
+import { vi } from 'vitest';
+
+vi.mock('@/lib/server/appwrite', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/server/appwrite')>()),
+  ...(await import('@/test/appwrite')).fakeServices,
+}));
+
+vi.mock('@/lib/server/tenant', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/server/tenant')>()),
+  getTenantContext: (await import('@/test/appwrite')).getTestTenantContext,
+}));
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+  revalidateTag: vi.fn(),
+}));
@@ -0,0 +1,10 @@
+/**
+ * Server Action result types
+ *
+ * Server Actions return results instead of throwing for expected failures
+ * (validation, conflicts), so forms can render the error message.
+ */
+
+export type ActionResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: string; fieldErrors?: Record<string, string> };
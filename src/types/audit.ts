@@ -0,0 +1,79 @@
+/**
+ * Audit Log Types
+ *
+ * Audit entries record who did what to which resource, including rejected
+ * attempts. They are written by the server and never changed afterwards.
+ */
+
+/**
+ * Audit action enum
+ * - status_change: a checklist moved through its lifecycle
+ * - status_change_rejected: an invalid lifecycle transition was attempted
+ * - upload_rejected: an uploaded file failed the content or malware checks
+ * - review: an advisor accepted or rejected a document
+ */
+export type AuditAction =
+  | 'login'
+  | 'logout'
+  | 'upload'
+  | 'download'
+  | 'delete'
+  | 'export'
+  | 'invite'
+  | 'view'
+  | 'status_change'
+  | 'status_change_rejected'
+  | 'upload_rejected'
+  | 'review';
+
+/**
+ * Audit log interface matching Appwrite collection schema
+ */
+export interface AuditLog {
+  /**
+   * Appwrite Document ID
+   */
+  $id: string;
+
+  /**
+   * Foreign key to tenants collection
+   */
+  tenant_id: string;
+
+  /**
+   * Foreign key to organizations collection
+   * The organization the resource belongs to
+   */
+  organization_id: string;
+
+  /**
+   * Foreign key to users collection
+   * The user who performed the action
+   */
+  user_id: string;
+
+  /**
+   * What happened
+   */
+  action: AuditAction;
+
+  /**
+   * Type of resource, e.g. "checklist", "document"
+   */
+  resource_type: string;
+
+  /**
+   * Resource ID - optional
+   */
+  resource_id?: string;
+
+  /**
+   * Additional details as JSON string (max 2000 characters) - optional
+   */
+  metadata?: string;
+
+  /**
+   * Appwrite creation timestamp (ISO 8601)
+   */
+  $createdAt: string;
+}
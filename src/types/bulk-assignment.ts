@@ -0,0 +1,167 @@
+/**
+ * Bulk Assignment Types
+ *
+ * A bulk assignment creates the same checklist for many client
+ * organizations. The target organizations are fixed when it starts and
+ * processed in batches, so progress can be shown and an interrupted run
+ * can be continued.
+ */
+
+/**
+ * What the checklists are created from
+ * - template: a built-in or tenant template (placeholders are filled per organization)
+ * - checklist: an existing checklist, copied with its items
+ */
+export type BulkAssignmentSourceType = 'template' | 'checklist';
+
+/**
+ * Bulk assignment status enum
+ */
+export type BulkAssignmentStatus = 'running' | 'completed';
+
+/**
+ * Organization that could not be assigned
+ */
+export interface BulkAssignmentFailure {
+  organization_id: string;
+  organization_name?: string;
+  error: string;
+}
+
+/**
+ * Bulk assignment interface matching Appwrite collection schema
+ */
+export interface BulkAssignment {
+  /**
+   * Appwrite Document ID
+   */
+  $id: string;
+
+  /**
+   * Foreign key to tenants collection
+   */
+  tenant_id: string;
+
+  /**
+   * Source type
+   */
+  source_type: BulkAssignmentSourceType;
+
+  /**
+   * Template ID or checklist ID
+   */
+  source_id: string;
+
+  /**
+   * Values for {{jahr}} / {{monat}} (templates only) - optional
+   */
+  year?: number;
+  month?: number;
+
+  /**
+   * Due date of the created checklists (ISO 8601) - optional
+   */
+  due_date?: string;
+
+  /**
+   * Whether the created checklists are activated right away
+   */
+  activate: boolean;
+
+  /**
+   * Target organizations as JSON array of IDs, fixed at the start
+   */
+  organization_ids: string;
+
+  /**
+   * Bulk assignment status
+   */
+  status: BulkAssignmentStatus;
+
+  /**
+   * Number of target organizations
+   */
+  total: number;
+
+  /**
+   * Number of organizations handled so far (created, skipped or failed)
+   */
+  processed: number;
+
+  /**
+   * Number of checklists created
+   */
+  created: number;
+
+  /**
+   * Number of organizations that already had the checklist
+   */
+  skipped: number;
+
+  /**
+   * Failed organizations as JSON array of BulkAssignmentFailure
+   */
+  failures: string;
+
+  /**
+   * Random token of the request that last claimed the next batch - optional
+   */
+  batch_claim?: string;
+
+  /**
+   * Foreign key to users collection - who started the assignment
+   */
+  created_by: string;
+
+  /**
+   * Appwrite creation timestamp (ISO 8601)
+   */
+  $createdAt: string;
+
+  /**
+   * Appwrite update timestamp (ISO 8601)
+   */
+  $updatedAt: string;
+}
+
+/**
+ * Which client organizations to assign to
+ * Only active client organizations are ever included.
+ */
+export interface BulkAssignmentFilter {
+  /**
+   * Restrict to these organizations - optional
+   */
+  organizationIds?: string[];
+
+  /**
+   * Part of the organization name - optional
+   */
+  search?: string;
+}
+
+/**
+ * Input for starting a bulk assignment
+ */
+export interface StartBulkAssignmentInput {
+  source_type: BulkAssignmentSourceType;
+  source_id: string;
+  filter: BulkAssignmentFilter;
+  year?: number;
+  month?: number;
+  due_date?: string;
+  activate?: boolean;
+}
+
+/**
+ * Progress of a bulk assignment as shown in the UI
+ */
+export interface BulkAssignmentProgress {
+  id: string;
+  status: BulkAssignmentStatus;
+  total: number;
+  processed: number;
+  created: number;
+  skipped: number;
+  failures: BulkAssignmentFailure[];
+}
@@ -4,6 +4,8 @@
  * Checklists are assigned to client organizations and contain items with traffic light status.
  */
 
+import { type GermanState } from '@/types/organization';
+
 /**
  * Checklist status enum
  */
@@ -14,6 +16,11 @@ export type ChecklistStatus = 'draft' | 'active' | 'completed' | 'archived';
  */
 export type ChecklistItemStatus = 'red' | 'yellow' | 'green';
 
+/**
+ * Recurrence of a checklist - the period each instance covers
+ */
+export type ChecklistRecurrence = 'monthly' | 'quarterly' | 'yearly';
+
 /**
  * Checklist interface matching Appwrite collection schema
  */
@@ -66,6 +73,73 @@ export interface Checklist {
    */
   due_date?: string;
 
+  /**
+   * Whether completion waits for the advisor's confirmation
+   * Otherwise the checklist completes as soon as all items are green.
+   */
+  requires_confirmation?: boolean;
+
+  /**
+   * Time of the last completion (ISO 8601) - optional
+   */
+  completed_at?: string;
+
+  /**
+   * Template version the checklist was created from - optional
+   * Points at the version, so later template edits don't affect it.
+   */
+  template_id?: string;
+
+  /**
+   * Version number of that template - optional
+   */
+  template_version?: number;
+
+  /**
+   * Idempotency key of the bulk assignment that created the checklist - optional
+   * Built from source, period and organization, with a unique index
+   * (see src/lib/server/bulk-assignments.ts)
+   */
+  assignment_key?: string;
+
+  /**
+   * Bulk assignment that created the checklist - optional
+   */
+  bulk_assignment_id?: string;
+
+  /**
+   * Recurrence rule - optional
+   * Only the rule of the newest instance of a series is applied; null there
+   * ends the series.
+   */
+  recurrence?: ChecklistRecurrence | null;
+
+  /**
+   * Day of the month after the period on which instances are due (1-31)
+   * Shifted to the next working day (see src/lib/holidays.ts).
+   */
+  recurrence_due_day?: number;
+
+  /**
+   * Federal state whose public holidays shift the due date - optional
+   */
+  recurrence_state?: GermanState;
+
+  /**
+   * ID of the first checklist of a recurring series - shared by all instances
+   */
+  series_id?: string;
+
+  /**
+   * First day of the period the instance covers (YYYY-MM-DD)
+   */
+  period_start?: string;
+
+  /**
+   * ID of the following instance, once it has been generated - optional
+   */
+  next_instance_id?: string;
+
   /**
    * Appwrite creation timestamp (ISO 8601)
    */
@@ -86,6 +160,18 @@ export interface ChecklistItem {
    */
   $id: string;
 
+  /**
+   * Foreign key to tenants collection
+   * Copied from the checklist for data isolation
+   */
+  tenant_id: string;
+
+  /**
+   * Foreign key to organizations collection
+   * Copied from the checklist for data isolation
+   */
+  organization_id: string;
+
   /**
    * Foreign key to checklists collection
    */
@@ -159,10 +245,99 @@ export type UpdateChecklistItem = Partial<
   $id: string;
 };
 
+/**
+ * Input for creating a checklist - tenant and counters are set by the server
+ * New checklists always start as drafts.
+ */
+export type CreateChecklistInput = Omit<
+  CreateChecklist,
+  | 'tenant_id'
+  | 'status'
+  | 'completed_at'
+  | 'template_id'
+  | 'template_version'
+  | 'assignment_key'
+  | 'bulk_assignment_id'
+  | keyof ChecklistRecurrenceFields
+  | 'next_instance_id'
+>;
+
+/**
+ * Input for updating a checklist - organization and counters cannot be changed,
+ * the status only through a lifecycle transition
+ */
+export type UpdateChecklistInput = Partial<
+  Pick<Checklist, 'title' | 'description' | 'due_date' | 'requires_confirmation'>
+> & {
+  $id: string;
+};
+
+/**
+ * Input for creating a checklist item - tenant and organization come from the checklist
+ * New items start red and are appended unless a position is given.
+ */
+export type CreateChecklistItemInput = Pick<
+  CreateChecklistItem,
+  'checklist_id' | 'title' | 'description'
+> &
+  Partial<Pick<CreateChecklistItem, 'status' | 'position' | 'requires_document'>>;
+
+/**
+ * Input for updating a checklist item - it cannot be moved to another checklist
+ */
+export type UpdateChecklistItemInput = Omit<
+  UpdateChecklistItem,
+  'tenant_id' | 'organization_id' | 'checklist_id'
+>;
+
+/**
+ * Checklist lifecycle transitions (see src/lib/checklist-lifecycle.ts)
+ */
+export type ChecklistTransition = 'activate' | 'complete' | 'reopen' | 'archive';
+
+/**
+ * Recurrence fields carried over from one instance to the next
+ */
+export type ChecklistRecurrenceFields = Pick<
+  Checklist,
+  'recurrence' | 'recurrence_due_day' | 'recurrence_state' | 'series_id' | 'period_start'
+>;
+
+/**
+ * Input for setting or ending the recurrence of a checklist
+ */
+export interface ChecklistRecurrenceInput {
+  $id: string;
+  /**
+   * null ends the series after this instance
+   */
+  recurrence: ChecklistRecurrence | null;
+  due_day?: number;
+  state?: GermanState;
+  /**
+   * Any date within the period this checklist covers
+   */
+  period_start?: string;
+}
+
+/**
+ * Input for changing a checklist's status
+ */
+export interface ChecklistTransitionInput {
+  $id: string;
+  transition: ChecklistTransition;
+  /**
+   * Required when reopening a completed checklist
+   */
+  reason?: string;
+}
+
 /**
  * Helper function to calculate checklist progress percentage
  */
-export function calculateProgress(checklist: Checklist): number {
+export function calculateProgress(
+  checklist: Pick<Checklist, 'total_items' | 'completed_items'>
+): number {
   if (checklist.total_items === 0) return 0;
   return Math.round((checklist.completed_items / checklist.total_items) * 100);
 }
@@ -170,6 +345,8 @@ export function calculateProgress(checklist: Checklist): number {
 /**
  * Helper function to determine if all items are complete
  */
-export function isChecklistComplete(checklist: Checklist): boolean {
+export function isChecklistComplete(
+  checklist: Pick<Checklist, 'total_items' | 'completed_items'>
+): boolean {
   return checklist.total_items > 0 && checklist.completed_items === checklist.total_items;
 }
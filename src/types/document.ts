@@ -0,0 +1,379 @@
+/**
+ * Document Types
+ *
+ * Documents are files uploaded for a checklist item. The file itself lives
+ * in Appwrite Storage; the document record links it to the item.
+ * An item can have several documents (see src/lib/documents.ts for the limits).
+ *
+ * Documents are versioned per slot: uploading a corrected file as a new
+ * version of a document keeps the earlier versions, so nothing the client
+ * once sent disappears. The advisor marks which version is authoritative.
+ *
+ * After upload, a background job extracts the text of each document (PDF
+ * text or local OCR), detects the usual receipt fields in it and checks
+ * invoices for the mandatory elements of § 14 Abs. 4 UStG.
+ */
+
+import { type ChecklistItem } from '@/types/checklist';
+
+/**
+ * Document status enum
+ * - pending: uploaded, not yet checked by the advisor
+ * - accepted: checked and accepted by the advisor
+ * - rejected: checked and rejected - kept as history, the client uploads a new one
+ */
+export type DocumentStatus = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * Why an advisor rejected a document (labels in src/lib/documents.ts)
+ */
+export type DocumentRejectionReason =
+  | 'illegible'
+  | 'wrong_period'
+  | 'incomplete'
+  | 'wrong_document'
+  | 'other';
+
+/**
+ * Text extraction status
+ * - pending: waiting for the extraction job
+ * - processing: claimed by a run of the extraction job
+ * - completed: text extracted (it may be empty, e.g. a blank scan)
+ * - unsupported: no text can be extracted from this file type
+ * - failed: extraction failed repeatedly
+ */
+export type ExtractionStatus = 'pending' | 'processing' | 'completed' | 'unsupported' | 'failed';
+
+/**
+ * Fields detected in the text of a receipt - null if not found
+ */
+export interface ReceiptFields {
+  /**
+   * Receipt or invoice date (YYYY-MM-DD)
+   */
+  receipt_date: string | null;
+
+  /**
+   * Date or first day of the supply or service (YYYY-MM-DD)
+   */
+  receipt_service_date: string | null;
+
+  /**
+   * Net amount in cents
+   */
+  receipt_net_amount: number | null;
+
+  /**
+   * Gross amount in cents
+   */
+  receipt_gross_amount: number | null;
+
+  /**
+   * VAT rate in percent, e.g. 19 or 7 (the first one stated)
+   */
+  receipt_vat_rate: number | null;
+
+  /**
+   * VAT amount in cents, summed over all rates
+   */
+  receipt_vat_amount: number | null;
+
+  /**
+   * IBAN without spaces, checksum verified
+   */
+  receipt_iban: string | null;
+
+  receipt_invoice_number: string | null;
+
+  /**
+   * USt-IdNr. found on the receipt, without spaces
+   */
+  receipt_vat_id: string | null;
+
+  /**
+   * Steuernummer found on the receipt, as printed
+   */
+  receipt_tax_number: string | null;
+}
+
+/**
+ * Mandatory elements of an invoice (§ 14 Abs. 4 UStG, labels in
+ * src/lib/invoice-requirements.ts)
+ */
+export type InvoiceRequirement =
+  | 'addresses'
+  | 'tax_number'
+  | 'invoice_date'
+  | 'invoice_number'
+  | 'service_date'
+  | 'net_amount'
+  | 'vat';
+
+/**
+ * Document interface matching Appwrite collection schema
+ */
+export interface Document {
+  /**
+   * Appwrite Document ID
+   */
+  $id: string;
+
+  /**
+   * Foreign key to tenants collection
+   * Copied from the checklist for data isolation
+   */
+  tenant_id: string;
+
+  /**
+   * Foreign key to organizations collection
+   * Copied from the checklist for data isolation
+   */
+  organization_id: string;
+
+  /**
+   * Foreign key to checklists collection
+   */
+  checklist_id: string;
+
+  /**
+   * Foreign key to checklist_items collection
+   */
+  checklist_item_id: string;
+
+  /**
+   * Foreign key to users collection
+   * The user who uploaded the file
+   */
+  uploaded_by: string;
+
+  /**
+   * Document slot - shared by all versions of a document
+   * (unique index on slot_id + version). Unset for documents uploaded
+   * before versioning, their slot is their own ID.
+   */
+  slot_id?: string;
+
+  /**
+   * Version number within the slot, starting at 1 (unset means 1)
+   */
+  version?: number;
+
+  /**
+   * Whether the advisor marked this version as the one that counts
+   * At most one version per slot.
+   */
+  is_authoritative?: boolean;
+
+  /**
+   * Appwrite Storage file ID
+   */
+  file_id: string;
+
+  /**
+   * Original file name (max 255 characters)
+   */
+  file_name: string;
+
+  /**
+   * File size in bytes
+   */
+  file_size: number;
+
+  /**
+   * MIME type of the file
+   */
+  mime_type: string;
+
+  /**
+   * Document status
+   */
+  status: DocumentStatus;
+
+  /**
+   * Foreign key to users collection - optional
+   * The advisor who checked the document
+   */
+  reviewed_by?: string;
+
+  /**
+   * Time of the check (ISO 8601) - optional
+   */
+  reviewed_at?: string;
+
+  /**
+   * Reason for rejecting the document - only set while rejected
+   */
+  rejection_reason?: DocumentRejectionReason | null;
+
+  /**
+   * Advisor's note to the client (max 500 characters) - optional
+   */
+  review_note?: string | null;
+
+  /**
+   * Text extraction status - unset for documents uploaded before extraction
+   * (treated as pending)
+   */
+  extraction_status?: ExtractionStatus | null;
+
+  /**
+   * Extraction attempts, counted when a run claims the document
+   */
+  extraction_attempts?: number | null;
+
+  /**
+   * Random token of the extraction run that last claimed the document - optional
+   */
+  extraction_claim?: string | null;
+
+  /**
+   * Time of the last claim (ISO 8601) - optional
+   */
+  extraction_claimed_at?: string | null;
+
+  /**
+   * Extracted text (max 100000 characters) - searched by searchDocuments,
+   * which needs a fulltext index on this attribute
+   */
+  extracted_text?: string | null;
+
+  /**
+   * Pages of a PDF, counted by the extraction job - null for other files
+   * and PDFs that cannot be read
+   */
+  page_count?: number | null;
+
+  receipt_date?: ReceiptFields['receipt_date'];
+  receipt_service_date?: ReceiptFields['receipt_service_date'];
+  receipt_net_amount?: ReceiptFields['receipt_net_amount'];
+  receipt_gross_amount?: ReceiptFields['receipt_gross_amount'];
+  receipt_vat_rate?: ReceiptFields['receipt_vat_rate'];
+  receipt_vat_amount?: ReceiptFields['receipt_vat_amount'];
+  receipt_iban?: ReceiptFields['receipt_iban'];
+  receipt_invoice_number?: ReceiptFields['receipt_invoice_number'];
+  receipt_vat_id?: ReceiptFields['receipt_vat_id'];
+  receipt_tax_number?: ReceiptFields['receipt_tax_number'];
+
+  /**
+   * Mandatory invoice elements not found in the text - null if the
+   * document is no invoice or has no text
+   */
+  missing_invoice_requirements?: InvoiceRequirement[] | null;
+
+  /**
+   * Appwrite creation timestamp (ISO 8601)
+   */
+  $createdAt: string;
+
+  /**
+   * Appwrite update timestamp (ISO 8601)
+   */
+  $updatedAt: string;
+}
+
+/**
+ * Type for creating a new document (excludes Appwrite-managed fields)
+ */
+export type CreateDocument = Omit<Document, '$id' | '$createdAt' | '$updatedAt'>;
+
+/**
+ * Input for rejecting a document
+ */
+export interface RejectDocumentInput {
+  $id: string;
+  reason: DocumentRejectionReason;
+  /**
+   * Required for reason "other"
+   */
+  note?: string;
+}
+
+/**
+ * Input for searching the extracted text of documents
+ */
+export interface SearchDocumentsInput {
+  query: string;
+}
+
+/**
+ * A document waiting for review, with what the advisor needs to judge it
+ */
+export interface ReviewQueueEntry {
+  document: Document;
+  organization_name: string;
+  checklist_title: string;
+  item_title: string;
+  /**
+   * Earlier reviewed documents of the same item, newest first
+   */
+  history: Document[];
+}
+
+/**
+ * Oldest documents waiting for review, across all client organizations
+ */
+export interface ReviewQueue {
+  entries: ReviewQueueEntry[];
+  /**
+   * All pending documents, including those not in entries
+   */
+  total: number;
+}
+
+/**
+ * A version of a document with who uploaded it
+ */
+export interface DocumentVersion {
+  document: Document;
+  /**
+   * Name of the uploader - null if the current user cannot see them
+   * (clients do not see the advisors' user records)
+   */
+  uploader_name: string | null;
+}
+
+/**
+ * A checklist item with all versions of its documents
+ */
+export interface ChecklistItemDocuments {
+  item: ChecklistItem;
+  checklist_title: string;
+  /**
+   * Versions per document (newest first), the most recently changed document first
+   */
+  documents: DocumentVersion[][];
+  /**
+   * Whether the current user may upload documents and new versions
+   */
+  can_upload: boolean;
+  /**
+   * Whether the current user may review documents and mark versions authoritative
+   */
+  can_review: boolean;
+}
+
+/**
+ * What the preview pane shows next to a document
+ */
+export interface DocumentPreview {
+  document: Document;
+  /**
+   * Name of the uploader - null if the current user cannot see them
+   */
+  uploader_name: string | null;
+  checklist_title: string;
+  item_title: string;
+  /**
+   * MD5 checksum of the stored file
+   */
+  checksum: string;
+  /**
+   * Pages of a PDF - null for other files, PDFs that cannot be read and
+   * those the extraction job has not read yet
+   */
+  page_count: number | null;
+  /**
+   * Pixel size of an image - null for other files and unknown formats
+   */
+  image_size: { width: number; height: number } | null;
+}
@@ -5,6 +5,9 @@
  * Each tenant (tax advisor) can have:
  * - One organization of type "advisor" (the advisor firm itself)
  * - Multiple organizations of type "client" (their client companies)
+ *
+ * Tax identifiers and bank data are validated on input
+ * (see src/lib/tax-ids.ts and src/lib/iban.ts).
  */
 
 /**
@@ -19,6 +22,27 @@ export type OrganizationType = 'advisor' | 'client';
  */
 export type OrganizationStatus = 'active' | 'inactive';
 
+/**
+ * German federal state (ISO 3166-2:DE code without the "DE-" prefix)
+ */
+export type GermanState =
+  | 'BW'
+  | 'BY'
+  | 'BE'
+  | 'BB'
+  | 'HB'
+  | 'HH'
+  | 'HE'
+  | 'MV'
+  | 'NI'
+  | 'NW'
+  | 'RP'
+  | 'SL'
+  | 'SN'
+  | 'ST'
+  | 'SH'
+  | 'TH';
+
 /**
  * Organization interface matching Appwrite collection schema
  */
@@ -45,10 +69,26 @@ export interface Organization {
   name: string;
 
   /**
-   * German tax ID (Steuernummer) - optional
+   * Federal state of the responsible tax office - optional
+   * Determines the format of the Steuernummer.
+   */
+  state?: GermanState | null;
+
+  /**
+   * German tax ID (Steuernummer) in the state's printed form - optional
    * Max 50 characters
    */
-  tax_id?: string;
+  tax_id?: string | null;
+
+  /**
+   * VAT ID (USt-IdNr.) without spaces, e.g. DE123456789 - optional
+   */
+  vat_id?: string | null;
+
+  /**
+   * Bank account IBAN without spaces - optional
+   */
+  iban?: string | null;
 
   /**
    * Main contact email address
@@ -59,7 +99,7 @@ export interface Organization {
    * Contact phone number - optional
    * Max 20 characters
    */
-  contact_phone?: string;
+  contact_phone?: string | null;
 
   /**
    * Organization status
@@ -82,6 +122,20 @@ export interface Organization {
  */
 export type CreateOrganization = Omit<Organization, '$id' | '$createdAt' | '$updatedAt'>;
 
+/**
+ * Input for creating a client organization - type and status are set by the server
+ * Empty optional fields are stored as null.
+ */
+export type CreateOrganizationInput = Pick<CreateOrganization, 'name' | 'contact_email'> &
+  Partial<Pick<CreateOrganization, 'contact_phone' | 'state' | 'tax_id' | 'vat_id' | 'iban'>>;
+
+/**
+ * Input for updating an organization's details - null clears an optional field
+ */
+export type UpdateOrganizationInput = Partial<CreateOrganizationInput> & {
+  $id: string;
+};
+
 /**
  * Type for updating an organization (all fields optional except ID)
  */
@@ -0,0 +1,174 @@
+/**
+ * Checklist Template Types
+ *
+ * Templates are reusable checklists. Titles and descriptions may contain
+ * placeholders like {{jahr}} or {{mandant}} that are filled in when a
+ * checklist is created from the template.
+ *
+ * Templates are versioned: every edit stores a new version, so checklists
+ * created from an older version keep pointing at what they were built from.
+ */
+
+import { type Checklist } from '@/types/checklist';
+
+/**
+ * Template period - decides the default {{jahr}} / {{monat}}
+ * - yearly: the previous year (e.g. Jahresabschluss)
+ * - monthly: the previous month (e.g. Lohnbuchhaltung)
+ */
+export type ChecklistTemplatePeriod = 'yearly' | 'monthly';
+
+/**
+ * Template status enum
+ */
+export type ChecklistTemplateStatus = 'active' | 'archived';
+
+/**
+ * Item of a template
+ */
+export interface ChecklistTemplateItem {
+  title: string;
+  description?: string;
+  requires_document: boolean;
+}
+
+/**
+ * Template version as stored in the checklist_templates collection
+ */
+export interface ChecklistTemplateRecord {
+  /**
+   * Appwrite Document ID (of this version)
+   */
+  $id: string;
+
+  /**
+   * Foreign key to tenants collection
+   */
+  tenant_id: string;
+
+  /**
+   * Template ID - shared by all versions of a template
+   * (unique index on root_id + version)
+   */
+  root_id: string;
+
+  /**
+   * Version number, starting at 1
+   */
+  version: number;
+
+  /**
+   * Whether this is the current version of the template
+   */
+  is_latest: boolean;
+
+  /**
+   * Template status
+   */
+  status: ChecklistTemplateStatus;
+
+  /**
+   * Template name shown to advisors (max 200 characters)
+   */
+  name: string;
+
+  /**
+   * Title of created checklists, may contain placeholders (max 200 characters)
+   */
+  title: string;
+
+  /**
+   * Description of created checklists, may contain placeholders - optional
+   */
+  description?: string;
+
+  /**
+   * Template period
+   */
+  period: ChecklistTemplatePeriod;
+
+  /**
+   * Items as JSON array of ChecklistTemplateItem
+   */
+  items: string;
+
+  /**
+   * Foreign key to users collection - who saved this version
+   */
+  created_by: string;
+
+  /**
+   * Appwrite creation timestamp (ISO 8601)
+   */
+  $createdAt: string;
+
+  /**
+   * Appwrite update timestamp (ISO 8601)
+   */
+  $updatedAt: string;
+}
+
+/**
+ * Template (version) as used by the application
+ * Built-in templates are defined in code and have no tenant.
+ */
+export interface ChecklistTemplate {
+  id: string;
+  rootId: string;
+  version: number;
+  name: string;
+  title: string;
+  description?: string;
+  period: ChecklistTemplatePeriod;
+  items: ChecklistTemplateItem[];
+  builtIn: boolean;
+  updatedAt?: string;
+}
+
+/**
+ * Input for creating a template
+ */
+export interface CreateChecklistTemplateInput {
+  name: string;
+  title: string;
+  description?: string;
+  period: ChecklistTemplatePeriod;
+  items: ChecklistTemplateItem[];
+}
+
+/**
+ * Input for saving a new version of a template
+ */
+export type UpdateChecklistTemplateInput = CreateChecklistTemplateInput & {
+  /**
+   * ID of the version that was edited - saving fails if it is no longer the latest
+   */
+  $id: string;
+};
+
+/**
+ * Input for creating checklists from a template
+ */
+export interface InstantiateTemplateInput {
+  templateId: string;
+  organizationIds: string[];
+  /**
+   * Values for {{jahr}} / {{monat}} - default depends on the template period
+   */
+  year?: number;
+  month?: number;
+  due_date?: string;
+  /**
+   * Activate the checklists right away (notifies the clients)
+   */
+  activate?: boolean;
+}
+
+/**
+ * Result of creating checklists from a template
+ * Organizations are processed independently, so some may fail.
+ */
+export interface InstantiateTemplateResult {
+  created: Checklist[];
+  failed: { organization_id: string; error: string }[];
+}
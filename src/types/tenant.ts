@@ -17,6 +17,8 @@ export interface Tenant {
   name: string;
   ownerEmail: string;
   branding?: TenantBranding;
+  customDomains?: string[]; // Verified custom domains, e.g. portal.kanzlei-mueller.de
+  storageQuotaBytes?: number; // Document storage limit, overrides the default quota
   status: TenantStatus;
   createdAt: string;
   updatedAt: string;
@@ -25,6 +27,8 @@ export interface Tenant {
 export interface CreateTenantInput {
   subdomain: string;
   name: string;
+  ownerFirstName: string;
+  ownerLastName: string;
   ownerEmail: string;
   ownerPassword: string;
 }
@@ -34,3 +38,16 @@ export interface UpdateTenantBrandingInput {
   primaryColor?: string;
   secondaryColor?: string;
 }
+
+export interface CustomDomainVerification {
+  domain: string;
+  recordName: string; // TXT record host, e.g. _belegboost.portal.kanzlei-mueller.de
+  recordValue: string; // Expected TXT record content
+}
+
+export interface SubdomainAvailability {
+  subdomain: string;
+  available: boolean;
+  reason?: string; // Why the subdomain cannot be used
+  suggestions: string[]; // Available alternatives
+}
@@ -0,0 +1,117 @@
+/**
+ * Upload Session Types
+ *
+ * Large documents are uploaded by the browser in chunks, which the server
+ * passes on to Appwrite Storage. An upload session records what the server
+ * allowed to be uploaded, so every chunk and the finished file can be
+ * checked against it and abandoned uploads can be cleaned up.
+ */
+
+/**
+ * Upload session status enum
+ * - uploading: chunks are being uploaded (or the upload is paused)
+ * - completed: the file was checked and a document created
+ * - failed: the file was rejected or the upload cancelled; the file is deleted
+ */
+export type UploadSessionStatus = 'uploading' | 'completed' | 'failed';
+
+/**
+ * Upload session interface matching Appwrite collection schema
+ */
+export interface UploadSession {
+  /**
+   * Appwrite Document ID
+   */
+  $id: string;
+
+  /**
+   * Foreign key to tenants collection
+   */
+  tenant_id: string;
+
+  /**
+   * Foreign key to organizations collection
+   * Copied from the checklist item for data isolation
+   */
+  organization_id: string;
+
+  /**
+   * Foreign key to checklist_items collection
+   */
+  checklist_item_id: string;
+
+  /**
+   * Foreign key to users collection
+   * The user who uploads the file
+   */
+  uploaded_by: string;
+
+  /**
+   * Appwrite Storage file ID the chunks are stored under
+   */
+  file_id: string;
+
+  /**
+   * Announced file name, size in bytes and MIME type
+   */
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+
+  /**
+   * Slot the file is uploaded to as a new version - optional
+   * (see src/types/document.ts)
+   */
+  slot_id?: string;
+
+  /**
+   * Upload session status
+   */
+  status: UploadSessionStatus;
+
+  /**
+   * Unfinished uploads are deleted after this time (ISO 8601)
+   */
+  expires_at: string;
+
+  /**
+   * Appwrite creation timestamp (ISO 8601)
+   */
+  $createdAt: string;
+
+  /**
+   * Appwrite update timestamp (ISO 8601)
+   */
+  $updatedAt: string;
+}
+
+/**
+ * Input for starting (or resuming) a chunked upload
+ */
+export interface StartUploadInput {
+  checklist_item_id: string;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  /**
+   * ID of an earlier session for the same file - resumes it if still open
+   */
+  session_id?: string;
+  /**
+   * Document the file is a new version of - optional
+   */
+  replaces_document_id?: string;
+}
+
+/**
+ * What the browser needs to upload the chunks
+ */
+export interface UploadTicket {
+  sessionId: string;
+  chunkCount: number;
+  /**
+   * Chunks Appwrite already has - the upload continues after these
+   */
+  chunksUploaded: number;
+  expiresAt: string;
+}
@@ -112,6 +112,7 @@ export type UpdateUser = Partial<Omit<User, '$id' | '$createdAt' | '$updatedAt'>
  */
 export interface TenantContext {
   tenantId: string;
+  teamId: string; // Appwrite team of the tenant (for document permissions)
   userId: string;
   organizationId: string;
   role: UserRole;
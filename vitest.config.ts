@@ -0,0 +1,23 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    setupFiles: ["src/test/setup.ts"],
+    // Placeholders - the Appwrite services are replaced by the in-memory fake
+    env: {
+      NEXT_PUBLIC_APPWRITE_ENDPOINT: "https://appwrite.test/v1",
+      NEXT_PUBLIC_APPWRITE_PROJECT_ID: "belegboost-test",
+      APPWRITE_API_KEY: "test-key",
+      MALWARE_SCANNER: "fake",
+      DOMAIN_VERIFICATION_SECRET: "test-secret",
+    },
+  },
+});